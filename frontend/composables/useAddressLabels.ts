@@ -1,50 +1,226 @@
 import type { AddressLabelDto } from './useApi'
+import {
+  chunkAddresses,
+  deleteCachedLabels,
+  isFreshLabel,
+  labelCacheSupported,
+  loadLabelCache,
+  LABEL_CACHE_FORMAT_VERSION,
+  pruneCachedLabels,
+  putCachedLabels,
+  putLabelCacheMeta,
+  resetLabelCache,
+  toCachedLabels,
+} from '~/utils/labelCache'
+import {
+  clearPrivateLabels,
+  createPrivateLabel,
+  deletePrivateLabel,
+  loadPrivateLabels,
+  parsePrivateLabelsCsv,
+  parsePrivateLabelsJson,
+  privateLabelsSupported,
+  privateLabelsToCsv,
+  privateLabelsToJson,
+  putPrivateLabels,
+  resolveLabel,
+  type LabelPrecedence,
+  type PrivateLabel,
+  type PrivateLabelType,
+  type ResolvedLabel,
+} from '~/utils/privateLabels'
 
-// Global cache for address labels
+type Api = ReturnType<typeof useApi>
+
+// Global cache for server labels, persisted in IndexedDB (utils/labelCache.ts)
 const labelCache = reactive(new Map<string, AddressLabelDto>())
-const pendingRequests = new Map<string, Promise<AddressLabelDto[]>>()
+// When each cached label was fetched; 0 marks it stale but still shown
+const fetchedAt = new Map<string, number>()
+// Addresses asked for since the page loaded, refetched when the label set changes
+const requested = new Set<string>()
+// Batches on their way to the server, by address
+const inflight = new Map<string, Promise<void>>()
+// Addresses collected during the current animation frame
+let queued = new Set<string>()
+let queuedFlush: Promise<void> | null = null
 
-export const useAddressLabels = () => {
-  const api = useApi()
+let labelSetVersion: string | null = null
+let persistent = false
+let hydration: Promise<void> | null = null
+let lastVersionCheck = 0
+const VERSION_CHECK_INTERVAL_MS = 5 * 60 * 1000
 
-  // Reactive version - returns the label or undefined, triggers reactivity
-  const getLabel = (address: string): AddressLabelDto | undefined => {
-    return labelCache.get(address)
+function initLabelCache(api: Api) {
+  if (hydration || typeof window === 'undefined') return
+  persistent = labelCacheSupported()
+  hydration = persistent ? hydrateLabelCache() : Promise.resolve()
+  hydration.then(() => checkLabelVersion(api))
+
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible' && Date.now() - lastVersionCheck > VERSION_CHECK_INTERVAL_MS) {
+      checkLabelVersion(api)
+    }
+  })
+}
+
+async function hydrateLabelCache() {
+  try {
+    const { meta, entries } = await loadLabelCache()
+    if (meta?.formatVersion !== LABEL_CACHE_FORMAT_VERSION) {
+      await resetLabelCache(null)
+      return
+    }
+    labelSetVersion = meta.labelSetVersion
+
+    const { keep, drop } = pruneCachedLabels(entries, Date.now())
+    for (const entry of keep) {
+      labelCache.set(entry.address, entry.label)
+      fetchedAt.set(entry.address, entry.fetchedAt)
+    }
+    deleteCachedLabels(drop).catch(err => console.warn('Failed to prune label cache:', err))
+  } catch (err) {
+    persistent = false
+    console.warn('Label cache unavailable:', err)
   }
+}
 
-  // Fetch labels for a list of addresses (with deduplication and caching)
-  const fetchLabels = async (addresses: string[]): Promise<void> => {
-    // Filter out empty and already cached addresses
-    const uncached = addresses.filter(addr => addr && !labelCache.has(addr))
+/**
+ * Compare the server's label-set version with the cached one. On a change
+ * the stored labels are dropped and the addresses on screen are refetched;
+ * their old labels stay visible until the new ones arrive.
+ */
+async function checkLabelVersion(api: Api) {
+  lastVersionCheck = Date.now()
+  let version: string | null
+  try {
+    version = (await api.getLabelVersion()).version
+  } catch {
+    return // Offline or unreachable: the TTLs still apply
+  }
+  if (!version || version === labelSetVersion) return
 
-    if (uncached.length === 0) return
+  const previous = labelSetVersion
+  labelSetVersion = version
+  if (previous === null) {
+    // First check for this cache: its labels were just fetched
+    if (persistent) putLabelCacheMeta(version).catch(err => console.warn('Failed to store label cache version:', err))
+    return
+  }
 
-    // Batch into chunks of 100 (API limit)
-    const chunks: string[][] = []
-    for (let i = 0; i < uncached.length; i += 100) {
-      chunks.push(uncached.slice(i, i + 100))
+  for (const address of [...labelCache.keys()]) {
+    if (requested.has(address)) {
+      fetchedAt.set(address, 0)
+    } else {
+      labelCache.delete(address)
+      fetchedAt.delete(address)
     }
+  }
+  if (persistent) resetLabelCache(version).catch(err => console.warn('Failed to reset label cache:', err))
+
+  const stale = [...requested].filter(address => !inflight.has(address))
+  await Promise.all(stale.map(address => enqueueLabel(address, api))).catch(() => {})
+}
+
+function nextFrame(callback: () => void) {
+  // Hidden tabs do not run animation frames
+  if (typeof requestAnimationFrame === 'function' && document.visibilityState === 'visible') {
+    requestAnimationFrame(() => callback())
+  } else {
+    setTimeout(callback, 0)
+  }
+}
+
+/** Queue an address for the batch sent at the next animation frame */
+function enqueueLabel(address: string, api: Api): Promise<void> {
+  queued.add(address)
+  if (!queuedFlush) {
+    queuedFlush = new Promise<void>(resolve => nextFrame(resolve)).then(() => flushLabels(api))
+  }
+  return queuedFlush
+}
+
+async function flushLabels(api: Api) {
+  const addresses = [...queued]
+  queued = new Set()
+  queuedFlush = null
 
-    for (const chunk of chunks) {
-      const cacheKey = chunk.sort().join(',')
-      let promise = pendingRequests.get(cacheKey)
-
-      if (!promise) {
-        promise = api.getAddressLabels(chunk)
-        pendingRequests.set(cacheKey, promise)
-
-        try {
-          const labels = await promise
-          for (const label of labels) {
-            labelCache.set(label.address, label)
-          }
-        } finally {
-          pendingRequests.delete(cacheKey)
+  await Promise.all(chunkAddresses(addresses).map((chunk) => {
+    const request = api.getAddressLabels(chunk)
+      .then((labels) => {
+        const entries = toCachedLabels(chunk, labels, Date.now())
+        for (const entry of entries) {
+          labelCache.set(entry.address, entry.label)
+          fetchedAt.set(entry.address, entry.fetchedAt)
         }
-      } else {
-        await promise
+        if (persistent) putCachedLabels(entries).catch(err => console.warn('Failed to store labels:', err))
+      })
+      .finally(() => {
+        for (const address of chunk) {
+          if (inflight.get(address) === request) inflight.delete(address)
+        }
+      })
+    for (const address of chunk) inflight.set(address, request)
+    return request
+  }))
+}
+
+// The user's own labels (IndexedDB), layered over the server labels
+const privateLabels = reactive(new Map<string, PrivateLabel>())
+const PRECEDENCE_KEY = 'qli-label-precedence'
+const precedence = ref<LabelPrecedence>('private')
+let privateInitialized = false
+
+function initPrivateLabels() {
+  if (privateInitialized || typeof window === 'undefined' || !privateLabelsSupported()) return
+  privateInitialized = true
+
+  if (localStorage.getItem(PRECEDENCE_KEY) === 'server') precedence.value = 'server'
+
+  loadPrivateLabels()
+    .then((stored) => {
+      for (const label of stored) {
+        // Keep edits made while loading
+        if (!privateLabels.has(label.address)) privateLabels.set(label.address, label)
       }
+    })
+    .catch(err => console.warn('Private labels unavailable:', err))
+}
+
+function storePrivateLabels(labels: PrivateLabel[]) {
+  // IndexedDB cannot clone reactive proxies
+  putPrivateLabels(labels.map(label => ({ ...toRaw(label) })))
+    .catch(err => console.warn('Failed to store private labels:', err))
+}
+
+export const useAddressLabels = () => {
+  const api = useApi({ routeScoped: false })
+  initLabelCache(api)
+  initPrivateLabels()
+
+  // Reactive version - returns the label or undefined, triggers reactivity.
+  // Private labels are merged in according to the precedence setting.
+  const getLabel = (address: string): ResolvedLabel | undefined => {
+    return resolveLabel(address, labelCache.get(address), privateLabels.get(address), precedence.value)
+  }
+
+  // Fetch labels for a list of addresses. Cached labels within their TTL are
+  // used as they are; the rest are collected from every caller during one
+  // animation frame and fetched in batches of 100.
+  const fetchLabels = async (addresses: string[]): Promise<void> => {
+    if (hydration) await hydration
+
+    const now = Date.now()
+    const waits = new Set<Promise<void>>()
+    for (const address of addresses) {
+      if (!address) continue
+      requested.add(address)
+
+      const cached = labelCache.get(address)
+      if (cached && isFreshLabel(cached, fetchedAt.get(address) ?? 0, now)) continue
+
+      waits.add(inflight.get(address) ?? enqueueLabel(address, api))
     }
+    await Promise.all(waits)
   }
 
   // Helper to extract all addresses from transactions
@@ -58,7 +234,7 @@ export const useAddressLabels = () => {
   }
 
   // Helper to extract all addresses from transfers/logs
-  const fetchLabelsForTransfers = async (transfers: { sourceAddress?: string; destAddress?: string }[]) => {
+  const fetchLabelsForTransfers = async (transfers: { sourceAddress?: string | null; destAddress?: string | null }[]) => {
     const addresses = new Set<string>()
     for (const t of transfers) {
       if (t.sourceAddress) addresses.add(t.sourceAddress)
@@ -68,7 +244,7 @@ export const useAddressLabels = () => {
   }
 
   const formatAddress = (address: string, short = true): string => {
-    const label = labelCache.get(address)
+    const label = getLabel(address)
     if (label?.label) {
       return label.label
     }
@@ -79,19 +255,23 @@ export const useAddressLabels = () => {
   }
 
   const getAddressType = (address: string): string => {
-    return labelCache.get(address)?.type ?? 'unknown'
+    return getLabel(address)?.type ?? 'unknown'
   }
 
   const isExchange = (address: string): boolean => {
-    return labelCache.get(address)?.type === 'exchange'
+    return getAddressType(address) === 'exchange'
   }
 
   const isSmartContract = (address: string): boolean => {
-    return labelCache.get(address)?.type === 'smartcontract'
+    return getAddressType(address) === 'smartcontract'
   }
 
   const isBurn = (address: string): boolean => {
-    return labelCache.get(address)?.type === 'burn'
+    return getAddressType(address) === 'burn'
+  }
+
+  const isPrivateLabel = (address: string): boolean => {
+    return getLabel(address)?.source === 'private'
   }
 
   const getTypeIcon = (address: string): string => {
@@ -105,6 +285,12 @@ export const useAddressLabels = () => {
         return '🪙'
       case 'burn':
         return '🔥'
+      case 'otc':
+        return '🤝'
+      case 'miningpool':
+        return '⛏️'
+      case 'scam':
+        return '⚠️'
       default:
         return ''
     }
@@ -121,11 +307,72 @@ export const useAddressLabels = () => {
         return 'badge-token'
       case 'burn':
         return 'badge-burn'
+      case 'otc':
+        return 'badge-otc'
+      case 'miningpool':
+        return 'badge-pool'
+      case 'scam':
+        return 'badge-scam'
       default:
         return ''
     }
   }
 
+  // ── Private labels ──
+
+  /** The server label alone, whatever the precedence */
+  const getServerLabel = (address: string): AddressLabelDto | undefined => {
+    return labelCache.get(address)
+  }
+
+  const getPrivateLabel = (address: string): PrivateLabel | undefined => {
+    return privateLabels.get(address)
+  }
+
+  const savePrivateLabel = (address: string, label: string, type: PrivateLabelType = 'known', notes?: string) => {
+    if (!label.trim()) {
+      removePrivateLabel(address)
+      return
+    }
+    const saved = createPrivateLabel(address, label, type, notes)
+    privateLabels.set(address, saved)
+    storePrivateLabels([saved])
+  }
+
+  const removePrivateLabel = (address: string) => {
+    if (!privateLabels.delete(address)) return
+    deletePrivateLabel(address).catch(err => console.warn('Failed to delete private label:', err))
+  }
+
+  const clearAllPrivateLabels = () => {
+    privateLabels.clear()
+    clearPrivateLabels().catch(err => console.warn('Failed to clear private labels:', err))
+  }
+
+  const setPrecedence = (value: LabelPrecedence) => {
+    precedence.value = value
+    localStorage.setItem(PRECEDENCE_KEY, value)
+  }
+
+  /**
+   * Import labels from a JSON or CSV export; imported labels replace existing
+   * ones for the same address. Throws PrivateLabelImportError on bad input.
+   */
+  const importPrivateLabels = (text: string, format: 'json' | 'csv'): number => {
+    const labels = format === 'json' ? parsePrivateLabelsJson(text) : parsePrivateLabelsCsv(text)
+    for (const label of labels) privateLabels.set(label.address, label)
+    storePrivateLabels(labels)
+    return labels.length
+  }
+
+  const exportPrivateLabels = (format: 'json' | 'csv'): string => {
+    const labels = [...privateLabels.values()].sort((a, b) => a.label.localeCompare(b.label))
+    return format === 'json' ? privateLabelsToJson(labels) : privateLabelsToCsv(labels)
+  }
+
+  const privateLabelList = computed(() =>
+    [...privateLabels.values()].sort((a, b) => a.label.localeCompare(b.label)))
+
   return {
     getLabel,
     fetchLabels,
@@ -138,5 +385,16 @@ export const useAddressLabels = () => {
     isBurn,
     getTypeIcon,
     getTypeBadgeClass,
+    isPrivateLabel,
+    privateLabels: privateLabelList,
+    precedence: readonly(precedence),
+    getServerLabel,
+    getPrivateLabel,
+    savePrivateLabel,
+    removePrivateLabel,
+    clearAllPrivateLabels,
+    setPrecedence,
+    importPrivateLabels,
+    exportPrivateLabels,
   }
 }
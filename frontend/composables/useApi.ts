@@ -1,4 +1,40 @@
-export const useApi = () => {
+import {
+  createApiClient,
+  DEFAULT_RETRY,
+  type ApiRequest,
+  type ApiRequestOptions,
+} from '~/utils/apiClient'
+import {
+  apiPaths,
+  createApiEndpoints,
+  type CreateCustomFlowRequest,
+  type EpochMetaRequest,
+  type ExportAddressDataParams,
+  type GetActiveAddressTrendsParams,
+  type GetAddressTransactionsParams,
+  type GetAddressTransfersParams,
+  type GetAvgTxSizeTrendsParams,
+  type GetExchangeSendersParams,
+  type GetTickLogsParams,
+  type GetTransactionsParams,
+  type GetTransfersParams,
+  type LabelProposalDto,
+  type LabelProposalRequest,
+  type PortfolioSyncDto,
+  type PushSubscribeRequest,
+  type SimulateComputorRevenueParams,
+  type WebhookTargetDto,
+} from '~/utils/api/generated'
+
+// One client per app so in-flight GETs are shared between components
+let client: ApiRequest | null = null
+
+/**
+ * Typed API access.
+ * Requests are cancelled when the user navigates to another page; shared
+ * caches that outlive a page pass `{ routeScoped: false }`.
+ */
+export const useApi = (scope: { routeScoped?: boolean } = {}) => {
   const config = useRuntimeConfig()
 
   // Use server-side URL during SSR, client-side URL in browser
@@ -11,455 +47,385 @@ export const useApi = () => {
     return config.public.apiUrl || ''
   }
 
-  const fetchApi = async <T>(
-    endpoint: string,
-    options: RequestInit = {}
-  ): Promise<T> => {
-    const baseUrl = getBaseUrl()
-    const response = await fetch(`${baseUrl}${endpoint}`, {
-      ...options,
-      headers: {
-        'Content-Type': 'application/json',
-        ...options.headers,
-      },
+  if (!client) {
+    client = createApiClient({
+      baseUrl: getBaseUrl,
+      timeoutMs: Number(config.public.apiTimeoutMs) || 0,
+      retry: { ...DEFAULT_RETRY, attempts: Number(config.public.apiRetryAttempts) || 0 },
+      // SSR requests of different visitors must not share responses
+      dedupe: !import.meta.server,
     })
+  }
+  const request = client
 
-    if (!response.ok) {
-      throw new Error(`API error: ${response.status}`)
-    }
+  const fetchApi = <T>(endpoint: string, options: ApiRequestOptions = {}): Promise<T> =>
+    request<T>(endpoint, { routeScoped: scope.routeScoped, ...options })
 
-    return response.json()
-  }
+  // Endpoint functions generated from openapi.yaml (npm run api:generate)
+  const endpoints = createApiEndpoints(fetchApi)
+
+  type TransactionFilters = Omit<GetTransactionsParams, 'page' | 'limit'>
 
   // Ticks
   const getTicks = (page = 1, limit = 20) =>
-    fetchApi<PaginatedResponse<TickDto>>(`/api/ticks?page=${page}&limit=${limit}`)
+    endpoints.getTicks({ page, limit })
+
+  const getEmptyTicks = (from: number, to: number) =>
+    endpoints.getEmptyTicks({ from, to })
 
   const getTick = (tickNumber: number) =>
-    fetchApi<TickDetailDto>(`/api/ticks/${tickNumber}`)
-
-  const getTickTransactions = (tickNumber: number, page = 1, limit = 20, options?: {
-    address?: string
-    direction?: 'from' | 'to'
-    minAmount?: number
-    executed?: boolean
-    inputType?: number
-    toAddress?: string
-    coreOnly?: boolean
-  }) => {
-    const params = new URLSearchParams({ page: String(page), limit: String(limit) })
-    if (options?.address) params.set('address', options.address)
-    if (options?.direction) params.set('direction', options.direction)
-    if (options?.minAmount !== undefined) params.set('minAmount', String(options.minAmount))
-    if (options?.executed !== undefined) params.set('executed', String(options.executed))
-    if (options?.inputType !== undefined) params.set('inputType', String(options.inputType))
-    if (options?.toAddress) params.set('toAddress', options.toAddress)
-    if (options?.coreOnly) params.set('coreOnly', 'true')
-    return fetchApi<PaginatedResponse<TransactionDto>>(`/api/ticks/${tickNumber}/transactions?${params}`)
-  }
+    endpoints.getTick({ tickNumber })
 
-  const getTickLogs = (tickNumber: number, page = 1, limit = 20, options?: {
-    fromAddress?: string
-    toAddress?: string
-    type?: number
-    minAmount?: number
-  }) => {
-    const params = new URLSearchParams({ page: String(page), limit: String(limit) })
-    if (options?.fromAddress) params.set('fromAddress', options.fromAddress)
-    if (options?.toAddress) params.set('toAddress', options.toAddress)
-    if (options?.type !== undefined) params.set('type', String(options.type))
-    if (options?.minAmount !== undefined) params.set('minAmount', String(options.minAmount))
-    return fetchApi<PaginatedResponse<TransferDto>>(`/api/ticks/${tickNumber}/logs?${params}`)
-  }
+  const getTickTransactions = (tickNumber: number, page = 1, limit = 20, options?: TransactionFilters) =>
+    endpoints.getTickTransactions({ tickNumber, page, limit, ...options })
+
+  const getTickLogs = (tickNumber: number, page = 1, limit = 20, options?: Omit<GetTickLogsParams, 'tickNumber' | 'page' | 'limit'>) =>
+    endpoints.getTickLogs({ tickNumber, page, limit, ...options })
 
   // Transactions
-  const getTransactions = (page = 1, limit = 20, options?: {
-    address?: string
-    direction?: 'from' | 'to'
-    minAmount?: number
-    executed?: boolean
-    inputType?: number
-    toAddress?: string
-    coreOnly?: boolean
-  }) => {
-    const params = new URLSearchParams({ page: String(page), limit: String(limit) })
-    if (options?.address) params.set('address', options.address)
-    if (options?.direction) params.set('direction', options.direction)
-    if (options?.minAmount !== undefined) params.set('minAmount', String(options.minAmount))
-    if (options?.executed !== undefined) params.set('executed', String(options.executed))
-    if (options?.inputType !== undefined) params.set('inputType', String(options.inputType))
-    if (options?.toAddress) params.set('toAddress', options.toAddress)
-    if (options?.coreOnly) params.set('coreOnly', 'true')
-    return fetchApi<PaginatedResponse<TransactionDto>>(`/api/transactions?${params}`)
-  }
+  const getTransactions = (page = 1, limit = 20, options?: TransactionFilters) =>
+    endpoints.getTransactions({ page, limit, ...options })
 
   const getTransaction = (hash: string) =>
-    fetchApi<TransactionDetailDto | SpecialTransactionDto>(`/api/transactions/${hash}`)
+    endpoints.getTransaction({ hash })
 
   // Transfers
-  const getTransfers = (page = 1, limit = 20, options?: {
-    fromAddress?: string
-    toAddress?: string
-    type?: number
-    types?: number[]
-    minAmount?: number
-  }) => {
-    const params = new URLSearchParams({ page: String(page), limit: String(limit) })
-    if (options?.fromAddress) params.set('fromAddress', options.fromAddress)
-    if (options?.toAddress) params.set('toAddress', options.toAddress)
-    if (options?.type !== undefined) params.set('type', String(options.type))
-    if (options?.types && options.types.length > 0) params.set('types', options.types.join(','))
-    if (options?.minAmount !== undefined) params.set('minAmount', String(options.minAmount))
-    return fetchApi<PaginatedResponse<TransferDto>>(`/api/transfers?${params}`)
-  }
+  const getTransfers = (page = 1, limit = 20, options?: Omit<GetTransfersParams, 'page' | 'limit'>) =>
+    endpoints.getTransfers({ page, limit, ...options })
 
   // Address
   const getAddress = (address: string) =>
-    fetchApi<AddressDto>(`/api/address/${address}`)
-
-  const getAddressTransactions = (address: string, page = 1, limit = 20, options?: {
-    direction?: 'from' | 'to'
-    minAmount?: number
-    executed?: boolean
-  }) => {
-    const params = new URLSearchParams({ page: String(page), limit: String(limit) })
-    if (options?.direction) params.set('direction', options.direction)
-    if (options?.minAmount !== undefined) params.set('minAmount', String(options.minAmount))
-    if (options?.executed !== undefined) params.set('executed', String(options.executed))
-    return fetchApi<PaginatedResponse<TransactionDto>>(`/api/address/${address}/transactions?${params}`)
-  }
+    endpoints.getAddress({ address })
 
-  const getAddressTransfers = (address: string, page = 1, limit = 20, options?: {
-    fromAddress?: string
-    toAddress?: string
-    type?: number
-    minAmount?: number
-  }) => {
-    const params = new URLSearchParams({ page: String(page), limit: String(limit) })
-    if (options?.fromAddress) params.set('fromAddress', options.fromAddress)
-    if (options?.toAddress) params.set('toAddress', options.toAddress)
-    if (options?.type !== undefined) params.set('type', String(options.type))
-    if (options?.minAmount !== undefined) params.set('minAmount', String(options.minAmount))
-    return fetchApi<PaginatedResponse<TransferDto>>(`/api/address/${address}/transfers?${params}`)
-  }
+  const getAddressTransactions = (address: string, page = 1, limit = 20, options?: Omit<GetAddressTransactionsParams, 'address' | 'page' | 'limit'>) =>
+    endpoints.getAddressTransactions({ address, page, limit, ...options })
+
+  const getAddressTransfers = (address: string, page = 1, limit = 20, options?: Omit<GetAddressTransfersParams, 'address' | 'page' | 'limit'>) =>
+    endpoints.getAddressTransfers({ address, page, limit, ...options })
 
   // Search
-  const search = (query: string) =>
-    fetchApi<SearchResponse>(`/api/search?q=${encodeURIComponent(query)}`)
+  const search = (query: string, limit?: number) =>
+    endpoints.search({ q: query, limit })
 
   // Stats
   const getStats = () =>
-    fetchApi<NetworkStatsDto>('/api/stats')
+    endpoints.getStats()
 
   const getTxVolumeChart = (period: 'day' | 'week' | 'month' = 'week') =>
-    fetchApi<ChartDataPointDto[]>(`/api/stats/chart/tx-volume?period=${period}`)
+    endpoints.getTxVolumeChart({ period })
 
   // Epochs
   const getEpochs = (limit = 50) =>
-    fetchApi<EpochSummaryDto[]>(`/api/epoch?limit=${limit}`)
+    endpoints.getEpochs({ limit })
 
   const getEpoch = (epoch: number) =>
-    fetchApi<EpochStatsDto>(`/api/epoch/${epoch}`)
+    endpoints.getEpoch({ epoch })
 
   const getEpochTransfersByType = (epoch: number) =>
-    fetchApi<EpochTransferByTypeDto[]>(`/api/epoch/${epoch}/transfers-by-type`)
+    endpoints.getEpochTransfersByType({ epoch })
 
   const getEpochRewards = (epoch: number) =>
-    fetchApi<EpochRewardSummaryDto>(`/api/epoch/${epoch}/rewards`)
+    endpoints.getEpochRewards({ epoch })
 
   const getEpochEmptyTicks = (epoch: number) =>
-    fetchApi<EpochEmptyTickStatsDto>(`/api/epoch/${epoch}/empty-ticks`)
+    endpoints.getEpochEmptyTicks({ epoch })
 
   // Epoch Metadata
   const getEpochMeta = (epoch: number) =>
-    fetchApi<EpochMetaDto>(`/api/epoch/${epoch}/meta`)
+    endpoints.getEpochMeta({ epoch })
 
   const getAllEpochMeta = (limit = 100) =>
-    fetchApi<EpochMetaDto[]>(`/api/epoch/meta?limit=${limit}`)
+    endpoints.getAllEpochMeta({ limit })
 
   const getCurrentEpochMeta = () =>
-    fetchApi<EpochMetaDto>(`/api/epoch/meta/current`)
-
-  const upsertEpochMeta = (epoch: number, data: {
-    initialTick: number
-    endTick?: number
-    endTickStartLogId?: number
-    endTickEndLogId?: number
-  }) =>
-    fetchApi<{ success: boolean; epoch: number }>(`/api/epoch/${epoch}/meta`, {
-      method: 'POST',
-      body: JSON.stringify(data),
-    })
+    endpoints.getCurrentEpochMeta()
+
+  const upsertEpochMeta = (epoch: number, data: EpochMetaRequest) =>
+    endpoints.upsertEpochMeta({ epoch, body: data })
 
   // Address Rewards
   const getAddressRewards = (address: string, page = 1, limit = 20) =>
-    fetchApi<ContractRewardHistoryDto>(`/api/address/${address}/rewards?page=${page}&limit=${limit}`)
+    endpoints.getAddressRewards({ address, page, limit })
 
   // Address Labels
   const getAddressLabel = (address: string) =>
-    fetchApi<AddressLabelDto>(`/api/labels/${address}`)
+    endpoints.getAddressLabel({ address })
 
   const getAddressLabels = (addresses: string[]) =>
-    fetchApi<AddressLabelDto[]>(`/api/labels/batch`, {
-      method: 'POST',
-      body: JSON.stringify(addresses),
-    })
+    endpoints.getAddressLabels({ body: addresses })
 
-  const getAllKnownAddresses = (type?: string) => {
-    const params = type ? `?type=${type}` : ''
-    return fetchApi<KnownAddressDto[]>(`/api/labels${params}`)
-  }
+  const getAllKnownAddresses = (type?: string) =>
+    endpoints.getAllKnownAddresses({ type })
 
   const getLabelStats = () =>
-    fetchApi<LabelStatsDto>('/api/labels/stats')
+    endpoints.getLabelStats()
+
+  const getLabelVersion = () =>
+    endpoints.getLabelVersion()
+
+  // Address entities (clustered from transfer patterns)
+  const getEntity = (id: string) =>
+    endpoints.getEntity({ id })
+
+  // Community labels
+  const submitLabelProposal = (proposal: LabelProposalRequest) =>
+    endpoints.submitLabelProposal({ body: proposal })
+
+  const getLabelChanges = (address?: string, page = 1, limit = 50) =>
+    endpoints.getLabelChanges({ address, page, limit })
+
+  // Label moderation (keyed by the admin API key)
+  const adminKeyHeader = (apiKey: string): ApiRequestOptions => ({ headers: { 'X-Api-Key': apiKey } })
+
+  const getLabelProposals = (apiKey: string, status: LabelProposalDto['status'] = 'pending', page = 1, limit = 50) =>
+    endpoints.getLabelProposals({ status, page, limit }, adminKeyHeader(apiKey))
+
+  const approveLabelProposal = (apiKey: string, id: string, note?: string) =>
+    endpoints.approveLabelProposal({ id, body: { note: note || null } }, adminKeyHeader(apiKey))
+
+  const rejectLabelProposal = (apiKey: string, id: string, note?: string) =>
+    endpoints.rejectLabelProposal({ id, body: { note: note || null } }, adminKeyHeader(apiKey))
+
+  const revokeCommunityLabel = (apiKey: string, address: string, note?: string) =>
+    endpoints.revokeCommunityLabel({ address, note }, adminKeyHeader(apiKey))
 
   const getProcedureName = (contractAddress: string, inputType: number) =>
-    fetchApi<ProcedureLookupDto>(`/api/labels/procedure/${contractAddress}/${inputType}`)
+    endpoints.getProcedureName({ contractAddress, inputType })
 
   // Analytics
-  const getTopAddresses = (limit = 20, epoch?: number) => {
-    const params = new URLSearchParams({ limit: String(limit) })
-    if (epoch !== undefined) params.set('epoch', String(epoch))
-    return fetchApi<TopAddressDto[]>(`/api/stats/top-addresses?${params}`)
-  }
+  const getTopAddresses = (limit = 20, epoch?: number) =>
+    endpoints.getTopAddresses({ limit, epoch })
 
-  const getSmartContractUsage = (epoch?: number) => {
-    const params = epoch !== undefined ? `?epoch=${epoch}` : ''
-    return fetchApi<SmartContractUsageDto[]>(`/api/stats/smart-contract-usage${params}`)
-  }
+  const getSmartContractUsage = (epoch?: number) =>
+    endpoints.getSmartContractUsage({ epoch })
 
   const getAddressActivityRange = (address: string) =>
-    fetchApi<AddressActivityRangeDto>(`/api/address/${address}/activity-range`)
+    endpoints.getAddressActivityRange({ address })
 
-  const getAddressLedger = (address: string, epoch?: number) => {
-    const params = epoch ? `?epoch=${epoch}` : ''
-    return fetchApi<AddressLedgerDto>(`/api/address/${address}/ledger${params}`)
-  }
+  const getAddressLedger = (address: string, epoch?: number) =>
+    endpoints.getAddressLedger({ address, epoch: epoch || undefined })
 
   const getAddressFlow = (address: string, limit = 10) =>
-    fetchApi<AddressFlowDto>(`/api/address/${address}/flow?limit=${limit}`)
+    endpoints.getAddressFlow({ address, limit })
 
   // Contract reserve (QU balance) history — populated by analytics snapshots.
   const getContractReserveHistory = (address: string, days = 7) =>
-    fetchApi<ContractReserveHistoryDto>(`/api/address/${address}/reserve-history?days=${days}`)
+    endpoints.getContractReserveHistory({ address, days })
 
   // Tax report for an address (per year): monthly buckets + full transfer list
   const getAddressTaxReport = (address: string, year: number, maxTransfers = 20000) =>
-    fetchApi<TaxReportDto>(`/api/address/${address}/tax-report?year=${year}&maxTransfers=${maxTransfers}`)
+    endpoints.getAddressTaxReport({ address, year, maxTransfers })
 
   const downloadAddressTaxReportCsv = (address: string, year: number) => {
-    const baseUrl = useRuntimeConfig().public.apiBase || ''
-    window.open(`${baseUrl}/api/address/${address}/tax-report.csv?year=${year}`, '_blank')
+    window.open(`${getBaseUrl()}${apiPaths.downloadAddressTaxReportCsv({ address, year })}`, '_blank')
   }
 
   // Rich list
   const getRichList = (page = 1, limit = 50) =>
-    fetchApi<RichListDto>(`/api/stats/rich-list?page=${page}&limit=${limit}`)
+    endpoints.getRichList({ page, limit })
 
   // Supply dashboard
   const getSupplyDashboard = () =>
-    fetchApi<SupplyDashboardDto>('/api/stats/supply')
+    endpoints.getSupplyDashboard()
 
   // Whale alerts
   const getWhaleAlerts = (threshold = 10_000_000_000, limit = 50) =>
-    fetchApi<WhaleAlertDto[]>(`/api/stats/whale-alerts?threshold=${threshold}&limit=${limit}`)
+    endpoints.getWhaleAlerts({ threshold, limit })
 
   // CSV export helper (opens download in new tab)
-  const exportAddressData = (address: string, type = 'transfers', epoch?: number) => {
-    const baseUrl = getBaseUrl()
-    const epochParam = epoch ? `&epoch=${epoch}` : ''
-    window.open(`${baseUrl}/api/address/${address}/export?format=csv&type=${type}${epochParam}`, '_blank')
+  const exportAddressData = (address: string, type: ExportAddressDataParams['type'] = 'transfers', epoch?: number) => {
+    window.open(`${getBaseUrl()}${apiPaths.exportAddressData({ address, format: 'csv', type, epoch: epoch || undefined })}`, '_blank')
   }
 
   // Address batch (for portfolio)
   const getAddressesBatch = (addresses: string[]) =>
-    fetchApi<AddressDto[]>('/api/address/batch', {
-      method: 'POST',
-      body: JSON.stringify({ addresses }),
-    })
+    endpoints.getAddressesBatch({ body: { addresses } })
+
+  const getAddressesBalanceHistory = (addresses: string[], epochs?: number) =>
+    endpoints.getAddressesBalanceHistory({ body: { addresses, epochs } })
 
   // Assets
   const getAssets = () =>
-    fetchApi<AssetSummaryDto[]>('/api/assets')
+    endpoints.getAssets()
 
-  const getAsset = (name: string, issuer?: string) => {
-    const issuerParam = issuer ? `?issuer=${issuer}` : ''
-    return fetchApi<AssetDetailDto>(`/api/assets/${name}${issuerParam}`)
-  }
+  const getAsset = (name: string, issuer?: string) =>
+    endpoints.getAsset({ name, issuer: issuer || undefined })
 
-  const getAssetHolders = (name: string, page = 1, limit = 50, issuer?: string) => {
-    const issuerParam = issuer ? `&issuer=${issuer}` : ''
-    return fetchApi<AssetHoldersPageDto>(`/api/assets/${name}/holders?page=${page}&limit=${limit}${issuerParam}`)
-  }
+  const getAssetHolders = (name: string, page = 1, limit = 50, issuer?: string) =>
+    endpoints.getAssetHolders({ name, page, limit, issuer: issuer || undefined })
 
   // Transaction graph
   const getAddressGraph = (address: string, hops = 1, limit = 20) =>
-    fetchApi<TransactionGraphDto>(`/api/address/${address}/graph?hops=${hops}&limit=${limit}`)
+    endpoints.getAddressGraph({ address, hops, limit })
 
   // Epoch countdown
   const getEpochCountdown = () =>
-    fetchApi<EpochCountdownDto>('/api/epoch/countdown')
+    endpoints.getEpochCountdown()
 
   // Glassnode-style Analytics
-  const getActiveAddressTrends = (period = 'epoch', limit = 50) =>
-    fetchApi<ActiveAddressTrendDto[]>(`/api/stats/active-addresses?period=${period}&limit=${limit}`)
+  const getActiveAddressTrends = (period: GetActiveAddressTrendsParams['period'] = 'epoch', limit = 50) =>
+    endpoints.getActiveAddressTrends({ period, limit })
 
   const getNewVsReturningAddresses = (limit = 50) =>
-    fetchApi<NewVsReturningDto[]>(`/api/stats/new-vs-returning?limit=${limit}`)
+    endpoints.getNewVsReturningAddresses({ limit })
 
   const getExchangeFlows = (limit = 50) =>
-    fetchApi<ExchangeFlowDto>(`/api/stats/exchange-flows?limit=${limit}`)
+    endpoints.getExchangeFlows({ limit })
+
+  const getExchangeSenders = (options?: GetExchangeSendersParams) =>
+    endpoints.getExchangeSenders(options)
 
   const getHolderDistribution = () =>
-    fetchApi<HolderDistributionDto>('/api/stats/holder-distribution')
+    endpoints.getHolderDistribution()
 
-  const getAvgTxSizeTrends = (period = 'epoch', limit = 50) =>
-    fetchApi<AvgTxSizeTrendDto[]>(`/api/stats/avg-tx-size?period=${period}&limit=${limit}`)
+  const getAvgTxSizeTrends = (period: GetAvgTxSizeTrendsParams['period'] = 'epoch', limit = 50) =>
+    endpoints.getAvgTxSizeTrends({ period, limit })
 
   // Extended holder distribution with history
-  const getHolderDistributionExtended = (historyLimit = 500, from?: string, to?: string) => {
-    const params = new URLSearchParams({ historyLimit: String(historyLimit) })
-    if (from) params.set('from', from)
-    if (to) params.set('to', to)
-    return fetchApi<HolderDistributionExtendedDto>(`/api/stats/holder-distribution/extended?${params}`)
-  }
+  const getHolderDistributionExtended = (historyLimit = 500, from?: string, to?: string) =>
+    endpoints.getHolderDistributionExtended({ historyLimit, from, to })
 
-  const getHolderDistributionHistory = (limit = 500, from?: string, to?: string) => {
-    const params = new URLSearchParams({ limit: String(limit) })
-    if (from) params.set('from', from)
-    if (to) params.set('to', to)
-    return fetchApi<HolderDistributionHistoryDto[]>(`/api/stats/holder-distribution/history?${params}`)
-  }
+  const getHolderDistributionHistory = (limit = 500, from?: string, to?: string) =>
+    endpoints.getHolderDistributionHistory({ limit, from, to })
 
   // Network stats history
-  const getNetworkStatsHistory = (limit = 500, from?: string, to?: string) => {
-    const params = new URLSearchParams({ limit: String(limit) })
-    if (from) params.set('from', from)
-    if (to) params.set('to', to)
-    return fetchApi<NetworkStatsHistoryDto[]>(`/api/stats/network-stats/history?${params}`)
-  }
+  const getNetworkStatsHistory = (limit = 500, from?: string, to?: string) =>
+    endpoints.getNetworkStatsHistory({ limit, from, to })
 
-  const getNetworkStatsExtended = (historyLimit = 500, from?: string, to?: string) => {
-    const params = new URLSearchParams({ historyLimit: String(historyLimit) })
-    if (from) params.set('from', from)
-    if (to) params.set('to', to)
-    return fetchApi<NetworkStatsExtendedDto>(`/api/stats/network-stats/extended?${params}`)
-  }
+  const getNetworkStatsExtended = (historyLimit = 500, from?: string, to?: string) =>
+    endpoints.getNetworkStatsExtended({ historyLimit, from, to })
 
   // Burn stats
-  const getBurnStatsHistory = (limit = 500, from?: string, to?: string) => {
-    const params = new URLSearchParams({ limit: String(limit) })
-    if (from) params.set('from', from)
-    if (to) params.set('to', to)
-    return fetchApi<BurnStatsHistoryDto[]>(`/api/stats/burn-stats/history?${params}`)
-  }
+  const getBurnStatsHistory = (limit = 500, from?: string, to?: string) =>
+    endpoints.getBurnStatsHistory({ limit, from, to })
 
-  const getBurnStatsExtended = (historyLimit = 500, from?: string, to?: string) => {
-    const params = new URLSearchParams({ historyLimit: String(historyLimit) })
-    if (from) params.set('from', from)
-    if (to) params.set('to', to)
-    return fetchApi<BurnStatsExtendedDto>(`/api/stats/burn-stats/extended?${params}`)
-  }
+  const getBurnStatsExtended = (historyLimit = 500, from?: string, to?: string) =>
+    endpoints.getBurnStatsExtended({ historyLimit, from, to })
 
   const getBurnStatsByEpoch = (limit = 50) =>
-    fetchApi<EpochBurnStatsDto[]>(`/api/stats/burn-stats/by-epoch?limit=${limit}`)
+    endpoints.getBurnStatsByEpoch({ limit })
 
   // Qearn stats
   const getQearnStats = () =>
-    fetchApi<QearnStatsDto>('/api/stats/qearn')
+    endpoints.getQearnStats()
 
   // CCF stats
   const getCcfStats = () =>
-    fetchApi<CcfStatsDto>('/api/stats/ccf')
+    endpoints.getCcfStats()
 
   // Computor revenue
   const getComputorRevenue = (epoch?: number) =>
-    fetchApi<ComputorRevenueDto>(epoch ? `/api/stats/computor-revenue/${epoch}` : '/api/stats/computor-revenue')
+    epoch ? endpoints.getComputorRevenue({ epoch }) : endpoints.getCurrentComputorRevenue()
+
+  const simulateComputorRevenue = (epoch: number, ticks?: Omit<SimulateComputorRevenueParams, 'epoch'>) =>
+    endpoints.simulateComputorRevenue({ epoch, ...ticks })
 
   // Tick votes
-  const getTickVotes = (epoch: number, computorIndex?: number) => {
-    const params = computorIndex !== undefined ? `?computorIndex=${computorIndex}` : ''
-    return fetchApi<TickVotesResponseDto>(`/api/stats/tick-votes/${epoch}${params}`)
-  }
+  const getTickVotes = (epoch: number, computorIndex?: number) =>
+    endpoints.getTickVotes({ epoch, computorIndex })
+
+  const compareTickVotes = (epoch: number, indices: number[]) =>
+    endpoints.compareTickVotes({ epoch, indices })
 
   // Execution fee reports
   // Oracle revenue analytics
   const getOracleEpochSummary = (epoch: number) =>
-    fetchApi<OracleEpochSummaryDto>(`/api/stats/oracle/${epoch}`)
+    endpoints.getOracleEpochSummary({ epoch })
 
   const getOracleQueryList = (epoch: number, limit = 50, offset = 0) =>
-    fetchApi<OracleQueryListDto>(`/api/stats/oracle/${epoch}/queries?limit=${limit}&offset=${offset}`)
+    endpoints.getOracleQueryList({ epoch, limit, offset })
 
   const getOracleQueryDetail = (epoch: number, queryId: string | number) =>
-    fetchApi<OracleQueryDetailDto>(`/api/stats/oracle/${epoch}/query/${queryId}`)
+    endpoints.getOracleQueryDetail({ epoch, queryId })
 
   const getOracleComputorProfile = (
     epoch: number, computorIndex: number, limit = 100, offset = 0
   ) =>
-    fetchApi<OracleComputorProfileDto>(
-      `/api/stats/oracle/${epoch}/computor/${computorIndex}?limit=${limit}&offset=${offset}`
-    )
+    endpoints.getOracleComputorProfile({ epoch, computorIndex, limit, offset })
 
   const getExecutionFeeSummary = (epoch: number) =>
-    fetchApi<ExecutionFeePhaseSummaryDto[]>(`/api/stats/execution-fees/${epoch}`)
+    endpoints.getExecutionFeeSummary({ epoch })
 
   const getExecutionFeeContract = (epoch: number, contractIndex: number) =>
-    fetchApi<ExecutionFeeContractResponseDto>(`/api/stats/execution-fees/${epoch}/contract/${contractIndex}`)
+    endpoints.getExecutionFeeContract({ epoch, contractIndex })
 
   const getExecutionFeePhase = (epoch: number, phaseNumber: number) =>
-    fetchApi<ExecutionFeePhaseDetailDto>(`/api/stats/execution-fees/${epoch}/phase/${phaseNumber}`)
+    endpoints.getExecutionFeePhase({ epoch, phaseNumber })
 
   // Miner/Computor Flow
-  const getMinerFlowStats = (limit = 500, from?: string, to?: string) => {
-    const params = new URLSearchParams({ limit: String(limit) })
-    if (from) params.set('from', from)
-    if (to) params.set('to', to)
-    return fetchApi<MinerFlowSummaryDto>(`/api/miner-flow/stats?${params}`)
-  }
+  const getMinerFlowStats = (limit = 500, from?: string, to?: string) =>
+    endpoints.getMinerFlowStats({ limit, from, to })
 
   const getComputors = (epoch: number) =>
-    fetchApi<ComputorListDto>(`/api/miner-flow/computors/${epoch}`)
+    endpoints.getComputors({ epoch })
 
-  const getFlowVisualization = (emissionEpoch: number, maxDepth = 10) => {
-    const params = new URLSearchParams({ maxDepth: String(maxDepth) })
-    return fetchApi<FlowVisualizationDto>(`/api/miner-flow/visualization/${emissionEpoch}?${params}`)
-  }
+  const getFlowVisualization = (emissionEpoch: number, maxDepth = 10) =>
+    endpoints.getFlowVisualization({ emissionEpoch, maxDepth })
 
-  const getFlowHops = (epoch: number, tickStart?: number, tickEnd?: number, maxDepth = 5, limit = 1000) => {
-    const params = new URLSearchParams({ maxDepth: String(maxDepth), limit: String(limit) })
-    if (tickStart !== undefined) params.set('tickStart', String(tickStart))
-    if (tickEnd !== undefined) params.set('tickEnd', String(tickEnd))
-    return fetchApi<FlowHopsResponseDto>(`/api/miner-flow/hops/${epoch}?${params}`)
-  }
+  const getFlowHops = (epoch: number, tickStart?: number, tickEnd?: number, maxDepth = 5, limit = 1000) =>
+    endpoints.getFlowHops({ epoch, tickStart, tickEnd, maxDepth, limit })
 
   // Emissions
   const getEmissionSummary = (epoch: number) =>
-    fetchApi<EmissionSummaryDto>(`/api/miner-flow/emissions/${epoch}`)
+    endpoints.getEmissionSummary({ epoch })
 
   const getEmissionDetails = (epoch: number) =>
-    fetchApi<EmissionDetailsDto>(`/api/miner-flow/emissions/${epoch}/details`)
+    endpoints.getEmissionDetails({ epoch })
 
   const getComputorEmission = (epoch: number, address: string) =>
-    fetchApi<ComputorEmissionResponseDto>(`/api/miner-flow/emissions/${epoch}/address/${address}`)
+    endpoints.getComputorEmission({ epoch, address })
 
   // Custom flow tracking
-  const createCustomFlow = (request: { addresses: string[], startTick: number, balances?: number[], alias?: string, maxHops?: number }) =>
-    fetchApi<any>('/api/custom-flow', { method: 'POST', body: JSON.stringify(request) })
+  const createCustomFlow = (request: CreateCustomFlowRequest) =>
+    endpoints.createCustomFlow({ body: request })
 
   const getCustomFlowJob = (jobId: string) =>
-    fetchApi<any>(`/api/custom-flow/${jobId}`)
+    endpoints.getCustomFlowJob({ jobId })
 
   const getCustomFlowVisualization = (jobId: string) =>
-    fetchApi<any>(`/api/custom-flow/${jobId}/visualization`)
+    endpoints.getCustomFlowVisualization({ jobId })
 
   const getCustomFlowHops = (jobId: string, maxDepth = 10) =>
-    fetchApi<any>(`/api/custom-flow/${jobId}/hops?maxDepth=${maxDepth}`)
+    endpoints.getCustomFlowHops({ jobId, maxDepth })
 
   const getCustomFlowState = (jobId: string) =>
-    fetchApi<any>(`/api/custom-flow/${jobId}/state`)
+    endpoints.getCustomFlowState({ jobId })
+
+  // Push notifications
+  const getVapidKey = () =>
+    endpoints.getVapidKey()
+
+  const subscribePush = (subscription: PushSubscribeRequest) =>
+    endpoints.subscribePush({ body: subscription })
+
+  const unsubscribePush = (endpoint: string) =>
+    endpoints.unsubscribePush({ body: { endpoint } })
+
+  /** Remove a webhook-only subscription, which has no push endpoint */
+  const unsubscribeWebhooks = (subscriptionId: string) =>
+    endpoints.unsubscribePush({ body: { subscriptionId } })
+
+  const testWebhook = (target: WebhookTargetDto) =>
+    endpoints.testWebhook({ body: target })
+
+  const getWebhookDeliveries = (subscriptionId: string, limit?: number) =>
+    endpoints.getWebhookDeliveries({ subscriptionId, limit })
+
+  // Portfolio sync (keyed by the anonymous sync token)
+  const syncTokenHeader = (token: string): ApiRequestOptions => ({ headers: { 'X-Portfolio-Token': token } })
+
+  const getPortfolioSync = (token: string) =>
+    endpoints.getPortfolioSync(syncTokenHeader(token))
+
+  const putPortfolioSync = (token: string, sync: PortfolioSyncDto) =>
+    endpoints.putPortfolioSync({ body: sync }, syncTokenHeader(token))
+
+  const deletePortfolioSync = (token: string) =>
+    endpoints.deletePortfolioSync(syncTokenHeader(token))
 
   return {
     getTicks,
+    getEmptyTicks,
     getTick,
     getTickTransactions,
     getTickLogs,
@@ -489,12 +455,21 @@ export const useApi = () => {
     getAddressLabels,
     getAllKnownAddresses,
     getLabelStats,
+    getLabelVersion,
+    getEntity,
+    submitLabelProposal,
+    getLabelChanges,
+    getLabelProposals,
+    approveLabelProposal,
+    rejectLabelProposal,
+    revokeCommunityLabel,
     getProcedureName,
     getRichList,
     getSupplyDashboard,
     getWhaleAlerts,
     exportAddressData,
     getAddressesBatch,
+    getAddressesBalanceHistory,
     getAddressGraph,
     getAssets,
     getAsset,
@@ -508,6 +483,7 @@ export const useApi = () => {
     getActiveAddressTrends,
     getNewVsReturningAddresses,
     getExchangeFlows,
+    getExchangeSenders,
     getHolderDistribution,
     getAvgTxSizeTrends,
     getHolderDistributionExtended,
@@ -520,7 +496,9 @@ export const useApi = () => {
     getQearnStats,
     getCcfStats,
     getComputorRevenue,
+    simulateComputorRevenue,
     getTickVotes,
+    compareTickVotes,
     getExecutionFeeSummary,
     getExecutionFeeContract,
     getExecutionFeePhase,
@@ -540,10 +518,21 @@ export const useApi = () => {
     getCustomFlowVisualization,
     getCustomFlowHops,
     getCustomFlowState,
+    getVapidKey,
+    subscribePush,
+    unsubscribePush,
+    unsubscribeWebhooks,
+    testWebhook,
+    getWebhookDeliveries,
+    getPortfolioSync,
+    putPortfolioSync,
+    deletePortfolioSync,
   }
 }
 
 // Types
+// DTOs are generated from openapi.yaml; PaginatedResponse<T> covers the
+// per-resource Paginated*Response schemas for callers that are generic over T
 interface PaginatedResponse<T> {
   items: T[]
   page: number
@@ -554,1142 +543,9 @@ interface PaginatedResponse<T> {
   hasPreviousPage: boolean
 }
 
-interface TickDto {
-  tickNumber: number
-  epoch: number
-  timestamp: string
-  txCount: number
-  logCount: number
-  isEmpty: boolean
-}
-
-interface TickDetailDto extends TickDto {
-  transactions: TransactionDto[]
-}
-
-interface TransactionDto {
-  hash: string
-  tickNumber: number
-  epoch: number
-  fromAddress: string
-  toAddress: string
-  amount: number
-  inputType: number
-  inputTypeName?: string
-  executed: boolean
-  timestamp: string
-}
-
-interface TransactionDetailDto extends TransactionDto {
-  epoch: number
-  inputData?: string
-  parsedInput?: ParsedInputData
-  logs: LogDto[]
-}
-
-// Parsed input data for core/system transactions sent to the burn address
-interface ParsedInputData {
-  typeName: string
-  // VoteCounter / CustomMiningShareCounter
-  votes?: number[]
-  scores?: number[]
-  dataLock?: string
-  totalVotes?: number
-  totalScore?: number
-  nonZeroCount?: number
-  // MiningSolution
-  miningSeed?: string
-  nonce?: string
-  // FileHeader / FileTrailer
-  fileSize?: number
-  numberOfFragments?: number
-  fileFormat?: string
-  lastFileFragmentTransactionDigest?: string
-  // FileFragment
-  fragmentIndex?: number
-  prevFileFragmentTransactionDigest?: string
-  payloadSize?: number
-  // OracleReplyCommit
-  items?: Array<{ queryId: number; replyDigest: string; replyKnowledgeProof: string }>
-  // OracleReplyReveal
-  queryId?: number
-  replyDataHex?: string
-  replyDataSize?: number
-  // ExecutionFeeReport
-  phaseNumber?: number
-  numEntries?: number
-  entries?: Array<{ contractIndex: number; executionFee: number }>
-  // OracleUserQuery
-  oracleInterfaceIndex?: number
-  oracleInterfaceName?: string
-  timeoutMilliseconds?: number
-  queryDataHex?: string
-  queryDataSize?: number
-  parsedQueryFields?: Array<{ name: string; value: string; type: string }>
-}
-
-interface SpecialTransactionDto {
-  txHash: string
-  specialType: string
-  specialTypeName: string
-  tickNumber: number
-  timestamp: string
-  logs: LogDto[]
-}
-
-interface LogDto {
-  tickNumber: number
-  logId: number
-  logType: number
-  logTypeName: string
-  txHash?: string
-  sourceAddress?: string
-  destAddress?: string
-  amount: number
-  assetName?: string
-  timestamp: string
-}
-
-interface TransferDto {
-  tickNumber: number
-  epoch: number
-  logId: number
-  logType: number
-  logTypeName: string
-  txHash?: string
-  sourceAddress: string
-  destAddress: string
-  amount: number
-  assetName?: string
-  timestamp: string
-}
-
-interface AddressDto {
-  address: string
-  balance: number
-  incomingAmount: number
-  outgoingAmount: number
-  txCount: number
-  transferCount: number
-}
-
-interface SearchResponse {
-  query: string
-  results: SearchResultDto[]
-}
-
-interface SearchResultDto {
-  type: number  // 0=Tick, 1=Transaction, 2=Address, 3=Asset
-  value: string
-  displayName?: string
-}
-
-interface NetworkStatsDto {
-  latestTick: number
-  currentEpoch: number
-  totalTransactions: number
-  totalTransfers: number
-  totalVolume: number
-  lastUpdated: string
-}
-
-interface ChartDataPointDto {
-  date: string
-  txCount: number
-  volume: number
-}
-
-interface EpochSummaryDto {
-  epoch: number
-  tickCount: number
-  emptyTickCount: number
-  txCount: number
-  totalVolume: number
-  activeAddresses: number
-  startTime: string
-  endTime: string
-  firstTick: number
-  lastTick: number
-}
-
-interface EpochStatsDto {
-  epoch: number
-  tickCount: number
-  emptyTickCount: number
-  firstTick: number
-  lastTick: number
-  startTime: string
-  endTime: string
-  txCount: number
-  totalVolume: number
-  uniqueSenders: number
-  uniqueReceivers: number
-  activeAddresses: number
-  transferCount: number
-  quTransferred: number
-  assetTransferCount: number
-}
-
-interface EpochTransferByTypeDto {
-  epoch: number
-  logType: number
-  logTypeName: string
-  count: number
-  totalAmount: number
-}
-
-interface RewardDistributionDto {
-  epoch: number
-  contractAddress: string
-  contractName: string | null
-  tickNumber: number
-  totalAmount: number
-  amountPerShare: number
-  transferCount: number
-  timestamp: string
-}
-
-interface EpochRewardSummaryDto {
-  epoch: number
-  distributions: RewardDistributionDto[]
-  totalRewardsDistributed: number
-}
-
-interface ComputorEmptyTickDto {
-  computorIndex: number
-  address: string
-  label: string | null
-  emptyTickCount: number
-  totalTickCount: number
-}
-
-interface EpochEmptyTickStatsDto {
-  epoch: number
-  totalEmptyTicks: number
-  totalTicks: number
-  computors: ComputorEmptyTickDto[]
-}
-
-interface ContractRewardHistoryDto {
-  contractAddress: string
-  contractName: string | null
-  distributions: RewardDistributionDto[]
-  totalAllTimeDistributed: number
-  page: number
-  limit: number
-  totalCount: number
-  totalPages: number
-  hasNextPage: boolean
-  hasPreviousPage: boolean
-}
-
-interface AddressLabelDto {
-  address: string
-  label: string | null
-  type: 'unknown' | 'known' | 'exchange' | 'smartcontract' | 'tokenissuer' | 'burn'
-  contractIndex?: number | null
-  website?: string | null
-}
-
-interface KnownAddressDto {
-  address: string
-  label: string
-  type: string
-  contractIndex?: number | null
-  website?: string | null
-}
-
-interface LabelStatsDto {
-  totalLabels: number
-  byType: Record<string, number>
-}
-
-interface ProcedureLookupDto {
-  contractAddress: string
-  inputType: number
-  procedureName: string | null
-}
-
-// Analytics DTOs
-interface TopAddressDto {
-  address: string
-  label: string | null
-  type: string | null
-  sentVolume: number
-  receivedVolume: number
-  totalVolume: number
-  sentCount: number
-  receivedCount: number
-  totalCount: number
-}
-
-interface FlowNodeDto {
-  address: string
-  label: string | null
-  type: string | null
-  totalAmount: number
-  transactionCount: number
-}
-
-interface AddressFlowDto {
-  address: string
-  label: string | null
-  type: string | null
-  inbound: FlowNodeDto[]
-  outbound: FlowNodeDto[]
-}
-
-interface SmartContractUsageDto {
-  address: string
-  name: string
-  contractIndex: number | null
-  callCount: number
-  totalAmount: number
-  uniqueCallers: number
-}
-
-// Glassnode-style Analytics Types
-interface ActiveAddressTrendDto {
-  epoch: number | null
-  date: string | null
-  uniqueSenders: number
-  uniqueReceivers: number
-  totalActive: number
-}
-
-interface NewVsReturningDto {
-  epoch: number
-  newAddresses: number
-  returningAddresses: number
-  totalAddresses: number
-}
-
-interface ExchangeFlowDataPointDto {
-  epoch: number
-  inflowVolume: number
-  inflowCount: number
-  outflowVolume: number
-  outflowCount: number
-  netFlow: number
-}
-
-interface ExchangeFlowDto {
-  dataPoints: ExchangeFlowDataPointDto[]
-  totalInflow: number
-  totalOutflow: number
-}
-
-interface HolderBracketDto {
-  name: string
-  count: number
-  balance: number
-  percentageOfSupply: number
-}
-
-interface HolderDistributionDto {
-  brackets: HolderBracketDto[]
-  totalHolders: number
-  totalBalance: number
-}
-
-interface AvgTxSizeTrendDto {
-  epoch: number | null
-  date: string | null
-  txCount: number
-  totalVolume: number
-  avgTxSize: number
-  medianTxSize: number
-}
-
-// Concentration metrics for holder distribution
-interface ConcentrationMetricsDto {
-  top10Balance: number
-  top10Percent: number
-  top50Balance: number
-  top50Percent: number
-  top100Balance: number
-  top100Percent: number
-}
-
-// Historical snapshot of holder distribution
-interface HolderDistributionHistoryDto {
-  epoch: number
-  snapshotAt: string
-  tickStart: number
-  tickEnd: number
-  brackets: HolderBracketDto[]
-  totalHolders: number
-  totalBalance: number
-  concentration: ConcentrationMetricsDto
-  dataSource: string
-}
-
-// Extended holder distribution with history
-interface HolderDistributionExtendedDto {
-  current: HolderDistributionDto
-  history: HolderDistributionHistoryDto[]
-}
-
-// Network stats history snapshot (for a specific tick window)
-interface NetworkStatsHistoryDto {
-  epoch: number
-  snapshotAt: string
-  tickStart: number
-  tickEnd: number
-  totalTransactions: number
-  totalTransfers: number
-  totalVolume: number
-  uniqueSenders: number
-  uniqueReceivers: number
-  totalActiveAddresses: number
-  newAddresses: number
-  returningAddresses: number
-  exchangeInflowVolume: number
-  exchangeInflowCount: number
-  exchangeOutflowVolume: number
-  exchangeOutflowCount: number
-  exchangeNetFlow: number
-  scCallCount: number
-  scUniqueCallers: number
-  avgTxSize: number
-  medianTxSize: number
-  newUsers100MPlus: number
-  newUsers1BPlus: number
-  newUsers10BPlus: number
-}
-
-// Extended network stats with history
-interface NetworkStatsExtendedDto {
-  current: NetworkStatsHistoryDto | null
-  history: NetworkStatsHistoryDto[]
-}
-
-// Burn stats history snapshot
-interface BurnStatsHistoryDto {
-  epoch: number
-  snapshotAt: string
-  tickStart: number
-  tickEnd: number
-  totalBurned: number
-  burnCount: number
-  burnAmount: number
-  dustBurnCount: number
-  dustBurned: number
-  transferBurnCount: number
-  transferBurned: number
-  uniqueBurners: number
-  largestBurn: number
-  cumulativeBurned: number
-}
-
-// Extended burn stats with history
-interface BurnStatsExtendedDto {
-  current: BurnStatsHistoryDto | null
-  history: BurnStatsHistoryDto[]
-  allTimeTotalBurned: number
-}
-
-interface EpochBurnStatsDto {
-  epoch: number
-  circulatingSupply: number
-  totalEmitted: number
-  totalBurned: number
-}
-
-// Qearn stats
-interface QearnEpochStatsDto {
-  epoch: number
-  totalBurned: number
-  burnCount: number
-  totalInput: number
-  inputCount: number
-  totalOutput: number
-  outputCount: number
-  uniqueLockers: number
-  uniqueUnlockers: number
-}
-
-interface QearnStatsDto {
-  epochs: QearnEpochStatsDto[]
-  allTimeTotalBurned: number
-  allTimeTotalInput: number
-  allTimeTotalOutput: number
-}
-
-// CCF stats
-interface CcfTransferDto {
-  destination: string
-  url: string
-  amount: number
-  tick: number
-  epoch: number
-  success: boolean
-}
-
-interface CcfRegularPaymentDto {
-  destination: string
-  url: string
-  amount: number
-  tick: number
-  epoch: number
-  periodIndex: number
-  success: boolean
-}
-
-interface CcfProposalDto {
-  proposalIndex: number
-  proposerAddress: string
-  url: string
-  proposalType: number
-  proposalTick: number
-  epoch: number
-  transferDestination: string | null
-  transferAmount: number | null
-  totalVotesAuthorized: number
-  totalVotesCast: number
-  noVotes: number
-  yesVotes: number
-  passed: boolean
-  isActive: boolean
-}
-
-interface CcfSubscriptionDto {
-  destination: string
-  url: string
-  amountPerPeriod: number
-  numberOfPeriods: number
-  currentPeriod: number
-  weeksPerPeriod: number
-  startEpoch: number
-}
-
-interface CcfEpochSpendingDto {
-  epoch: number
-  totalSpent: number
-  transferCount: number
-}
-
-interface CcfStatsDto {
-  activeProposals: CcfProposalDto[]
-  pastProposals: CcfProposalDto[]
-  transfers: CcfTransferDto[]
-  regularPayments: CcfRegularPaymentDto[]
-  activeSubscriptions: CcfSubscriptionDto[]
-  totalSpent: number
-  totalTransferCount: number
-  proposalFee: number
-  spendingByEpoch: CcfEpochSpendingDto[]
-}
-
-// Computor revenue
-interface ComputorRevenueEntryDto {
-  computorIndex: number
-  address: string
-  label: string | null
-  txScore: number             // V1: per-computor TX points sum (legacy)
-  voteScore: number           // metric only under V2
-  miningScore: number         // DOGE shares
-  slidingWindowTxScore: number // V2: sliding-window TX score (canonical)
-  oracleScore: number          // V2: oracle revenue points (= estimatedPoints)
-  txFactor: number
-  voteFactor: number
-  oracleFactor: number         // V2: 0..1024
-  miningFactor: number
-  combinedMandatoryFactor: number // V2: M = (17·tx + 3·oracle)/20
-  revenueV1: number
-  revenueV2: number
-  revenueFormula: number       // 1 (V1 multiplicative) or 2 (V2 additive bonus)
-  revenue: number              // active revenue (V2 if epoch ≥ 209, else V1)
-}
-
-interface ComputorRevenueDto {
-  epoch: number
-  computorCount: number
-  issuanceRate: number
-  txQuorumScore: number
-  voteQuorumScore: number
-  oracleQuorumScore: number
-  miningQuorumScore: number
-  activeFormula: number   // 1 or 2 — which formula is in use for this epoch
-  totalComputorRevenue: number
-  arbRevenue: number
-  computors: ComputorRevenueEntryDto[]
-}
-
-// Tick votes
-interface TickVoteWindowDto {
-  tick: number
-  minVotes: number
-  maxVotes: number
-  avgVotes: number
-  medianVotes: number
-  quorumThreshold: number
-}
-
-interface TickVoteComputorWindowDto {
-  tick: number
-  accumulatedVotes: number
-}
-
-interface TickVotesResponseDto {
-  epoch: number
-  computorIndex: number | null
-  summary: TickVoteWindowDto[] | null
-  computorVotes: TickVoteComputorWindowDto[] | null
-}
-
-// Execution fee reports
-interface ExecutionFeePhaseSummaryDto {
-  phaseNumber: number
-  phaseTick: number
-  phaseTimestamp: string | null
-  contractIndex: number
-  minFee: number
-  maxFee: number
-  avgFee: number
-  medianFee: number
-  agreedFee: number
-  reportCount: number
-  reports?: ExecutionFeeContractEntryDto[] | null
-}
-
-interface ExecutionFeeContractEntryDto {
-  computorIndex: number
-  reportedFee: number
-  txHash?: string | null
-}
-
-interface ExecutionFeeContractPhaseDto {
-  phaseNumber: number
-  phaseTick: number
-  phaseTimestamp: string | null
-  agreedFee: number
-  reports: ExecutionFeeContractEntryDto[]
-}
-
-interface ExecutionFeeContractResponseDto {
-  epoch: number
-  contractIndex: number
-  phases: ExecutionFeeContractPhaseDto[]
-}
-
-interface ExecutionFeePhaseDetailDto {
-  epoch: number
-  phaseNumber: number
-  phaseTick: number
-  contracts: ExecutionFeePhaseSummaryDto[]
-  txCountsByInputType?: PhaseInputTypeCountDto[] | null
-}
-
-// ── Oracle revenue analytics ──────────────────────────────────────────
-
-interface OracleComputorEntryDto {
-  computorIndex: number
-  commits: number
-  reveals: number
-  estimatedPoints: number
-  // V2 oracle revenue factor (0..1024). Mirrors qubic core ComputeRevFactor.
-  oracleFactor: number
-  avgTickOffset: number
-  participations: number
-}
-
-interface OracleEpochSummaryDto {
-  epoch: number
-  totalQueries: number
-  totalCommits: number
-  totalReveals: number
-  dataFromAggregates: boolean
-  computors: OracleComputorEntryDto[]
-}
-
-interface OracleQueryListEntryDto {
-  queryId: string         // ulong serializes as string in JSON.NET sometimes; treat as string-or-number
-  firstCommitTick: number
-  lastCommitTick: number
-  quorumCutoffTick: number
-  totalCommits: number
-  totalReveals: number
-  commitsInQuorum: number
-  uniqueCommittors: number
-}
-
-interface OracleQueryListDto {
-  epoch: number
-  totalCount: number
-  dataFromAggregates: boolean
-  items: OracleQueryListEntryDto[]
-}
-
-interface OracleQueryComputorEntryDto {
-  computorIndex: number
-  commitTick: number | null
-  revealTick: number | null
-  rank: number | null
-  isInQuorum: boolean
-  ticksAfterFirst: number | null
-  commitTxHash: string | null
-}
-
-interface OracleQueryTickHistogramDto {
-  tick: number
-  commitCount: number
-  cumulativeCount: number
-}
-
-interface OracleQueryOriginatingTxDto {
-  hash: string
-  tickNumber: number
-  fromAddress: string
-  toAddress: string
-  amount: number
-  inputData: string
-  timestamp: string
-  executed: boolean
-}
-
-interface OracleQueryReplyDigestEntryDto {
-  digest: string
-  count: number
-}
-
-interface OracleQueryRevealedAnswerDto {
-  answerHex: string
-  lengthBytes: number
-  computorCount: number
-}
-
-interface OracleQueryDetailDto {
-  epoch: number
-  queryId: string
-  firstCommitTick: number
-  lastCommitTick: number
-  quorumCutoffTick: number
-  totalCommits: number
-  totalReveals: number
-  commitsInQuorum: number
-  rawEventsAvailable: boolean
-  tickHistogram: OracleQueryTickHistogramDto[]
-  computors: OracleQueryComputorEntryDto[]
-  originatingTxCandidates: OracleQueryOriginatingTxDto[]
-  commitDigestDistribution: OracleQueryReplyDigestEntryDto[] | null
-  revealDigestDistribution: OracleQueryReplyDigestEntryDto[] | null
-  revealedAnswers: OracleQueryRevealedAnswerDto[] | null
-}
-
-interface OracleComputorQueryEntryDto {
-  queryId: string
-  commitTick: number
-  commitTimestamp: string
-  rank: number
-  isInQuorum: boolean
-  ticksAfterFirst: number
-}
-
-interface OracleComputorProfileDto {
-  epoch: number
-  computorIndex: number
-  commits: number
-  reveals: number
-  estimatedPoints: number
-  oracleFactor: number   // 0..1024 — see OracleComputorEntryDto
-  quorumScore: number    // rank-451 estimated_points across the epoch
-  avgTickOffset: number
-  participations: number
-  rawEventsAvailable: boolean
-  totalQueries: number
-  queries: OracleComputorQueryEntryDto[]
-}
-
-interface PhaseInputTypeCountDto {
-  inputType: number
-  totalCount: number
-  executedCount: number
-  toAddress: string
-}
-
-// Rich list
-interface RichListEntryDto {
-  rank: number
-  address: string
-  label: string | null
-  type: string | null
-  balance: number
-  balanceFormatted: string
-  percentageOfSupply: number
-}
-
-interface RichListDto {
-  entries: RichListEntryDto[]
-  page: number
-  limit: number
-  totalCount: number
-  totalPages: number
-  totalBalance: number
-  snapshotEpoch: number
-}
-
-// Supply dashboard
-interface EmissionDonationDto {
-  address: string
-  label: string | null
-  amount: number
-}
-
-interface EmissionDataPointDto {
-  epoch: number
-  computorEmission: number
-  arbRevenue: number
-  donations: EmissionDonationDto[]
-  donationTotal: number
-  computorCount: number
-}
-
-interface BurnDataPointDto {
-  epoch: number
-  snapshotAt: string
-  burnAmount: number
-  burnCount: number
-}
-
-interface SupplyDashboardDto {
-  circulatingSupply: number
-  totalEmitted: number
-  totalBurned: number
-  latestEpochEmission: number
-  epochCount: number
-  snapshotEpoch: number
-  supplyCap: number
-  supplyCapProgress: number
-  emissionHistory: EmissionDataPointDto[]
-  burnHistory: BurnDataPointDto[]
-}
-
-// Whale alerts
-interface WhaleAlertDto {
-  tickNumber: number
-  epoch: number
-  txHash: string
-  sourceAddress: string
-  sourceLabel: string | null
-  sourceType: string | null
-  destAddress: string
-  destLabel: string | null
-  destType: string | null
-  amount: number
-  amountFormatted: string
-  timestamp: string
-}
-
-// Assets
-interface AssetSummaryDto {
-  assetName: string
-  issuerAddress: string
-  issuerLabel: string | null
-  numberOfDecimalPlaces: number
-  totalSupply: number
-  holderCount: number
-}
-
-interface AssetHolderDetailDto {
-  address: string
-  label: string | null
-  type: string | null
-  ownedShares: number
-  possessedShares: number
-}
-
-interface AssetDetailDto {
-  assetName: string
-  issuerAddress: string
-  issuerLabel: string | null
-  numberOfDecimalPlaces: number
-  totalSupply: number
-  holderCount: number
-  snapshotEpoch: number
-  topHolders: AssetHolderDetailDto[]
-}
-
-interface AssetHoldersPageDto {
-  holders: AssetHolderDetailDto[]
-  page: number
-  limit: number
-  totalCount: number
-  totalPages: number
-}
-
-// Transaction graph
-interface GraphNodeDto {
-  address: string
-  label: string | null
-  type: string | null
-  totalVolume: number
-  depth: number
-}
-
-interface GraphLinkDto {
-  source: string
-  target: string
-  amount: number
-  txCount: number
-}
-
-interface TransactionGraphDto {
-  nodes: GraphNodeDto[]
-  links: GraphLinkDto[]
-}
-
-// Address activity range (first/last seen)
-interface AddressActivityRangeDto {
-  firstTick: number | null
-  firstTimestamp: string | null
-  firstEpoch: number | null
-  lastTick: number | null
-  lastTimestamp: string | null
-  lastEpoch: number | null
-}
-
-interface AddressLedgerDto {
-  address: string
-  epoch: number
-  openingBalance: number
-  closingBalance: number
-  entries: LedgerEntryDto[]
-}
-
-interface LedgerEntryDto {
-  tickNumber: number
-  timestamp: string
-  txHash: string | null
-  logType: number
-  logTypeName: string
-  counterpartyAddress: string | null
-  direction: 'in' | 'out'
-  amount: number
-  runningBalance: number
-}
-
-// Epoch countdown
-interface EpochCountdownDto {
-  currentEpoch: number
-  currentEpochStart: string
-  averageEpochDurationMs: number
-  estimatedEpochEnd: string
-  currentTick: number
-}
-
-// Epoch metadata
-interface EpochMetaDto {
-  epoch: number
-  initialTick: number
-  endTick: number
-  endTickStartLogId: number
-  endTickEndLogId: number
-  isComplete: boolean
-  updatedAt: string
-}
-
-// Miner/Computor Flow Types
-interface ComputorDto {
-  epoch: number
-  address: string
-  index: number
-  label: string | null
-}
-
-interface ComputorListDto {
-  epoch: number
-  computors: ComputorDto[]
-  count: number
-  importedAt: string | null
-}
-
-interface MinerFlowStatsDto {
-  epoch: number
-  snapshotAt: string
-  tickStart: number
-  tickEnd: number
-  emissionEpoch: number
-  totalEmission: number
-  computorCount: number
-  totalOutflow: number
-  outflowTxCount: number
-  flowToExchangeDirect: number
-  flowToExchange1Hop: number
-  flowToExchange2Hop: number
-  flowToExchange3Plus: number
-  flowToExchangeTotal: number
-  flowToExchangeCount: number
-  flowToOther: number
-  minerNetPosition: number
-  hop1Volume: number
-  hop2Volume: number
-  hop3Volume: number
-  hop4PlusVolume: number
-}
-
-interface MinerFlowSummaryDto {
-  latest: MinerFlowStatsDto | null
-  history: MinerFlowStatsDto[]
-  totalEmissionTracked: number
-  totalFlowToExchange: number
-  averageExchangeFlowPercent: number
-}
-
-interface FlowVisualizationNodeDto {
-  id: string
-  address: string
-  label: string | null
-  type: string
-  totalInflow: number
-  totalOutflow: number
-  depth: number
-}
-
-interface FlowVisualizationLinkDto {
-  sourceId: string
-  targetId: string
-  amount: number
-  transactionCount: number
-}
-
-interface FlowVisualizationDto {
-  epoch: number
-  tickStart: number
-  tickEnd: number
-  nodes: FlowVisualizationNodeDto[]
-  links: FlowVisualizationLinkDto[]
-  maxDepth: number
-  totalTrackedVolume: number
-}
-
-interface FlowHopDto {
-  epoch: number
-  tickNumber: number
-  timestamp: string
-  txHash: string
-  sourceAddress: string
-  sourceLabel: string | null
-  sourceType: string | null
-  destAddress: string
-  destLabel: string | null
-  destType: string | null
-  amount: number
-  originAddress: string
-  originType: string
-  hopLevel: number
-}
-
-interface FlowHopsResponseDto {
-  epoch: number
-  tickStart: number
-  tickEnd: number
-  maxDepth: number
-  totalHops: number
-  hops: FlowHopDto[]
-}
-
-// Emission Types
-interface ComputorEmissionDto {
-  epoch: number
-  computorIndex: number
-  address: string
-  label: string | null
-  emissionAmount: number
-  emissionTick: number
-  emissionTimestamp: string
-}
-
-interface EmissionSummaryDto {
-  epoch: number
-  computorCount: number
-  totalEmission: number
-  emissionTick: number
-  importedAt: string
-}
-
-interface EmissionDetailsDto {
-  epoch: number
-  computorCount: number
-  totalEmission: number
-  emissionTick: number
-  importedAt: string
-  emissions: ComputorEmissionDto[]
-}
-
-interface ComputorEmissionResponseDto {
-  epoch: number
-  address: string
-  emission: number
-}
-
-interface ContractReserveSampleDto {
-  timestamp: string
-  balance: number
-}
-
-interface ContractReserveHistoryDto {
-  address: string
-  contractIndex: number | null
-  label: string | null
-  daysRequested: number
-  sampleCount: number
-  currentBalance: number
-  // QU per day; positive = reserve falling, negative = growing.
-  burnRatePerDay: number
-  estimatedRunwayDays: number | null
-  samples: ContractReserveSampleDto[]
-}
-
-interface TaxReportTransferDto {
-  timestamp: string
-  tickNumber: number
-  epoch: number
-  txHash: string | null
-  direction: 'in' | 'out'
-  counterparty: string
-  counterpartyLabel: string | null
-  amount: number
-  runningBalance: number
-  logType: number
-  logTypeName: string
-}
-
-interface TaxReportMonthDto {
-  month: number
-  monthName: string
-  openingBalance: number
-  closingBalance: number
-  totalIn: number
-  totalOut: number
-  inboundCount: number
-  outboundCount: number
-  netCount: number
-  netChange: number
-}
-
-interface TaxReportDto {
-  address: string
-  addressLabel: string | null
-  year: number
-  periodStart: string
-  periodEnd: string
-  openingBalance: number
-  closingBalance: number
-  totalIn: number
-  totalOut: number
-  inboundCount: number
-  outboundCount: number
-  totalCount: number
-  netChange: number
-  truncated: boolean
-  maxTransfers: number
-  months: TaxReportMonthDto[]
-  transfers: TaxReportTransferDto[]
-}
+export type { PaginatedResponse }
 
 export type {
-  PaginatedResponse,
   TickDto,
   TickDetailDto,
   TransactionDto,
@@ -1698,6 +554,8 @@ export type {
   LogDto,
   TransferDto,
   AddressDto,
+  AddressBalanceHistoryDto,
+  EpochBalanceDto,
   SearchResponse,
   SearchResultDto,
   NetworkStatsDto,
@@ -1713,6 +571,13 @@ export type {
   AddressLabelDto,
   KnownAddressDto,
   LabelStatsDto,
+  LabelVersionDto,
+  LabelProposalRequest,
+  LabelProposalDto,
+  LabelChangeDto,
+  EntityDto,
+  EntityMemberDto,
+  EntityRole,
   ProcedureLookupDto,
   TopAddressDto,
   FlowNodeDto,
@@ -1749,6 +614,15 @@ export type {
   EmissionSummaryDto,
   EmissionDetailsDto,
   ComputorEmissionResponseDto,
+  CreateCustomFlowRequest,
+  CustomFlowStatus,
+  CreateCustomFlowResponseDto,
+  CustomFlowJobDto,
+  CustomFlowHopDto,
+  CustomFlowHopsResponseDto,
+  CustomFlowResultDto,
+  CustomFlowTrackingStateDto,
+  CustomFlowStateResponseDto,
   ParsedInputData,
   WhaleAlertDto,
   AssetSummaryDto,
@@ -1769,4 +643,13 @@ export type {
   TaxReportTransferDto,
   TaxReportMonthDto,
   TaxReportDto,
-}
+  ComputorRevenueDto,
+  ComputorRevenueEntryDto,
+  ComputorRevenueSimulationDto,
+  TickVotesResponseDto,
+  TickVoteCompareResponseDto,
+  ExchangeSendersDto,
+  PortfolioSyncDto,
+  WebhookTargetDto,
+  WebhookDeliveryDto,
+} from '~/utils/api/generated'
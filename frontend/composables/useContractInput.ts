@@ -2,63 +2,158 @@ import {
   decodeContractInput,
   getContractSchema,
   getProcedureSchema,
+  getContractIndexFromAddress,
   formatDecodedInputAsJson,
   type DecodedInput,
   type ContractSchema,
   type ProcedureSchema,
+  type SchemaContext,
 } from '~/utils/contractInputDecoder'
+import { contractRegistryReady } from '~/utils/contractSchemaRegistry'
+
+const STORAGE_KEY = 'qli-contract-addresses'
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000
+
+interface StoredContractAddresses {
+  fetchedAt: number
+  addresses: Record<string, number>
+}
+
+/**
+ * Contract index mapping from known smart contract addresses.
+ * This maps the toAddress of a transaction to a contract index and is hydrated
+ * from the label service (cached in localStorage across sessions).
+ */
+const CONTRACT_ADDRESS_TO_INDEX = ref<Record<string, number>>({})
+let initialized = false
+/** Whether the mapping was loaded from the label service within CACHE_TTL_MS */
+let fresh = false
+let hydration: Promise<void> | null = null
+
+/**
+ * Load the cached mapping; returns false if there is no fresh cache
+ */
+function loadFromStorage(): boolean {
+  if (typeof window === 'undefined') return false
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (!stored) return false
+    const parsed: StoredContractAddresses = JSON.parse(stored)
+    CONTRACT_ADDRESS_TO_INDEX.value = { ...parsed.addresses, ...CONTRACT_ADDRESS_TO_INDEX.value }
+    return Date.now() - parsed.fetchedAt < CACHE_TTL_MS
+  } catch {
+    return false
+  }
+}
+
+function saveToStorage() {
+  if (typeof window === 'undefined') return
+  const stored: StoredContractAddresses = { fetchedAt: Date.now(), addresses: CONTRACT_ADDRESS_TO_INDEX.value }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored))
+}
 
 /**
- * Contract index mapping from known smart contract addresses
- * This maps the toAddress of a transaction to a contract index
+ * Fetch all smart contract addresses from the label service (once per session)
  */
-const CONTRACT_ADDRESS_TO_INDEX: Record<string, number> = {
-  // These are the known smart contract addresses from the bundle
-  // The mapping is populated from the AddressLabelService which has contractIndex
+function hydrate(api: ReturnType<typeof useApi>): Promise<void> {
+  if (!hydration) {
+    hydration = api.getAllKnownAddresses('smartcontract')
+      .then((contracts) => {
+        const addresses: Record<string, number> = {}
+        for (const contract of contracts) {
+          if (contract.contractIndex) {
+            addresses[contract.address] = contract.contractIndex
+          }
+        }
+        CONTRACT_ADDRESS_TO_INDEX.value = { ...CONTRACT_ADDRESS_TO_INDEX.value, ...addresses }
+        fresh = true
+        saveToStorage()
+      })
+      .catch((err) => {
+        // Keep the cached or address-derived mapping; ready() retries
+        console.error('Failed to load contract addresses:', err)
+        hydration = null
+      })
+  }
+  return hydration
 }
 
 /**
  * Composable for decoding smart contract input data
  */
 export function useContractInput() {
+  const api = useApi({ routeScoped: false })
+
+  if (!initialized && typeof window !== 'undefined') {
+    initialized = true
+    fresh = loadFromStorage()
+    if (!fresh) {
+      hydrate(api)
+    }
+  }
+
   /**
-   * Decode contract input given transaction data
+   * Resolve the contract index of an address: from the label service mapping,
+   * falling back to decoding the canonical contract address
+   */
+  const getContractIndex = (address: string): number | null => {
+    return CONTRACT_ADDRESS_TO_INDEX.value[address] ?? getContractIndexFromAddress(address)
+  }
+
+  /**
+   * Wait until the contract address mapping and the schema registry have been loaded,
+   * retrying the mapping if an earlier load failed
+   */
+  const ready = async (): Promise<void> => {
+    if (!fresh && typeof window !== 'undefined') hydrate(api)
+    await Promise.all([hydration, contractRegistryReady()])
+  }
+
+  /**
+   * Decode contract input given transaction data.
+   * Waits for the schema registry, and for the contract address mapping if the
+   * destination is not known yet.
    *
    * @param inputHex - The input data hex string
    * @param toAddress - The destination address (contract address)
    * @param inputType - The input type / procedure ID
    * @param contractIndex - Optional contract index (if known)
+   * @param at - Optional tick/epoch of the transaction, to pick the matching schema layout
    */
-  const decode = (
+  const decode = async (
     inputHex: string | null | undefined,
     toAddress: string,
     inputType: number,
-    contractIndex?: number | null
-  ): DecodedInput | null => {
+    contractIndex?: number | null,
+    at?: SchemaContext
+  ): Promise<DecodedInput | null> => {
     // If inputType is 0, it's a regular transfer, not a contract call
     if (inputType === 0) {
       return null
     }
 
     // Try to get contract index from the provided value or address mapping
-    let index = contractIndex
-    if (index === undefined || index === null) {
-      index = CONTRACT_ADDRESS_TO_INDEX[toAddress]
+    let index = contractIndex ?? getContractIndex(toAddress)
+    if (index === null) {
+      await ready()
+      index = getContractIndex(toAddress)
     }
 
     // If we still don't have a contract index, we can't decode
-    if (index === undefined || index === null) {
+    if (index === null) {
       return null
     }
 
-    return decodeContractInput(inputHex, index, inputType)
+    await contractRegistryReady()
+
+    return decodeContractInput(inputHex, index, inputType, at)
   }
 
   /**
    * Get human-readable procedure name
    */
-  const getProcedureName = (contractIndex: number, procedureId: number): string | null => {
-    const schema = getProcedureSchema(contractIndex, procedureId)
+  const getProcedureName = (contractIndex: number, procedureId: number, at?: SchemaContext): string | null => {
+    const schema = getProcedureSchema(contractIndex, procedureId, at)
     return schema?.name ?? null
   }
 
@@ -82,11 +177,13 @@ export function useContractInput() {
    * Call this when you have label data with contract indices
    */
   const setContractIndex = (address: string, index: number) => {
-    CONTRACT_ADDRESS_TO_INDEX[address] = index
+    CONTRACT_ADDRESS_TO_INDEX.value = { ...CONTRACT_ADDRESS_TO_INDEX.value, [address]: index }
   }
 
   return {
     decode,
+    ready,
+    getContractIndex,
     getProcedureName,
     getContractName,
     toJson,
@@ -0,0 +1,242 @@
+import type { Ref } from 'vue'
+import type { TickDto, TransactionDto } from '~/composables/useApi'
+import type { GetTransactionsParams } from '~/utils/api/generated'
+import type { LiveTickEvent } from '~/composables/useLiveUpdates'
+
+/**
+ * Live feeds
+ *
+ * useLiveEvents delivers hub events (ticks or transactions) to a page while it
+ * is mounted and visible, and calls `poll` on an interval while the hub is
+ * disconnected (or always, with `pollWhileLive`). useLiveFeed builds a live-updating first page of a paginated
+ * table on top of it: new rows are prepended, or buffered behind a "N new
+ * items" banner while the user is scrolling, has scrolled past the table or
+ * is on another page.
+ */
+
+export type LiveFeedEvent = 'tick' | 'transaction'
+
+export interface LiveEventOptions {
+  /** Called on an interval while the hub is disconnected */
+  poll: () => Promise<void> | void
+  pollIntervalMs?: number
+  /** Keep polling while connected, for data the hub events only partly cover */
+  pollWhileLive?: boolean
+}
+
+export interface LiveFeedPage<T> {
+  items: T[]
+  totalCount: number
+}
+
+export interface LiveFeedOptions<T> {
+  event: LiveFeedEvent
+  /** Map a hub payload to a row; null drops it (e.g. it does not match the filters) */
+  toItem: (payload: unknown) => T | null
+  key: (item: T) => string | number
+  /** Fetch the newest rows; used while the hub is disconnected */
+  poll: () => Promise<T[]>
+  /** Whether the table shows the newest rows (first page) */
+  isFirstPage: () => boolean
+  pageSize: number
+  /** Element above the table; live inserts pause once it scrolls out of view */
+  anchor?: Ref<HTMLElement | null>
+  pollIntervalMs?: number
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 10_000
+/** Without an anchor, scrolling further than this pauses live inserts */
+const SCROLL_PAUSE_OFFSET = 200
+/** Time after the last scroll event until the user counts as idle */
+const SCROLL_IDLE_MS = 800
+const MAX_BUFFERED = 200
+
+export const BURN_ADDRESS = 'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAFXIB'
+
+export const useLiveEvents = (
+  event: LiveFeedEvent,
+  onPayload: (payload: unknown) => void,
+  options: LiveEventOptions
+) => {
+  const mounted = ref(false)
+  const visible = ref(true)
+
+  // Pause updates while the tab is hidden
+  const { isConnected } = useLiveSubscription({
+    ticks: visible,
+    onNewTick: event === 'tick' ? onPayload : undefined,
+    onNewTransaction: event === 'transaction' ? onPayload : undefined,
+  })
+
+  let pollTimer: ReturnType<typeof setInterval> | null = null
+
+  watch(() => mounted.value && visible.value && (options.pollWhileLive || !isConnected.value), (shouldPoll) => {
+    if (shouldPoll && !pollTimer) {
+      pollTimer = setInterval(() => options.poll(), options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS)
+    } else if (!shouldPoll && pollTimer) {
+      clearInterval(pollTimer)
+      pollTimer = null
+    }
+  })
+
+  const onVisibilityChange = () => {
+    visible.value = !document.hidden
+  }
+
+  onMounted(() => {
+    document.addEventListener('visibilitychange', onVisibilityChange)
+    onVisibilityChange()
+    mounted.value = true
+  })
+
+  onUnmounted(() => {
+    mounted.value = false
+    document.removeEventListener('visibilitychange', onVisibilityChange)
+    if (pollTimer) clearInterval(pollTimer)
+    pollTimer = null
+  })
+
+  return {
+    isLive: computed(() => isConnected.value),
+  }
+}
+
+export const useLiveFeed = <T>(
+  page: Ref<LiveFeedPage<T> | null | undefined>,
+  options: LiveFeedOptions<T>
+) => {
+  const buffered = ref<T[]>([]) as Ref<T[]>
+  const scrolling = ref(false)
+  const scrolledAway = ref(false)
+
+  const paused = computed(() => scrolling.value || scrolledAway.value || !options.isFirstPage())
+
+  const isKnown = (key: string | number) =>
+    buffered.value.some(item => options.key(item) === key)
+    || (page.value?.items.some(item => options.key(item) === key) ?? false)
+
+  const prepend = (items: T[]) => {
+    if (!page.value || items.length === 0) return
+    page.value.items = [...items, ...page.value.items].slice(0, options.pageSize)
+    page.value.totalCount += items.length
+  }
+
+  const ingest = (item: T) => {
+    if (isKnown(options.key(item))) return
+    if (paused.value) {
+      buffered.value = [item, ...buffered.value].slice(0, MAX_BUFFERED)
+    } else {
+      prepend([item])
+    }
+  }
+
+  /** Show buffered rows (only inserted when the first page is displayed) */
+  const flush = () => {
+    if (options.isFirstPage()) prepend(buffered.value)
+    buffered.value = []
+    const anchor = options.anchor?.value
+    if (anchor) anchor.scrollIntoView({ behavior: 'smooth', block: 'nearest' })
+    else window.scrollTo({ top: 0, behavior: 'smooth' })
+  }
+
+  // A refetch (page or filter change) replaces the page; buffered rows are stale
+  watch(page, () => { buffered.value = [] })
+
+  const { isLive } = useLiveEvents(options.event, (payload) => {
+    const item = options.toItem(payload)
+    if (item) ingest(item)
+  }, {
+    poll: async () => {
+      if (!options.isFirstPage()) return
+      try {
+        const items = await options.poll()
+        // Oldest first so the newest row ends up on top
+        for (const item of [...items].reverse()) ingest(item)
+      } catch {
+        // Keep polling; the next attempt may succeed
+      }
+    },
+    pollIntervalMs: options.pollIntervalMs,
+  })
+
+  // Scroll tracking
+  let scrollTimer: ReturnType<typeof setTimeout> | null = null
+
+  const onScroll = () => {
+    scrolling.value = true
+    const anchor = options.anchor?.value
+    scrolledAway.value = anchor
+      ? anchor.getBoundingClientRect().top < 0
+      : window.scrollY > SCROLL_PAUSE_OFFSET
+    if (scrollTimer) clearTimeout(scrollTimer)
+    scrollTimer = setTimeout(() => { scrolling.value = false }, SCROLL_IDLE_MS)
+  }
+
+  onMounted(() => window.addEventListener('scroll', onScroll, { passive: true }))
+
+  onUnmounted(() => {
+    window.removeEventListener('scroll', onScroll)
+    if (scrollTimer) clearTimeout(scrollTimer)
+  })
+
+  return {
+    buffered: readonly(buffered),
+    bufferedCount: computed(() => buffered.value.length),
+    paused,
+    isLive,
+    flush,
+  }
+}
+
+// =============================================================================
+// Tick and transaction feeds
+// =============================================================================
+
+const isTickPayload = (payload: unknown): payload is LiveTickEvent =>
+  typeof payload === 'object' && payload !== null
+  && typeof (payload as LiveTickEvent).tickNumber === 'number'
+
+export const toLiveTick = (payload: unknown): TickDto | null => {
+  if (!isTickPayload(payload)) return null
+  return {
+    tickNumber: payload.tickNumber,
+    epoch: payload.epoch,
+    timestamp: payload.timestamp ?? new Date().toISOString(),
+    txCount: payload.txCount ?? 0,
+    // Not indexed yet; filled in on the next full refresh
+    logCount: 0,
+    isEmpty: false,
+  }
+}
+
+const isTransactionPayload = (payload: unknown): payload is TransactionDto =>
+  typeof payload === 'object' && payload !== null
+  && typeof (payload as TransactionDto).hash === 'string'
+  && typeof (payload as TransactionDto).tickNumber === 'number'
+
+export type TransactionFeedFilters = Omit<GetTransactionsParams, 'page' | 'limit' | 'detailed'>
+
+/** Client-side equivalent of the transaction list filters */
+export const matchesTransactionFilters = (tx: TransactionDto, filters: TransactionFeedFilters): boolean => {
+  if (filters.address) {
+    const from = tx.fromAddress === filters.address
+    const to = tx.toAddress === filters.address
+    if (filters.direction === 'from' ? !from : filters.direction === 'to' ? !to : !from && !to) return false
+  }
+  if (filters.minAmount !== undefined && tx.amount < filters.minAmount) return false
+  if (filters.executed !== undefined && tx.executed !== filters.executed) return false
+  if (filters.inputType !== undefined && tx.inputType !== filters.inputType) return false
+  if (filters.toAddress && tx.toAddress !== filters.toAddress) return false
+  if (filters.coreOnly && tx.toAddress !== BURN_ADDRESS) return false
+  return true
+}
+
+export const toLiveTransaction = (payload: unknown, filters: TransactionFeedFilters = {}): TransactionDto | null => {
+  if (!isTransactionPayload(payload)) return null
+  const tx: TransactionDto = {
+    ...payload,
+    inputTypeName: payload.inputTypeName ?? null,
+    timestamp: payload.timestamp ?? new Date().toISOString(),
+  }
+  return matchesTransactionFilters(tx, filters) ? tx : null
+}
@@ -1,13 +1,107 @@
 import * as signalR from '@microsoft/signalr'
+import type { MaybeRefOrGetter } from 'vue'
+import type { TransactionDto, TransferDto } from '~/composables/useApi'
+
+/**
+ * Live Updates
+ *
+ * One SignalR connection to LiveUpdatesHub is shared by the whole app.
+ * Event handlers can be registered at any time (also before connecting) and
+ * hub groups ("topics") are reference counted, so components watching the
+ * same address do not unsubscribe each other. Topics are joined again after
+ * a reconnect, since the hub forgets group membership of the old connection,
+ * and a topic whose join failed is retried by its next subscriber.
+ */
+
+// =============================================================================
+// Event payloads (mirror QubicExplorer.Shared/DTOs/LiveUpdateDto.cs)
+// =============================================================================
+
+/** OnNewTick: a tick was seen; it may not be indexed yet */
+export interface LiveTickEvent {
+  tickNumber: number
+  epoch: number
+  txCount: number
+  timestamp: string
+}
+
+/** OnAddressUpdate: new balance and activity of a watched address */
+export interface AddressUpdateEvent {
+  address: string
+  tickNumber: number
+  balance: number
+  incomingAmount: number
+  outgoingAmount: number
+  transactions: TransactionDto[]
+  transfers: TransferDto[]
+}
+
+export interface LiveUpdateEvents {
+  OnNewTick: LiveTickEvent
+  OnNewTransaction: TransactionDto
+  OnAddressUpdate: AddressUpdateEvent
+}
+
+export type LiveUpdateEvent = keyof LiveUpdateEvents
+export type LiveEventHandler<E extends LiveUpdateEvent> = (payload: LiveUpdateEvents[E]) => void
+
+const EVENTS: LiveUpdateEvent[] = ['OnNewTick', 'OnNewTransaction', 'OnAddressUpdate']
+
+// =============================================================================
+// Shared connection state
+// =============================================================================
 
 let connection: signalR.HubConnection | null = null
+let connecting: Promise<void> | null = null
+// Shared by every consumer of the single connection
+const isConnected = ref(false)
+
+const handlers = new Map<LiveUpdateEvent, Set<(payload: never) => void>>(
+  EVENTS.map(event => [event, new Set()])
+)
+
+/** Subscriber count per hub group: "ticks" or "address:{address}" */
+const topics = new Map<string, number>()
+/** Topics the current connection has joined */
+const joined = new Set<string>()
+
+const TICKS_TOPIC = 'ticks'
+const ADDRESS_PREFIX = 'address:'
+
+function dispatch(event: LiveUpdateEvent, payload: unknown) {
+  for (const handler of handlers.get(event)!) {
+    try {
+      (handler as (payload: unknown) => void)(payload)
+    } catch (err) {
+      console.error(`Live update handler for ${event} failed:`, err)
+    }
+  }
+}
+
+async function invokeTopic(topic: string, join: boolean) {
+  if (connection?.state !== signalR.HubConnectionState.Connected) return
+  if (!join) joined.delete(topic)
+  if (topic === TICKS_TOPIC) {
+    await connection.invoke(join ? 'SubscribeToTicks' : 'UnsubscribeFromTicks')
+  } else {
+    await connection.invoke(join ? 'SubscribeToAddress' : 'UnsubscribeFromAddress', topic.slice(ADDRESS_PREFIX.length))
+  }
+  if (join) joined.add(topic)
+}
+
+/** Join every topic that still has subscribers (after connecting or reconnecting) */
+async function resubscribeAll() {
+  await Promise.all([...topics.keys()].map(topic =>
+    invokeTopic(topic, true).catch(err => console.warn(`Failed to resubscribe to ${topic}:`, err))
+  ))
+}
 
 export const useLiveUpdates = () => {
   const config = useRuntimeConfig()
-  const isConnected = ref(false)
 
   const connect = async () => {
-    if (connection) return
+    if (connection && !connecting) return
+    if (connecting) return connecting
 
     const hubUrl = `${config.public.apiUrl}/hubs/live`
 
@@ -17,26 +111,41 @@ export const useLiveUpdates = () => {
       .configureLogging(signalR.LogLevel.Warning)
       .build()
 
+    for (const event of EVENTS) {
+      connection.on(event, payload => dispatch(event, payload))
+    }
+
     connection.onreconnecting(() => {
       isConnected.value = false
+      joined.clear()
     })
 
-    connection.onreconnected(() => {
+    connection.onreconnected(async () => {
       isConnected.value = true
+      await resubscribeAll()
     })
 
     connection.onclose(() => {
       isConnected.value = false
+      joined.clear()
+      // Automatic reconnect gave up; the next subscriber starts a new connection
+      connection = null
     })
 
-    try {
-      await connection.start()
-      isConnected.value = true
-    } catch (err) {
-      console.error('SignalR connection error:', err)
-      connection = null
-      throw err
-    }
+    connecting = (async () => {
+      try {
+        await connection!.start()
+        isConnected.value = true
+        await resubscribeAll()
+      } catch (err) {
+        console.error('SignalR connection error:', err)
+        connection = null
+        throw err
+      } finally {
+        connecting = null
+      }
+    })()
+    return connecting
   }
 
   const disconnect = async () => {
@@ -44,52 +153,120 @@ export const useLiveUpdates = () => {
       await connection.stop()
       connection = null
       isConnected.value = false
+      joined.clear()
     }
   }
 
-  const subscribeToTicks = async () => {
-    if (!connection) await connect()
-    await connection?.invoke('SubscribeToTicks')
+  /**
+   * Add a subscriber to a topic and join the hub group unless already joined.
+   * The subscriber stays counted if connecting or joining fails, so the next
+   * subscriber (or a reconnect) retries the join.
+   */
+  const subscribe = async (topic: string) => {
+    topics.set(topic, (topics.get(topic) ?? 0) + 1)
+    if (joined.has(topic)) return
+    // A new connection joins every counted topic once it has started
+    if (!connection || connecting) await connect()
+    if (!joined.has(topic)) await invokeTopic(topic, true)
   }
 
-  const unsubscribeFromTicks = async () => {
-    await connection?.invoke('UnsubscribeFromTicks')
+  /** Remove a subscriber from a topic; leaves the hub group after the last one */
+  const unsubscribe = async (topic: string) => {
+    const count = topics.get(topic) ?? 0
+    if (count === 0) return
+    if (count > 1) {
+      topics.set(topic, count - 1)
+      return
+    }
+    topics.delete(topic)
+    await invokeTopic(topic, false)
   }
 
-  const subscribeToAddress = async (address: string) => {
-    if (!connection) await connect()
-    await connection?.invoke('SubscribeToAddress', address)
+  const on = <E extends LiveUpdateEvent>(event: E, handler: LiveEventHandler<E>): (() => void) => {
+    handlers.get(event)!.add(handler)
+    return () => handlers.get(event)!.delete(handler)
   }
 
-  const unsubscribeFromAddress = async (address: string) => {
-    await connection?.invoke('UnsubscribeFromAddress', address)
+  return {
+    isConnected: readonly(isConnected),
+    connect,
+    disconnect,
+    subscribeToTicks: () => subscribe(TICKS_TOPIC),
+    unsubscribeFromTicks: () => unsubscribe(TICKS_TOPIC),
+    subscribeToAddress: (address: string) => subscribe(`${ADDRESS_PREFIX}${address}`),
+    unsubscribeFromAddress: (address: string) => unsubscribe(`${ADDRESS_PREFIX}${address}`),
+    on,
+    onNewTick: (handler: LiveEventHandler<'OnNewTick'>) => on('OnNewTick', handler),
+    onNewTransaction: (handler: LiveEventHandler<'OnNewTransaction'>) => on('OnNewTransaction', handler),
+    onAddressUpdate: (handler: LiveEventHandler<'OnAddressUpdate'>) => on('OnAddressUpdate', handler),
   }
+}
 
-  const onNewTick = (callback: (data: any) => void): (() => void) => {
-    connection?.on('OnNewTick', callback)
-    return () => connection?.off('OnNewTick', callback)
-  }
+// =============================================================================
+// Component-scoped subscriptions
+// =============================================================================
+
+export interface LiveSubscriptionOptions {
+  /** Join the ticks topic (OnNewTick and OnNewTransaction) while true */
+  ticks?: MaybeRefOrGetter<boolean>
+  /** Join the topic of this address (OnAddressUpdate); follows changes */
+  address?: MaybeRefOrGetter<string | null | undefined>
+  onNewTick?: LiveEventHandler<'OnNewTick'>
+  onNewTransaction?: LiveEventHandler<'OnNewTransaction'>
+  /** Only called for updates of the current `address` */
+  onAddressUpdate?: LiveEventHandler<'OnAddressUpdate'>
+}
 
-  const onNewTransaction = (callback: (data: any) => void): (() => void) => {
-    connection?.on('OnNewTransaction', callback)
-    return () => connection?.off('OnNewTransaction', callback)
+/**
+ * Subscribe a component to live updates. Topics are joined once mounted and
+ * released, together with the handlers, when the component unmounts.
+ */
+export const useLiveSubscription = (options: LiveSubscriptionOptions) => {
+  const liveUpdates = useLiveUpdates()
+  const offHandlers: Array<() => void> = []
+  let ticksJoined = false
+  let joinedAddress: string | null = null
+
+  const warn = (err: unknown) => console.warn('Live updates unavailable:', err)
+
+  const setTicks = (join: boolean) => {
+    if (join === ticksJoined) return
+    ticksJoined = join
+    ;(join ? liveUpdates.subscribeToTicks() : liveUpdates.unsubscribeFromTicks()).catch(warn)
   }
 
-  const onAddressUpdate = (callback: (data: any) => void): (() => void) => {
-    connection?.on('OnAddressUpdate', callback)
-    return () => connection?.off('OnAddressUpdate', callback)
+  const setAddress = (address: string | null) => {
+    if (address === joinedAddress) return
+    if (joinedAddress) liveUpdates.unsubscribeFromAddress(joinedAddress).catch(warn)
+    joinedAddress = address
+    if (address) liveUpdates.subscribeToAddress(address).catch(warn)
   }
 
+  // Handlers and topics only exist in the browser, while mounted
+  const mounted = ref(false)
+  watch(() => mounted.value && (toValue(options.ticks) ?? false), setTicks)
+  watch(() => (mounted.value && toValue(options.address)) || null, setAddress)
+
+  onMounted(() => {
+    if (options.onNewTick) offHandlers.push(liveUpdates.onNewTick(options.onNewTick))
+    if (options.onNewTransaction) offHandlers.push(liveUpdates.onNewTransaction(options.onNewTransaction))
+    if (options.onAddressUpdate) {
+      const handler = options.onAddressUpdate
+      offHandlers.push(liveUpdates.onAddressUpdate((update) => {
+        if (update.address === joinedAddress) handler(update)
+      }))
+    }
+    mounted.value = true
+  })
+
+  onUnmounted(() => {
+    mounted.value = false
+    offHandlers.forEach(off => off())
+    setTicks(false)
+    setAddress(null)
+  })
+
   return {
-    isConnected: readonly(isConnected),
-    connect,
-    disconnect,
-    subscribeToTicks,
-    unsubscribeFromTicks,
-    subscribeToAddress,
-    unsubscribeFromAddress,
-    onNewTick,
-    onNewTransaction,
-    onAddressUpdate,
+    isConnected: liveUpdates.isConnected,
   }
 }
@@ -0,0 +1,150 @@
+import {
+  clearInboxItems,
+  deleteInboxItems,
+  groupByAddress,
+  inboxSupported,
+  loadInboxItems,
+  mergeInboxItem,
+  putInboxItems,
+  transferItemId,
+  MAX_INBOX_ITEMS,
+  type InboxItem,
+} from '~/utils/notificationInbox'
+import type { AddressUpdateEvent } from '~/composables/useLiveUpdates'
+
+/**
+ * Notification Inbox
+ *
+ * Persistent history of push notifications and live transfers of watched
+ * addresses, shown by the notification center in the header. Pushes are
+ * stored by the service worker and forwarded to open tabs; live transfers are
+ * recorded here for the addresses of watchlists with notifications on.
+ */
+
+const items = ref<InboxItem[]>([])
+const loaded = ref(false)
+let initialized = false
+
+function upsert(incoming: InboxItem[]) {
+  const byId = new Map(items.value.map(item => [item.id, item]))
+  const changed = incoming.map(item => mergeInboxItem(byId.get(item.id), item))
+  for (const item of changed) byId.set(item.id, item)
+
+  const sorted = [...byId.values()].sort((a, b) => b.createdAt - a.createdAt)
+  const dropped = sorted.slice(MAX_INBOX_ITEMS).map(item => item.id)
+  items.value = sorted.slice(0, MAX_INBOX_ITEMS)
+
+  putInboxItems(changed.filter(item => !dropped.includes(item.id)))
+    .then(() => deleteInboxItems(dropped))
+    .catch(err => console.warn('Failed to store notifications:', err))
+}
+
+function setRead(ids: Set<string>) {
+  const changed: InboxItem[] = []
+  items.value = items.value.map((item) => {
+    if (item.read || !ids.has(item.id)) return item
+    const read = { ...item, read: true }
+    changed.push(read)
+    return read
+  })
+  putInboxItems(changed).catch(err => console.warn('Failed to store notifications:', err))
+}
+
+function init() {
+  if (initialized || typeof window === 'undefined' || !inboxSupported()) return
+  initialized = true
+
+  loadInboxItems()
+    .then((stored) => {
+      // Keep anything that arrived while loading
+      const current = items.value
+      items.value = stored.sort((a, b) => b.createdAt - a.createdAt)
+      if (current.length > 0) upsert(current)
+    })
+    .catch(err => console.warn('Notification inbox unavailable:', err))
+    .finally(() => {
+      loaded.value = true
+    })
+
+  // The service worker has already stored the push; this keeps open tabs in step
+  navigator.serviceWorker?.addEventListener('message', (event) => {
+    if (event.data?.type === 'PUSH_RECEIVED' && event.data.item) {
+      upsert([event.data.item as InboxItem])
+    } else if (event.data?.type === 'NOTIFICATION_CLICK' && event.data.inboxId) {
+      setRead(new Set([event.data.inboxId]))
+    }
+  })
+
+  const { notifyAddresses } = usePortfolio()
+  const { getLabel } = useAddressLabels()
+  const { formatVolume, truncateAddress } = useFormatting()
+  const liveUpdates = useLiveUpdates()
+
+  const recordUpdate = (update: AddressUpdateEvent) => {
+    if (!notifyAddresses.value.includes(update.address)) return
+    upsert(update.transfers.map((t) => {
+      const incoming = t.destAddress === update.address
+      const counterparty = incoming ? t.sourceAddress : t.destAddress
+      const amount = `${formatVolume(t.amount)} ${t.assetName || 'QU'}`
+      const other = getLabel(counterparty)?.label || truncateAddress(counterparty)
+      return {
+        id: t.txHash ? transferItemId(update.address, t.txHash) : `live:${update.address}:${t.tickNumber}:${t.logId}`,
+        source: 'live' as const,
+        title: incoming ? 'Incoming Transfer' : 'Outgoing Transfer',
+        body: incoming ? `${amount} from ${other}` : `${amount} to ${other}`,
+        url: t.txHash ? `/tx/${t.txHash}` : `/ticks/${t.tickNumber}`,
+        address: update.address,
+        txHash: t.txHash,
+        createdAt: Date.parse(t.timestamp) || Date.now(),
+        read: false,
+      }
+    }))
+  }
+
+  // Lives as long as the app, not as long as the first component using it
+  effectScope(true).run(() => {
+    liveUpdates.onAddressUpdate(recordUpdate)
+    watch(notifyAddresses, (next, previous = []) => {
+      const warn = (err: unknown) => console.warn('Live updates unavailable:', err)
+      for (const address of previous) {
+        if (!next.includes(address)) liveUpdates.unsubscribeFromAddress(address).catch(warn)
+      }
+      for (const address of next) {
+        if (!previous.includes(address)) liveUpdates.subscribeToAddress(address).catch(warn)
+      }
+    }, { immediate: true })
+  })
+}
+
+export const useNotificationInbox = () => {
+  init()
+
+  const unreadCount = computed(() => items.value.filter(item => !item.read).length)
+  const groups = computed(() => groupByAddress(items.value))
+
+  const markRead = (id: string) => setRead(new Set([id]))
+
+  /** Mark the given items (default: all) as read */
+  const markAllRead = (ids?: string[]) => setRead(new Set(ids ?? items.value.map(item => item.id)))
+
+  const remove = (id: string) => {
+    items.value = items.value.filter(item => item.id !== id)
+    deleteInboxItems([id]).catch(err => console.warn('Failed to store notifications:', err))
+  }
+
+  const clear = () => {
+    items.value = []
+    clearInboxItems().catch(err => console.warn('Failed to store notifications:', err))
+  }
+
+  return {
+    items: readonly(items),
+    loaded: readonly(loaded),
+    unreadCount,
+    groups,
+    markRead,
+    markAllRead,
+    remove,
+    clear,
+  }
+}
@@ -1,13 +1,27 @@
+import type { NotificationRuleDto, WebhookTargetDto } from '~/utils/api/generated'
+
 const PREFS_KEY = 'qli-notification-prefs'
+/** Client secret the webhook subscription ID derives from; kept so target edits update the same subscription */
+const WEBHOOK_KEY_KEY = 'qli-webhook-key'
+/** Returned by the subscribe endpoint; identifies the webhook delivery log */
+const WEBHOOK_SUBSCRIPTION_ID_KEY = 'qli-webhook-subscription-id'
 
 export type NotificationEventType = 'incoming' | 'outgoing' | 'large_transfer' | 'balance_threshold'
 
+export type NotificationRule = NotificationRuleDto
+
+export type WebhookTarget = WebhookTargetDto
+
 export interface NotificationPrefs {
   enabled: boolean
   events: NotificationEventType[]
   largeTransferThreshold: number // in QU
   balanceMinThreshold: number // in QU, 0 = disabled
   balanceMaxThreshold: number // in QU, 0 = disabled
+  /** When non-empty, the server evaluates these instead of events and thresholds */
+  rules: NotificationRule[]
+  /** Receive the same events as signed HTTP POSTs */
+  webhooks: WebhookTarget[]
 }
 
 const defaultPrefs: NotificationPrefs = {
@@ -16,14 +30,62 @@ const defaultPrefs: NotificationPrefs = {
   largeTransferThreshold: 1_000_000_000, // 1B QU
   balanceMinThreshold: 0,
   balanceMaxThreshold: 0,
+  rules: [],
+  webhooks: [],
+}
+
+/** A new transfer rule that matches everything until conditions are added */
+export function createNotificationRule(name = 'New rule'): NotificationRule {
+  return {
+    id: Math.random().toString(36).slice(2, 10),
+    name,
+    enabled: true,
+    trigger: 'transfer',
+    direction: 'any',
+  }
+}
+
+/** A webhook target with a fresh random secret */
+export function createWebhookTarget(url: string): WebhookTarget {
+  const bytes = crypto.getRandomValues(new Uint8Array(24))
+  return {
+    id: Math.random().toString(36).slice(2, 10),
+    url,
+    secret: Array.from(bytes, b => b.toString(16).padStart(2, '0')).join(''),
+    enabled: true,
+  }
+}
+
+/** Rules equivalent to the fixed event types and thresholds (mirrors the server fallback) */
+export function rulesFromPrefs(p: NotificationPrefs): NotificationRule[] {
+  const rules: NotificationRule[] = []
+  if (p.events.includes('large_transfer')) {
+    rules.push({ ...createNotificationRule('Large Transfer Detected'), minAmount: p.largeTransferThreshold, assetName: 'QU' })
+  }
+  if (p.events.includes('incoming')) {
+    rules.push({ ...createNotificationRule('Incoming Transfer'), direction: 'incoming', assetName: 'QU' })
+  }
+  if (p.events.includes('outgoing')) {
+    rules.push({ ...createNotificationRule('Outgoing Transfer'), direction: 'outgoing', assetName: 'QU' })
+  }
+  if (p.events.includes('balance_threshold') && p.balanceMinThreshold > 0) {
+    rules.push({ ...createNotificationRule('Balance Below Minimum'), trigger: 'balance_below', balanceThreshold: p.balanceMinThreshold })
+  }
+  if (p.events.includes('balance_threshold') && p.balanceMaxThreshold > 0) {
+    rules.push({ ...createNotificationRule('Balance Above Maximum'), trigger: 'balance_above', balanceThreshold: p.balanceMaxThreshold })
+  }
+  return rules
 }
 
 const prefs = ref<NotificationPrefs>({ ...defaultPrefs })
 const permissionState = ref<NotificationPermission>('default')
 const pushSupported = ref(false)
 const subscriptionActive = ref(false)
+const webhookSubscriptionId = ref<string | null>(null)
 let initialized = false
 let swRegistration: ServiceWorkerRegistration | null = null
+// Webhook syncs run one after another so a removal cannot overtake a save
+let webhookSync: Promise<void> = Promise.resolve()
 
 function loadPrefs() {
   if (typeof window === 'undefined') return
@@ -35,6 +97,7 @@ function loadPrefs() {
   } catch {
     prefs.value = { ...defaultPrefs }
   }
+  webhookSubscriptionId.value = localStorage.getItem(WEBHOOK_SUBSCRIPTION_ID_KEY)
   if ('Notification' in window) {
     permissionState.value = Notification.permission
   }
@@ -46,6 +109,22 @@ function savePrefs() {
   localStorage.setItem(PREFS_KEY, JSON.stringify(prefs.value))
 }
 
+function setWebhookSubscriptionId(id: string | null) {
+  webhookSubscriptionId.value = id
+  if (id) localStorage.setItem(WEBHOOK_SUBSCRIPTION_ID_KEY, id)
+  else localStorage.removeItem(WEBHOOK_SUBSCRIPTION_ID_KEY)
+}
+
+function getWebhookKey(): string {
+  let key = localStorage.getItem(WEBHOOK_KEY_KEY)
+  if (!key) {
+    const bytes = crypto.getRandomValues(new Uint8Array(32))
+    key = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')
+    localStorage.setItem(WEBHOOK_KEY_KEY, key)
+  }
+  return key
+}
+
 async function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
   if (!('serviceWorker' in navigator)) return null
   try {
@@ -60,11 +139,7 @@ async function registerServiceWorker(): Promise<ServiceWorkerRegistration | null
 
 async function getVapidKey(): Promise<string | null> {
   try {
-    const config = useRuntimeConfig()
-    const baseUrl = config.public.apiBase || '/api'
-    const res = await fetch(`${baseUrl}/notifications/vapid-key`)
-    if (!res.ok) return null
-    const data = await res.json()
+    const data = await useApi({ routeScoped: false }).getVapidKey()
     return data.publicKey || null
   } catch {
     return null
@@ -98,47 +173,58 @@ async function subscribeToPush(
   }
 }
 
+/** What both delivery channels are notified about */
+function subscriptionFilters(addresses: string[], notifPrefs: NotificationPrefs) {
+  return {
+    addresses,
+    events: notifPrefs.events,
+    largeTransferThreshold: notifPrefs.largeTransferThreshold,
+    balanceMinThreshold: notifPrefs.balanceMinThreshold,
+    balanceMaxThreshold: notifPrefs.balanceMaxThreshold,
+    rules: notifPrefs.rules.length > 0 ? notifPrefs.rules : null,
+  }
+}
+
 async function sendSubscriptionToServer(
   sub: PushSubscription,
   addresses: string[],
   notifPrefs: NotificationPrefs
 ) {
-  try {
-    const config = useRuntimeConfig()
-    const baseUrl = config.public.apiBase || '/api'
-    const subJson = sub.toJSON()
-    await fetch(`${baseUrl}/notifications/subscribe`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        subscription: {
-          endpoint: sub.endpoint,
-          keys: {
-            p256dh: subJson.keys?.p256dh || '',
-            auth: subJson.keys?.auth || '',
-          },
-        },
-        addresses,
-        events: notifPrefs.events,
-        largeTransferThreshold: notifPrefs.largeTransferThreshold,
-        balanceMinThreshold: notifPrefs.balanceMinThreshold,
-        balanceMaxThreshold: notifPrefs.balanceMaxThreshold,
-      }),
-    })
-  } catch (err) {
-    console.error('Failed to send subscription to server:', err)
+  const subJson = sub.toJSON()
+  await useApi({ routeScoped: false }).subscribePush({
+    subscription: {
+      endpoint: sub.endpoint,
+      keys: {
+        p256dh: subJson.keys?.p256dh || '',
+        auth: subJson.keys?.auth || '',
+      },
+    },
+    ...subscriptionFilters(addresses, notifPrefs),
+  })
+}
+
+/** Register the webhooks as their own subscription, or remove it when there is nothing to deliver */
+async function sendWebhooksToServer(addresses: string[], notifPrefs: NotificationPrefs) {
+  const api = useApi({ routeScoped: false })
+  if (notifPrefs.webhooks.length === 0 || addresses.length === 0) {
+    if (!webhookSubscriptionId.value) return
+    await api.unsubscribeWebhooks(webhookSubscriptionId.value)
+    setWebhookSubscriptionId(null)
+    return
   }
+
+  const result = await api.subscribePush({
+    subscription: null,
+    webhookKey: getWebhookKey(),
+    webhooks: notifPrefs.webhooks,
+    ...subscriptionFilters(addresses, notifPrefs),
+  })
+  setWebhookSubscriptionId(result.subscriptionId)
 }
 
 async function removeSubscriptionFromServer(endpoint: string) {
   try {
-    const config = useRuntimeConfig()
-    const baseUrl = config.public.apiBase || '/api'
-    await fetch(`${baseUrl}/notifications/unsubscribe`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ endpoint }),
-    })
+    await useApi({ routeScoped: false }).unsubscribePush(endpoint)
   } catch {
     // Ignore errors during unsubscribe
   }
@@ -150,27 +236,75 @@ export const useNotifications = () => {
     loadPrefs()
   }
 
-  const { addresses } = usePortfolio()
+  // Only lists with notifications turned on are watched
+  const { notifyAddresses: addresses } = usePortfolio()
   const { show: showToast } = useToast()
   const router = useRouter()
 
+  // Validation errors (e.g. a rejected webhook URL) come back as the message
+  const reportSyncError = (err: unknown) => {
+    showToast(err instanceof Error ? err.message : 'Failed to save notification settings', { type: 'error' })
+  }
+
+  const syncPush = async () => {
+    if (!prefs.value.enabled || !swRegistration) return
+    const sub = await swRegistration.pushManager.getSubscription()
+    if (!sub || addresses.value.length === 0) return
+
+    try {
+      await sendSubscriptionToServer(sub, [...addresses.value], prefs.value)
+    } catch (err) {
+      reportSyncError(err)
+    }
+  }
+
+  // Webhooks work without browser push, so they sync on their own
+  const syncWebhooks = () => {
+    webhookSync = webhookSync.then(async () => {
+      try {
+        await sendWebhooksToServer([...addresses.value], prefs.value)
+      } catch (err) {
+        reportSyncError(err)
+      }
+    })
+    return webhookSync
+  }
+
+  // Sync both channels when addresses or prefs change
+  const syncSubscription = async () => {
+    await Promise.all([syncPush(), syncWebhooks()])
+  }
+
   const updatePrefs = async (update: Partial<NotificationPrefs>) => {
     prefs.value = { ...prefs.value, ...update }
     savePrefs()
+    await syncSubscription()
+  }
 
-    // Re-sync subscription with server when prefs change
-    if (prefs.value.enabled && swRegistration) {
-      const existingSub = await swRegistration.pushManager.getSubscription()
-      if (existingSub && addresses.value.length > 0) {
-        await sendSubscriptionToServer(
-          existingSub,
-          [...addresses.value],
-          prefs.value
-        )
-      }
-    }
+  // Rules
+
+  const saveRule = (rule: NotificationRule) => {
+    const rules = prefs.value.rules.some(r => r.id === rule.id)
+      ? prefs.value.rules.map(r => (r.id === rule.id ? rule : r))
+      : [...prefs.value.rules, rule]
+    return updatePrefs({ rules })
   }
 
+  const removeRule = (id: string) =>
+    updatePrefs({ rules: prefs.value.rules.filter(r => r.id !== id) })
+
+  // Webhooks
+
+  const saveWebhook = (target: WebhookTarget) => {
+    const webhooks = prefs.value.webhooks.some(w => w.id === target.id)
+      ? prefs.value.webhooks.map(w => (w.id === target.id ? target : w))
+      : [...prefs.value.webhooks, target]
+    return updatePrefs({ webhooks })
+  }
+
+  const removeWebhook = (id: string) =>
+    updatePrefs({ webhooks: prefs.value.webhooks.filter(w => w.id !== id) })
+
   const enable = async () => {
     if (!pushSupported.value) {
       showToast('Push notifications not supported in this browser', { type: 'error' })
@@ -208,11 +342,12 @@ export const useNotifications = () => {
 
     // Send subscription to server with current addresses
     if (addresses.value.length > 0) {
-      await sendSubscriptionToServer(
-        sub,
-        [...addresses.value],
-        prefs.value
-      )
+      try {
+        await sendSubscriptionToServer(sub, [...addresses.value], prefs.value)
+      } catch (err) {
+        reportSyncError(err)
+        return
+      }
     }
 
     subscriptionActive.value = true
@@ -221,6 +356,7 @@ export const useNotifications = () => {
     showToast('Push notifications enabled', { type: 'success' })
   }
 
+  // Only turns off browser push; webhooks keep their own subscription
   const disable = async () => {
     if (swRegistration) {
       const sub = await swRegistration.pushManager.getSubscription()
@@ -236,19 +372,6 @@ export const useNotifications = () => {
     showToast('Push notifications disabled', { type: 'info' })
   }
 
-  // Sync subscription when addresses change
-  const syncSubscription = async () => {
-    if (!prefs.value.enabled || !swRegistration) return
-    const sub = await swRegistration.pushManager.getSubscription()
-    if (!sub || addresses.value.length === 0) return
-
-    await sendSubscriptionToServer(
-      sub,
-      [...addresses.value],
-      prefs.value
-    )
-  }
-
   // Listen for notification clicks from SW
   if (typeof window !== 'undefined') {
     navigator.serviceWorker?.addEventListener('message', (event) => {
@@ -267,6 +390,11 @@ export const useNotifications = () => {
     })
   }
 
+  // Webhooks saved before they had their own subscription are registered once
+  if (typeof window !== 'undefined' && prefs.value.webhooks.length > 0 && !webhookSubscriptionId.value) {
+    syncWebhooks()
+  }
+
   // Watch for address changes and re-sync
   watch(addresses, () => syncSubscription(), { deep: true })
 
@@ -275,9 +403,14 @@ export const useNotifications = () => {
     permissionState: readonly(permissionState),
     pushSupported: readonly(pushSupported),
     subscriptionActive: readonly(subscriptionActive),
+    webhookSubscriptionId: readonly(webhookSubscriptionId),
     enable,
     disable,
     updatePrefs,
+    saveRule,
+    removeRule,
+    saveWebhook,
+    removeWebhook,
     syncSubscription,
   }
 }
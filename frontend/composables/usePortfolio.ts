@@ -1,50 +1,324 @@
-const STORAGE_KEY = 'qli-portfolio-addresses'
+import { isApiError } from '~/utils/apiClient'
+import {
+  collectAddresses,
+  createEntry,
+  createPortfolio,
+  createWatchlist,
+  fromLegacyAddresses,
+  mergeLists,
+  normalizeTags,
+  parsePortfolio,
+  parsePortfolioCsv,
+  portfolioToCsv,
+  DEFAULT_LIST_NAME,
+  type PortfolioDocument,
+  type PortfolioEntry,
+  type Watchlist,
+} from '~/utils/portfolio'
+import type { PortfolioSyncDto } from '~/composables/useApi'
 
-const addresses = ref<string[]>([])
+const STORAGE_KEY = 'qli-portfolio'
+/** Flat address array used before watchlists; migrated on first load */
+const LEGACY_STORAGE_KEY = 'qli-portfolio-addresses'
+const SYNC_TOKEN_KEY = 'qli-portfolio-sync-token'
+/** Push local changes once editing has settled */
+const SYNC_DEBOUNCE_MS = 2000
+/** The push subscription endpoint accepts at most this many addresses */
+const MAX_NOTIFY_ADDRESSES = 20
+
+export type SyncStatus = 'off' | 'idle' | 'syncing' | 'error'
+
+const portfolio = ref<PortfolioDocument>(createPortfolio())
+const activeListId = ref('')
+const syncToken = ref<string | null>(null)
+const syncStatus = ref<SyncStatus>('off')
+const syncError = ref<string | null>(null)
+const lastSyncedAt = ref<string | null>(null)
 let initialized = false
+let syncTimer: ReturnType<typeof setTimeout> | null = null
 
 function loadFromStorage() {
-  if (initialized) return
-  initialized = true
   if (typeof window === 'undefined') return
   try {
     const stored = localStorage.getItem(STORAGE_KEY)
+    const legacy = localStorage.getItem(LEGACY_STORAGE_KEY)
     if (stored) {
-      addresses.value = JSON.parse(stored)
+      portfolio.value = parsePortfolio(JSON.parse(stored))
+    } else if (legacy) {
+      portfolio.value = fromLegacyAddresses(JSON.parse(legacy))
+      saveToStorage()
+      localStorage.removeItem(LEGACY_STORAGE_KEY)
     }
   } catch {
-    addresses.value = []
+    portfolio.value = createPortfolio()
+  }
+  if (portfolio.value.lists.length === 0) portfolio.value.lists.push(createWatchlist(DEFAULT_LIST_NAME))
+  if (!portfolio.value.lists.some(l => l.id === activeListId.value)) {
+    activeListId.value = portfolio.value.lists[0]!.id
   }
 }
 
 function saveToStorage() {
   if (typeof window === 'undefined') return
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(addresses.value))
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(portfolio.value))
 }
 
-export const usePortfolio = () => {
+/** 32 random bytes, base64url encoded */
+function generateSyncToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32))
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function adoptRemote(remote: PortfolioSyncDto) {
+  portfolio.value = { ...parsePortfolio(remote.document), updatedAt: remote.updatedAt }
+  saveToStorage()
   loadFromStorage()
+}
 
-  const addAddress = (address: string) => {
-    if (!addresses.value.includes(address)) {
-      addresses.value.push(address)
-      saveToStorage()
+/**
+ * Reconcile the local portfolio with the synced copy: the copy that was
+ * changed last wins as a whole.
+ */
+async function syncNow() {
+  const token = syncToken.value
+  if (!token) return
+  const api = useApi({ routeScoped: false })
+
+  syncStatus.value = 'syncing'
+  syncError.value = null
+  try {
+    let remote: PortfolioSyncDto | null = null
+    try {
+      remote = await api.getPortfolioSync(token)
+    } catch (err) {
+      if (!isApiError(err) || !err.isNotFound) throw err
     }
+
+    const localTime = Date.parse(portfolio.value.updatedAt)
+    if (remote && Date.parse(remote.updatedAt) > localTime) {
+      adoptRemote(remote)
+    } else if (!remote || Date.parse(remote.updatedAt) < localTime) {
+      try {
+        await api.putPortfolioSync(token, {
+          document: portfolio.value as unknown as Record<string, unknown>,
+          updatedAt: portfolio.value.updatedAt,
+        })
+      } catch (err) {
+        // Changed elsewhere in the meantime; the response carries that copy
+        if (!isApiError(err) || err.status !== 409 || !err.problem) throw err
+        adoptRemote(err.problem as unknown as PortfolioSyncDto)
+      }
+    }
+    lastSyncedAt.value = new Date().toISOString()
+    syncStatus.value = 'idle'
+  } catch (err) {
+    syncStatus.value = 'error'
+    syncError.value = err instanceof Error ? err.message : 'Sync failed'
   }
+}
+
+function scheduleSync() {
+  if (!syncToken.value) return
+  if (syncTimer) clearTimeout(syncTimer)
+  syncTimer = setTimeout(() => {
+    syncTimer = null
+    syncNow()
+  }, SYNC_DEBOUNCE_MS)
+}
+
+/** Apply a local change: stamp, persist and queue a sync */
+function update(mutate: (doc: PortfolioDocument) => void) {
+  mutate(portfolio.value)
+  portfolio.value.updatedAt = new Date().toISOString()
+  saveToStorage()
+  scheduleSync()
+}
+
+function findList(listId: string): Watchlist | undefined {
+  return portfolio.value.lists.find(l => l.id === listId)
+}
+
+function init() {
+  if (initialized || typeof window === 'undefined') return
+  initialized = true
+  loadFromStorage()
 
-  const removeAddress = (address: string) => {
-    addresses.value = addresses.value.filter(a => a !== address)
-    saveToStorage()
+  syncToken.value = localStorage.getItem(SYNC_TOKEN_KEY)
+  if (syncToken.value) {
+    syncStatus.value = 'idle'
+    syncNow()
   }
 
-  const isInPortfolio = (address: string) => {
-    return addresses.value.includes(address)
+  // Keep tabs in step
+  window.addEventListener('storage', (event) => {
+    if (event.key === STORAGE_KEY) loadFromStorage()
+  })
+}
+
+export const usePortfolio = () => {
+  init()
+
+  const lists = computed(() => portfolio.value.lists)
+  const activeList = computed(() => findList(activeListId.value) ?? portfolio.value.lists[0]!)
+
+  /** Every tracked address, across all lists */
+  const addresses = computed(() => collectAddresses(portfolio.value.lists))
+
+  /** Addresses of lists with notifications on (capped at the push subscription limit) */
+  const notifyAddresses = computed(() =>
+    collectAddresses(portfolio.value.lists.filter(l => l.notify)).slice(0, MAX_NOTIFY_ADDRESSES)
+  )
+
+  const setActiveList = (listId: string) => {
+    if (findList(listId)) activeListId.value = listId
+  }
+
+  // Lists
+
+  const createList = (name: string) => {
+    const list = createWatchlist(name.trim() || DEFAULT_LIST_NAME)
+    update(doc => doc.lists.push(list))
+    activeListId.value = list.id
+    return list
+  }
+
+  const renameList = (listId: string, name: string) => {
+    if (!name.trim()) return
+    update(() => {
+      const list = findList(listId)
+      if (list) list.name = name.trim()
+    })
+  }
+
+  /** Delete a list; the last remaining list is emptied instead */
+  const deleteList = (listId: string) => {
+    update((doc) => {
+      doc.lists = doc.lists.filter(l => l.id !== listId)
+      if (doc.lists.length === 0) doc.lists.push(createWatchlist(DEFAULT_LIST_NAME))
+    })
+    if (activeListId.value === listId) activeListId.value = portfolio.value.lists[0]!.id
+  }
+
+  const setListNotify = (listId: string, notify: boolean) => {
+    update(() => {
+      const list = findList(listId)
+      if (list) list.notify = notify
+    })
+  }
+
+  // Entries
+
+  const addAddress = (address: string, listId = activeList.value.id) => {
+    const list = findList(listId)
+    if (!list || list.entries.some(e => e.address === address)) return
+    update(() => list.entries.push(createEntry(address)))
+  }
+
+  /** Remove an address from one list, or from every list when no list is given */
+  const removeAddress = (address: string, listId?: string) => {
+    update((doc) => {
+      for (const list of doc.lists) {
+        if (listId && list.id !== listId) continue
+        list.entries = list.entries.filter(e => e.address !== address)
+      }
+    })
+  }
+
+  const updateEntry = (listId: string, address: string, details: Partial<Pick<PortfolioEntry, 'nickname' | 'tags' | 'notes'>>) => {
+    update(() => {
+      const list = findList(listId)
+      const index = list?.entries.findIndex(e => e.address === address) ?? -1
+      if (!list || index === -1) return
+      const current = list.entries[index]!
+      list.entries[index] = createEntry(address, {
+        nickname: details.nickname ?? current.nickname,
+        notes: details.notes ?? current.notes,
+        tags: details.tags ? normalizeTags(details.tags) : current.tags,
+        addedAt: current.addedAt,
+      })
+    })
+  }
+
+  const isInPortfolio = (address: string) =>
+    portfolio.value.lists.some(l => l.entries.some(e => e.address === address))
+
+  /** First entry for an address (for its nickname and tags) */
+  const getEntry = (address: string): PortfolioEntry | undefined => {
+    for (const list of portfolio.value.lists) {
+      const entry = list.entries.find(e => e.address === address)
+      if (entry) return entry
+    }
+    return undefined
+  }
+
+  // Import / export
+
+  const exportJson = () => JSON.stringify(portfolio.value, null, 2)
+
+  const exportCsv = (listIds?: string[]) =>
+    portfolioToCsv(listIds ? portfolio.value.lists.filter(l => listIds.includes(l.id)) : portfolio.value.lists)
+
+  /**
+   * Import a JSON export or a CSV file. CSV rows without a list column go to
+   * the active list. Throws PortfolioImportError for invalid files.
+   */
+  const importText = (text: string, format: 'json' | 'csv') => {
+    const imported = format === 'json'
+      ? parsePortfolio(JSON.parse(text)).lists
+      : parsePortfolioCsv(text, activeList.value.name)
+    update(doc => (doc.lists = mergeLists(doc.lists, imported)))
+    return {
+      lists: imported.length,
+      entries: imported.reduce((sum, l) => sum + l.entries.length, 0),
+    }
+  }
+
+  // Sync
+
+  /** Turn on sync with a new token, or link to an existing one from another browser */
+  const enableSync = async (token?: string) => {
+    syncToken.value = token?.trim() || generateSyncToken()
+    localStorage.setItem(SYNC_TOKEN_KEY, syncToken.value)
+    await syncNow()
+  }
+
+  /** Turn off sync; optionally delete the synced copy as well */
+  const disableSync = async (deleteRemote = false) => {
+    const token = syncToken.value
+    syncToken.value = null
+    syncStatus.value = 'off'
+    syncError.value = null
+    localStorage.removeItem(SYNC_TOKEN_KEY)
+    if (deleteRemote && token) {
+      await useApi({ routeScoped: false }).deletePortfolioSync(token).catch(() => {})
+    }
   }
 
   return {
-    addresses: readonly(addresses),
+    lists,
+    activeList,
+    activeListId: readonly(activeListId),
+    addresses,
+    notifyAddresses,
+    setActiveList,
+    createList,
+    renameList,
+    deleteList,
+    setListNotify,
     addAddress,
     removeAddress,
+    updateEntry,
     isInPortfolio,
+    getEntry,
+    exportJson,
+    exportCsv,
+    importText,
+    syncToken: readonly(syncToken),
+    syncStatus: readonly(syncStatus),
+    syncError: readonly(syncError),
+    lastSyncedAt: readonly(lastSyncedAt),
+    enableSync,
+    disableSync,
+    syncNow,
   }
 }
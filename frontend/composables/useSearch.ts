@@ -0,0 +1,123 @@
+import type { SearchResultDto } from '~/utils/api/generated'
+import {
+  SearchResultType,
+  SUGGEST_DELAY_MS,
+  SUGGEST_LIMIT,
+  addRecentSearch,
+  directSearchRoute,
+  loadRecentSearches,
+  saveRecentSearches,
+  searchResultLink,
+  type RecentSearch,
+  type SearchSuggestion,
+} from '~/utils/search'
+
+const paletteOpen = ref(false)
+const recent = ref<RecentSearch[]>([])
+let recentLoaded = false
+
+function ensureRecentLoaded() {
+  if (recentLoaded || typeof window === 'undefined') return
+  recentLoaded = true
+  recent.value = loadRecentSearches()
+}
+
+/** Palette state, recent searches and navigation shared by all search inputs */
+export const useSearch = () => {
+  const router = useRouter()
+  ensureRecentLoaded()
+
+  /** Navigate to a search result and remember it */
+  const go = async (entry: RecentSearch) => {
+    recent.value = addRecentSearch(recent.value, { type: entry.type, title: entry.title, to: entry.to })
+    saveRecentSearches(recent.value)
+    paletteOpen.value = false
+    await router.push(entry.to)
+  }
+
+  /** Go straight to a transaction or address, otherwise to the search page */
+  const submit = async (query: string) => {
+    const q = query.trim()
+    if (!q) return
+    await go({ title: q, to: directSearchRoute(q) ?? `/search?q=${encodeURIComponent(q)}` })
+  }
+
+  const clearRecent = () => {
+    recent.value = []
+    saveRecentSearches([])
+  }
+
+  return {
+    paletteOpen,
+    openPalette: () => { paletteOpen.value = true },
+    closePalette: () => { paletteOpen.value = false },
+    recent: readonly(recent),
+    go,
+    submit,
+    clearRecent,
+  }
+}
+
+/**
+ * Type-ahead suggestions for a query, fetched after a short pause in typing.
+ * Responses to outdated queries are dropped.
+ */
+export const useSearchSuggestions = (query: Ref<string>) => {
+  const api = useApi()
+  const { getLabel, fetchLabels } = useAddressLabels()
+
+  const results = ref<SearchResultDto[]>([])
+  const pending = ref(false)
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let requestId = 0
+
+  watch(query, (value) => {
+    clearTimeout(timer)
+    const q = value.trim()
+    const id = ++requestId
+    if (!q) {
+      results.value = []
+      pending.value = false
+      return
+    }
+
+    pending.value = true
+    timer = setTimeout(async () => {
+      try {
+        const response = await api.search(q, SUGGEST_LIMIT)
+        if (id !== requestId) return
+        results.value = response.results
+        const addresses = response.results
+          .filter(r => r.type === SearchResultType.Address)
+          .map(r => r.value)
+        if (addresses.length) fetchLabels(addresses)
+      } catch {
+        if (id === requestId) results.value = []
+      } finally {
+        if (id === requestId) pending.value = false
+      }
+    }, SUGGEST_DELAY_MS)
+  })
+
+  onBeforeUnmount(() => clearTimeout(timer))
+
+  const toSuggestion = (result: SearchResultDto, index: number): SearchSuggestion => {
+    const key = `${result.type}-${result.value}-${result.detail ?? ''}-${index}`
+    const to = searchResultLink(result)
+
+    if (result.type === SearchResultType.Address) {
+      const label = getLabel(result.value)?.label
+      const named = result.displayName && result.displayName !== 'Address' ? result.displayName : null
+      const title = label || named || result.value
+      return { key, type: result.type, title, to, subtitle: title !== result.value ? result.value : undefined }
+    }
+    if (result.type === SearchResultType.Procedure) {
+      return { key, type: result.type, title: result.displayName || result.value, to, subtitle: `Input type ${result.detail}` }
+    }
+    return { key, type: result.type, title: result.displayName || result.value, to }
+  }
+
+  const suggestions = computed(() => results.value.map(toSuggestion))
+
+  return { suggestions, pending }
+}
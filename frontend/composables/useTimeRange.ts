@@ -1,45 +1,242 @@
-export type TimeRangePreset = '24h' | '7d' | '30d' | '90d' | 'all' | 'custom'
+import type { Ref } from 'vue'
+import { epochSeriesComparison, type ChartComparison, type ComparisonAggregate } from '~/utils/chartComparison'
+import {
+  calendarEpochRange,
+  comparisonName,
+  DEFAULT_PRESET,
+  previousEpochSpan,
+  previousWindow,
+  relativeRange,
+  type ComparisonRange,
+  type ComparisonRequest,
+  type RangeRequest,
+  type RelativePreset,
+  type Span,
+  type TimeRange,
+} from '~/utils/timeRange'
 
-export interface TimeRange {
-  preset: TimeRangePreset
-  from: string | null  // ISO 8601 string
-  to: string | null    // ISO 8601 string
+// Dates of completed epochs never change; keyed by epoch number
+const epochStartCache = new Map<number, string>()
+const epochEndCache = new Map<number, string>()
+const tickTimeCache = new Map<number, string>()
+
+// Empty ticks may carry a zero/sentinel timestamp; anything before Qubic
+// launched is treated as unknown
+const MIN_VALID_TIME = Date.UTC(2022, 0, 1)
+
+const validTimestamp = (value: string | undefined): string | null => {
+  const time = value ? new Date(value).getTime() : NaN
+  return time >= MIN_VALID_TIME ? new Date(time).toISOString() : null
+}
+
+const tickTime = async (tickNumber: number): Promise<string | null> => {
+  const cached = tickTimeCache.get(tickNumber)
+  if (cached) return cached
+  const tick = await useApi({ routeScoped: false }).getTick(tickNumber)
+  const time = validTimestamp(tick.timestamp)
+  if (time) tickTimeCache.set(tickNumber, time)
+  return time
+}
+
+/**
+ * Dates of an epoch span, from the timestamps of the first epoch's initial
+ * tick and the last epoch's end tick (now while that epoch is running). The
+ * calendar fills in whatever the metadata cannot answer.
+ */
+const resolveEpochRange = async ([first, last]: Span): Promise<{ from: string; to: string }> => {
+  const calendar = calendarEpochRange([first, last])
+  const api = useApi({ routeScoped: false })
+
+  const start = async () => {
+    const cached = epochStartCache.get(first)
+    if (cached) return cached
+    const meta = await api.getEpochMeta(first)
+    const time = meta.initialTick ? await tickTime(meta.initialTick) : null
+    if (time && meta.isComplete) epochStartCache.set(first, time)
+    return time
+  }
+
+  const end = async () => {
+    const cached = epochEndCache.get(last)
+    if (cached) return cached
+    const meta = await api.getEpochMeta(last)
+    if (!meta.isComplete) return new Date().toISOString()
+    const time = meta.endTick ? await tickTime(meta.endTick) : null
+    if (time) epochEndCache.set(last, time)
+    return time
+  }
+
+  const [from, to] = await Promise.all([start().catch(() => null), end().catch(() => null)])
+  return { from: from ?? calendar.from, to: to ?? calendar.to }
 }
 
+/** Dates of a tick span; fails when either tick has no usable timestamp */
+const resolveTickRange = async ([first, last]: Span): Promise<{ from: string; to: string }> => {
+  const [from, to] = await Promise.all([tickTime(first), tickTime(last)])
+  if (!from || !to) throw new Error(`No timestamp known for tick ${from ? last : first}`)
+  return { from, to }
+}
+
+const resolveRange = async (request: RangeRequest): Promise<TimeRange> => {
+  switch (request.preset) {
+    case 'custom':
+      return { preset: 'custom', from: request.from, to: request.to, epochs: null, ticks: null }
+    case 'epochs':
+      return { preset: 'epochs', ...await resolveEpochRange(request.epochs), epochs: request.epochs, ticks: null }
+    case 'ticks':
+      return { preset: 'ticks', ...await resolveTickRange(request.ticks), epochs: null, ticks: request.ticks }
+    default:
+      return relativeRange(request.preset)
+  }
+}
+
+/**
+ * Dates to compare the range with. "Previous" means the previous epochs of
+ * the same count for epoch ranges and the window of the same length before
+ * the range otherwise; no comparison is possible for "all".
+ */
+const resolveComparison = async (range: TimeRange, request: ComparisonRequest): Promise<ComparisonRange> => {
+  const none: ComparisonRange = { mode: 'none', epoch: null, from: null, to: null }
+
+  if (request.mode === 'epoch') {
+    return { mode: 'epoch', epoch: request.epoch, ...await resolveEpochRange([request.epoch, request.epoch]) }
+  }
+
+  if (request.mode === 'previous') {
+    if (range.preset === 'epochs' && range.epochs) {
+      const span = previousEpochSpan(range.epochs)
+      return span ? { mode: 'previous', epoch: null, ...await resolveEpochRange(span) } : none
+    }
+    const window = previousWindow(range.from, range.to)
+    return window ? { mode: 'previous', epoch: null, ...window } : none
+  }
+
+  return none
+}
+
+const comparisonRequest = (comparison: ComparisonRange): ComparisonRequest =>
+  comparison.mode === 'epoch' && comparison.epoch
+    ? { mode: 'epoch', epoch: comparison.epoch }
+    : { mode: comparison.mode === 'previous' ? 'previous' : 'none' }
+
 export const useTimeRange = () => {
-  const timeRange = useState<TimeRange>('analytics-time-range', () => ({
-    preset: '7d',
+  const timeRange = useState<TimeRange>('analytics-time-range', () => relativeRange(DEFAULT_PRESET))
+  const comparison = useState<ComparisonRange>('analytics-comparison-range', () => ({
+    mode: 'none',
+    epoch: null,
     from: null,
     to: null,
   }))
+  // Epoch and tick ranges need API lookups before they can be applied
+  const resolving = useState('analytics-time-range-resolving', () => false)
 
-  const setPreset = (preset: TimeRangePreset) => {
-    const now = new Date()
-    let from: Date | null = null
-
-    switch (preset) {
-      case '24h': from = new Date(now.getTime() - 24 * 60 * 60 * 1000); break
-      case '7d':  from = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000); break
-      case '30d': from = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000); break
-      case '90d': from = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000); break
-      case 'all': from = null; break
+  /**
+   * Resolve a range and comparison, then swap both in at once so tabs
+   * refetch a single time.
+   */
+  const apply = async (range: RangeRequest, compare: ComparisonRequest = comparisonRequest(comparison.value)) => {
+    resolving.value = true
+    try {
+      const resolved = await resolveRange(range)
+      const resolvedComparison = await resolveComparison(resolved, compare)
+      timeRange.value = resolved
+      comparison.value = resolvedComparison
+    } finally {
+      resolving.value = false
     }
+  }
+
+  const setPreset = (preset: RelativePreset) => apply({ preset })
 
-    timeRange.value = {
-      preset,
-      from: from?.toISOString() ?? null,
-      to: preset === 'all' ? null : now.toISOString(),
+  const setCustomRange = (from: string, to: string) => apply({ preset: 'custom', from, to })
+
+  const setEpochRange = (first: number, last: number) =>
+    apply({ preset: 'epochs', epochs: first <= last ? [first, last] : [last, first] })
+
+  /** Rejects when a tick of the span has no known timestamp */
+  const setTickRange = (first: number, last: number) =>
+    apply({ preset: 'ticks', ticks: first <= last ? [first, last] : [last, first] })
+
+  const setComparison = async (request: ComparisonRequest) => {
+    resolving.value = true
+    try {
+      comparison.value = await resolveComparison(timeRange.value, request)
+    } finally {
+      resolving.value = false
     }
   }
 
-  const setCustomRange = (from: string, to: string) => {
-    timeRange.value = { preset: 'custom', from, to }
+  return {
+    timeRange: readonly(timeRange),
+    comparison: readonly(comparison),
+    resolving: readonly(resolving),
+    apply,
+    setPreset,
+    setCustomRange,
+    setEpochRange,
+    setTickRange,
+    setComparison,
   }
+}
+
+/**
+ * Fetch a tab's data a second time for the comparison range and turn it into
+ * chart overlays. `fetcher` is the same call the tab makes for its own range,
+ * e.g. `(from, to) => api.getBurnStatsHistory(500, from, to)`.
+ */
+export const useComparisonData = <T>(fetcher: (from: string, to: string) => Promise<T[]>) => {
+  const { timeRange, comparison } = useTimeRange()
+  const rows = ref([]) as Ref<T[]>
+  const loading = ref(false)
 
-  // Initialize with default if not yet set
-  if (!timeRange.value.from && timeRange.value.preset !== 'all') {
-    setPreset('7d')
+  const active = computed(() => comparison.value.mode !== 'none' && !!comparison.value.from && !!comparison.value.to)
+  const label = computed(() => comparisonName(timeRange.value, comparison.value))
+
+  const load = async () => {
+    const { from, to } = comparison.value
+    if (!active.value || !from || !to) {
+      rows.value = []
+      return
+    }
+    loading.value = true
+    try {
+      rows.value = await fetcher(from, to)
+    } catch (e) {
+      console.error('Failed to fetch comparison data', e)
+      rows.value = []
+    } finally {
+      loading.value = false
+    }
+  }
+
+  /** Overlay for a chart, one series per dataset in the same order; null while off */
+  const overlay = (
+    series: { label: string; value: (row: T) => number }[],
+    aggregate?: ComparisonAggregate
+  ): ChartComparison | null => {
+    if (!active.value || rows.value.length === 0) return null
+    return {
+      label: label.value,
+      datasets: series.map(s => ({ label: s.label, data: rows.value.map(s.value) })),
+      aggregate,
+    }
   }
 
-  return { timeRange: readonly(timeRange), setPreset, setCustomRange }
+  watch(comparison, load, { deep: true })
+
+  return { rows, loading, active, label, load, overlay }
+}
+
+/**
+ * Overlay builder for charts with one point per epoch, which the date range
+ * does not apply to: each epoch against the previous one, or against the
+ * chosen comparison epoch. Call it inside a computed.
+ */
+export const useEpochComparison = () => {
+  const { comparison } = useTimeRange()
+  return (epochs: readonly number[], series: { label: string; data: readonly number[] }[]): ChartComparison | null => {
+    const { mode, epoch } = comparison.value
+    if (mode === 'none') return null
+    return epochSeriesComparison(epochs, series, mode === 'epoch' ? epoch : null)
+  }
 }
@@ -0,0 +1,25 @@
+import { parseComparisonQuery, parseRangeQuery, pickTimeRangeQuery, sameTimeRangeQuery, timeRangeToQuery } from '~/utils/timeRange'
+
+/**
+ * Apply ?range= / ?compare= before an analytics page renders, so its tabs
+ * fetch the shared range on the first try. TimeRangeSelector writes the
+ * state back into the URL.
+ */
+export default defineNuxtRouteMiddleware(async (to) => {
+  if (!to.path.startsWith('/analytics')) return
+
+  const query = pickTimeRangeQuery(to.query)
+  const { timeRange, comparison, apply } = useTimeRange()
+
+  // A link without a range keeps the current one; our own router.replace is a no-op
+  if (Object.keys(query).length === 0 || sameTimeRangeQuery(query, timeRangeToQuery(timeRange.value, comparison.value))) return
+
+  const range = parseRangeQuery(query)
+  if (!range) return
+
+  try {
+    await apply(range, parseComparisonQuery(query))
+  } catch (e) {
+    console.error('Failed to apply time range from URL', e)
+  }
+})
@@ -10,7 +10,12 @@ export default defineNuxtConfig({
     apiUrl: process.env.NUXT_API_URL || 'http://api:8080',
     public: {
       // Client-side API URL (for browser) - use relative path to go through nginx
-      apiUrl: process.env.NUXT_PUBLIC_API_URL || ''
+      apiUrl: process.env.NUXT_PUBLIC_API_URL || '',
+      // Contract schema registry (JSON IDL) - static file or API endpoint; empty = bundled schemas only
+      contractRegistryUrl: process.env.NUXT_PUBLIC_CONTRACT_REGISTRY_URL ?? '/contract-schemas.json',
+      // API client: per-attempt timeout (0 = none) and retries for failed GET requests (0 = none)
+      apiTimeoutMs: Number(process.env.NUXT_PUBLIC_API_TIMEOUT_MS ?? 30000),
+      apiRetryAttempts: Number(process.env.NUXT_PUBLIC_API_RETRY_ATTEMPTS ?? 2)
     }
   },
 
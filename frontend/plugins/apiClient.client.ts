@@ -0,0 +1,13 @@
+import { abortRouteRequests } from '~/utils/apiClient'
+
+// Cancel the requests of the page being left so slow responses don't
+// compete with the next page. Query-only changes (pagination, filters)
+// keep the page mounted, so its other requests are left running.
+export default defineNuxtPlugin(() => {
+  const router = useRouter()
+  router.beforeEach((to, from) => {
+    if (to.path !== from.path) {
+      abortRouteRequests()
+    }
+  })
+})
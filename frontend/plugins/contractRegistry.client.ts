@@ -0,0 +1,12 @@
+import { loadContractRegistry } from '~/utils/contractSchemaRegistry'
+
+// Start loading the contract schema registry without holding up the first
+// render; decoding waits for it through useContractInput().ready(). Falls back
+// to the bundled schemas if the registry is missing, invalid or times out.
+export default defineNuxtPlugin(() => {
+  const config = useRuntimeConfig()
+  const url = config.public.contractRegistryUrl
+  if (url) {
+    loadContractRegistry(url)
+  }
+})
@@ -9,6 +9,74 @@ self.addEventListener('activate', (event) => {
   event.waitUntil(self.clients.claim())
 })
 
+// Notification inbox — same database and item shape as utils/notificationInbox.ts
+const INBOX_DB = 'qli-inbox'
+const INBOX_STORE = 'notifications'
+
+function openInbox() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(INBOX_DB, 1)
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(INBOX_STORE, { keyPath: 'id' })
+      store.createIndex('createdAt', 'createdAt')
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Read-modify-write of one item; `update` gets the stored item (or undefined)
+async function updateInboxItem(id, update) {
+  const db = await openInbox()
+  await new Promise((resolve, reject) => {
+    const tx = db.transaction(INBOX_STORE, 'readwrite')
+    const store = tx.objectStore(INBOX_STORE)
+    const get = store.get(id)
+    get.onsuccess = () => {
+      const item = update(get.result)
+      if (item) store.put(item)
+    }
+    tx.oncomplete = resolve
+    tx.onerror = () => reject(tx.error)
+  })
+  db.close()
+}
+
+function inboxItemFromPush(data) {
+  const match = (data.url || '').match(/^\/(address|tx)\/([A-Za-z0-9]+)/)
+  const address = data.address || (match && match[1] === 'address' ? match[2] : null)
+  const txHash = data.txHash || (match && match[1] === 'tx' ? match[2] : null)
+  const createdAt = data.timestamp || Date.now()
+  return {
+    id: address && txHash ? address + ':' + txHash : 'push:' + createdAt + ':' + Math.random().toString(36).slice(2, 8),
+    source: 'push',
+    title: data.title || 'QLI Analytics',
+    body: data.body || '',
+    url: txHash ? '/tx/' + txHash : data.url || '/',
+    address,
+    txHash,
+    createdAt,
+    read: false,
+  }
+}
+
+// Store the push in the inbox and hand it to every open tab
+async function recordPush(data) {
+  const item = inboxItemFromPush(data)
+  try {
+    await updateInboxItem(item.id, (existing) => existing
+      ? { ...existing, title: item.title, body: item.body }
+      : item)
+  } catch {
+    // IndexedDB unavailable (e.g. private mode); open tabs still get the push
+  }
+  const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+  for (const client of clients) {
+    client.postMessage({ type: 'PUSH_RECEIVED', item })
+  }
+  return item.id
+}
+
 // Handle incoming push events
 self.addEventListener('push', (event) => {
   if (!event.data) return
@@ -20,18 +88,18 @@ self.addEventListener('push', (event) => {
     data = { title: 'QLI Analytics', body: event.data.text() }
   }
 
-  const options = {
-    body: data.body || '',
-    icon: '/favicon.svg',
-    badge: '/favicon.svg',
-    tag: 'qli-' + (data.timestamp || Date.now()),
-    data: { url: data.url || '/' },
-    requireInteraction: false,
-    silent: false,
-  }
-
   event.waitUntil(
-    self.registration.showNotification(data.title || 'QLI Analytics', options)
+    recordPush(data).then((inboxId) =>
+      self.registration.showNotification(data.title || 'QLI Analytics', {
+        body: data.body || '',
+        icon: '/favicon.svg',
+        badge: '/favicon.svg',
+        tag: 'qli-' + (data.timestamp || Date.now()),
+        data: { url: data.url || '/', inboxId },
+        requireInteraction: false,
+        silent: false,
+      })
+    )
   )
 })
 
@@ -40,19 +108,26 @@ self.addEventListener('notificationclick', (event) => {
   event.notification.close()
 
   const url = event.notification.data?.url || '/'
+  const inboxId = event.notification.data?.inboxId
 
-  event.waitUntil(
+  // Clicking the OS notification reads the inbox entry
+  const markRead = inboxId
+    ? updateInboxItem(inboxId, (existing) => existing && { ...existing, read: true }).catch(() => {})
+    : Promise.resolve()
+
+  event.waitUntil(Promise.all([
+    markRead,
     self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
       // If a tab is already open, focus it and navigate
       for (const client of clients) {
         if (client.url.includes(self.location.origin)) {
           client.focus()
-          client.postMessage({ type: 'NOTIFICATION_CLICK', url })
+          client.postMessage({ type: 'NOTIFICATION_CLICK', url, inboxId })
           return
         }
       }
       // Otherwise open a new tab
       return self.clients.openWindow(url)
-    })
-  )
+    }),
+  ]))
 })
@@ -0,0 +1,344 @@
+#!/usr/bin/env node
+/**
+ * API Client Generator
+ *
+ * Generates utils/api/generated.ts (DTO interfaces and typed endpoint
+ * functions) from the repository's openapi.yaml.
+ *
+ *   npm run api:generate   write the generated client
+ *   npm run api:check      fail if the generated client is stale, an operation
+ *                          is missing from useApi, or useApi calls a URL the
+ *                          spec does not describe
+ *
+ * Every operation needs an operationId; it becomes the endpoint function name.
+ * Operations secured with the admin API key or marked `x-client: false` are
+ * generated but not required in useApi.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs'
+import { dirname, resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { parse } from 'yaml'
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..')
+const SPEC_PATH = resolve(root, '../openapi.yaml')
+const OUTPUT_PATH = resolve(root, 'utils/api/generated.ts')
+const CLIENT_PATH = resolve(root, 'composables/useApi.ts')
+
+const METHODS = ['get', 'post', 'put', 'patch', 'delete']
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/
+
+// =============================================================================
+// Schema -> TypeScript
+// =============================================================================
+
+function refName(ref) {
+  const prefix = '#/components/schemas/'
+  if (!ref.startsWith(prefix)) throw new Error(`Unsupported $ref ${ref}`)
+  return ref.slice(prefix.length)
+}
+
+function propertyKey(name) {
+  return IDENTIFIER.test(name) ? name : JSON.stringify(name)
+}
+
+function docComment(text, indent) {
+  if (!text) return ''
+  const lines = String(text).trim().split('\n')
+  if (lines.length === 1) return `${indent}/** ${lines[0].replace(/\*\//g, '* /')} */\n`
+  return `${indent}/**\n${lines.map(line => `${indent} * ${line.replace(/\*\//g, '* /')}`.trimEnd()).join('\n')}\n${indent} */\n`
+}
+
+function literal(value) {
+  return typeof value === 'string' ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'` : String(value)
+}
+
+function withNull(type, schema) {
+  return schema.nullable ? `${type} | null` : type
+}
+
+function objectBody(schema, indent) {
+  const required = Array.isArray(schema.required) ? new Set(schema.required) : null
+  const lines = []
+  for (const [name, property] of Object.entries(schema.properties ?? {})) {
+    const optional = required && !required.has(name) ? '?' : ''
+    lines.push(`${docComment(property.description, indent)}${indent}${propertyKey(name)}${optional}: ${tsType(property, indent)}`)
+  }
+  return lines.join('\n')
+}
+
+function tsType(schema, indent = '  ') {
+  if (!schema) return 'unknown'
+  if (schema.$ref) return withNull(refName(schema.$ref), schema)
+
+  const union = schema.oneOf ?? schema.anyOf
+  if (union) return withNull(union.map(s => tsType(s, indent)).join(' | '), schema)
+  if (schema.allOf) return withNull(schema.allOf.map(s => tsType(s, indent)).join(' & '), schema)
+
+  if (schema.enum) return withNull(schema.enum.map(literal).join(' | '), schema)
+
+  switch (schema.type) {
+    case 'integer':
+    case 'number':
+      return withNull('number', schema)
+    case 'string':
+      return withNull('string', schema)
+    case 'boolean':
+      return withNull('boolean', schema)
+    case 'array': {
+      const item = tsType(schema.items, indent)
+      return withNull(/[|&]/.test(item) ? `Array<${item}>` : `${item}[]`, schema)
+    }
+    case 'object':
+    case undefined: {
+      if (schema.properties) {
+        return withNull(`{\n${objectBody(schema, `${indent}  `)}\n${indent}}`, schema)
+      }
+      if (schema.additionalProperties && schema.additionalProperties !== true) {
+        return withNull(`Record<string, ${tsType(schema.additionalProperties, indent)}>`, schema)
+      }
+      return withNull('Record<string, unknown>', schema)
+    }
+    default:
+      throw new Error(`Unsupported schema type ${schema.type}`)
+  }
+}
+
+function generateSchema(name, schema) {
+  const doc = docComment(schema.description, '')
+  // allOf of a base $ref plus own properties maps to interface inheritance
+  if (schema.allOf && !schema.nullable) {
+    const bases = schema.allOf.filter(s => s.$ref).map(s => refName(s.$ref))
+    const own = schema.allOf.filter(s => !s.$ref)
+    if (own.every(s => s.type === 'object' || s.properties)) {
+      const body = own.map(s => objectBody(s, '  ')).filter(Boolean).join('\n')
+      return `${doc}export interface ${name} extends ${bases.join(', ')} {\n${body}\n}`
+    }
+  }
+  if ((schema.type === 'object' || schema.properties) && !schema.nullable && schema.properties) {
+    return `${doc}export interface ${name} {\n${objectBody(schema, '  ')}\n}`
+  }
+  return `${doc}export type ${name} = ${tsType(schema, '')}`
+}
+
+// =============================================================================
+// Operations
+// =============================================================================
+
+function pascalCase(name) {
+  return name.charAt(0).toUpperCase() + name.slice(1)
+}
+
+function collectOperations(spec) {
+  const operations = []
+  const ids = new Set()
+  for (const [path, item] of Object.entries(spec.paths ?? {})) {
+    for (const method of METHODS) {
+      const operation = item[method]
+      if (!operation) continue
+      const id = operation.operationId
+      if (!id) throw new Error(`${method.toUpperCase()} ${path} has no operationId`)
+      if (!IDENTIFIER.test(id)) throw new Error(`operationId ${id} is not a valid identifier`)
+      if (ids.has(id)) throw new Error(`Duplicate operationId ${id}`)
+      ids.add(id)
+
+      const parameters = [...(item.parameters ?? []), ...(operation.parameters ?? [])]
+      const success = Object.entries(operation.responses ?? {})
+        .find(([status]) => status.startsWith('2'))?.[1]
+      const content = success?.content ?? {}
+      const json = content['application/json']
+      const bodySchema = operation.requestBody?.content?.['application/json']?.schema
+
+      operations.push({
+        id,
+        method: method.toUpperCase(),
+        path,
+        summary: operation.summary,
+        pathParams: parameters.filter(p => p.in === 'path'),
+        queryParams: parameters.filter(p => p.in === 'query'),
+        body: bodySchema ? { schema: bodySchema, required: operation.requestBody.required === true } : null,
+        response: json ? tsType(json.schema, '      ') : 'void',
+        // Downloads (CSV etc.) are opened by URL rather than fetched as JSON
+        download: !json && Object.keys(content).length > 0,
+        admin: (operation.security ?? []).some(s => 'AdminApiKey' in s),
+        clientRequired: operation['x-client'] !== false,
+      })
+    }
+  }
+  return operations
+}
+
+function generateParams(operation) {
+  const lines = []
+  for (const param of [...operation.pathParams, ...operation.queryParams]) {
+    const optional = param.in === 'path' || param.required ? '' : '?'
+    lines.push(`${docComment(param.description, '  ')}  ${propertyKey(param.name)}${optional}: ${tsType(param.schema, '  ')}`)
+  }
+  if (operation.body) {
+    lines.push(`  body${operation.body.required ? '' : '?'}: ${tsType(operation.body.schema, '  ')}`)
+  }
+  return lines
+}
+
+function paramsTypeName(operation) {
+  return `${pascalCase(operation.id)}Params`
+}
+
+function hasRequiredParams(operation) {
+  return operation.pathParams.length > 0
+    || operation.queryParams.some(p => p.required)
+    || operation.body?.required === true
+}
+
+function generateEndpoint(operation, lines) {
+  const hasParams = lines.length > 0
+  const paramsArg = hasParams
+    ? `params: ${paramsTypeName(operation)}${hasRequiredParams(operation) ? '' : ' = {}'}`
+    : ''
+  const args = [paramsArg, 'init?: ApiRequestOptions'].filter(Boolean).join(', ')
+  const query = JSON.stringify(operation.queryParams.map(p => p.name)).replace(/"/g, '\'').replace(/,/g, ', ')
+  const url = `buildPath('${operation.path}', ${hasParams ? 'params' : '{}'}, ${query})`
+
+  const requestInit = ['...init']
+  if (operation.method !== 'GET') requestInit.push(`method: '${operation.method}'`)
+  if (operation.body) requestInit.push('body: JSON.stringify(params.body)')
+  const init = requestInit.length === 1 ? 'init' : `{ ${requestInit.join(', ')} }`
+
+  return `${docComment(`${operation.method} ${operation.path}${operation.summary ? ` - ${operation.summary}` : ''}`, '    ')}`
+    + `    ${operation.id}: (${args}) =>\n      request<${operation.response}>(${url}, ${init}),`
+}
+
+function generatePath(operation, lines) {
+  const hasParams = lines.length > 0
+  const paramsArg = hasParams ? `params: ${paramsTypeName(operation)}${hasRequiredParams(operation) ? '' : ' = {}'}` : ''
+  const query = JSON.stringify(operation.queryParams.map(p => p.name)).replace(/"/g, '\'').replace(/,/g, ', ')
+  return `${docComment(`${operation.method} ${operation.path}${operation.summary ? ` - ${operation.summary}` : ''}`, '  ')}`
+    + `  ${operation.id}: (${paramsArg}) =>\n    buildPath('${operation.path}', ${hasParams ? 'params' : '{}'}, ${query}),`
+}
+
+function generate(spec) {
+  const schemas = Object.entries(spec.components?.schemas ?? {})
+    .map(([name, schema]) => generateSchema(name, schema))
+  const operations = collectOperations(spec)
+
+  const paramTypes = []
+  const endpoints = []
+  const paths = []
+  for (const operation of operations) {
+    const lines = generateParams(operation)
+    if (lines.length > 0) {
+      paramTypes.push(`export interface ${paramsTypeName(operation)} {\n${lines.join('\n')}\n}`)
+    }
+    if (operation.download) {
+      paths.push(generatePath(operation, lines))
+    } else {
+      endpoints.push(generateEndpoint(operation, lines))
+    }
+  }
+
+  return `/**
+ * Qubic Explorer API client
+ *
+ * Generated from openapi.yaml by scripts/generate-api.mjs - do not edit.
+ * Run \`npm run api:generate\` after changing the spec.
+ */
+
+import type { ApiRequest, ApiRequestOptions } from '../apiClient'
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+${schemas.join('\n\n')}
+
+// =============================================================================
+// Parameters
+// =============================================================================
+
+${paramTypes.join('\n\n')}
+
+// =============================================================================
+// Endpoints
+// =============================================================================
+
+/** Fill path parameters and append the defined query parameters */
+function buildPath(template: string, params: object, query: readonly string[]): string {
+  const values = params as Record<string, unknown>
+  const path = template.replace(/\\{(\\w+)\\}/g, (_, name: string) => encodeURIComponent(String(values[name])))
+  const search = new URLSearchParams()
+  for (const name of query) {
+    const value = values[name]
+    if (value === undefined || value === null) continue
+    search.set(name, Array.isArray(value) ? value.join(',') : String(value))
+  }
+  const queryString = search.toString()
+  return queryString ? \`\${path}?\${queryString}\` : path
+}
+
+export function createApiEndpoints(request: ApiRequest) {
+  return {
+${endpoints.join('\n\n')}
+  }
+}
+
+export type ApiEndpoints = ReturnType<typeof createApiEndpoints>
+
+/** URLs of non-JSON endpoints (downloads), relative to the API base URL */
+export const apiPaths = {
+${paths.join('\n\n')}
+}
+`
+}
+
+// =============================================================================
+// Check
+// =============================================================================
+
+function checkClient(spec) {
+  const client = readFileSync(CLIENT_PATH, 'utf8')
+  const problems = []
+
+  for (const operation of collectOperations(spec)) {
+    if (operation.admin || !operation.clientRequired) continue
+    const accessor = operation.download ? 'apiPaths' : 'endpoints'
+    if (!new RegExp(`\\b${accessor}\\.${operation.id}\\(`).test(client)) {
+      problems.push(`${operation.method} ${operation.path} (${operation.id}) has no useApi method`)
+    }
+  }
+
+  // Hand-built URLs bypass the spec
+  for (const match of client.matchAll(/['`]\/api\/[^'`]*['`]/g)) {
+    problems.push(`useApi builds ${match[0]} by hand; add it to openapi.yaml instead`)
+  }
+  return problems
+}
+
+function main() {
+  const spec = parse(readFileSync(SPEC_PATH, 'utf8'))
+  const output = generate(spec)
+
+  if (!process.argv.includes('--check')) {
+    writeFileSync(OUTPUT_PATH, output)
+    console.log(`Wrote ${OUTPUT_PATH}`)
+    return
+  }
+
+  const problems = checkClient(spec)
+  let current = ''
+  try {
+    current = readFileSync(OUTPUT_PATH, 'utf8')
+  } catch {
+    // Missing file is reported as stale below
+  }
+  if (current !== output) {
+    problems.unshift('utils/api/generated.ts is out of date; run `npm run api:generate`')
+  }
+
+  if (problems.length > 0) {
+    for (const problem of problems) console.error(`✗ ${problem}`)
+    process.exit(1)
+  }
+  console.log('API client matches openapi.yaml')
+}
+
+main()
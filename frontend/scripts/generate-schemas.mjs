@@ -0,0 +1,350 @@
+#!/usr/bin/env node
+/**
+ * Contract Schema Registry Generator
+ *
+ * Writes public/contract-schemas.json, the registry served to the browser,
+ * from the schemas bundled in utils/contractInputDecoder.ts.
+ *
+ *   npm run schemas:generate   write the registry
+ *   npm run schemas:check      fail if the registry is stale or invalid, if
+ *                              a bundled struct does not round-trip, if a
+ *                              stored contract message does not decode, or if
+ *                              a historical input decodes with the wrong layout
+ *
+ * The round trip fills every bundled struct (procedure and function inputs and
+ * outputs, and logged messages) with random values, encodes them, decodes the
+ * bytes and encodes the decoded values again. It fails if the decoder does not
+ * return the values that were encoded, or if re-encoding changes the bytes,
+ * i.e. if the decoder and encoder disagree on a layout. Each logged message of
+ * the current layouts is also encoded and stored the ways the indexer stores a
+ * log body (bare hex, a JSON string, or a member of a JSON object), and must
+ * decode through the contract log decoder. Values are drawn from a fixed seed;
+ * pass `--seed=N` to try others. Finally, fixed inputs sent at known epochs
+ * must decode with the layout that was active then (HISTORICAL_INPUTS).
+ *
+ * The decoder is TypeScript used through Nuxt auto-imports, so it is
+ * transpiled into a temporary directory and imported from there.
+ */
+
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { dirname, join, resolve } from 'node:path'
+import { fileURLToPath, pathToFileURL } from 'node:url'
+import ts from 'typescript'
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..')
+const OUTPUT_PATH = resolve(root, 'public/contract-schemas.json')
+const MODULES = ['qubicIdentity', 'contractInputDecoder', 'contractSchemaRegistry', 'contractLogDecoder']
+const ROUNDS = 5
+
+// =============================================================================
+// Loading the decoder
+// =============================================================================
+
+async function loadModules() {
+  const dir = mkdtempSync(join(tmpdir(), 'contract-schemas-'))
+  try {
+    for (const name of MODULES) {
+      const source = readFileSync(resolve(root, `utils/${name}.ts`), 'utf8')
+      const { outputText } = ts.transpileModule(source, {
+        compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+      })
+      // Node needs the extension on relative imports
+      writeFileSync(join(dir, `${name}.mjs`), outputText.replace(/from '\.\/(\w+)'/g, "from './$1.mjs'"))
+    }
+    const [identity, decoder, registry, logDecoder] = await Promise.all(
+      MODULES.map((name) => import(pathToFileURL(join(dir, `${name}.mjs`)).href))
+    )
+    return { identity, decoder, registry, logDecoder }
+  } finally {
+    rmSync(dir, { recursive: true, force: true })
+  }
+}
+
+// =============================================================================
+// Random values in the decoder's output shape
+// =============================================================================
+
+function createRandom(seed) {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const INT_SIZES = { uint8: 1, sint8: 1, uint16: 2, sint16: 2, uint32: 4, sint32: 4, uint64: 8, sint64: 8 }
+const ASSET_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789'
+
+function createSampler(random, publicKeyToIdentity) {
+  const randomBytes = (size) => Uint8Array.from({ length: size }, () => Math.floor(random() * 256))
+  const randomText = (maxLength, chars) => {
+    const length = Math.floor(random() * (maxLength + 1))
+    return Array.from({ length }, () => chars[Math.floor(random() * chars.length)]).join('')
+  }
+  const printable = Array.from({ length: 95 }, (_, i) => String.fromCharCode(32 + i)).join('')
+
+  const randomInt = (type) => {
+    const bits = BigInt(INT_SIZES[type] * 8)
+    let value = 0n
+    for (const byte of randomBytes(INT_SIZES[type])) value = (value << 8n) | BigInt(byte)
+    if (type.startsWith('sint')) value = BigInt.asIntN(Number(bits), value)
+    // 64-bit integers are decoded as decimal strings
+    return bits === 64n ? value.toString() : Number(value)
+  }
+
+  const sampleField = (field) => {
+    if (field.count !== undefined) {
+      return Array.from({ length: field.count }, () => sampleField({ ...field, count: undefined }))
+    }
+    switch (field.type) {
+      case 'id':
+        return publicKeyToIdentity(randomBytes(32))
+      case 'Asset':
+        return { issuer: publicKeyToIdentity(randomBytes(32)), assetName: randomText(7, ASSET_CHARS) }
+      case 'assetName':
+        return randomText(7, ASSET_CHARS)
+      case 'struct':
+        return sampleMembers(field.fields ?? [])
+      case 'chars':
+        return randomText(field.size, printable)
+      case 'flags':
+        if (!field.flags?.length) {
+          return Array.from(randomBytes(field.size), (b) => b.toString(16).padStart(2, '0')).join('')
+        }
+        return Object.fromEntries(field.flags.map((name) => [name, random() < 0.5]))
+      default:
+        return randomInt(field.type)
+    }
+  }
+
+  const sampleMembers = (fields) =>
+    Object.fromEntries(fields.filter((f) => f.type !== 'padding').map((f) => [f.name, sampleField(f)]))
+
+  return sampleMembers
+}
+
+// =============================================================================
+// Round trip
+// =============================================================================
+
+function toHex(bytes) {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+function structs(schema) {
+  const result = []
+  const add = (kind, id, name, fields, packed) => {
+    if (fields?.length) result.push({ label: `${schema.name}${schema.version ? ` ${schema.version}` : ''} ${kind} ${id} ${name}`, fields, packed })
+  }
+  for (const [kind, entries] of [['procedure', schema.procedures], ['function', schema.functions ?? {}]]) {
+    for (const [id, procedure] of Object.entries(entries)) {
+      add(`${kind} input`, id, procedure.name, procedure.fields, procedure.packed)
+      add(`${kind} output`, id, procedure.name, procedure.outputs, procedure.packed)
+    }
+  }
+  for (const [id, log] of Object.entries(schema.logs ?? {})) {
+    add('log', id, log.name, log.fields, log.packed)
+  }
+  return result
+}
+
+function roundTrip(decoder, struct, values) {
+  const procedure = { name: struct.label, fields: struct.fields, packed: struct.packed }
+  const bytes = decoder.encodeProcedureInput(procedure, values)
+  const hex = toHex(bytes)
+
+  const decoded = decoder.decodeStruct(hex, struct.fields, struct.packed)
+  if (decoded.error) return `decoding failed: ${decoded.error}`
+  const decodedValues = Object.fromEntries(decoded.fields.map((field) => [field.name, field.value]))
+  if (JSON.stringify(decodedValues) !== JSON.stringify(values)) {
+    return `decoded values differ\n    encoded: ${JSON.stringify(values)}\n    decoded: ${JSON.stringify(decodedValues)}`
+  }
+
+  const reencoded = toHex(decoder.encodeProcedureInput(procedure, decodedValues))
+  if (reencoded !== hex) return `re-encoded bytes differ\n    first:  ${hex}\n    second: ${reencoded}`
+  return null
+}
+
+function checkRoundTrips(decoder, sampleMembers) {
+  const problems = []
+  let checked = 0
+  for (const schema of decoder.getBundledSchemas()) {
+    for (const struct of structs(schema)) {
+      checked++
+      for (let round = 0; round < ROUNDS; round++) {
+        let error
+        try {
+          error = roundTrip(decoder, struct, sampleMembers(struct.fields))
+        } catch (err) {
+          error = err instanceof Error ? err.message : String(err)
+        }
+        if (error) {
+          problems.push(`${struct.label}: ${error}`)
+          break
+        }
+      }
+    }
+  }
+  return { problems, checked }
+}
+
+/** Store each current log layout as the indexer would and decode it back */
+function checkLogBodies(decoder, logDecoder, sampleMembers) {
+  const problems = []
+  let checked = 0
+  for (const schema of decoder.getBundledSchemas()) {
+    if (schema.validity?.toEpoch !== undefined || schema.validity?.toTick !== undefined) continue
+    for (const [id, log] of Object.entries(schema.logs ?? {})) {
+      checked++
+      const label = `${schema.name} log ${id} ${log.name}`
+      const values = { ...sampleMembers(log.fields), _contractIndex: schema.index, _type: Number(id) }
+      const hex = toHex(decoder.encodeProcedureInput({ name: log.name, fields: log.fields, packed: log.packed }, values))
+      const bodies = [hex, JSON.stringify(hex), JSON.stringify({ scIndex: schema.index, scLogType: Number(id), content: hex })]
+      for (const body of bodies) {
+        const decoded = logDecoder.decodeContractLog(body)
+        const decodedValues = decoded && Object.fromEntries(decoded.fields.map((field) => [field.name, field.value]))
+        if (!decoded || decoded.error || decoded.messageType !== Number(id)
+          || JSON.stringify(decodedValues) !== JSON.stringify(values)) {
+          problems.push(`${label}: stored body ${body.slice(0, 40)}... did not decode (${decoded?.error ?? decoded?.messageName ?? 'no schema'})`)
+          break
+        }
+      }
+    }
+  }
+  return { problems, checked }
+}
+
+// =============================================================================
+// Historical inputs
+// =============================================================================
+
+/** Little-endian hex of an unsigned integer */
+function le(value, bytes) {
+  return toHex(Array.from({ length: bytes }, (_, i) => Number((BigInt(value) >> BigInt(8 * i)) & 0xffn)))
+}
+
+const ISSUER_HEX = '11'.repeat(32)
+const ASSET_QX_HEX = '5158000000000000'
+
+/**
+ * Inputs as sent at a given epoch and what they must decode to: the layout
+ * version, the procedure and some field values, or null when no layout of
+ * that time has the procedure.
+ */
+const HISTORICAL_INPUTS = [
+  {
+    label: 'QX AddToAskOrder before share management rights',
+    contractIndex: 1, inputType: 5, epoch: 100,
+    inputHex: ISSUER_HEX + ASSET_QX_HEX + le(100, 8) + le(5, 8),
+    expect: { version: 'v1', procedure: 'AddToAskOrder', values: { price: '100', numberOfShares: '5' } },
+  },
+  {
+    label: 'QX TransferShareManagementRights before it existed',
+    contractIndex: 1, inputType: 9, epoch: 100,
+    inputHex: ISSUER_HEX + ASSET_QX_HEX + le(5, 8) + le(9, 4) + le(0, 4),
+    expect: null,
+  },
+  {
+    label: 'QX TransferShareManagementRights',
+    contractIndex: 1, inputType: 9, epoch: 150,
+    inputHex: ISSUER_HEX + ASSET_QX_HEX + le(5, 8) + le(9, 4) + le(0, 4),
+    expect: { version: 'v2', procedure: 'TransferShareManagementRights', values: { numberOfShares: '5', newManagingContractIndex: '9' } },
+  },
+  {
+    label: 'QX before construction',
+    contractIndex: 1, inputType: 5, epoch: 50,
+    inputHex: ISSUER_HEX + ASSET_QX_HEX + le(100, 8) + le(5, 8),
+    expect: null,
+  },
+  {
+    label: 'QUTIL SendToManyV1 before BurnQubic',
+    contractIndex: 4, inputType: 1, epoch: 110,
+    inputHex: ISSUER_HEX + '00'.repeat(32 * 24) + le(1000, 8) + '00'.repeat(8 * 24),
+    expect: { version: 'v1', procedure: 'SendToManyV1', values: {} },
+  },
+  {
+    label: 'QUTIL BurnQubic before it existed',
+    contractIndex: 4, inputType: 2, epoch: 110,
+    inputHex: le(1_000_000, 8),
+    expect: null,
+  },
+  {
+    label: 'QUTIL BurnQubic',
+    contractIndex: 4, inputType: 2, epoch: 130,
+    inputHex: le(1_000_000, 8),
+    expect: { version: 'v2', procedure: 'BurnQubic', values: { amount: '1000000' } },
+  },
+]
+
+function checkHistoricalInputs(decoder) {
+  const problems = []
+  for (const input of HISTORICAL_INPUTS) {
+    const decoded = decoder.decodeContractInput(input.inputHex, input.contractIndex, input.inputType, { epoch: input.epoch })
+    const { expect } = input
+    if (!expect) {
+      if (decoded) problems.push(`${input.label}: decoded as ${decoded.procedureName} ${decoded.schemaVersion}, expected no layout`)
+      continue
+    }
+    if (!decoded || decoded.error || decoded.schemaVersion !== expect.version || decoded.procedureName !== expect.procedure) {
+      problems.push(`${input.label}: decoded as ${decoded ? `${decoded.procedureName} ${decoded.schemaVersion}` : 'nothing'}`
+        + `${decoded?.error ? ` (${decoded.error})` : ''}, expected ${expect.procedure} ${expect.version}`)
+      continue
+    }
+    for (const [name, value] of Object.entries(expect.values)) {
+      const field = decoded.fields.find((f) => f.name === name)
+      if (String(field?.value) !== value) problems.push(`${input.label}: ${name} is ${field?.value}, expected ${value}`)
+    }
+  }
+  return { problems, checked: HISTORICAL_INPUTS.length }
+}
+
+async function main() {
+  const { identity, decoder, registry, logDecoder } = await loadModules()
+  const output = `${JSON.stringify(registry.toContractRegistry(), null, 2)}\n`
+
+  if (!process.argv.includes('--check')) {
+    writeFileSync(OUTPUT_PATH, output)
+    console.log(`Wrote ${OUTPUT_PATH}`)
+    return
+  }
+
+  const seedArg = process.argv.find((arg) => arg.startsWith('--seed='))
+  const seed = seedArg ? Number(seedArg.slice('--seed='.length)) : 1
+  const sampleMembers = createSampler(createRandom(seed), identity.publicKeyToIdentity)
+  const { problems, checked } = checkRoundTrips(decoder, sampleMembers)
+  const logs = checkLogBodies(decoder, logDecoder, sampleMembers)
+  problems.push(...logs.problems)
+  const historical = checkHistoricalInputs(decoder)
+  problems.push(...historical.problems)
+
+  let current = ''
+  try {
+    current = readFileSync(OUTPUT_PATH, 'utf8')
+  } catch {
+    // Missing file is reported as stale below
+  }
+  if (current !== output) {
+    problems.unshift('public/contract-schemas.json is out of date; run `npm run schemas:generate`')
+  }
+  try {
+    registry.validateContractRegistry(JSON.parse(output))
+  } catch (err) {
+    problems.unshift(`The bundled schemas are not a valid registry: ${err instanceof Error ? err.message : err}`)
+  }
+
+  if (problems.length > 0) {
+    for (const problem of problems) console.error(`✗ ${problem}`)
+    process.exit(1)
+  }
+  console.log(`Registry matches the bundled schemas; ${checked} structs round-trip (seed ${seed}, ${ROUNDS} rounds each)`
+    + `, ${logs.checked} stored contract messages decode and ${historical.checked} historical inputs pick their layout`)
+}
+
+main().catch((err) => {
+  console.error(err)
+  process.exit(1)
+})
@@ -0,0 +1,2676 @@
+/**
+ * Qubic Explorer API client
+ *
+ * Generated from openapi.yaml by scripts/generate-api.mjs - do not edit.
+ * Run `npm run api:generate` after changing the spec.
+ */
+
+import type { ApiRequest, ApiRequestOptions } from '../apiClient'
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+export interface PaginatedTransactionResponse {
+  /** TransactionDetailDto items when requested with detailed=true */
+  items: Array<TransactionDto | TransactionDetailDto>
+  page: number
+  limit: number
+  totalCount: number
+  totalPages: number
+  hasNextPage: boolean
+  hasPreviousPage: boolean
+}
+
+export interface PaginatedTransferResponse {
+  items: TransferDto[]
+  page: number
+  limit: number
+  totalCount: number
+  totalPages: number
+  hasNextPage: boolean
+  hasPreviousPage: boolean
+}
+
+export interface PaginatedTickResponse {
+  items: TickDto[]
+  page: number
+  limit: number
+  totalCount: number
+  totalPages: number
+  hasNextPage: boolean
+  hasPreviousPage: boolean
+}
+
+export interface SearchResponse {
+  query: string
+  results: SearchResultDto[]
+}
+
+export interface SearchResultDto {
+  /** 0 = Tick, 1 = Transaction, 2 = Address, 3 = Asset, 4 = Epoch, 5 = Procedure */
+  type: number
+  /** The tick, epoch, hash, address or asset name; the contract address for procedures */
+  value: string
+  displayName: string | null
+  /** Issuer address for assets, input type for procedures */
+  detail: string | null
+}
+
+export interface TransactionDto {
+  hash: string
+  tickNumber: number
+  epoch: number
+  fromAddress: string
+  toAddress: string
+  amount: number
+  inputType: number
+  inputTypeName: string | null
+  executed: boolean
+  timestamp: string
+}
+
+export interface TransactionDetailDto extends TransactionDto {
+  inputData: string | null
+  parsedInput: ParsedInputData | null
+  logs: LogDto[]
+}
+
+/** Parsed input of a core transaction; the fields present depend on typeName */
+export interface ParsedInputData {
+  typeName: string
+  votes?: number[]
+  scores?: number[]
+  dataLock?: string
+  totalVotes?: number
+  totalScore?: number
+  nonZeroCount?: number
+  miningSeed?: string
+  nonce?: string
+  fileSize?: number
+  numberOfFragments?: number
+  fileFormat?: string
+  lastFileFragmentTransactionDigest?: string
+  fragmentIndex?: number
+  prevFileFragmentTransactionDigest?: string
+  payloadSize?: number
+  items?: {
+    queryId: number
+    replyDigest: string
+    replyKnowledgeProof: string
+  }[]
+  queryId?: number
+  replyDataHex?: string
+  replyDataSize?: number
+  phaseNumber?: number
+  numEntries?: number
+  entries?: {
+    contractIndex: number
+    executionFee: number
+  }[]
+  oracleInterfaceIndex?: number
+  oracleInterfaceName?: string
+  timeoutMilliseconds?: number
+  queryDataHex?: string
+  queryDataSize?: number
+  parsedQueryFields?: {
+    name: string
+    value: string
+    type: string
+  }[]
+}
+
+export interface SpecialTransactionDto {
+  txHash: string
+  specialType: string
+  specialTypeName: string
+  tickNumber: number
+  timestamp: string
+  logs: LogDto[]
+}
+
+export interface LogDto {
+  tickNumber: number
+  logId: number
+  logType: number
+  logTypeName: string
+  txHash: string | null
+  sourceAddress: string | null
+  destAddress: string | null
+  amount: number
+  assetName: string | null
+  timestamp: string
+  /** Raw log body as stored by the indexer (transaction detail only) */
+  rawData: string | null
+}
+
+export interface TransferDto {
+  tickNumber: number
+  epoch: number
+  logId: number
+  logType: number
+  logTypeName: string
+  txHash: string | null
+  sourceAddress: string
+  destAddress: string
+  amount: number
+  assetName: string | null
+  timestamp: string
+}
+
+export interface TickDto {
+  tickNumber: number
+  epoch: number
+  timestamp: string
+  txCount: number
+  logCount: number
+  isEmpty: boolean
+}
+
+export interface TickDetailDto extends TickDto {
+  transactions: TransactionDto[]
+}
+
+export interface AddressDto {
+  address: string
+  balance: number
+  incomingAmount: number
+  outgoingAmount: number
+  txCount: number
+  transferCount: number
+}
+
+export interface AddressActivityRangeDto {
+  firstTick: number | null
+  firstTimestamp: string | null
+  firstEpoch: number | null
+  lastTick: number | null
+  lastTimestamp: string | null
+  lastEpoch: number | null
+}
+
+export interface AddressFlowDto {
+  address: string
+  label: string | null
+  type: string | null
+  inbound: FlowNodeDto[]
+  outbound: FlowNodeDto[]
+}
+
+export interface FlowNodeDto {
+  address: string
+  label: string | null
+  type: string | null
+  totalAmount: number
+  transactionCount: number
+}
+
+export interface TransactionGraphDto {
+  nodes: GraphNodeDto[]
+  links: GraphLinkDto[]
+}
+
+export interface GraphNodeDto {
+  address: string
+  label: string | null
+  type: string | null
+  totalVolume: number
+  depth: number
+}
+
+export interface GraphLinkDto {
+  source: string
+  target: string
+  amount: number
+  txCount: number
+}
+
+export interface BatchAddressRequest {
+  addresses: string[]
+}
+
+export interface BalanceHistoryRequest {
+  addresses: string[]
+  /** Number of epochs up to and including the current one */
+  epochs?: number
+}
+
+export interface KnownAddressDto {
+  address: string
+  label: string
+  type: string
+  contractIndex?: number | null
+  website?: string | null
+}
+
+export interface AddressLabelDto {
+  address: string
+  label: string | null
+  type: 'unknown' | 'known' | 'exchange' | 'smartcontract' | 'tokenissuer' | 'burn'
+  contractIndex?: number | null
+  website?: string | null
+  /** Entity the address was clustered into, see /api/entities/{id} */
+  entityId?: string | null
+  /** Label of the entity's labelled address */
+  entityLabel?: string | null
+  entityType?: 'unknown' | 'known' | 'exchange' | 'tokenissuer' | null
+  /** How the address joined the entity, see EntityRole */
+  entityRole?: 'anchor' | 'deposit' | 'collector' | 'payout' | 'cospend' | null
+}
+
+/** anchor: the labelled address the entity is named after; deposit: sweeps its balance into another member; collector: unlabelled address deposits are swept into; payout: sends SendToMany payouts to the same recipients as another member; cospend: sends to the same destination in the same tick as another member */
+export type EntityRole = 'anchor' | 'deposit' | 'collector' | 'payout' | 'cospend'
+
+export interface EntityMemberDto {
+  address: string
+  role: EntityRole
+  /** Sweeps, shared payout recipients or co-spending ticks behind the membership */
+  evidence: number
+  label: string | null
+  type: 'unknown' | 'known' | 'exchange' | 'smartcontract' | 'tokenissuer' | 'burn'
+}
+
+export interface EntityDto {
+  id: string
+  label: string | null
+  type: 'unknown' | 'known' | 'exchange' | 'tokenissuer'
+  memberCount: number
+  computedAt: string
+  members: EntityMemberDto[]
+}
+
+export interface LabelStatsDto {
+  totalLabels: number
+  byType: Record<string, number>
+  /** Label set version, null until labels are loaded */
+  version: string | null
+}
+
+export interface LabelVersionDto {
+  /** Hash of the loaded label set, null until labels are loaded */
+  version: string | null
+  updatedAt: string | null
+  totalLabels: number
+}
+
+export interface LabelProposalRequest {
+  address: string
+  label: string
+  type: 'known' | 'exchange' | 'tokenissuer'
+  /** http(s) page where the label can be verified */
+  sourceUrl: string
+  comment?: string | null
+}
+
+export interface LabelProposalDto {
+  id: string
+  address: string
+  label: string
+  type: 'known' | 'exchange' | 'tokenissuer'
+  sourceUrl: string
+  comment: string | null
+  status: 'pending' | 'approved' | 'rejected' | 'revoked'
+  reviewNote: string | null
+  createdAt: string
+  reviewedAt: string | null
+  /** The address's label now (moderation queue only) */
+  currentLabel?: string | null
+  currentType?: string | null
+}
+
+export interface LabelReviewRequest {
+  note: string | null
+}
+
+export interface LabelReviewResultDto {
+  proposal: LabelProposalDto
+  /** Label set version after the review */
+  version: string | null
+}
+
+export interface PaginatedLabelProposalResponse {
+  items: LabelProposalDto[]
+  page: number
+  limit: number
+  totalCount: number
+  totalPages: number
+  hasNextPage: boolean
+  hasPreviousPage: boolean
+}
+
+export interface LabelChangeDto {
+  address: string
+  oldLabel: string | null
+  /** unknown when the address had no label */
+  oldType: string
+  newLabel: string | null
+  /** unknown when the label was removed */
+  newType: string
+  source: 'bundle' | 'community'
+  proposalId: string | null
+  sourceUrl: string | null
+  /** Label set version after the change */
+  version: string
+  changedAt: string
+}
+
+export interface PaginatedLabelChangeResponse {
+  items: LabelChangeDto[]
+  page: number
+  limit: number
+  totalCount: number
+  totalPages: number
+  hasNextPage: boolean
+  hasPreviousPage: boolean
+}
+
+export interface ProcedureLookupDto {
+  contractAddress: string
+  inputType: number
+  procedureName: string | null
+}
+
+export interface EpochStatsDto {
+  epoch: number
+  tickCount: number
+  emptyTickCount: number
+  firstTick: number
+  lastTick: number
+  startTime: string
+  endTime: string
+  txCount: number
+  totalVolume: number
+  uniqueSenders: number
+  uniqueReceivers: number
+  activeAddresses: number
+  transferCount: number
+  quTransferred: number
+  assetTransferCount: number
+}
+
+export interface EpochSummaryDto {
+  epoch: number
+  tickCount: number
+  emptyTickCount: number
+  txCount: number
+  totalVolume: number
+  activeAddresses: number
+  startTime: string
+  endTime: string
+  firstTick: number
+  lastTick: number
+}
+
+export interface EpochTransferByTypeDto {
+  epoch: number
+  logType: number
+  logTypeName: string
+  count: number
+  totalAmount: number
+}
+
+export interface EpochCountdownDto {
+  currentEpoch: number
+  currentEpochStart: string
+  averageEpochDurationMs: number
+  estimatedEpochEnd: string
+  currentTick: number
+}
+
+export interface EpochMetaDto {
+  epoch: number
+  initialTick: number
+  endTick: number
+  endTickStartLogId: number
+  endTickEndLogId: number
+  isComplete: boolean
+  updatedAt: string
+  tickCount: number
+  emptyTickCount: number
+  txCount: number
+  totalVolume: number
+  activeAddresses: number
+  transferCount: number
+  quTransferred: number
+}
+
+export interface EpochMetaRequest {
+  initialTick: number
+  endTick?: number
+  endTickStartLogId?: number
+  endTickEndLogId?: number
+}
+
+export interface EpochEmptyTickStatsDto {
+  epoch: number
+  totalEmptyTicks: number
+  totalTicks: number
+  computors: ComputorEmptyTickDto[]
+}
+
+export interface ComputorEmptyTickDto {
+  computorIndex: number
+  address: string
+  label: string | null
+  emptyTickCount: number
+  totalTickCount: number
+}
+
+export interface ContractRewardHistoryDto {
+  contractAddress: string
+  contractName: string | null
+  distributions: RewardDistributionDto[]
+  totalAllTimeDistributed: number
+  page: number
+  limit: number
+  totalCount: number
+  totalPages: number
+  hasNextPage: boolean
+  hasPreviousPage: boolean
+}
+
+export interface RewardDistributionDto {
+  epoch: number
+  contractAddress: string
+  contractName: string | null
+  tickNumber: number
+  totalAmount: number
+  amountPerShare: number
+  transferCount: number
+  timestamp: string
+}
+
+export interface EpochRewardSummaryDto {
+  epoch: number
+  distributions: RewardDistributionDto[]
+  totalRewardsDistributed: number
+}
+
+export interface AssetSummaryDto {
+  assetName: string
+  issuerAddress: string
+  issuerLabel: string | null
+  numberOfDecimalPlaces: number
+  totalSupply: number
+  holderCount: number
+}
+
+export interface AssetDetailDto {
+  assetName: string
+  issuerAddress: string
+  issuerLabel: string | null
+  numberOfDecimalPlaces: number
+  totalSupply: number
+  holderCount: number
+  snapshotEpoch: number
+  topHolders: AssetHolderDetailDto[]
+}
+
+export interface AssetHolderDetailDto {
+  address: string
+  label: string | null
+  type: string | null
+  ownedShares: number
+  possessedShares: number
+}
+
+export interface AssetHoldersPageDto {
+  holders: AssetHolderDetailDto[]
+  page: number
+  limit: number
+  totalCount: number
+  totalPages: number
+}
+
+export interface NetworkStatsDto {
+  latestTick: number
+  currentEpoch: number
+  totalTransactions: number
+  totalTransfers: number
+  totalVolume: number
+  lastUpdated: string
+}
+
+export interface ChartDataPointDto {
+  date: string
+  txCount: number
+  volume: number
+}
+
+export interface TopAddressDto {
+  address: string
+  label: string | null
+  type: string | null
+  sentVolume: number
+  receivedVolume: number
+  totalVolume: number
+  sentCount: number
+  receivedCount: number
+  totalCount: number
+}
+
+export interface SmartContractUsageDto {
+  address: string
+  name: string
+  contractIndex: number | null
+  callCount: number
+  totalAmount: number
+  uniqueCallers: number
+}
+
+export interface RichListDto {
+  entries: RichListEntryDto[]
+  page: number
+  limit: number
+  totalCount: number
+  totalPages: number
+  totalBalance: number
+  snapshotEpoch: number
+}
+
+export interface RichListEntryDto {
+  rank: number
+  address: string
+  label: string | null
+  type: string | null
+  balance: number
+  balanceFormatted: string
+  percentageOfSupply: number
+}
+
+export interface SupplyDashboardDto {
+  circulatingSupply: number
+  totalEmitted: number
+  totalBurned: number
+  latestEpochEmission: number
+  epochCount: number
+  snapshotEpoch: number
+  supplyCap: number
+  supplyCapProgress: number
+  emissionHistory: EmissionDataPointDto[]
+  burnHistory: BurnDataPointDto[]
+}
+
+export interface EmissionDataPointDto {
+  epoch: number
+  computorEmission: number
+  arbRevenue: number
+  donations: EmissionDonationDto[]
+  donationTotal: number
+  computorCount: number
+}
+
+export interface EmissionDonationDto {
+  address: string
+  label: string | null
+  amount: number
+}
+
+export interface BurnDataPointDto {
+  epoch: number
+  snapshotAt: string
+  burnAmount: number
+  burnCount: number
+}
+
+export interface WhaleAlertDto {
+  tickNumber: number
+  epoch: number
+  txHash: string
+  sourceAddress: string
+  sourceLabel: string | null
+  sourceType: string | null
+  destAddress: string
+  destLabel: string | null
+  destType: string | null
+  amount: number
+  amountFormatted: string
+  timestamp: string
+}
+
+export interface ActiveAddressTrendDto {
+  epoch: number | null
+  date: string | null
+  uniqueSenders: number
+  uniqueReceivers: number
+  totalActive: number
+}
+
+export interface NewVsReturningDto {
+  epoch: number
+  newAddresses: number
+  returningAddresses: number
+  totalAddresses: number
+}
+
+export interface ExchangeFlowDto {
+  dataPoints: ExchangeFlowDataPointDto[]
+  totalInflow: number
+  totalOutflow: number
+}
+
+export interface ExchangeFlowDataPointDto {
+  epoch: number
+  inflowVolume: number
+  inflowCount: number
+  outflowVolume: number
+  outflowCount: number
+  netFlow: number
+}
+
+export interface ExchangeSendersDto {
+  clusters: AddressClusterDto[]
+  senders: ExchangeSenderDto[]
+  epochsQueried: number
+  minAmount: number
+}
+
+export interface ExchangeSenderDto {
+  address: string
+  label: string | null
+  type: string | null
+  totalVolume: number
+  totalVolumeFormatted: string
+  transactionCount: number
+  epochCount: number
+  viaDepositAddresses: string[] | null
+  clusterId: number | null
+}
+
+export interface AddressClusterDto {
+  clusterId: number
+  addresses: string[]
+  links: ClusterLinkDto[]
+  totalVolume: number
+  totalVolumeFormatted: string
+}
+
+export interface ClusterLinkDto {
+  address1: string
+  address2: string
+  reason: string
+  volume: number
+}
+
+export interface HolderDistributionDto {
+  brackets: HolderBracketDto[]
+  totalHolders: number
+  totalBalance: number
+  concentration: ConcentrationMetricsDto | null
+}
+
+export interface HolderBracketDto {
+  name: string
+  count: number
+  balance: number
+  percentageOfSupply: number
+}
+
+export interface ConcentrationMetricsDto {
+  top10Balance: number
+  top10Percent: number
+  top50Balance: number
+  top50Percent: number
+  top100Balance: number
+  top100Percent: number
+}
+
+export interface HolderDistributionHistoryDto {
+  epoch: number
+  snapshotAt: string
+  tickStart: number
+  tickEnd: number
+  brackets: HolderBracketDto[]
+  totalHolders: number
+  totalBalance: number
+  concentration: ConcentrationMetricsDto
+  dataSource: string
+}
+
+export interface HolderDistributionExtendedDto {
+  current: HolderDistributionDto
+  history: HolderDistributionHistoryDto[]
+}
+
+export interface AvgTxSizeTrendDto {
+  epoch: number | null
+  date: string | null
+  txCount: number
+  totalVolume: number
+  avgTxSize: number
+  medianTxSize: number
+}
+
+export interface NetworkStatsHistoryDto {
+  epoch: number
+  snapshotAt: string
+  tickStart: number
+  tickEnd: number
+  totalTransactions: number
+  totalTransfers: number
+  totalVolume: number
+  uniqueSenders: number
+  uniqueReceivers: number
+  totalActiveAddresses: number
+  newAddresses: number
+  returningAddresses: number
+  exchangeInflowVolume: number
+  exchangeInflowCount: number
+  exchangeOutflowVolume: number
+  exchangeOutflowCount: number
+  exchangeNetFlow: number
+  scCallCount: number
+  scUniqueCallers: number
+  avgTxSize: number
+  medianTxSize: number
+  newUsers100MPlus: number
+  newUsers1BPlus: number
+  newUsers10BPlus: number
+}
+
+export interface NetworkStatsExtendedDto {
+  current: NetworkStatsHistoryDto | null
+  history: NetworkStatsHistoryDto[]
+}
+
+export interface BurnStatsHistoryDto {
+  epoch: number
+  snapshotAt: string
+  tickStart: number
+  tickEnd: number
+  totalBurned: number
+  burnCount: number
+  burnAmount: number
+  dustBurnCount: number
+  dustBurned: number
+  transferBurnCount: number
+  transferBurned: number
+  uniqueBurners: number
+  largestBurn: number
+  cumulativeBurned: number
+}
+
+export interface BurnStatsExtendedDto {
+  current: BurnStatsHistoryDto | null
+  history: BurnStatsHistoryDto[]
+  allTimeTotalBurned: number
+}
+
+export interface QearnStatsDto {
+  epochs: QearnEpochStatsDto[]
+  allTimeTotalBurned: number
+  allTimeTotalInput: number
+  allTimeTotalOutput: number
+}
+
+export interface QearnEpochStatsDto {
+  epoch: number
+  totalBurned: number
+  burnCount: number
+  totalInput: number
+  inputCount: number
+  totalOutput: number
+  outputCount: number
+  uniqueLockers: number
+  uniqueUnlockers: number
+}
+
+export interface CcfStatsDto {
+  activeProposals: CcfProposalDto[]
+  pastProposals: CcfProposalDto[]
+  transfers: CcfTransferDto[]
+  regularPayments: CcfRegularPaymentDto[]
+  activeSubscriptions: CcfSubscriptionDto[]
+  totalSpent: number
+  totalTransferCount: number
+  proposalFee: number
+  spendingByEpoch: CcfEpochSpendingDto[]
+}
+
+export interface CcfProposalDto {
+  proposalIndex: number
+  proposerAddress: string
+  url: string
+  proposalType: number
+  proposalTick: number
+  epoch: number
+  transferDestination: string | null
+  transferAmount: number | null
+  totalVotesAuthorized: number
+  totalVotesCast: number
+  noVotes: number
+  yesVotes: number
+  passed: boolean
+  isActive: boolean
+}
+
+export interface CcfTransferDto {
+  destination: string
+  url: string
+  amount: number
+  tick: number
+  epoch: number
+  success: boolean
+}
+
+export interface CcfRegularPaymentDto {
+  destination: string
+  url: string
+  amount: number
+  tick: number
+  epoch: number
+  periodIndex: number
+  success: boolean
+}
+
+export interface CcfSubscriptionDto {
+  destination: string
+  url: string
+  amountPerPeriod: number
+  numberOfPeriods: number
+  currentPeriod: number
+  weeksPerPeriod: number
+  startEpoch: number
+}
+
+export interface CcfEpochSpendingDto {
+  epoch: number
+  totalSpent: number
+  transferCount: number
+}
+
+export interface ComputorRevenueDto {
+  epoch: number
+  computorCount: number
+  issuanceRate: number
+  txQuorumScore: number
+  voteQuorumScore: number
+  oracleQuorumScore: number
+  miningQuorumScore: number
+  /** Revenue formula in use for this epoch (1 or 2) */
+  activeFormula: number
+  totalComputorRevenue: number
+  arbRevenue: number
+  computors: ComputorRevenueEntryDto[]
+}
+
+export interface ComputorRevenueEntryDto {
+  computorIndex: number
+  address: string
+  label: string | null
+  /** V1 per-computor TX points sum (legacy) */
+  txScore: number
+  /** Metric only under V2 */
+  voteScore: number
+  /** DOGE shares */
+  miningScore: number
+  /** V2 sliding-window TX score (canonical) */
+  slidingWindowTxScore: number
+  /** V2 oracle revenue points */
+  oracleScore: number
+  txFactor: number
+  voteFactor: number
+  /** V2 oracle factor (0..1024) */
+  oracleFactor: number
+  miningFactor: number
+  /** V2 combined factor M = (17·tx + 3·oracle)/20 */
+  combinedMandatoryFactor: number
+  revenueV1: number
+  revenueV2: number
+  /** 1 (V1 multiplicative) or 2 (V2 additive bonus) */
+  revenueFormula: number
+  /** Active revenue (V2 from epoch 209, else V1) */
+  revenue: number
+}
+
+export interface ComputorRevenueSimulationDto {
+  epoch: number
+  computorCount: number
+  issuanceRate: number
+  tickHeights: RevenueTickHeightsDto
+  txQuorumScore: number
+  voteQuorumScore: number
+  oracleQuorumScore: number
+  miningQuorumScore: number
+  activeFormula: number
+  overview: RevenueOverviewDto
+  calculationStats: RevenueCalculationStatsDto
+  totalComputorRevenue: number
+  arbRevenue: number
+  computors: ComputorRevenueEntryDto[]
+}
+
+export interface RevenueTickHeightsDto {
+  networkTick: number
+  txTick: number
+  voteTick: number
+  miningTick: number
+}
+
+export interface RevenueOverviewDto {
+  minimum: number
+  maximum: number
+  average: number
+  averagePercent: number
+}
+
+export interface RevenueCalculationStatsDto {
+  txTicksProcessed: number
+  votePacketsProcessed: number
+  votePacketsSkippedSize: number
+  votePacketsSkippedDuplicate: number
+  votePacketsSkippedValidation: number
+  voteFailedExamples: FailedPacketDto[]
+  miningPacketsProcessed: number
+  miningPacketsSkippedSize: number
+  miningPacketsSkippedDuplicate: number
+  miningPacketsSkippedValidation: number
+  miningFailedExamples: FailedPacketDto[]
+}
+
+export interface FailedPacketDto {
+  tickNumber: number
+  txHash: string
+  fromAddress: string
+  computorIndex: number
+  reason: string
+}
+
+export interface ComputorListDto {
+  epoch: number
+  computors: ComputorDto[]
+  count: number
+  importedAt: string | null
+}
+
+export interface ComputorDto {
+  epoch: number
+  address: string
+  index: number
+  label: string | null
+}
+
+export interface MinerFlowSummaryDto {
+  latest: MinerFlowStatsDto | null
+  history: MinerFlowStatsDto[]
+  totalEmissionTracked: number
+  totalFlowToExchange: number
+  averageExchangeFlowPercent: number
+}
+
+export interface MinerFlowStatsDto {
+  epoch: number
+  snapshotAt: string
+  tickStart: number
+  tickEnd: number
+  emissionEpoch: number
+  totalEmission: number
+  computorCount: number
+  totalOutflow: number
+  outflowTxCount: number
+  flowToExchangeDirect: number
+  flowToExchange1Hop: number
+  flowToExchange2Hop: number
+  flowToExchange3Plus: number
+  flowToExchangeTotal: number
+  flowToExchangeCount: number
+  flowToOther: number
+  minerNetPosition: number
+  hop1Volume: number
+  hop2Volume: number
+  hop3Volume: number
+  hop4PlusVolume: number
+}
+
+export interface FlowVisualizationDto {
+  epoch: number
+  tickStart: number
+  tickEnd: number
+  nodes: FlowVisualizationNodeDto[]
+  links: FlowVisualizationLinkDto[]
+  maxDepth: number
+  totalTrackedVolume: number
+}
+
+export interface FlowVisualizationNodeDto {
+  id: string
+  address: string
+  label: string | null
+  type: string
+  totalInflow: number
+  totalOutflow: number
+  depth: number
+}
+
+export interface FlowVisualizationLinkDto {
+  sourceId: string
+  targetId: string
+  amount: number
+  transactionCount: number
+}
+
+export interface FlowHopsResponseDto {
+  epoch: number
+  tickStart: number
+  tickEnd: number
+  maxDepth: number
+  totalHops: number
+  hops: FlowHopDto[]
+}
+
+export interface FlowHopDto {
+  epoch: number
+  tickNumber: number
+  timestamp: string
+  txHash: string
+  sourceAddress: string
+  sourceLabel: string | null
+  sourceType: string | null
+  destAddress: string
+  destLabel: string | null
+  destType: string | null
+  amount: number
+  originAddress: string
+  originType: string
+  hopLevel: number
+}
+
+export interface EmissionSummaryDto {
+  epoch: number
+  computorCount: number
+  totalEmission: number
+  emissionTick: number
+  importedAt: string
+}
+
+export interface EmissionDetailsDto {
+  epoch: number
+  computorCount: number
+  totalEmission: number
+  emissionTick: number
+  importedAt: string | null
+  emissions: ComputorEmissionDto[]
+}
+
+export interface ComputorEmissionDto {
+  epoch: number
+  computorIndex: number
+  address: string
+  label: string | null
+  emissionAmount: number
+  emissionTick: number
+  emissionTimestamp: string
+}
+
+export interface ComputorEmissionResponseDto {
+  epoch: number
+  address: string
+  emission: number
+}
+
+export interface CreateCustomFlowRequest {
+  addresses: string[]
+  startTick: number
+  balances?: number[] | null
+  alias?: string | null
+  maxHops?: number
+}
+
+export type CustomFlowStatus = 'pending' | 'processing' | 'complete' | 'stale'
+
+export interface CreateCustomFlowResponseDto {
+  jobId: string
+  alias: string
+  startTick: number
+  addresses: string[]
+  balances: number[]
+  maxHops: number
+  status: CustomFlowStatus
+}
+
+export interface CustomFlowJobDto {
+  jobId: string
+  alias: string
+  startTick: number
+  addresses: string[]
+  balances: number[]
+  maxHops: number
+  status: CustomFlowStatus
+  lastProcessedTick: number
+  totalHopsRecorded: number
+  totalTerminalAmount: number
+  totalPendingAmount: number
+  errorMessage: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CustomFlowHopDto {
+  jobId: string
+  tickNumber: number
+  timestamp: string
+  txHash: string
+  sourceAddress: string
+  sourceLabel: string | null
+  destAddress: string
+  destLabel: string | null
+  destType: string | null
+  amount: number
+  originAddress: string
+  hopLevel: number
+}
+
+export interface CustomFlowHopsResponseDto {
+  hops: CustomFlowHopDto[]
+  totalHops: number
+}
+
+export interface CustomFlowResultDto {
+  job: CustomFlowJobDto
+  nodes: FlowVisualizationNodeDto[]
+  links: FlowVisualizationLinkDto[]
+  maxDepth: number
+  totalTrackedVolume: number
+}
+
+export interface CustomFlowTrackingStateDto {
+  jobId: string
+  address: string
+  addressType: string
+  originAddress: string
+  receivedAmount: number
+  sentAmount: number
+  pendingAmount: number
+  hopLevel: number
+  lastTick: number
+  isTerminal: boolean
+  isComplete: boolean
+}
+
+export interface CustomFlowStateResponseDto {
+  states: CustomFlowTrackingStateDto[]
+  totalStates: number
+}
+
+export interface PushSubscribeRequest {
+  /** Browser push subscription; may be omitted when webhooks are given */
+  subscription?: PushSubscriptionData | null
+  addresses: string[]
+  events?: string[] | null
+  largeTransferThreshold?: number
+  balanceMinThreshold?: number
+  balanceMaxThreshold?: number
+  /** When set, these rules decide what is sent instead of events and thresholds */
+  rules?: NotificationRuleDto[] | null
+  /** HTTP endpoints that receive the same events as signed POST requests */
+  webhooks?: WebhookTargetDto[] | null
+  /** Client-generated key of a webhook-only subscription; its ID derives from this key */
+  webhookKey?: string | null
+}
+
+/** Every condition that is set must match; unset conditions match anything */
+export interface NotificationRuleDto {
+  id: string
+  /** Used as the notification title */
+  name: string
+  enabled: boolean
+  trigger: 'transfer' | 'balance_below' | 'balance_above'
+  /** Limit the rule to these subscribed addresses (empty = all) */
+  addresses?: string[] | null
+  direction?: 'any' | 'incoming' | 'outgoing'
+  minAmount?: number | null
+  maxAmount?: number | null
+  counterpartyTypes?: Array<'exchange' | 'smartcontract' | 'tokenissuer' | 'burn' | 'known' | 'unknown'> | null
+  /** QU or an asset name */
+  assetName?: string | null
+  /** Contract the originating transaction called */
+  contractAddress?: string | null
+  /** Procedure (input type) of that call */
+  inputType?: number | null
+  balanceThreshold?: number | null
+  quietHours?: QuietHoursDto | null
+}
+
+export interface QuietHoursDto {
+  start: string
+  end: string
+  /** IANA time zone id */
+  timeZone?: string
+}
+
+export interface PushSubscriptionData {
+  endpoint: string
+  keys: PushSubscriptionKeys
+}
+
+export interface PushSubscriptionKeys {
+  p256dh: string
+  auth: string
+}
+
+/** Either the push endpoint or, for webhook-only subscriptions, the subscription ID */
+export interface PushUnsubscribeRequest {
+  endpoint?: string | null
+  subscriptionId?: string | null
+}
+
+export interface WebhookTargetDto {
+  id: string
+  /** Absolute http(s) URL */
+  url: string
+  /** Key for X-QLI-Signature, which is "sha256=" + hex HMAC-SHA256 of "{X-QLI-Timestamp}.{body}" */
+  secret: string
+  enabled?: boolean
+}
+
+/** Body of a webhook request; the id is the same on every retry */
+export interface WebhookEventDto {
+  id: string
+  type: 'transfer' | 'balance_below' | 'balance_above' | 'test'
+  subscriptionId: string
+  ruleId: string
+  ruleName: string
+  address: string
+  title: string
+  body: string
+  timestamp: string
+  transfer?: WebhookTransferDto | null
+  balance?: number | null
+  threshold?: number | null
+}
+
+export interface WebhookTransferDto {
+  tickNumber: number
+  txHash?: string | null
+  direction: 'incoming' | 'outgoing'
+  amount: number
+  assetName: string
+  counterparty: string
+  counterpartyType: string
+  contractAddress?: string | null
+  inputType?: number | null
+}
+
+export interface WebhookDeliveryDto {
+  eventId: string
+  eventType: string
+  targetId: string
+  url: string
+  attempt: number
+  success: boolean
+  /** 0 when no response was received */
+  statusCode: number
+  error?: string | null
+  durationMs: number
+  nextRetryAt?: string | null
+  createdAt: string
+}
+
+export interface PortfolioSyncDto {
+  /** Portfolio document as written by the frontend (opaque to the server, max 256 KB) */
+  document: Record<string, unknown>
+  /** Time of the last change on the client; newer copies win */
+  updatedAt: string
+}
+
+/**
+ * Shape-compatible with the Qubic RPC archive's BadRequest envelope.
+ * - `code: 9` + `lastProcessedTick` detail → tick is in the future.
+ * - `code: 11` + `nextTickNumber` detail → tick was skipped by the network.
+ */
+export interface RpcBadRequestEnvelope {
+  code: 9 | 11
+  message: string
+  details: RpcBadRequestEnvelopeDetail[]
+}
+
+export interface RpcBadRequestEnvelopeDetail {
+  "@type": 'lastProcessedTick' | 'nextTickNumber'
+  lastProcessedTick: number | null
+  nextTickNumber: number | null
+}
+
+export interface AddressLedgerDto {
+  address: string
+  epoch: number
+  openingBalance: number
+  closingBalance: number
+  entries: LedgerEntryDto[]
+}
+
+export interface LedgerEntryDto {
+  tickNumber: number
+  timestamp: string
+  txHash: string | null
+  logType: number
+  logTypeName: string
+  counterpartyAddress: string | null
+  direction: 'in' | 'out'
+  amount: number
+  runningBalance: number
+}
+
+export interface AddressBalanceHistoryDto {
+  address: string
+  epochs: EpochBalanceDto[]
+}
+
+export interface EpochBalanceDto {
+  epoch: number
+  openingBalance: number
+  closingBalance: number
+  inflow: number
+  outflow: number
+}
+
+export interface EpochBurnStatsDto {
+  epoch: number
+  circulatingSupply: number
+  totalEmitted: number
+  totalBurned: number
+}
+
+export interface TickVoteWindowDto {
+  tick: number
+  minVotes: number
+  maxVotes: number
+  avgVotes: number
+  medianVotes: number
+  quorumThreshold: number
+}
+
+export interface TickVoteComputorWindowDto {
+  tick: number
+  accumulatedVotes: number
+}
+
+export interface TickVotesResponseDto {
+  epoch: number
+  computorIndex: number | null
+  summary: TickVoteWindowDto[] | null
+  computorVotes: TickVoteComputorWindowDto[] | null
+}
+
+export interface TickVoteCompareEntryDto {
+  computorIndex: number
+  votes: TickVoteComputorWindowDto[]
+}
+
+export interface TickVoteCompareResponseDto {
+  epoch: number
+  indices: number[]
+  ticks: number[]
+  computors: TickVoteCompareEntryDto[]
+  sum: TickVoteComputorWindowDto[]
+}
+
+export interface ExecutionFeePhaseSummaryDto {
+  phaseNumber: number
+  phaseTick: number
+  phaseTimestamp: string | null
+  contractIndex: number
+  minFee: number
+  maxFee: number
+  avgFee: number
+  medianFee: number
+  /** 2/3 ascending percentile (the fee the network deducts) */
+  agreedFee: number
+  reportCount: number
+  /** Populated only by the phase detail endpoint */
+  reports?: ExecutionFeeContractEntryDto[] | null
+}
+
+export interface ExecutionFeeContractEntryDto {
+  computorIndex: number
+  reportedFee: number
+  txHash?: string | null
+}
+
+export interface ExecutionFeeContractPhaseDto {
+  phaseNumber: number
+  phaseTick: number
+  phaseTimestamp: string | null
+  agreedFee: number
+  reports: ExecutionFeeContractEntryDto[]
+}
+
+export interface ExecutionFeeContractResponseDto {
+  epoch: number
+  contractIndex: number
+  phases: ExecutionFeeContractPhaseDto[]
+}
+
+export interface ExecutionFeePhaseDetailDto {
+  epoch: number
+  phaseNumber: number
+  phaseTick: number
+  contracts: ExecutionFeePhaseSummaryDto[]
+  txCountsByInputType?: PhaseInputTypeCountDto[] | null
+}
+
+export interface PhaseInputTypeCountDto {
+  inputType: number
+  totalCount: number
+  executedCount: number
+  /** Destination; with inputType identifies the contract procedure */
+  toAddress: string
+}
+
+export interface OracleComputorEntryDto {
+  computorIndex: number
+  commits: number
+  reveals: number
+  estimatedPoints: number
+  /** V2 oracle revenue factor (0..1024). Mirrors qubic core ComputeRevFactor. */
+  oracleFactor: number
+  avgTickOffset: number
+  participations: number
+}
+
+export interface OracleEpochSummaryDto {
+  epoch: number
+  totalQueries: number
+  totalCommits: number
+  totalReveals: number
+  dataFromAggregates: boolean
+  computors: OracleComputorEntryDto[]
+}
+
+export interface OracleQueryListEntryDto {
+  /** uint64 serialized as a string (exceeds Number.MAX_SAFE_INTEGER) */
+  queryId: string
+  firstCommitTick: number
+  lastCommitTick: number
+  quorumCutoffTick: number
+  totalCommits: number
+  totalReveals: number
+  commitsInQuorum: number
+  uniqueCommittors: number
+}
+
+export interface OracleQueryListDto {
+  epoch: number
+  totalCount: number
+  dataFromAggregates: boolean
+  items: OracleQueryListEntryDto[]
+}
+
+export interface OracleQueryComputorEntryDto {
+  computorIndex: number
+  commitTick: number | null
+  revealTick: number | null
+  /** 1-based rank by commit tick */
+  rank: number | null
+  isInQuorum: boolean
+  ticksAfterFirst: number | null
+  commitTxHash: string | null
+}
+
+export interface OracleQueryTickHistogramDto {
+  tick: number
+  commitCount: number
+  cumulativeCount: number
+}
+
+export interface OracleQueryOriginatingTxDto {
+  hash: string
+  tickNumber: number
+  fromAddress: string
+  toAddress: string
+  amount: number
+  /** Query payload (hex) */
+  inputData: string
+  timestamp: string
+  executed: boolean
+}
+
+export interface OracleQueryReplyDigestEntryDto {
+  digest: string
+  count: number
+}
+
+export interface OracleQueryRevealedAnswerDto {
+  answerHex: string
+  lengthBytes: number
+  computorCount: number
+}
+
+export interface OracleQueryDetailDto {
+  epoch: number
+  /** uint64 serialized as a string */
+  queryId: string
+  firstCommitTick: number
+  lastCommitTick: number
+  quorumCutoffTick: number
+  totalCommits: number
+  totalReveals: number
+  commitsInQuorum: number
+  /** False if the raw events of this epoch were pruned */
+  rawEventsAvailable: boolean
+  tickHistogram: OracleQueryTickHistogramDto[]
+  computors: OracleQueryComputorEntryDto[]
+  originatingTxCandidates: OracleQueryOriginatingTxDto[]
+  commitDigestDistribution: OracleQueryReplyDigestEntryDto[] | null
+  revealDigestDistribution: OracleQueryReplyDigestEntryDto[] | null
+  revealedAnswers: OracleQueryRevealedAnswerDto[] | null
+}
+
+export interface OracleComputorQueryEntryDto {
+  /** uint64 serialized as a string */
+  queryId: string
+  commitTick: number
+  commitTimestamp: string
+  rank: number
+  isInQuorum: boolean
+  ticksAfterFirst: number
+}
+
+export interface OracleComputorProfileDto {
+  epoch: number
+  computorIndex: number
+  commits: number
+  reveals: number
+  estimatedPoints: number
+  /** 0..1024 - see OracleComputorEntryDto */
+  oracleFactor: number
+  /** Rank-451 estimated points across the epoch */
+  quorumScore: number
+  avgTickOffset: number
+  participations: number
+  rawEventsAvailable: boolean
+  totalQueries: number
+  queries: OracleComputorQueryEntryDto[]
+}
+
+export interface ContractReserveSampleDto {
+  timestamp: string
+  balance: number
+}
+
+export interface ContractReserveHistoryDto {
+  address: string
+  contractIndex: number | null
+  label: string | null
+  daysRequested: number
+  sampleCount: number
+  currentBalance: number
+  /** QU per day; positive = reserve falling */
+  burnRatePerDay: number
+  /** Null if the reserve is growing or there are too few samples */
+  estimatedRunwayDays: number | null
+  samples: ContractReserveSampleDto[]
+}
+
+export interface TaxReportTransferDto {
+  timestamp: string
+  tickNumber: number
+  epoch: number
+  txHash: string | null
+  direction: 'in' | 'out'
+  counterparty: string
+  counterpartyLabel: string | null
+  amount: number
+  runningBalance: number
+  logType: number
+  logTypeName: string
+}
+
+export interface TaxReportMonthDto {
+  /** 1..12 */
+  month: number
+  monthName: string
+  openingBalance: number
+  closingBalance: number
+  totalIn: number
+  totalOut: number
+  inboundCount: number
+  outboundCount: number
+  netCount: number
+  netChange: number
+}
+
+export interface TaxReportDto {
+  address: string
+  addressLabel: string | null
+  year: number
+  periodStart: string
+  periodEnd: string
+  openingBalance: number
+  closingBalance: number
+  totalIn: number
+  totalOut: number
+  inboundCount: number
+  outboundCount: number
+  totalCount: number
+  netChange: number
+  /** True if the transfer list hit maxTransfers */
+  truncated: boolean
+  maxTransfers: number
+  months: TaxReportMonthDto[]
+  transfers: TaxReportTransferDto[]
+}
+
+// =============================================================================
+// Parameters
+// =============================================================================
+
+export interface SearchParams {
+  q: string
+  limit?: number
+}
+
+export interface GetTransactionsParams {
+  page?: number
+  limit?: number
+  /** Filter by sender or receiver address */
+  address?: string
+  direction?: 'from' | 'to'
+  minAmount?: number
+  executed?: boolean
+  /** Filter by input type (core) or procedure ID (contract) */
+  inputType?: number
+  /** Filter by destination address (e.g. smart contract address) */
+  toAddress?: string
+  /** Only return core transactions (to_address = burn address) */
+  coreOnly?: boolean
+  /** When true, returns full TransactionDetailDto with inputData, parsedInput, and logs */
+  detailed?: boolean
+}
+
+export interface GetTransactionParams {
+  hash: string
+}
+
+export interface GetTransfersParams {
+  page?: number
+  limit?: number
+  fromAddress?: string
+  toAddress?: string
+  /** Single log type filter */
+  type?: number
+  /** Comma-separated log type IDs */
+  types?: number[]
+  minAmount?: number
+  epoch?: number
+}
+
+export interface GetTicksParams {
+  page?: number
+  limit?: number
+}
+
+export interface GetEmptyTicksParams {
+  from: number
+  /** Max range size 1,000,000 ticks */
+  to: number
+}
+
+export interface GetTickParams {
+  tickNumber: number
+}
+
+export interface GetTickTransactionsParams {
+  tickNumber: number
+  page?: number
+  limit?: number
+  address?: string
+  direction?: 'from' | 'to'
+  minAmount?: number
+  executed?: boolean
+  inputType?: number
+  toAddress?: string
+  coreOnly?: boolean
+  /** When true, returns full TransactionDetailDto with inputData, parsedInput, and logs */
+  detailed?: boolean
+  /**
+   * Skip the expensive total-count query for large ticks. When true,
+   * response uses limit+1 probe — totalCount=-1 and totalPages reflects
+   * only known pages. Recommended for high-throughput tools.
+   */
+  skipCount?: boolean
+}
+
+export interface GetTickLogsParams {
+  tickNumber: number
+  page?: number
+  limit?: number
+  fromAddress?: string
+  toAddress?: string
+  type?: number
+  minAmount?: number
+}
+
+export interface GetAddressParams {
+  address: string
+}
+
+export interface GetAddressTransactionsParams {
+  address: string
+  page?: number
+  limit?: number
+  direction?: 'from' | 'to'
+  minAmount?: number
+  executed?: boolean
+  /** Filter by input type (core) or procedure ID (contract) */
+  inputType?: number
+  /** Filter by destination address (e.g. smart contract address) */
+  toAddress?: string
+  /** When true, returns full TransactionDetailDto with inputData, parsedInput, and logs */
+  detailed?: boolean
+}
+
+export interface GetAddressTransfersParams {
+  address: string
+  page?: number
+  limit?: number
+  type?: number
+  fromAddress?: string
+  toAddress?: string
+  minAmount?: number
+  epoch?: number
+}
+
+export interface GetAddressRewardsParams {
+  address: string
+  page?: number
+  limit?: number
+}
+
+export interface GetAddressActivityRangeParams {
+  address: string
+}
+
+export interface ExportAddressDataParams {
+  address: string
+  format?: string
+  type?: 'transfers'
+  epoch?: number
+}
+
+export interface GetAddressLedgerParams {
+  address: string
+  /** Defaults to current epoch when omitted */
+  epoch?: number
+}
+
+export interface GetAddressFlowParams {
+  address: string
+  limit?: number
+}
+
+export interface GetAddressGraphParams {
+  address: string
+  hops?: number
+  limit?: number
+}
+
+export interface GetContractReserveHistoryParams {
+  address: string
+  days?: number
+}
+
+export interface GetAddressTaxReportParams {
+  address: string
+  /** Between 2020 and next year */
+  year: number
+  maxTransfers?: number
+}
+
+export interface DownloadAddressTaxReportCsvParams {
+  address: string
+  year: number
+}
+
+export interface GetAddressesBatchParams {
+  body: BatchAddressRequest
+}
+
+export interface GetAddressesBalanceHistoryParams {
+  body: BalanceHistoryRequest
+}
+
+export interface GetEpochsParams {
+  limit?: number
+}
+
+export interface GetEpochParams {
+  epoch: number
+}
+
+export interface GetEpochTransfersByTypeParams {
+  epoch: number
+}
+
+export interface GetEpochRewardsParams {
+  epoch: number
+}
+
+export interface GetEpochMetaParams {
+  epoch: number
+}
+
+export interface UpsertEpochMetaParams {
+  epoch: number
+  body: EpochMetaRequest
+}
+
+export interface GetAllEpochMetaParams {
+  limit?: number
+}
+
+export interface GetEpochEmptyTicksParams {
+  epoch: number
+}
+
+export interface FetchEpochEndLogsParams {
+  epoch: number
+}
+
+export interface GetAllKnownAddressesParams {
+  /** Filter by address type (e.g. smartcontract, exchange) */
+  type?: string
+}
+
+export interface GetAddressLabelParams {
+  address: string
+}
+
+export interface GetAddressLabelsParams {
+  body: string[]
+}
+
+export interface GetLabelProposalsParams {
+  status?: 'pending' | 'approved' | 'rejected' | 'revoked'
+  page?: number
+  limit?: number
+}
+
+export interface SubmitLabelProposalParams {
+  body: LabelProposalRequest
+}
+
+export interface ApproveLabelProposalParams {
+  id: string
+  body?: LabelReviewRequest
+}
+
+export interface RejectLabelProposalParams {
+  id: string
+  body?: LabelReviewRequest
+}
+
+export interface RevokeCommunityLabelParams {
+  address: string
+  note?: string
+}
+
+export interface GetLabelChangesParams {
+  address?: string
+  page?: number
+  limit?: number
+}
+
+export interface GetProcedureNameParams {
+  contractAddress: string
+  inputType: number
+}
+
+export interface GetEntityParams {
+  id: string
+}
+
+export interface GetAssetParams {
+  name: string
+  issuer?: string
+}
+
+export interface GetAssetHoldersParams {
+  name: string
+  issuer?: string
+  page?: number
+  limit?: number
+}
+
+export interface GetTxVolumeChartParams {
+  period?: 'day' | 'week' | 'month'
+}
+
+export interface GetTopAddressesParams {
+  limit?: number
+  epoch?: number
+}
+
+export interface GetRichListParams {
+  page?: number
+  limit?: number
+}
+
+export interface GetWhaleAlertsParams {
+  threshold?: number
+  limit?: number
+}
+
+export interface GetSmartContractUsageParams {
+  epoch?: number
+}
+
+export interface GetActiveAddressTrendsParams {
+  period?: 'epoch' | 'daily'
+  limit?: number
+}
+
+export interface GetNewVsReturningAddressesParams {
+  limit?: number
+}
+
+export interface GetExchangeFlowsParams {
+  limit?: number
+}
+
+export interface GetExchangeSendersParams {
+  epochs?: number
+  minAmount?: number
+  limit?: number
+  depth?: number
+}
+
+export interface GetHolderDistributionExtendedParams {
+  historyLimit?: number
+  from?: string
+  to?: string
+}
+
+export interface GetHolderDistributionHistoryParams {
+  limit?: number
+  from?: string
+  to?: string
+}
+
+export interface GetAvgTxSizeTrendsParams {
+  period?: 'epoch' | 'daily'
+  limit?: number
+}
+
+export interface GetNetworkStatsHistoryParams {
+  limit?: number
+  from?: string
+  to?: string
+}
+
+export interface GetNetworkStatsExtendedParams {
+  historyLimit?: number
+  from?: string
+  to?: string
+}
+
+export interface GetBurnStatsHistoryParams {
+  limit?: number
+  from?: string
+  to?: string
+}
+
+export interface GetBurnStatsExtendedParams {
+  historyLimit?: number
+  from?: string
+  to?: string
+}
+
+export interface GetBurnStatsByEpochParams {
+  limit?: number
+}
+
+export interface GetTickVotesParams {
+  epoch: number
+  /**
+   * When omitted, returns aggregated summary (min/max/avg/median/quorum
+   * per window). When set, returns the specific computor's vote
+   * progression.
+   */
+  computorIndex?: number
+}
+
+export interface CompareTickVotesParams {
+  epoch: number
+  /** Comma-separated computor indices (0-675) */
+  indices: number[]
+}
+
+export interface GetComputorRevenueParams {
+  epoch: number
+}
+
+export interface SimulateComputorRevenueParams {
+  epoch: number
+  /** Calculate TX scores using ticks up to this tick number */
+  txTick?: number
+  /** Calculate vote scores using transactions up to this tick number */
+  voteTick?: number
+  /** Calculate mining scores using transactions up to this tick number */
+  miningTick?: number
+}
+
+export interface GetExecutionFeeSummaryParams {
+  epoch: number
+}
+
+export interface GetExecutionFeeContractParams {
+  epoch: number
+  contractIndex: number
+}
+
+export interface GetExecutionFeePhaseParams {
+  epoch: number
+  phaseNumber: number
+}
+
+export interface GetOracleEpochSummaryParams {
+  epoch: number
+}
+
+export interface GetOracleQueryListParams {
+  epoch: number
+  limit?: number
+  offset?: number
+}
+
+export interface GetOracleQueryDetailParams {
+  epoch: number
+  /** Exceeds Number.MAX_SAFE_INTEGER; pass the string from the query list */
+  queryId: string | number
+}
+
+export interface GetOracleComputorProfileParams {
+  epoch: number
+  computorIndex: number
+  limit?: number
+  offset?: number
+}
+
+export interface GetComputorsParams {
+  epoch: number
+}
+
+export interface GetMinerFlowStatsParams {
+  limit?: number
+  from?: string
+  to?: string
+}
+
+export interface GetFlowVisualizationParams {
+  emissionEpoch: number
+  maxDepth?: number
+}
+
+export interface GetFlowHopsParams {
+  epoch: number
+  tickStart?: number
+  tickEnd?: number
+  maxDepth?: number
+  limit?: number
+}
+
+export interface GetEmissionSummaryParams {
+  epoch: number
+}
+
+export interface GetEmissionDetailsParams {
+  epoch: number
+}
+
+export interface GetComputorEmissionParams {
+  epoch: number
+  address: string
+}
+
+export interface CreateCustomFlowParams {
+  body: CreateCustomFlowRequest
+}
+
+export interface GetCustomFlowJobParams {
+  jobId: string
+}
+
+export interface GetCustomFlowVisualizationParams {
+  jobId: string
+}
+
+export interface GetCustomFlowHopsParams {
+  jobId: string
+  maxDepth?: number
+}
+
+export interface GetCustomFlowStateParams {
+  jobId: string
+}
+
+export interface GetEpochSpectrumStatusParams {
+  epoch: number
+}
+
+export interface ImportSpectrumParams {
+  epoch: number
+}
+
+export interface ImportUniverseParams {
+  epoch: number
+}
+
+export interface SubscribePushParams {
+  body: PushSubscribeRequest
+}
+
+export interface UnsubscribePushParams {
+  body: PushUnsubscribeRequest
+}
+
+export interface TestWebhookParams {
+  body: WebhookTargetDto
+}
+
+export interface GetWebhookDeliveriesParams {
+  subscriptionId: string
+  limit?: number
+}
+
+export interface PutPortfolioSyncParams {
+  body: PortfolioSyncDto
+}
+
+// =============================================================================
+// Endpoints
+// =============================================================================
+
+/** Fill path parameters and append the defined query parameters */
+function buildPath(template: string, params: object, query: readonly string[]): string {
+  const values = params as Record<string, unknown>
+  const path = template.replace(/\{(\w+)\}/g, (_, name: string) => encodeURIComponent(String(values[name])))
+  const search = new URLSearchParams()
+  for (const name of query) {
+    const value = values[name]
+    if (value === undefined || value === null) continue
+    search.set(name, Array.isArray(value) ? value.join(',') : String(value))
+  }
+  const queryString = search.toString()
+  return queryString ? `${path}?${queryString}` : path
+}
+
+export function createApiEndpoints(request: ApiRequest) {
+  return {
+    /** GET /api/search - Search for addresses, transactions, ticks, epochs, assets or contract procedures */
+    search: (params: SearchParams, init?: ApiRequestOptions) =>
+      request<SearchResponse>(buildPath('/api/search', params, ['q', 'limit']), init),
+
+    /** GET /api/transactions - List transactions with filters */
+    getTransactions: (params: GetTransactionsParams = {}, init?: ApiRequestOptions) =>
+      request<PaginatedTransactionResponse>(buildPath('/api/transactions', params, ['page', 'limit', 'address', 'direction', 'minAmount', 'executed', 'inputType', 'toAddress', 'coreOnly', 'detailed']), init),
+
+    /** GET /api/transactions/{hash} - Get transaction by hash */
+    getTransaction: (params: GetTransactionParams, init?: ApiRequestOptions) =>
+      request<TransactionDetailDto | SpecialTransactionDto>(buildPath('/api/transactions/{hash}', params, []), init),
+
+    /** GET /api/transfers - List transfers / logs with filters */
+    getTransfers: (params: GetTransfersParams = {}, init?: ApiRequestOptions) =>
+      request<PaginatedTransferResponse>(buildPath('/api/transfers', params, ['page', 'limit', 'fromAddress', 'toAddress', 'type', 'types', 'minAmount', 'epoch']), init),
+
+    /** GET /api/ticks - List ticks */
+    getTicks: (params: GetTicksParams = {}, init?: ApiRequestOptions) =>
+      request<PaginatedTickResponse>(buildPath('/api/ticks', params, ['page', 'limit']), init),
+
+    /** GET /api/ticks/empty - Get empty tick numbers in a range */
+    getEmptyTicks: (params: GetEmptyTicksParams, init?: ApiRequestOptions) =>
+      request<number[]>(buildPath('/api/ticks/empty', params, ['from', 'to']), init),
+
+    /** GET /api/ticks/{tickNumber} - Get tick details */
+    getTick: (params: GetTickParams, init?: ApiRequestOptions) =>
+      request<TickDetailDto>(buildPath('/api/ticks/{tickNumber}', params, []), init),
+
+    /** GET /api/ticks/{tickNumber}/transactions - List transactions in a tick */
+    getTickTransactions: (params: GetTickTransactionsParams, init?: ApiRequestOptions) =>
+      request<PaginatedTransactionResponse>(buildPath('/api/ticks/{tickNumber}/transactions', params, ['page', 'limit', 'address', 'direction', 'minAmount', 'executed', 'inputType', 'toAddress', 'coreOnly', 'detailed', 'skipCount']), init),
+
+    /** GET /api/ticks/{tickNumber}/logs - List logs / transfers in a tick */
+    getTickLogs: (params: GetTickLogsParams, init?: ApiRequestOptions) =>
+      request<PaginatedTransferResponse>(buildPath('/api/ticks/{tickNumber}/logs', params, ['page', 'limit', 'fromAddress', 'toAddress', 'type', 'minAmount']), init),
+
+    /** GET /api/address/{address} - Get address summary */
+    getAddress: (params: GetAddressParams, init?: ApiRequestOptions) =>
+      request<AddressDto>(buildPath('/api/address/{address}', params, []), init),
+
+    /** GET /api/address/{address}/transactions - Get address transactions */
+    getAddressTransactions: (params: GetAddressTransactionsParams, init?: ApiRequestOptions) =>
+      request<PaginatedTransactionResponse>(buildPath('/api/address/{address}/transactions', params, ['page', 'limit', 'direction', 'minAmount', 'executed', 'inputType', 'toAddress', 'detailed']), init),
+
+    /** GET /api/address/{address}/transfers - Get address transfers */
+    getAddressTransfers: (params: GetAddressTransfersParams, init?: ApiRequestOptions) =>
+      request<PaginatedTransferResponse>(buildPath('/api/address/{address}/transfers', params, ['page', 'limit', 'type', 'fromAddress', 'toAddress', 'minAmount', 'epoch']), init),
+
+    /** GET /api/address/{address}/rewards - Get address rewards */
+    getAddressRewards: (params: GetAddressRewardsParams, init?: ApiRequestOptions) =>
+      request<ContractRewardHistoryDto>(buildPath('/api/address/{address}/rewards', params, ['page', 'limit']), init),
+
+    /** GET /api/address/{address}/activity-range - Get first/last activity for an address */
+    getAddressActivityRange: (params: GetAddressActivityRangeParams, init?: ApiRequestOptions) =>
+      request<AddressActivityRangeDto>(buildPath('/api/address/{address}/activity-range', params, []), init),
+
+    /** GET /api/address/{address}/ledger - Get address ledger for an epoch (opening balance + running balance) */
+    getAddressLedger: (params: GetAddressLedgerParams, init?: ApiRequestOptions) =>
+      request<AddressLedgerDto>(buildPath('/api/address/{address}/ledger', params, ['epoch']), init),
+
+    /** GET /api/address/{address}/flow - Get address transaction flows */
+    getAddressFlow: (params: GetAddressFlowParams, init?: ApiRequestOptions) =>
+      request<AddressFlowDto>(buildPath('/api/address/{address}/flow', params, ['limit']), init),
+
+    /** GET /api/address/{address}/graph - Get transaction graph for visualization */
+    getAddressGraph: (params: GetAddressGraphParams, init?: ApiRequestOptions) =>
+      request<TransactionGraphDto>(buildPath('/api/address/{address}/graph', params, ['hops', 'limit']), init),
+
+    /** GET /api/address/{address}/reserve-history - Reserve (QU balance) history of a smart contract address */
+    getContractReserveHistory: (params: GetContractReserveHistoryParams, init?: ApiRequestOptions) =>
+      request<ContractReserveHistoryDto>(buildPath('/api/address/{address}/reserve-history', params, ['days']), init),
+
+    /** GET /api/address/{address}/tax-report - Per-year tax report (monthly balances and transfer list with running balance) */
+    getAddressTaxReport: (params: GetAddressTaxReportParams, init?: ApiRequestOptions) =>
+      request<TaxReportDto>(buildPath('/api/address/{address}/tax-report', params, ['year', 'maxTransfers']), init),
+
+    /** POST /api/address/batch - Batch fetch multiple addresses (max 20) */
+    getAddressesBatch: (params: GetAddressesBatchParams, init?: ApiRequestOptions) =>
+      request<AddressDto[]>(buildPath('/api/address/batch', params, []), { ...init, method: 'POST', body: JSON.stringify(params.body) }),
+
+    /** POST /api/address/balance-history - Per-epoch balance history for multiple addresses (max 20) */
+    getAddressesBalanceHistory: (params: GetAddressesBalanceHistoryParams, init?: ApiRequestOptions) =>
+      request<AddressBalanceHistoryDto[]>(buildPath('/api/address/balance-history', params, []), { ...init, method: 'POST', body: JSON.stringify(params.body) }),
+
+    /** GET /api/epoch - List epochs */
+    getEpochs: (params: GetEpochsParams = {}, init?: ApiRequestOptions) =>
+      request<EpochSummaryDto[]>(buildPath('/api/epoch', params, ['limit']), init),
+
+    /** GET /api/epoch/countdown - Get epoch countdown info */
+    getEpochCountdown: (init?: ApiRequestOptions) =>
+      request<EpochCountdownDto>(buildPath('/api/epoch/countdown', {}, []), init),
+
+    /** GET /api/epoch/{epoch} - Get epoch statistics */
+    getEpoch: (params: GetEpochParams, init?: ApiRequestOptions) =>
+      request<EpochStatsDto>(buildPath('/api/epoch/{epoch}', params, []), init),
+
+    /** GET /api/epoch/{epoch}/transfers-by-type - Get transfers grouped by type for an epoch */
+    getEpochTransfersByType: (params: GetEpochTransfersByTypeParams, init?: ApiRequestOptions) =>
+      request<EpochTransferByTypeDto[]>(buildPath('/api/epoch/{epoch}/transfers-by-type', params, []), init),
+
+    /** GET /api/epoch/{epoch}/rewards - Get epoch rewards */
+    getEpochRewards: (params: GetEpochRewardsParams, init?: ApiRequestOptions) =>
+      request<EpochRewardSummaryDto>(buildPath('/api/epoch/{epoch}/rewards', params, []), init),
+
+    /** GET /api/epoch/{epoch}/meta - Get epoch metadata */
+    getEpochMeta: (params: GetEpochMetaParams, init?: ApiRequestOptions) =>
+      request<EpochMetaDto>(buildPath('/api/epoch/{epoch}/meta', params, []), init),
+
+    /** POST /api/epoch/{epoch}/meta - Upsert epoch metadata (requires admin API key) */
+    upsertEpochMeta: (params: UpsertEpochMetaParams, init?: ApiRequestOptions) =>
+      request<{
+        success: boolean
+        epoch: number
+      }>(buildPath('/api/epoch/{epoch}/meta', params, []), { ...init, method: 'POST', body: JSON.stringify(params.body) }),
+
+    /** GET /api/epoch/meta - List all epoch metadata */
+    getAllEpochMeta: (params: GetAllEpochMetaParams = {}, init?: ApiRequestOptions) =>
+      request<EpochMetaDto[]>(buildPath('/api/epoch/meta', params, ['limit']), init),
+
+    /** GET /api/epoch/meta/current - Get current epoch metadata */
+    getCurrentEpochMeta: (init?: ApiRequestOptions) =>
+      request<EpochMetaDto>(buildPath('/api/epoch/meta/current', {}, []), init),
+
+    /** GET /api/epoch/{epoch}/empty-ticks - Get empty tick statistics for an epoch */
+    getEpochEmptyTicks: (params: GetEpochEmptyTicksParams, init?: ApiRequestOptions) =>
+      request<EpochEmptyTickStatsDto>(buildPath('/api/epoch/{epoch}/empty-ticks', params, []), init),
+
+    /** POST /api/epoch/{epoch}/fetch-end-logs - Fetch and insert end-epoch logs (requires admin API key) */
+    fetchEpochEndLogs: (params: FetchEpochEndLogsParams, init?: ApiRequestOptions) =>
+      request<void>(buildPath('/api/epoch/{epoch}/fetch-end-logs', params, []), { ...init, method: 'POST' }),
+
+    /** POST /api/epoch/backfill-stats - Backfill epoch stats for completed epochs (requires admin API key) */
+    backfillEpochStats: (init?: ApiRequestOptions) =>
+      request<void>(buildPath('/api/epoch/backfill-stats', {}, []), { ...init, method: 'POST' }),
+
+    /** GET /api/labels - Get all known addresses with optional type filter */
+    getAllKnownAddresses: (params: GetAllKnownAddressesParams = {}, init?: ApiRequestOptions) =>
+      request<KnownAddressDto[]>(buildPath('/api/labels', params, ['type']), init),
+
+    /** GET /api/labels/{address} - Get label info for a single address */
+    getAddressLabel: (params: GetAddressLabelParams, init?: ApiRequestOptions) =>
+      request<AddressLabelDto>(buildPath('/api/labels/{address}', params, []), init),
+
+    /** POST /api/labels/batch - Batch fetch labels for multiple addresses (max 100) */
+    getAddressLabels: (params: GetAddressLabelsParams, init?: ApiRequestOptions) =>
+      request<AddressLabelDto[]>(buildPath('/api/labels/batch', params, []), { ...init, method: 'POST', body: JSON.stringify(params.body) }),
+
+    /** GET /api/labels/stats - Get label statistics */
+    getLabelStats: (init?: ApiRequestOptions) =>
+      request<LabelStatsDto>(buildPath('/api/labels/stats', {}, []), init),
+
+    /** GET /api/labels/version - Get the label set version (changes whenever a refresh changes any label) */
+    getLabelVersion: (init?: ApiRequestOptions) =>
+      request<LabelVersionDto>(buildPath('/api/labels/version', {}, []), init),
+
+    /** POST /api/labels/refresh - Refresh all labels from source (requires admin API key) */
+    refreshLabels: (init?: ApiRequestOptions) =>
+      request<void>(buildPath('/api/labels/refresh', {}, []), { ...init, method: 'POST' }),
+
+    /** GET /api/labels/proposals - Moderation queue (requires admin API key) */
+    getLabelProposals: (params: GetLabelProposalsParams = {}, init?: ApiRequestOptions) =>
+      request<PaginatedLabelProposalResponse>(buildPath('/api/labels/proposals', params, ['status', 'page', 'limit']), init),
+
+    /** POST /api/labels/proposals - Propose a label for an address (shown once approved) */
+    submitLabelProposal: (params: SubmitLabelProposalParams, init?: ApiRequestOptions) =>
+      request<LabelProposalDto>(buildPath('/api/labels/proposals', params, []), { ...init, method: 'POST', body: JSON.stringify(params.body) }),
+
+    /** POST /api/labels/proposals/{id}/approve - Approve a pending proposal; its label replaces the address's label (requires admin API key) */
+    approveLabelProposal: (params: ApproveLabelProposalParams, init?: ApiRequestOptions) =>
+      request<LabelReviewResultDto>(buildPath('/api/labels/proposals/{id}/approve', params, []), { ...init, method: 'POST', body: JSON.stringify(params.body) }),
+
+    /** POST /api/labels/proposals/{id}/reject - Reject a pending proposal (requires admin API key) */
+    rejectLabelProposal: (params: RejectLabelProposalParams, init?: ApiRequestOptions) =>
+      request<LabelReviewResultDto>(buildPath('/api/labels/proposals/{id}/reject', params, []), { ...init, method: 'POST', body: JSON.stringify(params.body) }),
+
+    /** DELETE /api/labels/community/{address} - Revoke the approved community label of an address (requires admin API key) */
+    revokeCommunityLabel: (params: RevokeCommunityLabelParams, init?: ApiRequestOptions) =>
+      request<void>(buildPath('/api/labels/community/{address}', params, ['note']), { ...init, method: 'DELETE' }),
+
+    /** GET /api/labels/changes - Label changelog, newest first */
+    getLabelChanges: (params: GetLabelChangesParams = {}, init?: ApiRequestOptions) =>
+      request<PaginatedLabelChangeResponse>(buildPath('/api/labels/changes', params, ['address', 'page', 'limit']), init),
+
+    /** GET /api/labels/procedure/{contractAddress}/{inputType} - Get procedure name for a contract input type */
+    getProcedureName: (params: GetProcedureNameParams, init?: ApiRequestOptions) =>
+      request<ProcedureLookupDto>(buildPath('/api/labels/procedure/{contractAddress}/{inputType}', params, []), init),
+
+    /** GET /api/entities/{id} - Get an address entity (addresses grouped by deposit, payout and co-spending heuristics) */
+    getEntity: (params: GetEntityParams, init?: ApiRequestOptions) =>
+      request<EntityDto>(buildPath('/api/entities/{id}', params, []), init),
+
+    /** GET /api/assets - Get all assets from latest universe snapshot */
+    getAssets: (init?: ApiRequestOptions) =>
+      request<AssetSummaryDto[]>(buildPath('/api/assets', {}, []), init),
+
+    /** GET /api/assets/{name} - Get detailed asset info */
+    getAsset: (params: GetAssetParams, init?: ApiRequestOptions) =>
+      request<AssetDetailDto>(buildPath('/api/assets/{name}', params, ['issuer']), init),
+
+    /** GET /api/assets/{name}/holders - Get paginated asset holders */
+    getAssetHolders: (params: GetAssetHoldersParams, init?: ApiRequestOptions) =>
+      request<AssetHoldersPageDto>(buildPath('/api/assets/{name}/holders', params, ['issuer', 'page', 'limit']), init),
+
+    /** GET /api/stats - Get network stats */
+    getStats: (init?: ApiRequestOptions) =>
+      request<NetworkStatsDto>(buildPath('/api/stats', {}, []), init),
+
+    /** GET /api/stats/chart/tx-volume - Transaction volume chart data */
+    getTxVolumeChart: (params: GetTxVolumeChartParams = {}, init?: ApiRequestOptions) =>
+      request<ChartDataPointDto[]>(buildPath('/api/stats/chart/tx-volume', params, ['period']), init),
+
+    /** GET /api/stats/top-addresses - Top addresses by volume */
+    getTopAddresses: (params: GetTopAddressesParams = {}, init?: ApiRequestOptions) =>
+      request<TopAddressDto[]>(buildPath('/api/stats/top-addresses', params, ['limit', 'epoch']), init),
+
+    /** GET /api/stats/rich-list - Rich list with pagination */
+    getRichList: (params: GetRichListParams = {}, init?: ApiRequestOptions) =>
+      request<RichListDto>(buildPath('/api/stats/rich-list', params, ['page', 'limit']), init),
+
+    /** GET /api/stats/supply - Supply dashboard */
+    getSupplyDashboard: (init?: ApiRequestOptions) =>
+      request<SupplyDashboardDto>(buildPath('/api/stats/supply', {}, []), init),
+
+    /** GET /api/stats/whale-alerts - Large transfer alerts */
+    getWhaleAlerts: (params: GetWhaleAlertsParams = {}, init?: ApiRequestOptions) =>
+      request<WhaleAlertDto[]>(buildPath('/api/stats/whale-alerts', params, ['threshold', 'limit']), init),
+
+    /** GET /api/stats/smart-contract-usage - Smart contract usage stats */
+    getSmartContractUsage: (params: GetSmartContractUsageParams = {}, init?: ApiRequestOptions) =>
+      request<SmartContractUsageDto[]>(buildPath('/api/stats/smart-contract-usage', params, ['epoch']), init),
+
+    /** GET /api/stats/active-addresses - Active address trends */
+    getActiveAddressTrends: (params: GetActiveAddressTrendsParams = {}, init?: ApiRequestOptions) =>
+      request<ActiveAddressTrendDto[]>(buildPath('/api/stats/active-addresses', params, ['period', 'limit']), init),
+
+    /** GET /api/stats/new-vs-returning - New vs returning addresses per epoch */
+    getNewVsReturningAddresses: (params: GetNewVsReturningAddressesParams = {}, init?: ApiRequestOptions) =>
+      request<NewVsReturningDto[]>(buildPath('/api/stats/new-vs-returning', params, ['limit']), init),
+
+    /** GET /api/stats/exchange-flows - Exchange inflow/outflow data */
+    getExchangeFlows: (params: GetExchangeFlowsParams = {}, init?: ApiRequestOptions) =>
+      request<ExchangeFlowDto>(buildPath('/api/stats/exchange-flows', params, ['limit']), init),
+
+    /** GET /api/stats/exchange-senders - Addresses sending to exchanges */
+    getExchangeSenders: (params: GetExchangeSendersParams = {}, init?: ApiRequestOptions) =>
+      request<ExchangeSendersDto>(buildPath('/api/stats/exchange-senders', params, ['epochs', 'minAmount', 'limit', 'depth']), init),
+
+    /** GET /api/stats/holder-distribution - Wealth distribution analysis */
+    getHolderDistribution: (init?: ApiRequestOptions) =>
+      request<HolderDistributionDto>(buildPath('/api/stats/holder-distribution', {}, []), init),
+
+    /** GET /api/stats/holder-distribution/extended - Holder distribution with history */
+    getHolderDistributionExtended: (params: GetHolderDistributionExtendedParams = {}, init?: ApiRequestOptions) =>
+      request<HolderDistributionExtendedDto>(buildPath('/api/stats/holder-distribution/extended', params, ['historyLimit', 'from', 'to']), init),
+
+    /** GET /api/stats/holder-distribution/history - Historical holder distribution snapshots */
+    getHolderDistributionHistory: (params: GetHolderDistributionHistoryParams = {}, init?: ApiRequestOptions) =>
+      request<HolderDistributionHistoryDto[]>(buildPath('/api/stats/holder-distribution/history', params, ['limit', 'from', 'to']), init),
+
+    /** GET /api/stats/avg-tx-size - Average transaction size trends */
+    getAvgTxSizeTrends: (params: GetAvgTxSizeTrendsParams = {}, init?: ApiRequestOptions) =>
+      request<AvgTxSizeTrendDto[]>(buildPath('/api/stats/avg-tx-size', params, ['period', 'limit']), init),
+
+    /** GET /api/stats/network-stats/history - Network stats history */
+    getNetworkStatsHistory: (params: GetNetworkStatsHistoryParams = {}, init?: ApiRequestOptions) =>
+      request<NetworkStatsHistoryDto[]>(buildPath('/api/stats/network-stats/history', params, ['limit', 'from', 'to']), init),
+
+    /** GET /api/stats/network-stats/extended - Network stats with history */
+    getNetworkStatsExtended: (params: GetNetworkStatsExtendedParams = {}, init?: ApiRequestOptions) =>
+      request<NetworkStatsExtendedDto>(buildPath('/api/stats/network-stats/extended', params, ['historyLimit', 'from', 'to']), init),
+
+    /** GET /api/stats/qearn - Qearn statistics */
+    getQearnStats: (init?: ApiRequestOptions) =>
+      request<QearnStatsDto>(buildPath('/api/stats/qearn', {}, []), init),
+
+    /** GET /api/stats/ccf - Computor Controlled Fund statistics */
+    getCcfStats: (init?: ApiRequestOptions) =>
+      request<CcfStatsDto>(buildPath('/api/stats/ccf', {}, []), init),
+
+    /** GET /api/stats/burn-stats/history - Burn stats history */
+    getBurnStatsHistory: (params: GetBurnStatsHistoryParams = {}, init?: ApiRequestOptions) =>
+      request<BurnStatsHistoryDto[]>(buildPath('/api/stats/burn-stats/history', params, ['limit', 'from', 'to']), init),
+
+    /** GET /api/stats/burn-stats/extended - Burn stats with history */
+    getBurnStatsExtended: (params: GetBurnStatsExtendedParams = {}, init?: ApiRequestOptions) =>
+      request<BurnStatsExtendedDto>(buildPath('/api/stats/burn-stats/extended', params, ['historyLimit', 'from', 'to']), init),
+
+    /**
+     * GET /api/stats/burn-stats/by-epoch - Burn statistics derived from spectrum supply per epoch.
+     * Total burned in epoch N = (N × 1 trillion) − circulating supply.
+     */
+    getBurnStatsByEpoch: (params: GetBurnStatsByEpochParams = {}, init?: ApiRequestOptions) =>
+      request<EpochBurnStatsDto[]>(buildPath('/api/stats/burn-stats/by-epoch', params, ['limit']), init),
+
+    /** GET /api/stats/tick-votes/{epoch} - Vote progression per 676-tick window for an epoch */
+    getTickVotes: (params: GetTickVotesParams, init?: ApiRequestOptions) =>
+      request<TickVotesResponseDto>(buildPath('/api/stats/tick-votes/{epoch}', params, ['computorIndex']), init),
+
+    /** GET /api/stats/tick-votes/{epoch}/compare - Compare vote progression for multiple computors with a sum line */
+    compareTickVotes: (params: CompareTickVotesParams, init?: ApiRequestOptions) =>
+      request<TickVoteCompareResponseDto>(buildPath('/api/stats/tick-votes/{epoch}/compare', params, ['indices']), init),
+
+    /** GET /api/stats/computor-revenue - Computor revenue for current epoch */
+    getCurrentComputorRevenue: (init?: ApiRequestOptions) =>
+      request<ComputorRevenueDto>(buildPath('/api/stats/computor-revenue', {}, []), init),
+
+    /** GET /api/stats/computor-revenue/{epoch} - Computor revenue for specific epoch */
+    getComputorRevenue: (params: GetComputorRevenueParams, init?: ApiRequestOptions) =>
+      request<ComputorRevenueDto>(buildPath('/api/stats/computor-revenue/{epoch}', params, []), init),
+
+    /** GET /api/stats/computor-revenue/{epoch}/simulate - Simulate computor revenue with custom tick cutoffs */
+    simulateComputorRevenue: (params: SimulateComputorRevenueParams, init?: ApiRequestOptions) =>
+      request<ComputorRevenueSimulationDto>(buildPath('/api/stats/computor-revenue/{epoch}/simulate', params, ['txTick', 'voteTick', 'miningTick']), init),
+
+    /** GET /api/stats/execution-fees/{epoch} - Execution fee report summary per phase and contract */
+    getExecutionFeeSummary: (params: GetExecutionFeeSummaryParams, init?: ApiRequestOptions) =>
+      request<ExecutionFeePhaseSummaryDto[]>(buildPath('/api/stats/execution-fees/{epoch}', params, []), init),
+
+    /** GET /api/stats/execution-fees/{epoch}/contract/{contractIndex} - Reported execution fees of one contract across the phases of an epoch */
+    getExecutionFeeContract: (params: GetExecutionFeeContractParams, init?: ApiRequestOptions) =>
+      request<ExecutionFeeContractResponseDto>(buildPath('/api/stats/execution-fees/{epoch}/contract/{contractIndex}', params, []), init),
+
+    /** GET /api/stats/execution-fees/{epoch}/phase/{phaseNumber} - All contracts and reports of one execution fee phase */
+    getExecutionFeePhase: (params: GetExecutionFeePhaseParams, init?: ApiRequestOptions) =>
+      request<ExecutionFeePhaseDetailDto>(buildPath('/api/stats/execution-fees/{epoch}/phase/{phaseNumber}', params, []), init),
+
+    /** GET /api/stats/oracle/{epoch} - Oracle commit/reveal participation per computor for an epoch */
+    getOracleEpochSummary: (params: GetOracleEpochSummaryParams, init?: ApiRequestOptions) =>
+      request<OracleEpochSummaryDto>(buildPath('/api/stats/oracle/{epoch}', params, []), init),
+
+    /** GET /api/stats/oracle/{epoch}/queries - Oracle queries of an epoch */
+    getOracleQueryList: (params: GetOracleQueryListParams, init?: ApiRequestOptions) =>
+      request<OracleQueryListDto>(buildPath('/api/stats/oracle/{epoch}/queries', params, ['limit', 'offset']), init),
+
+    /** GET /api/stats/oracle/{epoch}/query/{queryId} - Commits, reveals and answers of one oracle query */
+    getOracleQueryDetail: (params: GetOracleQueryDetailParams, init?: ApiRequestOptions) =>
+      request<OracleQueryDetailDto>(buildPath('/api/stats/oracle/{epoch}/query/{queryId}', params, []), init),
+
+    /** GET /api/stats/oracle/{epoch}/computor/{computorIndex} - Oracle participation of one computor */
+    getOracleComputorProfile: (params: GetOracleComputorProfileParams, init?: ApiRequestOptions) =>
+      request<OracleComputorProfileDto>(buildPath('/api/stats/oracle/{epoch}/computor/{computorIndex}', params, ['limit', 'offset']), init),
+
+    /** POST /api/stats/qearn/backfill - Backfill qearn stats (requires admin API key) */
+    backfillQearnStats: (init?: ApiRequestOptions) =>
+      request<void>(buildPath('/api/stats/qearn/backfill', {}, []), { ...init, method: 'POST' }),
+
+    /** POST /api/stats/emission/backfill - Backfill emission stats (requires admin API key) */
+    backfillEmissions: (init?: ApiRequestOptions) =>
+      request<void>(buildPath('/api/stats/emission/backfill', {}, []), { ...init, method: 'POST' }),
+
+    /** GET /api/miner-flow/computors/{epoch} - Get computors for an epoch */
+    getComputors: (params: GetComputorsParams, init?: ApiRequestOptions) =>
+      request<ComputorListDto>(buildPath('/api/miner-flow/computors/{epoch}', params, []), init),
+
+    /** GET /api/miner-flow/stats - Miner flow statistics summary with history */
+    getMinerFlowStats: (params: GetMinerFlowStatsParams = {}, init?: ApiRequestOptions) =>
+      request<MinerFlowSummaryDto>(buildPath('/api/miner-flow/stats', params, ['limit', 'from', 'to']), init),
+
+    /** GET /api/miner-flow/visualization/{emissionEpoch} - Flow visualization data for Sankey diagram */
+    getFlowVisualization: (params: GetFlowVisualizationParams, init?: ApiRequestOptions) =>
+      request<FlowVisualizationDto>(buildPath('/api/miner-flow/visualization/{emissionEpoch}', params, ['maxDepth']), init),
+
+    /** GET /api/miner-flow/hops/{epoch} - Raw flow hops for analysis */
+    getFlowHops: (params: GetFlowHopsParams, init?: ApiRequestOptions) =>
+      request<FlowHopsResponseDto>(buildPath('/api/miner-flow/hops/{epoch}', params, ['tickStart', 'tickEnd', 'maxDepth', 'limit']), init),
+
+    /** GET /api/miner-flow/emissions/{epoch} - Emission summary for an epoch */
+    getEmissionSummary: (params: GetEmissionSummaryParams, init?: ApiRequestOptions) =>
+      request<EmissionSummaryDto>(buildPath('/api/miner-flow/emissions/{epoch}', params, []), init),
+
+    /** GET /api/miner-flow/emissions/{epoch}/details - Detailed emissions for all computors in epoch */
+    getEmissionDetails: (params: GetEmissionDetailsParams, init?: ApiRequestOptions) =>
+      request<EmissionDetailsDto>(buildPath('/api/miner-flow/emissions/{epoch}/details', params, []), init),
+
+    /** GET /api/miner-flow/emissions/{epoch}/address/{address} - Emission for specific computor in epoch */
+    getComputorEmission: (params: GetComputorEmissionParams, init?: ApiRequestOptions) =>
+      request<ComputorEmissionResponseDto>(buildPath('/api/miner-flow/emissions/{epoch}/address/{address}', params, []), init),
+
+    /** POST /api/custom-flow - Create new custom flow tracking job */
+    createCustomFlow: (params: CreateCustomFlowParams, init?: ApiRequestOptions) =>
+      request<CreateCustomFlowResponseDto>(buildPath('/api/custom-flow', params, []), { ...init, method: 'POST', body: JSON.stringify(params.body) }),
+
+    /** GET /api/custom-flow/{jobId} - Get job metadata */
+    getCustomFlowJob: (params: GetCustomFlowJobParams, init?: ApiRequestOptions) =>
+      request<CustomFlowJobDto>(buildPath('/api/custom-flow/{jobId}', params, []), init),
+
+    /** GET /api/custom-flow/{jobId}/visualization - Sankey visualization data for job */
+    getCustomFlowVisualization: (params: GetCustomFlowVisualizationParams, init?: ApiRequestOptions) =>
+      request<CustomFlowResultDto>(buildPath('/api/custom-flow/{jobId}/visualization', params, []), init),
+
+    /** GET /api/custom-flow/{jobId}/hops - Raw hop data for job */
+    getCustomFlowHops: (params: GetCustomFlowHopsParams, init?: ApiRequestOptions) =>
+      request<CustomFlowHopsResponseDto>(buildPath('/api/custom-flow/{jobId}/hops', params, ['maxDepth']), init),
+
+    /** GET /api/custom-flow/{jobId}/state - Tracking state for all addresses in job */
+    getCustomFlowState: (params: GetCustomFlowStateParams, init?: ApiRequestOptions) =>
+      request<CustomFlowStateResponseDto>(buildPath('/api/custom-flow/{jobId}/state', params, []), init),
+
+    /** GET /api/spectrum/status - Get status of spectrum imports */
+    getSpectrumStatus: (init?: ApiRequestOptions) =>
+      request<void>(buildPath('/api/spectrum/status', {}, []), init),
+
+    /** GET /api/spectrum/{epoch}/status - Check if epoch spectrum is imported */
+    getEpochSpectrumStatus: (params: GetEpochSpectrumStatusParams, init?: ApiRequestOptions) =>
+      request<void>(buildPath('/api/spectrum/{epoch}/status', params, []), init),
+
+    /** POST /api/spectrum/{epoch}/import - Import spectrum for epoch (requires admin API key) */
+    importSpectrum: (params: ImportSpectrumParams, init?: ApiRequestOptions) =>
+      request<void>(buildPath('/api/spectrum/{epoch}/import', params, []), { ...init, method: 'POST' }),
+
+    /** POST /api/spectrum/import-latest - Import latest spectrum (requires admin API key) */
+    importLatestSpectrum: (init?: ApiRequestOptions) =>
+      request<void>(buildPath('/api/spectrum/import-latest', {}, []), { ...init, method: 'POST' }),
+
+    /** POST /api/spectrum/{epoch}/import-universe - Import universe for epoch (requires admin API key) */
+    importUniverse: (params: ImportUniverseParams, init?: ApiRequestOptions) =>
+      request<void>(buildPath('/api/spectrum/{epoch}/import-universe', params, []), { ...init, method: 'POST' }),
+
+    /** GET /api/spectrum/universe/status - Get status of universe imports */
+    getUniverseStatus: (init?: ApiRequestOptions) =>
+      request<void>(buildPath('/api/spectrum/universe/status', {}, []), init),
+
+    /** GET /api/notifications/vapid-key - Get VAPID public key for push subscription */
+    getVapidKey: (init?: ApiRequestOptions) =>
+      request<{
+        publicKey: string
+      }>(buildPath('/api/notifications/vapid-key', {}, []), init),
+
+    /** POST /api/notifications/subscribe - Subscribe to push notifications and/or webhooks */
+    subscribePush: (params: SubscribePushParams, init?: ApiRequestOptions) =>
+      request<{
+        subscriptionId: string
+      }>(buildPath('/api/notifications/subscribe', params, []), { ...init, method: 'POST', body: JSON.stringify(params.body) }),
+
+    /** POST /api/notifications/unsubscribe - Unsubscribe from push notifications */
+    unsubscribePush: (params: UnsubscribePushParams, init?: ApiRequestOptions) =>
+      request<void>(buildPath('/api/notifications/unsubscribe', params, []), { ...init, method: 'POST', body: JSON.stringify(params.body) }),
+
+    /** POST /api/notifications/webhooks/test - Send a test event to a webhook target (single attempt, not logged) */
+    testWebhook: (params: TestWebhookParams, init?: ApiRequestOptions) =>
+      request<WebhookDeliveryDto>(buildPath('/api/notifications/webhooks/test', params, []), { ...init, method: 'POST', body: JSON.stringify(params.body) }),
+
+    /** GET /api/notifications/{subscriptionId}/webhook-deliveries - Recent webhook delivery attempts of a subscription, newest first */
+    getWebhookDeliveries: (params: GetWebhookDeliveriesParams, init?: ApiRequestOptions) =>
+      request<WebhookDeliveryDto[]>(buildPath('/api/notifications/{subscriptionId}/webhook-deliveries', params, ['limit']), init),
+
+    /** GET /api/portfolio/sync - Get the synced portfolio for an anonymous sync token */
+    getPortfolioSync: (init?: ApiRequestOptions) =>
+      request<PortfolioSyncDto>(buildPath('/api/portfolio/sync', {}, []), init),
+
+    /** PUT /api/portfolio/sync - Store the portfolio for an anonymous sync token */
+    putPortfolioSync: (params: PutPortfolioSyncParams, init?: ApiRequestOptions) =>
+      request<{
+        updatedAt: string
+      }>(buildPath('/api/portfolio/sync', params, []), { ...init, method: 'PUT', body: JSON.stringify(params.body) }),
+
+    /** DELETE /api/portfolio/sync - Delete the synced portfolio for an anonymous sync token */
+    deletePortfolioSync: (init?: ApiRequestOptions) =>
+      request<void>(buildPath('/api/portfolio/sync', {}, []), { ...init, method: 'DELETE' }),
+
+    /** GET /health - Health check */
+    getHealth: (init?: ApiRequestOptions) =>
+      request<void>(buildPath('/health', {}, []), init),
+  }
+}
+
+export type ApiEndpoints = ReturnType<typeof createApiEndpoints>
+
+/** URLs of non-JSON endpoints (downloads), relative to the API base URL */
+export const apiPaths = {
+  /** GET /api/address/{address}/export - Export address data as CSV */
+  exportAddressData: (params: ExportAddressDataParams) =>
+    buildPath('/api/address/{address}/export', params, ['format', 'type', 'epoch']),
+
+  /** GET /api/address/{address}/tax-report.csv - Per-year tax report as a CSV file */
+  downloadAddressTaxReportCsv: (params: DownloadAddressTaxReportCsvParams) =>
+    buildPath('/api/address/{address}/tax-report.csv', params, ['year']),
+}
@@ -0,0 +1,291 @@
+/**
+ * API Client
+ *
+ * fetch wrapper used by useApi: structured errors, per-attempt timeouts,
+ * retry with exponential backoff for idempotent requests, in-flight dedupe
+ * of identical GETs and cancellation of route-scoped requests on navigation.
+ *
+ * Kept free of Nuxt imports; useApi supplies the base URL and defaults from
+ * the runtime config and the apiClient plugin aborts requests on route change.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** RFC 7807 problem details, or the `{ error }` body most controllers return */
+export interface ProblemDetails {
+  type?: string
+  title?: string
+  status?: number
+  detail?: string
+  instance?: string
+  error?: string
+  errors?: Record<string, string[]>
+  [key: string]: unknown
+}
+
+export interface RetryOptions {
+  /** Retries after the first attempt (0 disables retrying) */
+  attempts: number
+  /** Delay before the first retry; doubles on every further retry */
+  baseDelayMs: number
+  /** Upper bound for a single backoff delay (and for Retry-After) */
+  maxDelayMs: number
+  /** HTTP statuses worth retrying; network errors and timeouts always are */
+  statuses: number[]
+}
+
+export interface ApiClientOptions {
+  /** Resolved on every request (differs between SSR and the browser) */
+  baseUrl: () => string
+  /** Per-attempt timeout; 0 disables it */
+  timeoutMs: number
+  retry: RetryOptions
+  /** Share identical in-flight GETs between callers */
+  dedupe: boolean
+}
+
+export interface ApiRequestOptions extends RequestInit {
+  /** Override the client timeout for this request */
+  timeoutMs?: number
+  /** Override (or disable with `false`) retrying for this request */
+  retry?: Partial<RetryOptions> | false
+  /** Abort when the user navigates to another page (default true) */
+  routeScoped?: boolean
+}
+
+export type ApiErrorKind = 'http' | 'network' | 'timeout' | 'aborted'
+
+/**
+ * Error thrown for every failed API request.
+ * `status` is 0 when no response was received.
+ */
+export class ApiError extends Error {
+  constructor(
+    public kind: ApiErrorKind,
+    public status: number,
+    public endpoint: string,
+    public method: string,
+    public problem: ProblemDetails | null = null,
+    message?: string
+  ) {
+    super(message ?? problem?.detail ?? problem?.error ?? problem?.title ?? defaultMessage(kind, status))
+    this.name = 'ApiError'
+  }
+
+  get isAborted(): boolean {
+    return this.kind === 'aborted'
+  }
+
+  get isTimeout(): boolean {
+    return this.kind === 'timeout'
+  }
+
+  get isNotFound(): boolean {
+    return this.status === 404
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError
+}
+
+function defaultMessage(kind: ApiErrorKind, status: number): string {
+  switch (kind) {
+    case 'http': return `API error: ${status}`
+    case 'timeout': return 'API request timed out'
+    case 'aborted': return 'API request was cancelled'
+    default: return 'API unreachable'
+  }
+}
+
+export const DEFAULT_RETRY: RetryOptions = {
+  attempts: 2,
+  baseDelayMs: 300,
+  maxDelayMs: 5000,
+  statuses: [408, 429, 500, 502, 503, 504],
+}
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS']
+
+// =============================================================================
+// Route scope
+// =============================================================================
+
+let routeController = new AbortController()
+
+/** Shared in-flight GETs, keyed by scope and endpoint */
+const inFlight = new Map<string, Promise<unknown>>()
+
+/**
+ * Abort every in-flight route-scoped request and start a new scope.
+ * Called by the apiClient plugin before navigating to another page.
+ */
+export function abortRouteRequests(): void {
+  routeController.abort()
+  routeController = new AbortController()
+  for (const key of inFlight.keys()) {
+    if (key.startsWith('route ')) inFlight.delete(key)
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Combine signals; the result aborts with the reason of the first one that fires */
+function linkSignals(signals: Array<AbortSignal | null | undefined>): { signal: AbortSignal, dispose: () => void } {
+  const controller = new AbortController()
+  const listeners: Array<() => void> = []
+  for (const signal of signals) {
+    if (!signal) continue
+    if (signal.aborted) {
+      controller.abort(signal.reason)
+      break
+    }
+    const onAbort = () => controller.abort(signal.reason)
+    signal.addEventListener('abort', onAbort, { once: true })
+    listeners.push(() => signal.removeEventListener('abort', onAbort))
+  }
+  return { signal: controller.signal, dispose: () => listeners.forEach(remove => remove()) }
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason)
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal.reason)
+    }
+    signal.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/** Parse a JSON error body; returns null for empty or non-JSON bodies */
+async function readProblem(response: Response): Promise<ProblemDetails | null> {
+  try {
+    const text = await response.text()
+    if (!text) return null
+    const body = JSON.parse(text) as unknown
+    if (typeof body === 'object' && body !== null && !Array.isArray(body)) return body as ProblemDetails
+    if (typeof body === 'string') return { detail: body }
+  } catch {
+    // Not JSON - keep the status-only message
+  }
+  return null
+}
+
+/** Retry-After as milliseconds (seconds or HTTP date), or null */
+function retryAfterMs(response: Response): number | null {
+  const header = response.headers.get('Retry-After')
+  if (!header) return null
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+function backoffDelay(retry: RetryOptions, attempt: number): number {
+  const exponential = retry.baseDelayMs * 2 ** attempt
+  // Jitter keeps simultaneous retries from lining up
+  return Math.min(retry.maxDelayMs, exponential / 2 + Math.random() * exponential / 2)
+}
+
+// =============================================================================
+// Client
+// =============================================================================
+
+export type ApiRequest = <T>(endpoint: string, options?: ApiRequestOptions) => Promise<T>
+
+export function createApiClient(client: ApiClientOptions): ApiRequest {
+  const execute = async <T>(endpoint: string, options: ApiRequestOptions): Promise<T> => {
+    const {
+      timeoutMs = client.timeoutMs,
+      retry: retryOverride,
+      routeScoped = true,
+      signal: callerSignal,
+      ...init
+    } = options
+    const method = (init.method ?? 'GET').toUpperCase()
+    const retry: RetryOptions = retryOverride === false || !IDEMPOTENT_METHODS.includes(method)
+      ? { ...client.retry, attempts: 0 }
+      : { ...client.retry, ...retryOverride }
+
+    // Caller and route cancellation apply to the whole request, including backoff
+    const cancel = linkSignals([callerSignal, routeScoped ? routeController.signal : null])
+    const url = `${client.baseUrl()}${endpoint}`
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        const timeout = new AbortController()
+        const timer = timeoutMs > 0 ? setTimeout(() => timeout.abort(), timeoutMs) : null
+        const attemptSignal = linkSignals([cancel.signal, timeout.signal])
+
+        let error: ApiError
+        let delay: number | null = null
+        try {
+          const response = await fetch(url, {
+            ...init,
+            method,
+            signal: attemptSignal.signal,
+            headers: {
+              'Content-Type': 'application/json',
+              ...init.headers,
+            },
+          })
+
+          if (response.ok) {
+            // Commands answer with 204 or an empty 200
+            const text = response.status === 204 ? '' : await response.text()
+            return (text ? JSON.parse(text) : undefined) as T
+          }
+
+          error = new ApiError('http', response.status, endpoint, method, await readProblem(response))
+          if (!retry.statuses.includes(response.status)) throw error
+          delay = retryAfterMs(response)
+        } catch (err) {
+          if (err instanceof ApiError) throw err
+          if (cancel.signal.aborted) throw new ApiError('aborted', 0, endpoint, method)
+          error = timeout.signal.aborted
+            ? new ApiError('timeout', 0, endpoint, method)
+            : new ApiError('network', 0, endpoint, method, null, err instanceof Error ? `API unreachable: ${err.message}` : undefined)
+        } finally {
+          if (timer) clearTimeout(timer)
+          attemptSignal.dispose()
+        }
+
+        if (attempt >= retry.attempts) throw error
+        try {
+          await sleep(Math.min(retry.maxDelayMs, delay ?? backoffDelay(retry, attempt)), cancel.signal)
+        } catch {
+          throw new ApiError('aborted', 0, endpoint, method)
+        }
+      }
+    } finally {
+      cancel.dispose()
+    }
+  }
+
+  return <T>(endpoint: string, options: ApiRequestOptions = {}): Promise<T> => {
+    const method = (options.method ?? 'GET').toUpperCase()
+    // Requests with their own signal, body or headers (API keys, sync tokens) are never shared
+    if (!client.dedupe || method !== 'GET' || options.signal || options.body || options.headers) {
+      return execute<T>(endpoint, options)
+    }
+
+    const key = `${options.routeScoped === false ? 'app' : 'route'} ${endpoint}`
+    const pending = inFlight.get(key)
+    if (pending) return pending as Promise<T>
+
+    const promise = execute<T>(endpoint, options).finally(() => {
+      if (inFlight.get(key) === promise) inFlight.delete(key)
+    })
+    inFlight.set(key, promise)
+    return promise
+  }
+}
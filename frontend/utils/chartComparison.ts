@@ -0,0 +1,122 @@
+/**
+ * Chart Comparison Overlays
+ *
+ * A comparison is a second set of series drawn over a chart — the previous
+ * window of the same length, or a chosen epoch — paired with the chart's own
+ * datasets by position: comparison dataset i belongs to dataset i. Points are
+ * aligned by index, so the n-th snapshot of the range sits over the n-th
+ * snapshot of the comparison window.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** How a series is reduced to one number for the percent-change annotation */
+export type ComparisonAggregate = 'sum' | 'average' | 'last'
+
+export interface ChartComparison {
+  /** Shown in the legend and tooltips, e.g. "Previous period" or "Epoch 155" */
+  label: string
+  datasets: {
+    label: string
+    data: (number | null)[]
+  }[]
+  /** Flows add up ('sum', the default); levels and running totals do not */
+  aggregate?: ComparisonAggregate
+}
+
+export interface ComparisonSummary {
+  label: string
+  current: number
+  previous: number
+  /** Percent change, null when the comparison value is zero */
+  change: number | null
+}
+
+// =============================================================================
+// Series
+// =============================================================================
+
+export function percentChange(current: number, previous: number): number | null {
+  if (!Number.isFinite(current) || !Number.isFinite(previous) || previous === 0) return null
+  return ((current - previous) / Math.abs(previous)) * 100
+}
+
+export function formatPercentChange(change: number | null): string {
+  if (change === null) return 'n/a'
+  const rounded = Math.abs(change) >= 100 ? change.toFixed(0) : change.toFixed(1)
+  return `${change > 0 ? '+' : ''}${rounded}%`
+}
+
+export function aggregateSeries(values: readonly (number | null)[], mode: ComparisonAggregate = 'sum'): number {
+  const present = values.filter((v): v is number => typeof v === 'number' && Number.isFinite(v))
+  if (present.length === 0) return 0
+  if (mode === 'last') return present[present.length - 1]
+  const sum = present.reduce((total, v) => total + v, 0)
+  return mode === 'average' ? sum / present.length : sum
+}
+
+/** Truncate or pad with gaps so a comparison series fits the chart's labels */
+export function alignSeries(values: readonly (number | null)[], length: number): (number | null)[] {
+  return Array.from({ length }, (_, i) => values[i] ?? null)
+}
+
+/**
+ * The value `offset` positions earlier at every index, for charts whose
+ * x-axis is already a sequence of epochs: each epoch against the one before.
+ */
+export function shiftSeries(values: readonly number[], offset = 1): (number | null)[] {
+  return values.map((_, i) => (i >= offset ? values[i - offset] : null))
+}
+
+/**
+ * Overlay for charts with one point per epoch: every epoch against the one
+ * before it, or against a fixed epoch drawn as a reference level. The
+ * annotation compares the latest epoch. Null when the fixed epoch is not
+ * on the chart.
+ */
+export function epochSeriesComparison(
+  epochs: readonly number[],
+  series: readonly { label: string; data: readonly number[] }[],
+  against: number | null
+): ChartComparison | null {
+  if (against === null) {
+    return {
+      label: 'Previous epoch',
+      datasets: series.map(s => ({ label: s.label, data: shiftSeries(s.data) })),
+      aggregate: 'last',
+    }
+  }
+  const index = epochs.indexOf(against)
+  if (index < 0) return null
+  return {
+    label: `Epoch ${against}`,
+    datasets: series.map(s => ({ label: s.label, data: s.data.map(() => s.data[index]) })),
+    aggregate: 'last',
+  }
+}
+
+/** One percent-change annotation per dataset that has a comparison */
+export function summarizeComparison(
+  datasets: readonly { label: string; data: readonly (number | null)[] }[],
+  comparison: ChartComparison
+): ComparisonSummary[] {
+  return datasets.flatMap((dataset, i) => {
+    const other = comparison.datasets[i]
+    if (!other) return []
+    const current = aggregateSeries(dataset.data, comparison.aggregate)
+    const previous = aggregateSeries(alignSeries(other.data, dataset.data.length), comparison.aggregate)
+    return [{ label: dataset.label, current, previous, change: percentChange(current, previous) }]
+  })
+}
+
+// =============================================================================
+// Colors
+// =============================================================================
+
+/** The same rgb()/rgba() color at another opacity; other formats pass through */
+export function withAlpha(color: string, alpha: number): string {
+  const match = color.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/)
+  return match ? `rgba(${match[1]}, ${match[2]}, ${match[3]}, ${alpha})` : color
+}
@@ -1,19 +1,22 @@
 /**
  * Qubic Smart Contract Input Decoder
  *
- * Decodes binary input data from Qubic smart contract transactions into human-readable JSON.
+ * Decodes binary input data from Qubic smart contract transactions into human-readable JSON,
+ * and encodes JSON values back into the binary input of a contract call.
  *
  * Type definitions based on:
  * - https://github.com/qubic/core/blob/main/src/contracts/qpi.h
  * - https://github.com/qubic/core/tree/main/src/contracts
  */
 
+import { publicKeyToIdentity, identityToPublicKey } from './qubicIdentity'
+
 // =============================================================================
 // Type Definitions
 // =============================================================================
 
-/** Field types supported by the decoder */
-export type FieldType =
+/** Scalar field types with a fixed size */
+export type ScalarFieldType =
   | 'uint8'
   | 'sint8'
   | 'uint16'
@@ -26,36 +29,101 @@ export type FieldType =
   | 'Asset' // 40 bytes - { issuer: id, assetName: uint64 }
   | 'assetName' // uint64 displayed as ASCII string
 
+/** Scalar field types, in declaration order */
+export const SCALAR_FIELD_TYPES: readonly ScalarFieldType[] = [
+  'uint8', 'sint8', 'uint16', 'sint16', 'uint32', 'sint32', 'uint64', 'sint64', 'id', 'Asset', 'assetName',
+]
+
+/** Field types supported by the decoder */
+export type FieldType =
+  | ScalarFieldType
+  | 'struct' // nested struct described by `fields`
+  | 'chars' // fixed-size ASCII string of `size` bytes, NUL-terminated
+  | 'flags' // bit-packed flags stored in `size` bytes, least significant bit first
+  | 'padding' // `size` bytes skipped by the decoder
+
 /** Field definition for struct parsing */
 export interface FieldDef {
   name: string
   type: FieldType
-  /** For array types, the count of elements */
+  /** For array types (QPI Array<T, N>), the count of elements */
   count?: number
+  /** Member fields of a 'struct' */
+  fields?: FieldDef[]
+  /** Byte length of 'chars', 'flags' and 'padding' fields */
+  size?: number
+  /** Names of the bits of a 'flags' field; unnamed flags decode as raw hex */
+  flags?: string[]
+  /** Lay out 'struct' members without natural alignment */
+  packed?: boolean
   /** Optional description for display */
   description?: string
 }
 
-/** Procedure input schema */
+/** Procedure or function schema: input fields and optional output struct */
 export interface ProcedureSchema {
   name: string
   fields: FieldDef[]
+  /** Output struct returned to the caller */
+  outputs?: FieldDef[]
+  /** Lay out fields without natural alignment */
+  packed?: boolean
+  /** One-line summary template referencing top-level fields, e.g. '{numberOfShares} @ {price} QU {assetName}' */
+  summary?: string
+}
+
+/** Inclusive tick/epoch bounds in which a schema layout was active (open-ended when omitted) */
+export interface SchemaValidity {
+  fromEpoch?: number
+  toEpoch?: number
+  fromTick?: number
+  toTick?: number
+}
+
+/** Point in chain history used to pick the schema layout of a transaction */
+export interface SchemaContext {
+  tick?: number
+  epoch?: number
 }
 
 /** Contract schema containing all procedures */
 export interface ContractSchema {
   name: string
   index: number
+  /** Layout version label, shown alongside decoded input */
+  version?: string
+  /** Range in which this layout applies; omitted for the current layout */
+  validity?: SchemaValidity
   procedures: Record<number, ProcedureSchema>
+  /** Read-only functions, keyed by input type */
+  functions?: Record<number, ProcedureSchema>
+  /** Logged message structs (CONTRACT_*_MESSAGE), keyed by their `_type` value */
+  logs?: Record<number, ProcedureSchema>
+  /** Byte offset of the uint32 `_type` in logged structs (defaults to 4, after `_contractIndex`) */
+  logTypeOffset?: number
 }
 
 /** Decoded field value */
 export interface DecodedField {
   name: string
   type: FieldType
+  /** Schema type as written in QPI, e.g. "Array<id, 25>" */
+  typeName: string
   value: unknown
   displayValue: string
   description?: string
+  /** Array elements or struct members */
+  children?: DecodedField[]
+}
+
+/** Encoded contract call input */
+export interface EncodedInput {
+  contractIndex: number
+  procedureId: number
+  /** Input bytes as lowercase hex */
+  inputHex: string
+  /** Input size in bytes, including struct padding */
+  inputSize: number
 }
 
 /** Decoded input result */
@@ -64,8 +132,13 @@ export interface DecodedInput {
   contractIndex: number
   procedureName: string
   procedureId: number
+  /** Version label of the schema layout used for decoding */
+  schemaVersion: string
+  schemaValidity?: SchemaValidity
   fields: DecodedField[]
   rawHex: string
+  /** Compact one-line description, e.g. "QX AddToBidOrder 500 @ 12 QU CFB" */
+  summary: string
   /** If decoding failed or partial */
   error?: string
 }
@@ -74,7 +147,7 @@ export interface DecodedInput {
 // Type Sizes
 // =============================================================================
 
-const TYPE_SIZES: Record<FieldType, number> = {
+const TYPE_SIZES: Record<ScalarFieldType, number> = {
   uint8: 1,
   sint8: 1,
   uint16: 2,
@@ -88,6 +161,127 @@ const TYPE_SIZES: Record<FieldType, number> = {
   assetName: 8,
 }
 
+/** Natural alignment of scalar types (id is a union of uint64 words) */
+const TYPE_ALIGNMENTS: Record<ScalarFieldType, number> = {
+  uint8: 1,
+  sint8: 1,
+  uint16: 2,
+  sint16: 2,
+  uint32: 4,
+  sint32: 4,
+  uint64: 8,
+  sint64: 8,
+  id: 8,
+  Asset: 8,
+  assetName: 8,
+}
+
+/** Computed memory layout of a struct */
+interface StructLayout {
+  offsets: number[]
+  size: number
+  alignment: number
+}
+
+function alignTo(offset: number, alignment: number): number {
+  return Math.ceil(offset / alignment) * alignment
+}
+
+function requireSize(field: FieldDef): number {
+  if (!field.size || field.size < 0) {
+    throw new Error(`Field ${field.name} of type ${field.type} requires a size`)
+  }
+  return field.size
+}
+
+/**
+ * Compute the offset of each field following C struct layout rules
+ */
+function layoutStruct(fields: FieldDef[], packed = false): StructLayout {
+  const offsets: number[] = []
+  let offset = 0
+  let alignment = 1
+  for (const field of fields) {
+    const fieldAlignment = packed ? 1 : getFieldAlignment(field)
+    offset = alignTo(offset, fieldAlignment)
+    offsets.push(offset)
+    offset += getFieldSize(field)
+    alignment = Math.max(alignment, fieldAlignment)
+  }
+  return { offsets, size: alignTo(offset, alignment), alignment }
+}
+
+/**
+ * Alignment of a field (arrays align like their element)
+ */
+function getFieldAlignment(field: FieldDef): number {
+  switch (field.type) {
+    case 'struct':
+      return field.packed ? 1 : layoutStruct(field.fields ?? []).alignment
+    case 'chars':
+    case 'padding':
+      return 1
+    case 'flags': {
+      // Flags are stored in the widest integer dividing their size (QPI bit arrays use uint64)
+      const size = requireSize(field)
+      return [8, 4, 2].find((alignment) => size % alignment === 0) ?? 1
+    }
+    default:
+      return TYPE_ALIGNMENTS[field.type]
+  }
+}
+
+/**
+ * Size of a single element of a field, ignoring `count`
+ */
+function getElementSize(field: FieldDef): number {
+  switch (field.type) {
+    case 'struct':
+      return layoutStruct(field.fields ?? [], field.packed).size
+    case 'chars':
+    case 'flags':
+    case 'padding':
+      return requireSize(field)
+    default:
+      return TYPE_SIZES[field.type]
+  }
+}
+
+/**
+ * Total size of a field in bytes, including all array elements
+ */
+export function getFieldSize(field: FieldDef): number {
+  return getElementSize(field) * (field.count ?? 1)
+}
+
+/**
+ * Size of a procedure input struct in bytes, including trailing padding
+ */
+export function getInputSize(procedure: ProcedureSchema): number {
+  return layoutStruct(procedure.fields, procedure.packed).size
+}
+
+/**
+ * Format a field type the way it is declared in QPI
+ */
+export function formatFieldType(field: FieldDef): string {
+  let name: string
+  switch (field.type) {
+    case 'chars':
+      name = `char[${field.size}]`
+      break
+    case 'flags':
+      name = `bit_${(field.size ?? 0) * 8}`
+      break
+    case 'padding':
+      name = `padding[${field.size}]`
+      break
+    default:
+      name = field.type
+  }
+  return field.count !== undefined ? `Array<${name}, ${field.count}>` : name
+}
+
 // =============================================================================
 // Contract Schemas
 // =============================================================================
@@ -96,12 +290,25 @@ const TYPE_SIZES: Record<FieldType, number> = {
  * QX Contract (Index: 1)
  * DEX for assets on Qubic
  */
+const QX_LOG_FIELDS: FieldDef[] = [
+  { name: '_contractIndex', type: 'uint32', description: 'Contract index' },
+  { name: '_type', type: 'uint32', description: 'Order book event' },
+  { name: 'issuer', type: 'id', description: 'Asset issuer address' },
+  { name: 'assetName', type: 'assetName', description: 'Asset name' },
+  { name: 'price', type: 'sint64', description: 'Price per share in QU' },
+  { name: 'numberOfShares', type: 'sint64', description: 'Number of shares' },
+]
+
 const QX_SCHEMA: ContractSchema = {
   name: 'QX',
   index: 1,
+  version: 'v2',
+  // TransferShareManagementRights added with share management rights
+  validity: { fromEpoch: 138 },
   procedures: {
     1: {
       name: 'IssueAsset',
+      summary: '{numberOfShares} {assetName}',
       fields: [
         { name: 'assetName', type: 'assetName', description: 'Asset name (up to 7 ASCII chars)' },
         { name: 'numberOfShares', type: 'sint64', description: 'Number of shares to issue' },
@@ -111,6 +318,7 @@ const QX_SCHEMA: ContractSchema = {
     },
     2: {
       name: 'TransferShareOwnershipAndPossession',
+      summary: '{numberOfShares} {assetName} to {newOwnerAndPossessor}',
       fields: [
         { name: 'issuer', type: 'id', description: 'Asset issuer address' },
         { name: 'newOwnerAndPossessor', type: 'id', description: 'New owner address' },
@@ -120,39 +328,47 @@ const QX_SCHEMA: ContractSchema = {
     },
     5: {
       name: 'AddToAskOrder',
+      summary: '{numberOfShares} @ {price} QU {assetName}',
       fields: [
         { name: 'issuer', type: 'id', description: 'Asset issuer address' },
         { name: 'assetName', type: 'assetName', description: 'Asset name' },
         { name: 'price', type: 'sint64', description: 'Price per share in QU' },
         { name: 'numberOfShares', type: 'sint64', description: 'Number of shares' },
       ],
+      outputs: [{ name: 'addedNumberOfShares', type: 'sint64', description: 'Shares added to the order book' }],
     },
     6: {
       name: 'AddToBidOrder',
+      summary: '{numberOfShares} @ {price} QU {assetName}',
       fields: [
         { name: 'issuer', type: 'id', description: 'Asset issuer address' },
         { name: 'assetName', type: 'assetName', description: 'Asset name' },
         { name: 'price', type: 'sint64', description: 'Price per share in QU' },
         { name: 'numberOfShares', type: 'sint64', description: 'Number of shares' },
       ],
+      outputs: [{ name: 'addedNumberOfShares', type: 'sint64', description: 'Shares added to the order book' }],
     },
     7: {
       name: 'RemoveFromAskOrder',
+      summary: '{numberOfShares} @ {price} QU {assetName}',
       fields: [
         { name: 'issuer', type: 'id', description: 'Asset issuer address' },
         { name: 'assetName', type: 'assetName', description: 'Asset name' },
         { name: 'price', type: 'sint64', description: 'Price per share in QU' },
         { name: 'numberOfShares', type: 'sint64', description: 'Number of shares' },
       ],
+      outputs: [{ name: 'removedNumberOfShares', type: 'sint64', description: 'Shares removed from the order book' }],
     },
     8: {
       name: 'RemoveFromBidOrder',
+      summary: '{numberOfShares} @ {price} QU {assetName}',
       fields: [
         { name: 'issuer', type: 'id', description: 'Asset issuer address' },
         { name: 'assetName', type: 'assetName', description: 'Asset name' },
         { name: 'price', type: 'sint64', description: 'Price per share in QU' },
         { name: 'numberOfShares', type: 'sint64', description: 'Number of shares' },
       ],
+      outputs: [{ name: 'removedNumberOfShares', type: 'sint64', description: 'Shares removed from the order book' }],
     },
     9: {
       name: 'TransferShareManagementRights',
@@ -163,12 +379,56 @@ const QX_SCHEMA: ContractSchema = {
       ],
     },
   },
+  functions: {
+    1: {
+      name: 'Fees',
+      fields: [],
+      outputs: [
+        { name: 'assetIssuanceFee', type: 'uint32', description: 'Asset issuance fee in QU' },
+        { name: 'transferFee', type: 'uint32', description: 'Share transfer fee in QU' },
+        { name: 'tradeFee', type: 'uint32', description: 'Trade fee (per billion)' },
+      ],
+    },
+  },
+  // _TradeMessage, typed like the procedure that logged it; fills are logged per matched order
+  logs: {
+    5: { name: 'AddToAskOrder', fields: QX_LOG_FIELDS },
+    6: { name: 'AddToBidOrder', fields: QX_LOG_FIELDS },
+    7: { name: 'RemoveFromAskOrder', fields: QX_LOG_FIELDS },
+    8: { name: 'RemoveFromBidOrder', fields: QX_LOG_FIELDS },
+    9: { name: 'TradeFill', fields: QX_LOG_FIELDS },
+  },
+}
+
+/** QX before share management rights: no TransferShareManagementRights */
+const QX_V1_SCHEMA: ContractSchema = {
+  ...QX_SCHEMA,
+  version: 'v1',
+  // Constructed in epoch 66
+  validity: { fromEpoch: 66, toEpoch: 137 },
+  procedures: {
+    1: QX_SCHEMA.procedures[1],
+    2: QX_SCHEMA.procedures[2],
+    5: QX_SCHEMA.procedures[5],
+    6: QX_SCHEMA.procedures[6],
+    7: QX_SCHEMA.procedures[7],
+    8: QX_SCHEMA.procedures[8],
+  },
 }
 
 /**
  * Quottery Contract (Index: 2)
  * Betting/prediction market
  */
+const QUOTTERY_PAYOUT_LOG_FIELDS: FieldDef[] = [
+  { name: '_contractIndex', type: 'uint32', description: 'Contract index' },
+  { name: '_type', type: 'uint32', description: 'Payout kind' },
+  { name: 'betId', type: 'uint32', description: 'Bet ID' },
+  { name: 'option', type: 'uint32', description: 'Winning option' },
+  { name: 'receiver', type: 'id', description: 'Paid address' },
+  { name: 'amount', type: 'sint64', description: 'Amount in QU' },
+]
+
 const QUOTTERY_SCHEMA: ContractSchema = {
   name: 'Quottery',
   index: 2,
@@ -177,8 +437,14 @@ const QUOTTERY_SCHEMA: ContractSchema = {
       name: 'issueBet',
       fields: [
         { name: 'betDesc', type: 'id', description: 'Bet description hash' },
-        // Note: id_8 and other array types would need special handling
-        // Simplified for basic decoding
+        { name: 'optionDesc', type: 'id', count: 8, description: 'Option description hashes' },
+        { name: 'oracleProviderId', type: 'id', count: 8, description: 'Oracle provider addresses' },
+        { name: 'oracleFees', type: 'uint32', count: 8, description: 'Oracle fees (per provider)' },
+        { name: 'closeDate', type: 'uint32', description: 'Close date (packed)' },
+        { name: 'endDate', type: 'uint32', description: 'End date (packed)' },
+        { name: 'amountPerSlot', type: 'uint64', description: 'Amount per slot in QU' },
+        { name: 'maxNumberOfSlotPerOption', type: 'uint32', description: 'Max slots per option' },
+        { name: 'numberOfOption', type: 'uint32', description: 'Number of options' },
       ],
     },
     2: {
@@ -187,7 +453,7 @@ const QUOTTERY_SCHEMA: ContractSchema = {
         { name: 'betId', type: 'uint32', description: 'Bet ID' },
         { name: 'numberOfSlot', type: 'uint32', description: 'Number of slots' },
         { name: 'option', type: 'uint32', description: 'Option to bet on' },
-        { name: '_placeHolder', type: 'uint32', description: 'Placeholder' },
+        { name: '_placeHolder', type: 'padding', size: 4 },
       ],
     },
     3: {
@@ -202,6 +468,11 @@ const QUOTTERY_SCHEMA: ContractSchema = {
       ],
     },
   },
+  logs: {
+    1: { name: 'WinnerPayout', fields: QUOTTERY_PAYOUT_LOG_FIELDS },
+    2: { name: 'OracleFeePayout', fields: QUOTTERY_PAYOUT_LOG_FIELDS },
+    3: { name: 'RefundPayout', fields: QUOTTERY_PAYOUT_LOG_FIELDS },
+  },
 }
 
 /**
@@ -211,22 +482,15 @@ const QUOTTERY_SCHEMA: ContractSchema = {
 const QUTIL_SCHEMA: ContractSchema = {
   name: 'QUTIL',
   index: 4,
+  version: 'v2',
+  // BurnQubic added
+  validity: { fromEpoch: 120 },
   procedures: {
     1: {
       name: 'SendToManyV1',
       fields: [
-        // 25 destination addresses
-        ...Array.from({ length: 25 }, (_, i) => ({
-          name: `dst${i}`,
-          type: 'id' as FieldType,
-          description: `Destination address ${i}`,
-        })),
-        // 25 amounts
-        ...Array.from({ length: 25 }, (_, i) => ({
-          name: `amt${i}`,
-          type: 'sint64' as FieldType,
-          description: `Amount for destination ${i}`,
-        })),
+        { name: 'dst', type: 'id', count: 25, description: 'Destination addresses' },
+        { name: 'amt', type: 'sint64', count: 25, description: 'Amounts per destination' },
       ],
     },
     2: {
@@ -236,10 +500,29 @@ const QUTIL_SCHEMA: ContractSchema = {
   },
 }
 
+/** QUTIL before BurnQubic: SendToManyV1 only */
+const QUTIL_V1_SCHEMA: ContractSchema = {
+  ...QUTIL_SCHEMA,
+  version: 'v1',
+  // Constructed in epoch 99
+  validity: { fromEpoch: 99, toEpoch: 119 },
+  procedures: {
+    1: QUTIL_SCHEMA.procedures[1],
+  },
+}
+
 /**
  * QEARN Contract (Index: 9)
  * Staking/earning contract
  */
+const QEARN_LOG_FIELDS: FieldDef[] = [
+  { name: '_contractIndex', type: 'uint32', description: 'Contract index' },
+  { name: 'sourcePublicKey', type: 'id', description: 'Sender of the locked or unlocked QU' },
+  { name: 'destinationPublicKey', type: 'id', description: 'Receiver of the locked or unlocked QU' },
+  { name: 'amount', type: 'sint64', description: 'Amount in QU' },
+  { name: '_type', type: 'uint32', description: 'Result code' },
+]
+
 const QEARN_SCHEMA: ContractSchema = {
   name: 'QEARN',
   index: 9,
@@ -247,15 +530,30 @@ const QEARN_SCHEMA: ContractSchema = {
     1: {
       name: 'lock',
       fields: [], // Empty input - uses invocationReward
+      outputs: [{ name: 'returnCode', type: 'sint32', description: 'Lock result code' }],
     },
     2: {
       name: 'unlock',
+      summary: '{amount} QU from epoch {lockedEpoch}',
       fields: [
         { name: 'amount', type: 'uint64', description: 'Amount to unlock' },
         { name: 'lockedEpoch', type: 'uint32', description: 'Epoch when locked' },
       ],
+      outputs: [{ name: 'returnCode', type: 'sint32', description: 'Unlock result code' }],
     },
   },
+  // QEarnLogger keeps `_type` after the payload
+  logTypeOffset: 80,
+  logs: {
+    0: { name: 'SuccessLocking', fields: QEARN_LOG_FIELDS },
+    1: { name: 'FailedTransfer', fields: QEARN_LOG_FIELDS },
+    2: { name: 'LimitLocking', fields: QEARN_LOG_FIELDS },
+    3: { name: 'OverflowUser', fields: QEARN_LOG_FIELDS },
+    4: { name: 'InvalidInput', fields: QEARN_LOG_FIELDS },
+    5: { name: 'InvalidInfo', fields: QEARN_LOG_FIELDS },
+    6: { name: 'SuccessEarlyUnlocking', fields: QEARN_LOG_FIELDS },
+    7: { name: 'SuccessFullyUnlocking', fields: QEARN_LOG_FIELDS },
+  },
 }
 
 /**
@@ -426,7 +724,7 @@ const RANDOM_SCHEMA: ContractSchema = {
     1: {
       name: 'RevealAndCommit',
       fields: [
-        // bit_4096 is 512 bytes - we'll show it as raw hex
+        { name: 'revealedBits', type: 'flags', size: 512, description: 'Revealed bits of the previous commit' },
         { name: 'committedDigest', type: 'id', description: 'Committed digest' },
       ],
     },
@@ -504,7 +802,8 @@ const MSVAULT_SCHEMA: ContractSchema = {
       name: 'registerVault',
       fields: [
         { name: 'vaultName', type: 'id', description: 'Vault name hash' },
-        // owners array (up to 5 ids) - simplified
+        { name: 'owners', type: 'id', count: 16, description: 'Owner addresses' },
+        { name: 'requiredApprovals', type: 'uint64', description: 'Approvals required to release' },
       ],
     },
     2: {
@@ -587,7 +886,7 @@ const QBAY_SCHEMA: ContractSchema = {
         { name: 'volume', type: 'uint32', description: 'Collection volume' },
         { name: 'royalty', type: 'uint32', description: 'Royalty percentage' },
         { name: 'maxSizePerOneId', type: 'uint32', description: 'Max size per ID' },
-        // URI is 64 bytes - skipped for now
+        { name: 'URI', type: 'chars', size: 64, description: 'Collection URI' },
       ],
     },
     3: {
@@ -595,14 +894,14 @@ const QBAY_SCHEMA: ContractSchema = {
       fields: [
         { name: 'royalty', type: 'uint32', description: 'Royalty' },
         { name: 'collectionId', type: 'uint32', description: 'Collection ID' },
-        // URI is 64 bytes
+        { name: 'URI', type: 'chars', size: 64, description: 'NFT URI' },
       ],
     },
     4: {
       name: 'mintOfDrop',
       fields: [
         { name: 'collectionId', type: 'uint32', description: 'Collection ID' },
-        // URI is 64 bytes
+        { name: 'URI', type: 'chars', size: 64, description: 'NFT URI' },
       ],
     },
     5: {
@@ -1037,28 +1336,101 @@ const QRWA_SCHEMA: ContractSchema = {
 // Contract Registry
 // =============================================================================
 
-/** Map of contract index to schema */
-const CONTRACT_SCHEMAS: Record<number, ContractSchema> = {
-  1: QX_SCHEMA,
-  2: QUOTTERY_SCHEMA,
-  3: RANDOM_SCHEMA,
-  4: QUTIL_SCHEMA,
-  5: MLM_SCHEMA,
-  6: GQMPROP_SCHEMA,
-  7: SWATCH_SCHEMA,
-  8: CCF_SCHEMA,
-  9: QEARN_SCHEMA,
-  10: QVAULT_SCHEMA,
-  11: MSVAULT_SCHEMA,
-  12: QBAY_SCHEMA,
-  13: QSWAP_SCHEMA,
-  14: NOST_SCHEMA,
-  15: QDRAW_SCHEMA,
-  16: RL_SCHEMA,
-  17: QBOND_SCHEMA,
-  18: QIP_SCHEMA,
-  19: QRAFFLE_SCHEMA,
-  20: QRWA_SCHEMA,
+/**
+ * Bundled map of contract index to schema versions, newest first.
+ * When a core release changes a procedure layout, keep the previous schema in the
+ * list with a `version` label and a `validity` range ending at its last epoch/tick.
+ * Transactions outside every listed range have no known layout and are not decoded.
+ */
+const BUNDLED_SCHEMAS: Record<number, ContractSchema[]> = {
+  1: [QX_SCHEMA, QX_V1_SCHEMA],
+  2: [QUOTTERY_SCHEMA],
+  3: [RANDOM_SCHEMA],
+  4: [QUTIL_SCHEMA, QUTIL_V1_SCHEMA],
+  5: [MLM_SCHEMA],
+  6: [GQMPROP_SCHEMA],
+  7: [SWATCH_SCHEMA],
+  8: [CCF_SCHEMA],
+  9: [QEARN_SCHEMA],
+  10: [QVAULT_SCHEMA],
+  11: [MSVAULT_SCHEMA],
+  12: [QBAY_SCHEMA],
+  13: [QSWAP_SCHEMA],
+  14: [NOST_SCHEMA],
+  15: [QDRAW_SCHEMA],
+  16: [RL_SCHEMA],
+  17: [QBOND_SCHEMA],
+  18: [QIP_SCHEMA],
+  19: [QRAFFLE_SCHEMA],
+  20: [QRWA_SCHEMA],
+}
+
+/** Active registry: bundled schemas, overridden per contract by loaded registries */
+let CONTRACT_SCHEMAS: Record<number, ContractSchema[]> = { ...BUNDLED_SCHEMAS }
+
+/**
+ * Register schemas loaded at runtime (e.g. from a JSON registry).
+ * All versions of a contract replace the bundled versions for that index;
+ * versions are kept in the order given, which should be newest first.
+ */
+export function registerContractSchemas(schemas: ContractSchema[]): void {
+  const loaded: Record<number, ContractSchema[]> = {}
+  for (const schema of schemas) {
+    (loaded[schema.index] ??= []).push(schema)
+  }
+  CONTRACT_SCHEMAS = { ...CONTRACT_SCHEMAS, ...loaded }
+}
+
+/**
+ * Drop all runtime-registered schemas and return to the bundled set
+ */
+export function resetContractSchemas(): void {
+  CONTRACT_SCHEMAS = { ...BUNDLED_SCHEMAS }
+}
+
+/**
+ * Get all bundled schema versions, e.g. to export them as a JSON registry
+ */
+export function getBundledSchemas(): ContractSchema[] {
+  return Object.values(BUNDLED_SCHEMAS).flat()
+}
+
+function isWithin(value: number | undefined, from: number | undefined, to: number | undefined): boolean {
+  if (value === undefined) return true
+  return (from === undefined || value >= from) && (to === undefined || value <= to)
+}
+
+/**
+ * Check whether a schema layout applies at the given point in history.
+ * Without a context only open-ended (current) layouts apply.
+ */
+function isSchemaActive(schema: ContractSchema, at?: SchemaContext): boolean {
+  const validity = schema.validity
+  if (!validity) return true
+  if (!at || (at.tick === undefined && at.epoch === undefined)) {
+    return validity.toEpoch === undefined && validity.toTick === undefined
+  }
+  return (
+    isWithin(at.epoch, validity.fromEpoch, validity.toEpoch) &&
+    isWithin(at.tick, validity.fromTick, validity.toTick)
+  )
+}
+
+/**
+ * Format a schema validity range for display, e.g. "epochs 120-150"
+ */
+export function formatSchemaValidity(validity?: SchemaValidity): string {
+  if (!validity) return 'current'
+  const range = (unit: string, from?: number, to?: number) => {
+    if (from !== undefined && to !== undefined) return `${unit}s ${from}-${to}`
+    if (from !== undefined) return `from ${unit} ${from}`
+    if (to !== undefined) return `until ${unit} ${to}`
+    return null
+  }
+  return [
+    range('epoch', validity.fromEpoch, validity.toEpoch),
+    range('tick', validity.fromTick, validity.toTick),
+  ].filter(Boolean).join(', ') || 'current'
 }
 
 // =============================================================================
@@ -1126,20 +1498,10 @@ function decodeAssetName(value: bigint): string {
 }
 
 /**
- * Encode bytes to Qubic base26 address format
+ * Encode a 32-byte public key to its Qubic base26 identity
  */
 function bytesToAddress(bytes: Uint8Array): string {
-  // Qubic uses a custom base26 encoding for addresses
-  // For now, return hex representation - proper base26 encoding would need the full algorithm
-  const hex = bytesToHex(bytes)
-
-  // Check if it's a zero address (burn address)
-  if (bytes.every((b) => b === 0)) {
-    return 'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA'
-  }
-
-  // Return hex for non-zero addresses (full base26 implementation would go here)
-  return hex.toUpperCase()
+  return publicKeyToIdentity(bytes)
 }
 
 // =============================================================================
@@ -1147,52 +1509,50 @@ function bytesToAddress(bytes: Uint8Array): string {
 // =============================================================================
 
 /**
- * Decode a single field from binary data
+ * Decode a scalar value from binary data
  */
-function decodeField(
+function decodeScalar(
   buffer: Uint8Array,
   offset: number,
-  field: FieldDef
-): { value: unknown; displayValue: string; bytesRead: number } {
-  const { type } = field
-
+  type: ScalarFieldType
+): { value: unknown; displayValue: string } {
   switch (type) {
     case 'uint8': {
       const value = Number(readUint(buffer, offset, 1))
-      return { value, displayValue: value.toString(), bytesRead: 1 }
+      return { value, displayValue: value.toString() }
     }
     case 'sint8': {
       const value = Number(readSint(buffer, offset, 1))
-      return { value, displayValue: value.toString(), bytesRead: 1 }
+      return { value, displayValue: value.toString() }
     }
     case 'uint16': {
       const value = Number(readUint(buffer, offset, 2))
-      return { value, displayValue: value.toString(), bytesRead: 2 }
+      return { value, displayValue: value.toString() }
     }
     case 'sint16': {
       const value = Number(readSint(buffer, offset, 2))
-      return { value, displayValue: value.toString(), bytesRead: 2 }
+      return { value, displayValue: value.toString() }
     }
     case 'uint32': {
       const value = Number(readUint(buffer, offset, 4))
-      return { value, displayValue: value.toLocaleString(), bytesRead: 4 }
+      return { value, displayValue: value.toLocaleString() }
     }
     case 'sint32': {
       const value = Number(readSint(buffer, offset, 4))
-      return { value, displayValue: value.toLocaleString(), bytesRead: 4 }
+      return { value, displayValue: value.toLocaleString() }
     }
     case 'uint64': {
       const value = readUint(buffer, offset, 8)
-      return { value: value.toString(), displayValue: value.toLocaleString(), bytesRead: 8 }
+      return { value: value.toString(), displayValue: value.toLocaleString() }
     }
     case 'sint64': {
       const value = readSint(buffer, offset, 8)
-      return { value: value.toString(), displayValue: value.toLocaleString(), bytesRead: 8 }
+      return { value: value.toString(), displayValue: value.toLocaleString() }
     }
     case 'id': {
       const bytes = buffer.slice(offset, offset + 32)
       const address = bytesToAddress(bytes)
-      return { value: address, displayValue: address, bytesRead: 32 }
+      return { value: address, displayValue: address }
     }
     case 'Asset': {
       const issuerBytes = buffer.slice(offset, offset + 32)
@@ -1203,13 +1563,12 @@ function decodeField(
       return {
         value,
         displayValue: `${assetName} (${issuer.slice(0, 8)}...)`,
-        bytesRead: 40,
       }
     }
     case 'assetName': {
       const rawValue = readUint(buffer, offset, 8)
       const name = decodeAssetName(rawValue)
-      return { value: name, displayValue: name || '(empty)', bytesRead: 8 }
+      return { value: name, displayValue: name || '(empty)' }
     }
     default:
       throw new Error(`Unknown type: ${type}`)
@@ -1217,10 +1576,116 @@ function decodeField(
 }
 
 /**
- * Get contract schema by contract index
+ * Decode bit-packed flags into named booleans, or raw hex when the bits are unnamed
+ */
+function decodeFlags(bytes: Uint8Array, names?: string[]): { value: unknown; displayValue: string } {
+  const isSet = (bit: number) => (bytes[bit >> 3] & (1 << (bit & 7))) !== 0
+
+  if (!names?.length) {
+    let setCount = 0
+    for (let bit = 0; bit < bytes.length * 8; bit++) {
+      if (isSet(bit)) setCount++
+    }
+    return { value: bytesToHex(bytes), displayValue: `${setCount} of ${bytes.length * 8} bits set` }
+  }
+
+  const value: Record<string, boolean> = {}
+  names.forEach((name, bit) => {
+    value[name] = isSet(bit)
+  })
+  const setNames = names.filter((name) => value[name])
+  return { value, displayValue: setNames.length ? setNames.join(', ') : '(none)' }
+}
+
+/**
+ * Decode a fixed-size char array, stopping at the first NUL byte
+ */
+function decodeChars(bytes: Uint8Array): string {
+  let text = ''
+  for (const byte of bytes) {
+    if (byte === 0) break
+    text += String.fromCharCode(byte)
+  }
+  return text
+}
+
+/**
+ * Decode the members of a struct, skipping padding fields
+ */
+function decodeMembers(
+  buffer: Uint8Array,
+  offset: number,
+  fields: FieldDef[],
+  packed?: boolean
+): DecodedField[] {
+  const layout = layoutStruct(fields, packed)
+  const members: DecodedField[] = []
+  fields.forEach((field, i) => {
+    if (field.type !== 'padding') {
+      members.push(decodeField(buffer, offset + layout.offsets[i], field))
+    }
+  })
+  return members
+}
+
+/**
+ * Decode a single field (scalar, array or struct) from binary data
+ */
+function decodeField(
+  buffer: Uint8Array,
+  offset: number,
+  field: FieldDef,
+  name = field.name
+): DecodedField {
+  const size = getFieldSize(field)
+  if (offset + size > buffer.length) {
+    throw new Error(`Input truncated while reading ${name} (${size} bytes at offset ${offset})`)
+  }
+
+  const base = { name, type: field.type, typeName: formatFieldType(field), description: field.description }
+
+  if (field.count !== undefined) {
+    const element: FieldDef = { ...field, count: undefined }
+    const stride = getElementSize(element)
+    const children = Array.from({ length: field.count }, (_, i) =>
+      decodeField(buffer, offset + i * stride, element, `${name}[${i}]`)
+    )
+    return {
+      ...base,
+      value: children.map((child) => child.value),
+      displayValue: `${field.count} items`,
+      children,
+    }
+  }
+
+  switch (field.type) {
+    case 'struct': {
+      const children = decodeMembers(buffer, offset, field.fields ?? [], field.packed)
+      const value: Record<string, unknown> = {}
+      for (const child of children) {
+        value[child.name] = child.value
+      }
+      return { ...base, value, displayValue: `${children.length} fields`, children }
+    }
+    case 'chars': {
+      const text = decodeChars(buffer.slice(offset, offset + size))
+      return { ...base, value: text, displayValue: text || '(empty)' }
+    }
+    case 'flags':
+      return { ...base, ...decodeFlags(buffer.slice(offset, offset + size), field.flags) }
+    case 'padding':
+      return { ...base, value: null, displayValue: '' }
+    default:
+      return { ...base, ...decodeScalar(buffer, offset, field.type) }
+  }
+}
+
+/**
+ * Get contract schema by contract index, picking the layout active at the given tick/epoch.
+ * Returns undefined when no known layout covers that point in history.
  */
-export function getContractSchema(contractIndex: number): ContractSchema | undefined {
-  return CONTRACT_SCHEMAS[contractIndex]
+export function getContractSchema(contractIndex: number, at?: SchemaContext): ContractSchema | undefined {
+  return CONTRACT_SCHEMAS[contractIndex]?.find((schema) => isSchemaActive(schema, at))
 }
 
 /**
@@ -1228,27 +1693,41 @@ export function getContractSchema(contractIndex: number): ContractSchema | undef
  */
 export function getProcedureSchema(
   contractIndex: number,
-  procedureId: number
+  procedureId: number,
+  at?: SchemaContext
 ): ProcedureSchema | undefined {
-  const contract = CONTRACT_SCHEMAS[contractIndex]
+  const contract = getContractSchema(contractIndex, at)
   if (!contract) return undefined
   return contract.procedures[procedureId]
 }
 
+/**
+ * Get function (read-only) schema by contract index and function ID
+ */
+export function getFunctionSchema(
+  contractIndex: number,
+  functionId: number,
+  at?: SchemaContext
+): ProcedureSchema | undefined {
+  return getContractSchema(contractIndex, at)?.functions?.[functionId]
+}
+
 /**
  * Decode contract input from hex string
  *
  * @param inputHex - The input data as hex string
  * @param contractIndex - The contract index (derived from toAddress)
  * @param procedureId - The procedure ID (inputType from transaction)
+ * @param at - Tick/epoch of the transaction, to pick the layout active at that time
  * @returns Decoded input or null if schema not found
  */
 export function decodeContractInput(
   inputHex: string | null | undefined,
   contractIndex: number,
-  procedureId: number
+  procedureId: number,
+  at?: SchemaContext
 ): DecodedInput | null {
-  const contract = CONTRACT_SCHEMAS[contractIndex]
+  const contract = getContractSchema(contractIndex, at)
   if (!contract) {
     return null
   }
@@ -1263,54 +1742,130 @@ export function decodeContractInput(
     contractIndex,
     procedureName: procedure.name,
     procedureId,
+    schemaVersion: contract.version ?? 'latest',
+    schemaValidity: contract.validity,
     fields: [],
     rawHex: inputHex || '',
+    summary: `${contract.name} ${procedure.name}`,
+  }
+
+  const decoded = decodeStruct(inputHex ?? '', procedure.fields, procedure.packed)
+  result.fields = decoded.fields
+  result.summary = summarizeFields(result.summary, decoded.fields, procedure.summary)
+  if (decoded.error) {
+    result.error = decoded.error
+  }
+  return result
+}
+
+/** Number of fields listed in a summary when the procedure has no template */
+const SUMMARY_FIELD_LIMIT = 3
+
+function summaryValue(field: DecodedField): string {
+  if (field.type === 'id' && typeof field.value === 'string') return `${field.value.slice(0, 5)}…`
+  return field.displayValue
+}
+
+/**
+ * Build a one-line summary from a procedure's template, or from its first scalar fields
+ */
+function summarizeFields(title: string, fields: DecodedField[], template?: string): string {
+  if (fields.length === 0) return title
+
+  if (template) {
+    const byName = new Map(fields.map((f) => [f.name, f]))
+    const details = template.replace(/\{(\w+)\}/g, (_, name: string) => {
+      const field = byName.get(name)
+      return field ? summaryValue(field) : '?'
+    })
+    return `${title} ${details}`
+  }
+
+  const details = fields
+    .filter((f) => !f.children)
+    .slice(0, SUMMARY_FIELD_LIMIT)
+    .map((f) => `${f.name}=${summaryValue(f)}`)
+  return details.length ? `${title} ${details.join(' ')}` : title
+}
+
+/**
+ * Decode the output struct of a procedure or function (e.g. a query result)
+ */
+export function decodeContractOutput(
+  outputHex: string | null | undefined,
+  contractIndex: number,
+  inputType: number,
+  kind: 'procedure' | 'function' = 'procedure',
+  at?: SchemaContext
+): DecodedInput | null {
+  const contract = getContractSchema(contractIndex, at)
+  const procedure = kind === 'function' ? contract?.functions?.[inputType] : contract?.procedures[inputType]
+  if (!contract || !procedure?.outputs) {
+    return null
   }
 
-  // If no input data or empty procedure, return early
-  if (!inputHex || procedure.fields.length === 0) {
-    return result
+  const decoded = decodeStruct(outputHex ?? '', procedure.outputs, procedure.packed)
+  return {
+    contractName: contract.name,
+    contractIndex,
+    procedureName: procedure.name,
+    procedureId: inputType,
+    schemaVersion: contract.version ?? 'latest',
+    schemaValidity: contract.validity,
+    fields: decoded.fields,
+    rawHex: outputHex || '',
+    summary: summarizeFields(`${contract.name} ${procedure.name}`, decoded.fields),
+    error: decoded.error,
+  }
+}
+
+/**
+ * Decode a hex-encoded struct. Data may stop early (trailing fields are then
+ * omitted); decoding errors are reported alongside the fields read so far.
+ */
+export function decodeStruct(
+  hex: string,
+  fields: FieldDef[],
+  packed?: boolean
+): { fields: DecodedField[]; error?: string } {
+  const decoded: DecodedField[] = []
+  if (!hex || fields.length === 0) {
+    return { fields: decoded }
   }
 
   try {
-    const buffer = hexToBytes(inputHex)
-    let offset = 0
+    const buffer = hexToBytes(hex)
+    const layout = layoutStruct(fields, packed)
 
-    for (const field of procedure.fields) {
+    for (const [i, field] of fields.entries()) {
+      const offset = layout.offsets[i]
       if (offset >= buffer.length) {
         // Not enough data - might be optional fields or truncated
         break
       }
-
-      const decoded = decodeField(buffer, offset, field)
-      result.fields.push({
-        name: field.name,
-        type: field.type,
-        value: decoded.value,
-        displayValue: decoded.displayValue,
-        description: field.description,
-      })
-      offset += decoded.bytesRead
+      if (field.type !== 'padding') {
+        decoded.push(decodeField(buffer, offset, field))
+      }
     }
 
-    // Check if there's remaining data
-    if (offset < buffer.length) {
-      result.error = `${buffer.length - offset} bytes of unread data remaining`
+    // Check if there's remaining data beyond the struct (trailing padding may be omitted)
+    if (layout.size < buffer.length) {
+      return { fields: decoded, error: `${buffer.length - layout.size} bytes of unread data remaining` }
     }
   } catch (err) {
-    result.error = err instanceof Error ? err.message : 'Unknown decoding error'
+    return { fields: decoded, error: err instanceof Error ? err.message : 'Unknown decoding error' }
   }
 
-  return result
+  return { fields: decoded }
 }
 
 /**
  * Get all supported contracts
  */
 export function getSupportedContracts(): Array<{ index: number; name: string }> {
-  return Object.entries(CONTRACT_SCHEMAS).map(([index, schema]) => ({
+  return Object.entries(CONTRACT_SCHEMAS).map(([index, versions]) => ({
     index: parseInt(index),
-    name: schema.name,
+    name: versions[0].name,
   }))
 }
 
@@ -1321,6 +1876,14 @@ export function isContractSupported(contractIndex: number): boolean {
   return contractIndex in CONTRACT_SCHEMAS
 }
 
+/**
+ * Check if a supported contract has no known layout at the given tick/epoch,
+ * e.g. a transaction sent before the contract was constructed
+ */
+export function isLayoutMissing(contractIndex: number, at?: SchemaContext): boolean {
+  return isContractSupported(contractIndex) && !getContractSchema(contractIndex, at)
+}
+
 /**
  * Format decoded input as JSON for display
  */
@@ -1331,3 +1894,231 @@ export function formatDecodedInputAsJson(decoded: DecodedInput): object {
   }
   return result
 }
+
+// =============================================================================
+// Encoder
+// =============================================================================
+
+/**
+ * Convert a JSON value (number, bigint or numeric string) to a bigint
+ */
+function toBigInt(value: unknown, path: string): bigint {
+  if (value === undefined || value === null || value === '') return 0n
+  if (typeof value === 'bigint') return value
+  if (typeof value === 'number') {
+    if (!Number.isInteger(value)) throw new Error(`${path}: ${value} is not an integer`)
+    return BigInt(value)
+  }
+  if (typeof value === 'string' && /^-?\d+$/.test(value.trim())) {
+    return BigInt(value.trim())
+  }
+  throw new Error(`${path}: ${JSON.stringify(value)} is not an integer`)
+}
+
+/**
+ * Write integer to buffer (little-endian, two's complement for signed types)
+ */
+function writeInt(buffer: Uint8Array, offset: number, size: number, signed: boolean, value: bigint, path: string): void {
+  const bits = BigInt(size * 8)
+  const min = signed ? -(1n << (bits - 1n)) : 0n
+  const max = signed ? (1n << (bits - 1n)) - 1n : (1n << bits) - 1n
+  if (value < min || value > max) {
+    throw new Error(`${path}: ${value} is out of range for ${signed ? 'sint' : 'uint'}${size * 8}`)
+  }
+  let v = BigInt.asUintN(size * 8, value)
+  for (let i = 0; i < size; i++) {
+    buffer[offset + i] = Number(v & 0xffn)
+    v >>= 8n
+  }
+}
+
+/**
+ * Encode an ASCII string into a fixed number of bytes (remaining bytes stay zero)
+ */
+function writeAscii(buffer: Uint8Array, offset: number, maxLength: number, value: unknown, path: string): void {
+  const text = value === undefined || value === null ? '' : String(value)
+  if (text.length > maxLength) {
+    throw new Error(`${path}: "${text}" is longer than ${maxLength} characters`)
+  }
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i)
+    if (code > 0x7f) throw new Error(`${path}: "${text}" contains non-ASCII characters`)
+    buffer[offset + i] = code
+  }
+}
+
+function writeIdentity(buffer: Uint8Array, offset: number, value: unknown, path: string): void {
+  if (value === undefined || value === null || value === '') return
+  const publicKey = typeof value === 'string' ? identityToPublicKey(value.trim()) : null
+  if (!publicKey) throw new Error(`${path}: ${JSON.stringify(value)} is not a valid identity`)
+  buffer.set(publicKey, offset)
+}
+
+function writeFlags(buffer: Uint8Array, offset: number, field: FieldDef, value: unknown, path: string): void {
+  const size = requireSize(field)
+  if (value === undefined || value === null || value === '') return
+
+  if (!field.flags?.length) {
+    const hex = typeof value === 'string' ? value.trim().replace(/^0x/, '') : ''
+    if (!/^([0-9a-fA-F]{2})*$/.test(hex) || hex.length / 2 > size) {
+      throw new Error(`${path}: expected up to ${size} bytes of hex`)
+    }
+    buffer.set(hexToBytes(hex), offset)
+    return
+  }
+
+  if (typeof value !== 'object') throw new Error(`${path}: expected an object of flags`)
+  const flags = value as Record<string, unknown>
+  for (const name of Object.keys(flags)) {
+    if (!field.flags.includes(name)) throw new Error(`${path}: unknown flag ${name}`)
+  }
+  field.flags.forEach((name, bit) => {
+    if (flags[name]) buffer[offset + (bit >> 3)] |= 1 << (bit & 7)
+  })
+}
+
+/**
+ * Encode the members of a struct from an object keyed by field name
+ */
+function encodeMembers(
+  buffer: Uint8Array,
+  offset: number,
+  fields: FieldDef[],
+  packed: boolean | undefined,
+  value: unknown,
+  path: string
+): void {
+  if (value !== undefined && value !== null && (typeof value !== 'object' || Array.isArray(value))) {
+    throw new Error(`${path || 'input'}: expected an object`)
+  }
+  const members = (value ?? {}) as Record<string, unknown>
+  const known = new Set(fields.map((field) => field.name))
+  for (const name of Object.keys(members)) {
+    if (!known.has(name)) throw new Error(`${path ? `${path}.` : ''}${name}: unknown field`)
+  }
+
+  const layout = layoutStruct(fields, packed)
+  fields.forEach((field, i) => {
+    if (field.type !== 'padding') {
+      const fieldPath = path ? `${path}.${field.name}` : field.name
+      encodeField(buffer, offset + layout.offsets[i], field, members[field.name], fieldPath)
+    }
+  })
+}
+
+/**
+ * Encode a single field (scalar, array or struct) into the buffer
+ */
+function encodeField(buffer: Uint8Array, offset: number, field: FieldDef, value: unknown, path: string): void {
+  if (field.count !== undefined) {
+    const items = value === undefined || value === null ? [] : value
+    if (!Array.isArray(items)) throw new Error(`${path}: expected an array`)
+    if (items.length > field.count) {
+      throw new Error(`${path}: ${items.length} items exceed the array size of ${field.count}`)
+    }
+    const element: FieldDef = { ...field, count: undefined }
+    const stride = getElementSize(element)
+    items.forEach((item, i) => encodeField(buffer, offset + i * stride, element, item, `${path}[${i}]`))
+    return
+  }
+
+  switch (field.type) {
+    case 'uint8':
+    case 'uint16':
+    case 'uint32':
+    case 'uint64':
+      writeInt(buffer, offset, TYPE_SIZES[field.type], false, toBigInt(value, path), path)
+      break
+    case 'sint8':
+    case 'sint16':
+    case 'sint32':
+    case 'sint64':
+      writeInt(buffer, offset, TYPE_SIZES[field.type], true, toBigInt(value, path), path)
+      break
+    case 'id':
+      writeIdentity(buffer, offset, value, path)
+      break
+    case 'Asset': {
+      if (value !== undefined && value !== null && typeof value !== 'object') {
+        throw new Error(`${path}: expected { issuer, assetName }`)
+      }
+      const asset = (value ?? {}) as { issuer?: unknown; assetName?: unknown }
+      writeIdentity(buffer, offset, asset.issuer, `${path}.issuer`)
+      writeAscii(buffer, offset + 32, 7, asset.assetName, `${path}.assetName`)
+      break
+    }
+    case 'assetName':
+      writeAscii(buffer, offset, 7, value, path)
+      break
+    case 'struct':
+      encodeMembers(buffer, offset, field.fields ?? [], field.packed, value, path)
+      break
+    case 'chars':
+      writeAscii(buffer, offset, requireSize(field), value, path)
+      break
+    case 'flags':
+      writeFlags(buffer, offset, field, value, path)
+      break
+    case 'padding':
+      break
+  }
+}
+
+/**
+ * Encode a JSON object into the binary input of a procedure.
+ * Values use the same shape as the decoder output; omitted fields are zero.
+ */
+export function encodeProcedureInput(procedure: ProcedureSchema, values: Record<string, unknown>): Uint8Array {
+  const buffer = new Uint8Array(getInputSize(procedure))
+  encodeMembers(buffer, 0, procedure.fields, procedure.packed, values, '')
+  return buffer
+}
+
+/**
+ * Encode contract input for a transaction payload
+ *
+ * @param contractIndex - The contract index (destination contract)
+ * @param procedureId - The procedure ID (transaction inputType)
+ * @param values - Field values keyed by field name, as produced by formatDecodedInputAsJson
+ * @param at - Tick/epoch the call targets; defaults to the current layout
+ * @returns The input hex and size to place in the transaction
+ */
+export function encodeContractInput(
+  contractIndex: number,
+  procedureId: number,
+  values: Record<string, unknown>,
+  at?: SchemaContext
+): EncodedInput {
+  const procedure = getProcedureSchema(contractIndex, procedureId, at)
+  if (!procedure) {
+    throw new Error(`No schema for contract ${contractIndex} procedure ${procedureId}`)
+  }
+
+  const bytes = encodeProcedureInput(procedure, values)
+  return {
+    contractIndex,
+    procedureId,
+    inputHex: bytesToHex(bytes),
+    inputSize: bytes.length,
+  }
+}
+
+/**
+ * Get the address of a contract, whose public key is the contract index
+ */
+export function getContractAddress(contractIndex: number): string {
+  const publicKey = new Uint8Array(32)
+  writeInt(publicKey, 0, 8, false, BigInt(contractIndex), 'contractIndex')
+  return publicKeyToIdentity(publicKey)
+}
+
+/**
+ * Get the contract index encoded in a contract address, or null if the address
+ * is not a contract (index 0 is the burn address and is not treated as a contract)
+ */
+export function getContractIndexFromAddress(address: string): number | null {
+  const publicKey = identityToPublicKey(address)
+  if (!publicKey || publicKey.slice(4).some((b) => b !== 0)) return null
+  const index = Number(readUint(publicKey, 0, 4))
+  return index > 0 ? index : null
+}
@@ -0,0 +1,188 @@
+/**
+ * Contract Log Decoder
+ *
+ * Decodes messages logged by smart contracts (CONTRACT_*_MESSAGE log types)
+ * using the per-contract log schemas, and the core CUSTOM_MESSAGE operation codes.
+ *
+ * A contract logs a whole struct whose first member is `uint32 _contractIndex`
+ * and which carries a uint32 `_type` discriminator (by default right after the
+ * contract index). Only the bytes before `_terminator` are logged, so trailing
+ * members may be absent.
+ *
+ * Based on:
+ * - https://github.com/qubic/core/blob/main/src/logging/logging.h
+ */
+
+import {
+  getContractSchema,
+  decodeStruct,
+  type DecodedField,
+  type SchemaContext,
+} from './contractInputDecoder'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const CONTRACT_ERROR_MESSAGE = 4
+export const CONTRACT_WARNING_MESSAGE = 5
+export const CONTRACT_INFORMATION_MESSAGE = 6
+export const CONTRACT_DEBUG_MESSAGE = 7
+export const CUSTOM_MESSAGE = 255
+
+/** Default byte offset of `_type` (after `uint32 _contractIndex`) */
+const DEFAULT_LOG_TYPE_OFFSET = 4
+
+/** Decoded contract message */
+export interface DecodedContractLog {
+  contractName: string
+  contractIndex: number
+  messageType: number
+  messageName: string
+  schemaVersion: string
+  fields: DecodedField[]
+  rawHex: string
+  /** If the message could not be (fully) decoded */
+  error?: string
+}
+
+/** Known CUSTOM_MESSAGE operation codes (8 ASCII chars packed into a uint64) */
+const CUSTOM_MESSAGE_OPERATIONS: Record<string, string> = {
+  STA_DDIV: 'Start of dividend distribution',
+  END_DDIV: 'End of dividend distribution',
+  STA_EPOC: 'Start of epoch',
+  END_EPOC: 'End of epoch',
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const HEX_PATTERN = /^(0x)?([0-9a-fA-F]{2})*$/
+
+function asHex(value: unknown): string | null {
+  if (typeof value !== 'string' || value.length === 0 || !HEX_PATTERN.test(value)) return null
+  return value.startsWith('0x') ? value.slice(2) : value
+}
+
+function readUint32(hex: string, offset: number): number | null {
+  const bytes = hex.slice(offset * 2, offset * 2 + 8)
+  if (bytes.length < 8) return null
+  let value = 0
+  for (let i = 3; i >= 0; i--) {
+    value = value * 256 + parseInt(bytes.slice(i * 2, i * 2 + 2), 16)
+  }
+  return value
+}
+
+/**
+ * Body member holding the logged struct in Bob's contract message bodies
+ * ({ scIndex, scLogType, content })
+ */
+const CONTRACT_MESSAGE_CONTENT_FIELD = 'content'
+
+/**
+ * Extract the logged struct as hex from a log body as stored by the indexer.
+ * The indexer stores Bob's JSON log body verbatim, where the struct is the
+ * `content` member, or the legacy raw data (a bare or quoted hex string)
+ * when there is no body.
+ */
+export function getContractLogHex(rawData: string | null | undefined): string | null {
+  if (!rawData) return null
+  const trimmed = rawData.trim()
+  const direct = asHex(trimmed)
+  if (direct) return direct
+
+  try {
+    const body = JSON.parse(trimmed) as unknown
+    if (typeof body === 'string') return asHex(body)
+    if (typeof body === 'object' && body !== null && !Array.isArray(body)) {
+      return asHex((body as Record<string, unknown>)[CONTRACT_MESSAGE_CONTENT_FIELD])
+    }
+  } catch {
+    // Not JSON - nothing to decode
+  }
+  return null
+}
+
+/**
+ * Check whether a log type carries a contract message
+ */
+export function isContractMessageLog(logType: number): boolean {
+  return logType >= CONTRACT_ERROR_MESSAGE && logType <= CONTRACT_DEBUG_MESSAGE
+}
+
+// =============================================================================
+// Decoding
+// =============================================================================
+
+/**
+ * Decode a CONTRACT_*_MESSAGE log body with the emitting contract's log schema.
+ * Returns null if the body carries no struct or the contract has no schema.
+ */
+export function decodeContractLog(
+  rawData: string | null | undefined,
+  at?: SchemaContext
+): DecodedContractLog | null {
+  const hex = getContractLogHex(rawData)
+  if (!hex) return null
+
+  const contractIndex = readUint32(hex, 0)
+  if (contractIndex === null) return null
+  const contract = getContractSchema(contractIndex, at)
+  if (!contract) return null
+
+  const messageType = readUint32(hex, contract.logTypeOffset ?? DEFAULT_LOG_TYPE_OFFSET)
+  const result: DecodedContractLog = {
+    contractName: contract.name,
+    contractIndex,
+    messageType: messageType ?? -1,
+    messageName: messageType === null ? 'Unknown' : `Type ${messageType}`,
+    schemaVersion: contract.version ?? 'latest',
+    fields: [],
+    rawHex: hex,
+  }
+
+  const schema = messageType === null ? undefined : contract.logs?.[messageType]
+  if (!schema) {
+    result.error = messageType === null
+      ? 'Message too short to contain a type'
+      : `No ${contract.name} log schema for message type ${messageType}`
+    return result
+  }
+
+  const decoded = decodeStruct(hex, schema.fields, schema.packed)
+  result.messageName = schema.name
+  result.fields = decoded.fields
+  if (decoded.error) {
+    result.error = decoded.error
+  }
+  return result
+}
+
+/**
+ * Decode a CUSTOM_MESSAGE log body ({ customMessage: uint64 }) into its operation code.
+ * The value is read from the raw JSON text since it exceeds Number precision.
+ */
+export function decodeCustomMessage(rawData: string | null | undefined): DecodedField[] | null {
+  const match = rawData?.match(/"customMessage"\s*:\s*"?(\d+)/)
+  if (!match) return null
+
+  let value = BigInt(match[1])
+  const code = value
+  let operation = ''
+  for (let i = 0; i < 8; i++) {
+    const byte = Number(value & 0xffn)
+    if (byte >= 0x20 && byte < 0x7f) operation += String.fromCharCode(byte)
+    value >>= 8n
+  }
+
+  const description = CUSTOM_MESSAGE_OPERATIONS[operation]
+  return [{
+    name: 'customMessage',
+    type: 'uint64',
+    typeName: 'uint64',
+    value: code.toString(),
+    displayValue: description ? `${operation} (${description})` : operation || code.toString(),
+  }]
+}
@@ -0,0 +1,321 @@
+/**
+ * Contract Schema Registry
+ *
+ * Loads contract schemas from a JSON registry (IDL) so new contracts and
+ * layout changes can ship without a frontend release. The registry is a
+ * JSON serialization of ContractSchema:
+ *
+ *   {
+ *     "formatVersion": 1,
+ *     "contracts": [
+ *       {
+ *         "name": "QX", "index": 1, "version": "v2", "validity": { "fromEpoch": 138 },
+ *         "procedures": { "6": { "name": "AddToBidOrder", "fields": [...], "outputs": [...] } },
+ *         "functions": { "1": { "name": "Fees", "fields": [], "outputs": [...] } },
+ *         "logs": { "0": { "name": "TradeMessage", "fields": [...] } }
+ *       }
+ *     ]
+ *   }
+ *
+ * Fields use the same FieldDef shape as the bundled schemas. Versions of one
+ * contract are listed newest first and replace the bundled versions for that index.
+ * Their validity ranges must not overlap, so each point in history has one layout.
+ */
+
+import {
+  SCALAR_FIELD_TYPES,
+  getInputSize,
+  getBundledSchemas,
+  registerContractSchemas,
+  type ContractSchema,
+  type FieldDef,
+  type FieldType,
+  type ProcedureSchema,
+  type SchemaValidity,
+} from './contractInputDecoder'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const REGISTRY_FORMAT_VERSION = 1
+
+/** How long to wait for the registry before decoding with the bundled schemas */
+const REGISTRY_TIMEOUT_MS = 10_000
+
+/** Top-level registry document */
+export interface ContractRegistryDocument {
+  formatVersion: number
+  contracts: ContractSchema[]
+}
+
+/** Where the active schemas came from */
+export type RegistrySource = 'registry' | 'bundled'
+
+export interface RegistryLoadResult {
+  source: RegistrySource
+  contractCount: number
+  error?: string
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+const FIELD_TYPES: readonly FieldType[] = [...SCALAR_FIELD_TYPES, 'struct', 'chars', 'flags', 'padding']
+const SIZED_TYPES: readonly FieldType[] = ['chars', 'flags', 'padding']
+const VALIDITY_KEYS: ReadonlyArray<keyof SchemaValidity> = ['fromEpoch', 'toEpoch', 'fromTick', 'toTick']
+
+export class RegistryValidationError extends Error {
+  constructor(public path: string, message: string) {
+    super(`${path}: ${message}`)
+    this.name = 'RegistryValidationError'
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new RegistryValidationError(path, 'expected a non-empty string')
+  }
+  return value
+}
+
+function validateField(value: unknown, path: string): FieldDef {
+  if (!isObject(value)) throw new RegistryValidationError(path, 'expected a field object')
+
+  const field: FieldDef = {
+    name: expectString(value.name, `${path}.name`),
+    type: value.type as FieldType,
+  }
+  if (!FIELD_TYPES.includes(field.type)) {
+    throw new RegistryValidationError(`${path}.type`, `unknown field type ${JSON.stringify(value.type)}`)
+  }
+
+  if (value.count !== undefined) {
+    if (!isPositiveInteger(value.count)) throw new RegistryValidationError(`${path}.count`, 'expected a positive integer')
+    field.count = value.count
+  }
+
+  if (SIZED_TYPES.includes(field.type)) {
+    if (!isPositiveInteger(value.size)) {
+      throw new RegistryValidationError(`${path}.size`, `required for ${field.type} fields`)
+    }
+    field.size = value.size
+  }
+
+  if (field.type === 'struct') {
+    if (!Array.isArray(value.fields) || value.fields.length === 0) {
+      throw new RegistryValidationError(`${path}.fields`, 'struct fields must be a non-empty array')
+    }
+    field.fields = validateFields(value.fields, `${path}.fields`)
+    if (value.packed !== undefined) field.packed = value.packed === true
+  }
+
+  if (field.type === 'flags' && value.flags !== undefined) {
+    if (!Array.isArray(value.flags) || !value.flags.every(f => typeof f === 'string')) {
+      throw new RegistryValidationError(`${path}.flags`, 'expected an array of flag names')
+    }
+    if (value.flags.length > field.size! * 8) {
+      throw new RegistryValidationError(`${path}.flags`, `${value.flags.length} flags do not fit in ${field.size} bytes`)
+    }
+    field.flags = value.flags
+  }
+
+  if (value.description !== undefined) {
+    field.description = expectString(value.description, `${path}.description`)
+  }
+  return field
+}
+
+function validateFields(value: unknown, path: string): FieldDef[] {
+  if (!Array.isArray(value)) throw new RegistryValidationError(path, 'expected an array of fields')
+  const fields = value.map((field, i) => validateField(field, `${path}[${i}]`))
+  const names = new Set<string>()
+  for (const field of fields) {
+    if (names.has(field.name)) throw new RegistryValidationError(path, `duplicate field ${field.name}`)
+    names.add(field.name)
+  }
+  return fields
+}
+
+function validateProcedure(value: unknown, path: string): ProcedureSchema {
+  if (!isObject(value)) throw new RegistryValidationError(path, 'expected a procedure object')
+
+  const procedure: ProcedureSchema = {
+    name: expectString(value.name, `${path}.name`),
+    fields: validateFields(value.fields ?? [], `${path}.fields`),
+  }
+  if (value.outputs !== undefined) procedure.outputs = validateFields(value.outputs, `${path}.outputs`)
+  if (value.packed !== undefined) procedure.packed = value.packed === true
+  if (value.summary !== undefined) procedure.summary = expectString(value.summary, `${path}.summary`)
+
+  try {
+    getInputSize(procedure)
+  } catch (err) {
+    throw new RegistryValidationError(path, err instanceof Error ? err.message : 'invalid layout')
+  }
+  return procedure
+}
+
+function validateProcedureMap(
+  value: unknown,
+  path: string,
+  minId = 1,
+  maxId = 0xffff
+): Record<number, ProcedureSchema> {
+  if (!isObject(value)) throw new RegistryValidationError(path, 'expected an object keyed by input type')
+
+  const procedures: Record<number, ProcedureSchema> = {}
+  for (const [key, procedure] of Object.entries(value)) {
+    const id = Number(key)
+    if (!Number.isInteger(id) || id < minId || id > maxId) {
+      throw new RegistryValidationError(`${path}.${key}`, `key must be an integer between ${minId} and ${maxId}`)
+    }
+    procedures[id] = validateProcedure(procedure, `${path}.${key}`)
+  }
+  return procedures
+}
+
+function validateValidity(value: unknown, path: string): SchemaValidity {
+  if (!isObject(value)) throw new RegistryValidationError(path, 'expected a validity object')
+
+  const validity: SchemaValidity = {}
+  for (const key of VALIDITY_KEYS) {
+    if (value[key] === undefined) continue
+    if (!isNonNegativeInteger(value[key])) throw new RegistryValidationError(`${path}.${key}`, 'expected a non-negative integer')
+    validity[key] = value[key]
+  }
+  if (validity.fromEpoch !== undefined && validity.toEpoch !== undefined && validity.fromEpoch > validity.toEpoch) {
+    throw new RegistryValidationError(path, 'fromEpoch is after toEpoch')
+  }
+  if (validity.fromTick !== undefined && validity.toTick !== undefined && validity.fromTick > validity.toTick) {
+    throw new RegistryValidationError(path, 'fromTick is after toTick')
+  }
+  return validity
+}
+
+function validateContract(value: unknown, path: string): ContractSchema {
+  if (!isObject(value)) throw new RegistryValidationError(path, 'expected a contract object')
+  if (!isPositiveInteger(value.index)) throw new RegistryValidationError(`${path}.index`, 'expected a positive integer')
+
+  const contract: ContractSchema = {
+    name: expectString(value.name, `${path}.name`),
+    index: value.index,
+    procedures: validateProcedureMap(value.procedures ?? {}, `${path}.procedures`),
+  }
+  if (value.version !== undefined) contract.version = expectString(value.version, `${path}.version`)
+  if (value.validity !== undefined) contract.validity = validateValidity(value.validity, `${path}.validity`)
+  if (value.functions !== undefined) contract.functions = validateProcedureMap(value.functions, `${path}.functions`)
+  if (value.logs !== undefined) contract.logs = validateProcedureMap(value.logs, `${path}.logs`, 0, 0xffffffff)
+  if (value.logTypeOffset !== undefined) {
+    if (!isNonNegativeInteger(value.logTypeOffset)) {
+      throw new RegistryValidationError(`${path}.logTypeOffset`, 'expected a non-negative integer')
+    }
+    contract.logTypeOffset = value.logTypeOffset
+  }
+  return contract
+}
+
+/**
+ * Validate a registry document, returning its schemas.
+ * Throws RegistryValidationError with the JSON path of the first problem found.
+ */
+export function validateContractRegistry(doc: unknown): ContractSchema[] {
+  if (!isObject(doc)) throw new RegistryValidationError('$', 'expected a registry object')
+  if (doc.formatVersion !== REGISTRY_FORMAT_VERSION) {
+    throw new RegistryValidationError('$.formatVersion', `unsupported format version ${JSON.stringify(doc.formatVersion)}`)
+  }
+  if (!Array.isArray(doc.contracts)) throw new RegistryValidationError('$.contracts', 'expected an array')
+
+  const contracts = doc.contracts.map((contract, i) => validateContract(contract, `$.contracts[${i}]`))
+  validateNoOverlap(contracts)
+  return contracts
+}
+
+/** Whether two inclusive ranges intersect; a missing bound is unbounded */
+function rangesOverlap(fromA?: number, toA?: number, fromB?: number, toB?: number): boolean {
+  return (fromA ?? 0) <= (toB ?? Infinity) && (fromB ?? 0) <= (toA ?? Infinity)
+}
+
+function validateNoOverlap(contracts: ContractSchema[]): void {
+  contracts.forEach((contract, i) => {
+    const a = contract.validity ?? {}
+    for (let j = 0; j < i; j++) {
+      const other = contracts[j]
+      if (other.index !== contract.index) continue
+      const b = other.validity ?? {}
+      if (rangesOverlap(a.fromEpoch, a.toEpoch, b.fromEpoch, b.toEpoch)
+        && rangesOverlap(a.fromTick, a.toTick, b.fromTick, b.toTick)) {
+        throw new RegistryValidationError(`$.contracts[${i}].validity`, `overlaps the layout at $.contracts[${j}]`)
+      }
+    }
+  })
+}
+
+/**
+ * Serialize schemas as a registry document (e.g. to seed a registry from the bundled set)
+ */
+export function toContractRegistry(schemas: ContractSchema[] = getBundledSchemas()): ContractRegistryDocument {
+  return { formatVersion: REGISTRY_FORMAT_VERSION, contracts: schemas }
+}
+
+// =============================================================================
+// Loading
+// =============================================================================
+
+let loadPromise: Promise<RegistryLoadResult> | null = null
+
+async function fetchRegistry(url: string): Promise<unknown> {
+  const response = await fetch(url, {
+    headers: { Accept: 'application/json' },
+    signal: AbortSignal.timeout(REGISTRY_TIMEOUT_MS),
+  })
+  if (!response.ok) {
+    throw new Error(`Registry error: ${response.status}`)
+  }
+  return response.json()
+}
+
+/**
+ * Fetch, validate and register the schema registry at `url`.
+ * The registry is loaded once per session; on any fetch or validation
+ * error the bundled schemas stay active.
+ */
+export function loadContractRegistry(
+  url: string,
+  fetcher: (url: string) => Promise<unknown> = fetchRegistry
+): Promise<RegistryLoadResult> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const schemas = validateContractRegistry(await fetcher(url))
+        registerContractSchemas(schemas)
+        return { source: schemas.length > 0 ? 'registry' : 'bundled', contractCount: schemas.length }
+      } catch (err) {
+        console.error('Failed to load contract schema registry, using bundled schemas:', err)
+        return { source: 'bundled', contractCount: 0, error: err instanceof Error ? err.message : String(err) }
+      }
+    })()
+  }
+  return loadPromise
+}
+
+/**
+ * Wait for the registry load started by the plugin, if any. Resolves to null
+ * when no registry is configured.
+ */
+export function contractRegistryReady(): Promise<RegistryLoadResult | null> {
+  return loadPromise ?? Promise.resolve(null)
+}
@@ -0,0 +1,48 @@
+/**
+ * Promise wrappers around IndexedDB's callbacks, shared by the stores built
+ * on it (notification inbox, private labels, label cache). One connection
+ * per database is opened lazily and reused.
+ */
+
+const connections = new Map<string, Promise<IDBDatabase>>()
+
+export function indexedDbSupported(): boolean {
+  return typeof indexedDB !== 'undefined'
+}
+
+/** Open (and create or upgrade) a database; a failed open is retried next time */
+export function openDatabase(
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number) => void
+): Promise<IDBDatabase> {
+  let connection = connections.get(name)
+  if (!connection) {
+    connection = new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, version)
+      request.onupgradeneeded = event => upgrade(request.result, event.oldVersion)
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        connections.delete(name)
+        reject(request.error)
+      }
+    })
+    connections.set(name, connection)
+  }
+  return connection
+}
+
+export function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
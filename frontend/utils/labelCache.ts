@@ -0,0 +1,160 @@
+/**
+ * Server Label Cache
+ *
+ * Labels from /api/labels/batch persisted in IndexedDB (`qli-label-cache`)
+ * so they survive reloads. Addresses without a label are cached as well
+ * (negative entries, type 'unknown'), so unlabeled addresses are not asked
+ * for again on every page.
+ *
+ * An entry is used until its TTL runs out, or until the server's label-set
+ * version (GET /api/labels/version) differs from the one the cache was filled
+ * under — that version changes whenever POST /api/labels/refresh changes a
+ * label. A cache written by another entry format is dropped on load.
+ *
+ * Kept free of Nuxt imports; useAddressLabels adds reactive state.
+ */
+
+import type { AddressLabelDto } from './api/generated'
+import { indexedDbSupported, openDatabase, requestResult, transactionDone } from './indexedDb'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CachedLabel {
+  address: string
+  label: AddressLabelDto
+  /** Epoch milliseconds */
+  fetchedAt: number
+}
+
+export interface LabelCacheMeta {
+  formatVersion: number
+  /** Server label-set version the entries were fetched under */
+  labelSetVersion: string | null
+}
+
+export const LABEL_CACHE_FORMAT_VERSION = 2
+
+/** Max addresses per POST /api/labels/batch */
+export const LABEL_BATCH_SIZE = 100
+
+const LABEL_TTL_MS = 24 * 60 * 60 * 1000
+const NEGATIVE_TTL_MS = 6 * 60 * 60 * 1000
+/** Entries kept on load; the most recently fetched win */
+const MAX_ENTRIES = 20_000
+
+const DB_NAME = 'qli-label-cache'
+const DB_VERSION = 1
+const ENTRIES = 'entries'
+const META = 'meta'
+const META_KEY = 'meta'
+
+// =============================================================================
+// Entries
+// =============================================================================
+
+export function unknownLabel(address: string): AddressLabelDto {
+  return { address, label: null, type: 'unknown' }
+}
+
+export function isNegativeLabel(label: AddressLabelDto): boolean {
+  return label.type === 'unknown' && !label.label
+}
+
+export function isFreshLabel(label: AddressLabelDto, fetchedAt: number, now: number): boolean {
+  return now - fetchedAt < (isNegativeLabel(label) ? NEGATIVE_TTL_MS : LABEL_TTL_MS)
+}
+
+/**
+ * One entry per requested address, in request order; addresses the server
+ * left out of its response are recorded as unknown.
+ */
+export function toCachedLabels(addresses: readonly string[], labels: AddressLabelDto[], now: number): CachedLabel[] {
+  const byAddress = new Map(labels.map(label => [label.address, label]))
+  return addresses.map(address => ({
+    address,
+    label: byAddress.get(address) ?? unknownLabel(address),
+    fetchedAt: now,
+  }))
+}
+
+/** Split loaded entries into those to keep and the addresses to delete */
+export function pruneCachedLabels(entries: CachedLabel[], now: number): { keep: CachedLabel[]; drop: string[] } {
+  const fresh = entries
+    .filter(entry => isFreshLabel(entry.label, entry.fetchedAt, now))
+    .sort((a, b) => b.fetchedAt - a.fetchedAt)
+  const keep = fresh.slice(0, MAX_ENTRIES)
+  const kept = new Set(keep.map(entry => entry.address))
+  return { keep, drop: entries.filter(entry => !kept.has(entry.address)).map(entry => entry.address) }
+}
+
+/** Split addresses into request-sized batches without reordering the input */
+export function chunkAddresses(addresses: readonly string[], size = LABEL_BATCH_SIZE): string[][] {
+  const chunks: string[][] = []
+  for (let i = 0; i < addresses.length; i += size) {
+    chunks.push(addresses.slice(i, i + size))
+  }
+  return chunks
+}
+
+// =============================================================================
+// IndexedDB
+// =============================================================================
+
+function openDb(): Promise<IDBDatabase> {
+  return openDatabase(DB_NAME, DB_VERSION, db => {
+    db.createObjectStore(ENTRIES, { keyPath: 'address' })
+    db.createObjectStore(META)
+  })
+}
+
+export function labelCacheSupported(): boolean {
+  return indexedDbSupported()
+}
+
+export async function loadLabelCache(): Promise<{ meta: LabelCacheMeta | undefined; entries: CachedLabel[] }> {
+  const db = await openDb()
+  const tx = db.transaction([ENTRIES, META], 'readonly')
+  const [meta, entries] = await Promise.all([
+    requestResult(tx.objectStore(META).get(META_KEY) as IDBRequest<LabelCacheMeta | undefined>),
+    requestResult(tx.objectStore(ENTRIES).getAll() as IDBRequest<CachedLabel[]>),
+  ])
+  return { meta, entries }
+}
+
+export async function putCachedLabels(entries: CachedLabel[]): Promise<void> {
+  if (entries.length === 0) return
+  const db = await openDb()
+  const tx = db.transaction(ENTRIES, 'readwrite')
+  const store = tx.objectStore(ENTRIES)
+  for (const entry of entries) store.put(entry)
+  await transactionDone(tx)
+}
+
+export async function deleteCachedLabels(addresses: string[]): Promise<void> {
+  if (addresses.length === 0) return
+  const db = await openDb()
+  const tx = db.transaction(ENTRIES, 'readwrite')
+  const store = tx.objectStore(ENTRIES)
+  for (const address of addresses) store.delete(address)
+  await transactionDone(tx)
+}
+
+export async function putLabelCacheMeta(labelSetVersion: string | null): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction(META, 'readwrite')
+  const meta: LabelCacheMeta = { formatVersion: LABEL_CACHE_FORMAT_VERSION, labelSetVersion }
+  tx.objectStore(META).put(meta, META_KEY)
+  await transactionDone(tx)
+}
+
+/** Drop every entry and start over under the given label-set version */
+export async function resetLabelCache(labelSetVersion: string | null): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction([ENTRIES, META], 'readwrite')
+  tx.objectStore(ENTRIES).clear()
+  const meta: LabelCacheMeta = { formatVersion: LABEL_CACHE_FORMAT_VERSION, labelSetVersion }
+  tx.objectStore(META).put(meta, META_KEY)
+  await transactionDone(tx)
+}
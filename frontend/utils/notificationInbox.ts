@@ -0,0 +1,132 @@
+/**
+ * Notification Inbox Store
+ *
+ * Push notifications and live address events are kept in IndexedDB so the
+ * header inbox survives reloads and also fills while no tab is open: the
+ * service worker (public/sw.js) turns each push into an InboxItem, writes it
+ * into the same database and forwards it to open clients. Keep DB_NAME, STORE
+ * and the item shape in sync with the worker.
+ *
+ * Items of a transfer use `${address}:${txHash}` as id, so a push and a live
+ * event for the same transfer end up as one entry.
+ *
+ * Kept free of Nuxt imports; useNotificationInbox adds reactive state.
+ */
+
+import { indexedDbSupported, openDatabase, requestResult, transactionDone } from './indexedDb'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type InboxSource = 'push' | 'live'
+
+export interface InboxItem {
+  id: string
+  source: InboxSource
+  title: string
+  body: string
+  /** Page the item links to (address or transaction) */
+  url: string
+  address: string | null
+  txHash: string | null
+  /** Unix milliseconds */
+  createdAt: number
+  read: boolean
+}
+
+export interface InboxGroup {
+  address: string | null
+  items: InboxItem[]
+  unread: number
+}
+
+const DB_NAME = 'qli-inbox'
+const DB_VERSION = 1
+const STORE = 'notifications'
+/** Oldest items are dropped beyond this many */
+export const MAX_INBOX_ITEMS = 500
+
+// =============================================================================
+// Construction
+// =============================================================================
+
+export function transferItemId(address: string, txHash: string): string {
+  return `${address}:${txHash}`
+}
+
+/**
+ * Merge an incoming item into an existing one with the same id: the first
+ * source and the read state are kept, a push supplies the nicer title.
+ */
+export function mergeInboxItem(existing: InboxItem | undefined, incoming: InboxItem): InboxItem {
+  if (!existing) return incoming
+  const push = incoming.source === 'push' ? incoming : existing.source === 'push' ? existing : null
+  return {
+    ...existing,
+    title: push?.title ?? existing.title,
+    body: push?.body ?? existing.body,
+    read: existing.read,
+  }
+}
+
+/** Group by address, newest group first; items without an address go last */
+export function groupByAddress(items: InboxItem[]): InboxGroup[] {
+  const groups = new Map<string | null, InboxGroup>()
+  for (const item of [...items].sort((a, b) => b.createdAt - a.createdAt)) {
+    let group = groups.get(item.address)
+    if (!group) {
+      group = { address: item.address, items: [], unread: 0 }
+      groups.set(item.address, group)
+    }
+    group.items.push(item)
+    if (!item.read) group.unread++
+  }
+  return [...groups.values()].sort((a, b) =>
+    a.address === null ? 1 : b.address === null ? -1 : b.items[0]!.createdAt - a.items[0]!.createdAt)
+}
+
+// =============================================================================
+// IndexedDB
+// =============================================================================
+
+function openDb(): Promise<IDBDatabase> {
+  return openDatabase(DB_NAME, DB_VERSION, db => {
+    const store = db.createObjectStore(STORE, { keyPath: 'id' })
+    store.createIndex('createdAt', 'createdAt')
+  })
+}
+
+export function inboxSupported(): boolean {
+  return indexedDbSupported()
+}
+
+export async function loadInboxItems(): Promise<InboxItem[]> {
+  const db = await openDb()
+  return requestResult(db.transaction(STORE, 'readonly').objectStore(STORE).getAll() as IDBRequest<InboxItem[]>)
+}
+
+export async function putInboxItems(items: InboxItem[]): Promise<void> {
+  if (items.length === 0) return
+  const db = await openDb()
+  const tx = db.transaction(STORE, 'readwrite')
+  const store = tx.objectStore(STORE)
+  for (const item of items) store.put(item)
+  await transactionDone(tx)
+}
+
+export async function deleteInboxItems(ids: string[]): Promise<void> {
+  if (ids.length === 0) return
+  const db = await openDb()
+  const tx = db.transaction(STORE, 'readwrite')
+  const store = tx.objectStore(STORE)
+  for (const id of ids) store.delete(id)
+  await transactionDone(tx)
+}
+
+export async function clearInboxItems(): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction(STORE, 'readwrite')
+  tx.objectStore(STORE).clear()
+  await transactionDone(tx)
+}
@@ -0,0 +1,258 @@
+/**
+ * Portfolio Model
+ *
+ * Named watchlists of addresses with a per-address nickname, tags and notes.
+ * The whole portfolio is one versioned JSON document: it is what usePortfolio
+ * keeps in localStorage, what the sync endpoint stores and what JSON export
+ * writes. CSV export/import uses one row per list entry:
+ *
+ *   list,address,nickname,tags,notes
+ *   Exchanges,ABCD...,Hot wallet,cex;hot,"Moved funds on 2025-01-02"
+ *
+ * Kept free of Nuxt imports; usePortfolio adds storage and sync.
+ */
+
+import { escapeCsv, parseCsvRows } from './csv'
+import { isValidIdentity } from './qubicIdentity'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const PORTFOLIO_FORMAT_VERSION = 1
+
+export interface PortfolioEntry {
+  address: string
+  nickname?: string
+  tags: string[]
+  notes?: string
+  addedAt: string
+}
+
+export interface Watchlist {
+  id: string
+  name: string
+  entries: PortfolioEntry[]
+  /** Include the addresses of this list in push notifications */
+  notify: boolean
+  createdAt: string
+}
+
+export interface PortfolioDocument {
+  formatVersion: number
+  lists: Watchlist[]
+  /** Last local change; newer documents win when syncing */
+  updatedAt: string
+}
+
+export const DEFAULT_LIST_NAME = 'Watchlist'
+
+export class PortfolioImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PortfolioImportError'
+  }
+}
+
+// =============================================================================
+// Construction
+// =============================================================================
+
+export function createListId(): string {
+  return Math.random().toString(36).slice(2, 10) + Date.now().toString(36)
+}
+
+export function createWatchlist(name: string, entries: PortfolioEntry[] = []): Watchlist {
+  return { id: createListId(), name, entries, notify: true, createdAt: new Date().toISOString() }
+}
+
+export function createEntry(address: string, details: Partial<Omit<PortfolioEntry, 'address'>> = {}): PortfolioEntry {
+  return {
+    address,
+    tags: normalizeTags(details.tags ?? []),
+    addedAt: details.addedAt ?? new Date().toISOString(),
+    ...(details.nickname?.trim() ? { nickname: details.nickname.trim() } : {}),
+    ...(details.notes?.trim() ? { notes: details.notes.trim() } : {}),
+  }
+}
+
+export function createPortfolio(lists: Watchlist[] = [createWatchlist(DEFAULT_LIST_NAME)]): PortfolioDocument {
+  return { formatVersion: PORTFOLIO_FORMAT_VERSION, lists, updatedAt: new Date().toISOString() }
+}
+
+/** Build a portfolio from the legacy flat address array */
+export function fromLegacyAddresses(addresses: string[]): PortfolioDocument {
+  return createPortfolio([createWatchlist(DEFAULT_LIST_NAME, addresses.map(address => createEntry(address)))])
+}
+
+/** Lowercase, trimmed, unique tags */
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))]
+}
+
+/** Unique addresses across the given lists */
+export function collectAddresses(lists: Watchlist[]): string[] {
+  return [...new Set(lists.flatMap(list => list.entries.map(entry => entry.address)))]
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined
+}
+
+function parseEntry(value: unknown, path: string): PortfolioEntry {
+  if (!isObject(value) || typeof value.address !== 'string') {
+    throw new PortfolioImportError(`${path}: expected an entry with an address`)
+  }
+  if (!isValidIdentity(value.address)) {
+    throw new PortfolioImportError(`${path}: invalid address ${value.address}`)
+  }
+  return createEntry(value.address, {
+    nickname: optionalString(value.nickname),
+    notes: optionalString(value.notes),
+    tags: Array.isArray(value.tags) ? value.tags.filter((t): t is string => typeof t === 'string') : [],
+    addedAt: optionalString(value.addedAt),
+  })
+}
+
+function parseList(value: unknown, path: string): Watchlist {
+  if (!isObject(value) || !optionalString(value.name)) {
+    throw new PortfolioImportError(`${path}: expected a list with a name`)
+  }
+  if (!Array.isArray(value.entries)) throw new PortfolioImportError(`${path}.entries: expected an array`)
+
+  const entries = value.entries.map((entry, i) => parseEntry(entry, `${path}.entries[${i}]`))
+  return {
+    id: optionalString(value.id) ?? createListId(),
+    name: optionalString(value.name)!,
+    entries: dedupeEntries(entries),
+    notify: value.notify !== false,
+    createdAt: optionalString(value.createdAt) ?? new Date().toISOString(),
+  }
+}
+
+/**
+ * Validate a portfolio document (a JSON export or a synced copy).
+ * Throws PortfolioImportError with the path of the first problem found.
+ */
+export function parsePortfolio(doc: unknown): PortfolioDocument {
+  if (!isObject(doc)) throw new PortfolioImportError('expected a portfolio object')
+  if (doc.formatVersion !== PORTFOLIO_FORMAT_VERSION) {
+    throw new PortfolioImportError(`unsupported format version ${JSON.stringify(doc.formatVersion)}`)
+  }
+  if (!Array.isArray(doc.lists)) throw new PortfolioImportError('lists: expected an array')
+
+  return {
+    formatVersion: PORTFOLIO_FORMAT_VERSION,
+    lists: doc.lists.map((list, i) => parseList(list, `lists[${i}]`)),
+    updatedAt: optionalString(doc.updatedAt) ?? new Date(0).toISOString(),
+  }
+}
+
+/** Keep the first entry per address */
+function dedupeEntries(entries: PortfolioEntry[]): PortfolioEntry[] {
+  const seen = new Set<string>()
+  return entries.filter((entry) => {
+    if (seen.has(entry.address)) return false
+    seen.add(entry.address)
+    return true
+  })
+}
+
+// =============================================================================
+// Merging
+// =============================================================================
+
+/**
+ * Merge imported lists into a portfolio. Lists are matched by name
+ * (case-insensitive); entries of a matched list update existing addresses
+ * (imported details win, tags are combined) and new addresses are appended.
+ */
+export function mergeLists(target: Watchlist[], imported: Watchlist[]): Watchlist[] {
+  const lists = target.map(list => ({ ...list, entries: [...list.entries] }))
+
+  for (const incoming of imported) {
+    const existing = lists.find(list => list.name.toLowerCase() === incoming.name.toLowerCase())
+    if (!existing) {
+      lists.push({ ...incoming, id: createListId() })
+      continue
+    }
+    for (const entry of incoming.entries) {
+      const index = existing.entries.findIndex(e => e.address === entry.address)
+      if (index === -1) {
+        existing.entries.push(entry)
+      } else {
+        const current = existing.entries[index]!
+        existing.entries[index] = {
+          ...current,
+          ...entry,
+          tags: normalizeTags([...current.tags, ...entry.tags]),
+          addedAt: current.addedAt,
+        }
+      }
+    }
+  }
+  return lists
+}
+
+// =============================================================================
+// CSV
+// =============================================================================
+
+const CSV_COLUMNS = ['list', 'address', 'nickname', 'tags', 'notes'] as const
+
+export function portfolioToCsv(lists: Watchlist[]): string {
+  const lines: string[] = [CSV_COLUMNS.join(',')]
+  for (const list of lists) {
+    for (const entry of list.entries) {
+      lines.push([list.name, entry.address, entry.nickname ?? '', entry.tags.join(';'), entry.notes ?? '']
+        .map(escapeCsv)
+        .join(','))
+    }
+  }
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Parse CSV rows into lists. A header row is optional; without one the
+ * columns are `address,nickname,tags,notes` and rows go to `defaultList`.
+ */
+export function parsePortfolioCsv(text: string, defaultList = DEFAULT_LIST_NAME): Watchlist[] {
+  const rows = parseCsvRows(text)
+  if (rows.length === 0) throw new PortfolioImportError('the file is empty')
+
+  const header = rows[0]!.map(h => h.trim().toLowerCase())
+  const hasHeader = header.includes('address')
+  const column = (name: typeof CSV_COLUMNS[number]) => hasHeader
+    ? header.indexOf(name)
+    : ['address', 'nickname', 'tags', 'notes'].indexOf(name)
+
+  const lists = new Map<string, PortfolioEntry[]>()
+  rows.slice(hasHeader ? 1 : 0).forEach((row, i) => {
+    const get = (name: typeof CSV_COLUMNS[number]) => {
+      const index = column(name)
+      return index >= 0 ? (row[index] ?? '').trim() : ''
+    }
+    const address = get('address')
+    if (!isValidIdentity(address)) {
+      throw new PortfolioImportError(`row ${i + (hasHeader ? 2 : 1)}: invalid address ${address || '(empty)'}`)
+    }
+    const listName = get('list') || defaultList
+    const entries = lists.get(listName) ?? []
+    entries.push(createEntry(address, {
+      nickname: get('nickname'),
+      tags: get('tags').split(/[;|]/),
+      notes: get('notes'),
+    }))
+    lists.set(listName, entries)
+  })
+
+  return [...lists].map(([name, entries]) => createWatchlist(name, dedupeEntries(entries)))
+}
@@ -0,0 +1,266 @@
+/**
+ * Private Address Labels
+ *
+ * Labels a user keeps for themselves (OTC desks, mining pools, suspected
+ * scams, ...) on top of the server's labels from /api/labels. They live in
+ * IndexedDB (`qli-labels`) and never leave the browser except through
+ * export. CSV export/import uses one row per label:
+ *
+ *   address,label,type,notes
+ *   ABCD...,Desk A,otc,"Seen on 2025-01-02"
+ *
+ * Precedence when an address has both kinds of label:
+ *   - 'private' (default): the private label and type win
+ *   - 'server': the server label wins; private labels only fill gaps
+ * Either way smart contract and burn addresses keep their server type,
+ * which is a protocol fact rather than an opinion.
+ *
+ * Unlabelled addresses the server clustered into a labelled entity are
+ * named after it, e.g. "Exchange A (deposit)". Any private label beats
+ * such an inferred one.
+ *
+ * Kept free of Nuxt imports; useAddressLabels adds reactive state.
+ */
+
+import type { AddressLabelDto, EntityRole } from './api/generated'
+import { escapeCsv, parseCsvRows } from './csv'
+import { indexedDbSupported, openDatabase, requestResult, transactionDone } from './indexedDb'
+import { isValidIdentity } from './qubicIdentity'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ServerLabelType = AddressLabelDto['type']
+export type PrivateLabelType = 'known' | 'exchange' | 'otc' | 'miningpool' | 'scam'
+export type LabelType = ServerLabelType | PrivateLabelType
+
+export type LabelPrecedence = 'private' | 'server'
+
+export interface PrivateLabel {
+  address: string
+  label: string
+  type: PrivateLabelType
+  notes?: string
+  updatedAt: string
+}
+
+/** A label as displayed: the server label merged with a private one */
+export interface ResolvedLabel extends Omit<AddressLabelDto, 'type'> {
+  type: LabelType
+  source: 'server' | 'private' | 'entity'
+  /** The server's label when a private label replaced it */
+  serverLabel?: string | null
+}
+
+export const PRIVATE_LABELS_FORMAT_VERSION = 1
+
+export const PRIVATE_LABEL_TYPES: { value: PrivateLabelType; label: string }[] = [
+  { value: 'known', label: 'Other' },
+  { value: 'exchange', label: 'Exchange' },
+  { value: 'otc', label: 'OTC desk' },
+  { value: 'miningpool', label: 'Mining pool' },
+  { value: 'scam', label: 'Suspected scam' },
+]
+
+export const MAX_LABEL_LENGTH = 64
+
+/** Server types a private label cannot change */
+const PROTECTED_TYPES: ServerLabelType[] = ['smartcontract', 'burn']
+
+const DB_NAME = 'qli-labels'
+const DB_VERSION = 1
+const STORE = 'labels'
+
+export class PrivateLabelImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PrivateLabelImportError'
+  }
+}
+
+// =============================================================================
+// Construction
+// =============================================================================
+
+function isPrivateLabelType(value: unknown): value is PrivateLabelType {
+  return PRIVATE_LABEL_TYPES.some(t => t.value === value)
+}
+
+export function createPrivateLabel(
+  address: string,
+  label: string,
+  type: PrivateLabelType = 'known',
+  notes?: string
+): PrivateLabel {
+  return {
+    address,
+    label: label.trim().slice(0, MAX_LABEL_LENGTH),
+    type,
+    notes: notes?.trim() || undefined,
+    updatedAt: new Date().toISOString(),
+  }
+}
+
+export const ENTITY_ROLE_NAMES: Record<EntityRole, string> = {
+  anchor: 'labelled wallet',
+  deposit: 'deposit',
+  collector: 'collector',
+  payout: 'payout wallet',
+  cospend: 'related',
+}
+
+/** Name an unlabelled address after its entity, if it belongs to a labelled one */
+export function entityLabel(server: AddressLabelDto): ResolvedLabel | undefined {
+  if (server.label || server.type !== 'unknown') return undefined
+  if (!server.entityLabel || !server.entityRole || server.entityRole === 'anchor') return undefined
+
+  return {
+    ...server,
+    label: `${server.entityLabel} (${ENTITY_ROLE_NAMES[server.entityRole]})`,
+    type: server.entityType ?? 'known',
+    source: 'entity',
+  }
+}
+
+/** Merge a server label and a private label by the precedence rules above */
+export function resolveLabel(
+  address: string,
+  server: AddressLabelDto | null | undefined,
+  own: PrivateLabel | null | undefined,
+  precedence: LabelPrecedence
+): ResolvedLabel | undefined {
+  if (!own) return server ? entityLabel(server) ?? { ...server, source: 'server' } : undefined
+
+  const serverKnown = !!server?.label || (!!server?.type && server.type !== 'unknown')
+  if (server && serverKnown && precedence === 'server') return { ...server, source: 'server' }
+
+  const type = server && PROTECTED_TYPES.includes(server.type) ? server.type : own.type
+  return {
+    address,
+    label: own.label,
+    type,
+    contractIndex: server?.contractIndex,
+    website: server?.website,
+    source: 'private',
+    serverLabel: server?.label ?? null,
+  }
+}
+
+// =============================================================================
+// Import / export
+// =============================================================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function parseLabel(address: unknown, label: unknown, type: unknown, notes: unknown, where: string): PrivateLabel {
+  if (typeof address !== 'string' || !isValidIdentity(address.trim())) {
+    throw new PrivateLabelImportError(`${where}: invalid address ${typeof address === 'string' && address ? address : '(empty)'}`)
+  }
+  if (typeof label !== 'string' || !label.trim()) throw new PrivateLabelImportError(`${where}: missing label`)
+  const typeText = typeof type === 'string' ? type.trim().toLowerCase() : ''
+  if (typeText && !isPrivateLabelType(typeText)) {
+    throw new PrivateLabelImportError(`${where}: unknown type ${typeText}`)
+  }
+  return createPrivateLabel(
+    address.trim(),
+    label,
+    (typeText || 'known') as PrivateLabelType,
+    typeof notes === 'string' ? notes : undefined
+  )
+}
+
+export function privateLabelsToJson(labels: PrivateLabel[]): string {
+  return JSON.stringify({ version: PRIVATE_LABELS_FORMAT_VERSION, labels }, null, 2)
+}
+
+/** Parse a JSON export; throws PrivateLabelImportError on the first problem */
+export function parsePrivateLabelsJson(text: string): PrivateLabel[] {
+  let doc: unknown
+  try {
+    doc = JSON.parse(text)
+  } catch {
+    throw new PrivateLabelImportError('not valid JSON')
+  }
+  const items = Array.isArray(doc) ? doc : isObject(doc) ? doc.labels : undefined
+  if (!Array.isArray(items)) throw new PrivateLabelImportError('expected a list of labels')
+  if (isObject(doc) && typeof doc.version === 'number' && doc.version > PRIVATE_LABELS_FORMAT_VERSION) {
+    throw new PrivateLabelImportError(`unsupported format version ${doc.version}`)
+  }
+  return items.map((item, i) => {
+    if (!isObject(item)) throw new PrivateLabelImportError(`labels[${i}]: expected an object`)
+    return parseLabel(item.address, item.label, item.type, item.notes, `labels[${i}]`)
+  })
+}
+
+const CSV_COLUMNS = ['address', 'label', 'type', 'notes'] as const
+
+export function privateLabelsToCsv(labels: PrivateLabel[]): string {
+  const lines: string[] = [CSV_COLUMNS.join(',')]
+  for (const label of labels) {
+    lines.push([label.address, label.label, label.type, label.notes ?? ''].map(escapeCsv).join(','))
+  }
+  return lines.join('\n') + '\n'
+}
+
+/** Parse CSV rows; a header row is optional, without one the columns are `address,label,type,notes` */
+export function parsePrivateLabelsCsv(text: string): PrivateLabel[] {
+  const rows = parseCsvRows(text)
+  if (rows.length === 0) throw new PrivateLabelImportError('the file is empty')
+
+  const header = rows[0]!.map(h => h.trim().toLowerCase())
+  const hasHeader = header.includes('address')
+  const column = (name: typeof CSV_COLUMNS[number]) => hasHeader ? header.indexOf(name) : CSV_COLUMNS.indexOf(name)
+
+  return rows.slice(hasHeader ? 1 : 0).map((row, i) => {
+    const get = (name: typeof CSV_COLUMNS[number]) => {
+      const index = column(name)
+      return index >= 0 ? row[index] ?? '' : ''
+    }
+    return parseLabel(get('address'), get('label'), get('type'), get('notes'), `row ${i + (hasHeader ? 2 : 1)}`)
+  })
+}
+
+// =============================================================================
+// IndexedDB
+// =============================================================================
+
+function openDb(): Promise<IDBDatabase> {
+  return openDatabase(DB_NAME, DB_VERSION, db => {
+    db.createObjectStore(STORE, { keyPath: 'address' })
+  })
+}
+
+export function privateLabelsSupported(): boolean {
+  return indexedDbSupported()
+}
+
+export async function loadPrivateLabels(): Promise<PrivateLabel[]> {
+  const db = await openDb()
+  return requestResult(db.transaction(STORE, 'readonly').objectStore(STORE).getAll() as IDBRequest<PrivateLabel[]>)
+}
+
+export async function putPrivateLabels(labels: PrivateLabel[]): Promise<void> {
+  if (labels.length === 0) return
+  const db = await openDb()
+  const tx = db.transaction(STORE, 'readwrite')
+  const store = tx.objectStore(STORE)
+  for (const label of labels) store.put(label)
+  await transactionDone(tx)
+}
+
+export async function deletePrivateLabel(address: string): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction(STORE, 'readwrite')
+  tx.objectStore(STORE).delete(address)
+  await transactionDone(tx)
+}
+
+export async function clearPrivateLabels(): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction(STORE, 'readwrite')
+  tx.objectStore(STORE).clear()
+  await transactionDone(tx)
+}
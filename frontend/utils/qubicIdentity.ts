@@ -0,0 +1,235 @@
+/**
+ * Qubic Identity Encoding
+ *
+ * Converts between 32-byte public keys and 60-character Qubic identities
+ * (56 base26 characters for the key plus a 4-character checksum).
+ *
+ * Based on:
+ * - https://github.com/qubic/core/blob/main/src/four_q.h (getIdentity / getPublicKeyFromIdentity)
+ * - https://keccak.team/kangarootwelve.html (checksum hash)
+ */
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const PUBLIC_KEY_LENGTH = 32
+export const IDENTITY_LENGTH = 60
+
+/** Number of base26 characters encoding each 8-byte fragment of the key */
+const FRAGMENT_CHARS = 14
+/** Bits of the K12 digest used for the identity checksum */
+const CHECKSUM_MASK = 0x3ffff
+
+// =============================================================================
+// KangarooTwelve (single-node)
+// =============================================================================
+
+/** Keccak round constants for rounds 12..23 (split into low/high 32-bit words) */
+const ROUND_CONSTANTS_LO = [
+  0x8000808b, 0x0000008b, 0x00008089, 0x00008003, 0x00008002, 0x00000080,
+  0x0000800a, 0x8000000a, 0x80008081, 0x00008080, 0x80000001, 0x80008008,
+]
+const ROUND_CONSTANTS_HI = [
+  0x00000000, 0x80000000, 0x80000000, 0x80000000, 0x80000000, 0x80000000,
+  0x00000000, 0x80000000, 0x80000000, 0x80000000, 0x00000000, 0x80000000,
+]
+
+/** Rho rotation offsets, indexed by lane (x + 5y) */
+const RHO_OFFSETS = [
+  0, 1, 62, 28, 27, 36, 44, 6, 55, 20, 3, 10, 43, 25, 39, 41, 45, 15, 21, 8, 18, 2, 61, 56, 14,
+]
+
+/** Pi destination lane for each source lane (x + 5y) -> y + 5((2x + 3y) mod 5) */
+const PI_TARGETS = Array.from({ length: 25 }, (_, lane) => {
+  const x = lane % 5
+  const y = Math.floor(lane / 5)
+  return y + 5 * ((2 * x + 3 * y) % 5)
+})
+
+/** K12 rate in bytes (TurboSHAKE128 capacity of 256 bits) */
+const K12_RATE = 168
+/** Inputs up to one chunk are hashed as a single node */
+const K12_CHUNK_SIZE = 8192
+
+/**
+ * Keccak-p[1600, 12] permutation over 25 lanes stored as (lo, hi) word pairs
+ */
+function keccakP12(state: Uint32Array): void {
+  const c = new Uint32Array(10)
+  const b = new Uint32Array(50)
+
+  for (let round = 0; round < 12; round++) {
+    // Theta
+    for (let x = 0; x < 5; x++) {
+      c[2 * x] = state[2 * x] ^ state[2 * x + 10] ^ state[2 * x + 20] ^ state[2 * x + 30] ^ state[2 * x + 40]
+      c[2 * x + 1] = state[2 * x + 1] ^ state[2 * x + 11] ^ state[2 * x + 21] ^ state[2 * x + 31] ^ state[2 * x + 41]
+    }
+    for (let x = 0; x < 5; x++) {
+      const prev = (x + 4) % 5
+      const next = (x + 1) % 5
+      const dLo = c[2 * prev] ^ ((c[2 * next] << 1) | (c[2 * next + 1] >>> 31))
+      const dHi = c[2 * prev + 1] ^ ((c[2 * next + 1] << 1) | (c[2 * next] >>> 31))
+      for (let y = 0; y < 25; y += 5) {
+        state[2 * (x + y)] ^= dLo
+        state[2 * (x + y) + 1] ^= dHi
+      }
+    }
+
+    // Rho and Pi
+    for (let lane = 0; lane < 25; lane++) {
+      const lo = state[2 * lane]
+      const hi = state[2 * lane + 1]
+      const n = RHO_OFFSETS[lane]
+      const target = 2 * PI_TARGETS[lane]
+      if (n === 0) {
+        b[target] = lo
+        b[target + 1] = hi
+      } else if (n < 32) {
+        b[target] = (lo << n) | (hi >>> (32 - n))
+        b[target + 1] = (hi << n) | (lo >>> (32 - n))
+      } else if (n === 32) {
+        b[target] = hi
+        b[target + 1] = lo
+      } else {
+        const m = n - 32
+        b[target] = (hi << m) | (lo >>> (32 - m))
+        b[target + 1] = (lo << m) | (hi >>> (32 - m))
+      }
+    }
+
+    // Chi
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) {
+        const i = 2 * (x + y)
+        const i1 = 2 * (((x + 1) % 5) + y)
+        const i2 = 2 * (((x + 2) % 5) + y)
+        state[i] = b[i] ^ (~b[i1] & b[i2])
+        state[i + 1] = b[i + 1] ^ (~b[i1 + 1] & b[i2 + 1])
+      }
+    }
+
+    // Iota
+    state[0] ^= ROUND_CONSTANTS_LO[round]
+    state[1] ^= ROUND_CONSTANTS_HI[round]
+  }
+}
+
+function xorByte(state: Uint32Array, position: number, value: number): void {
+  const word = position >> 2
+  state[word] ^= value << ((position & 3) * 8)
+}
+
+function readByte(state: Uint32Array, position: number): number {
+  return (state[position >> 2] >>> ((position & 3) * 8)) & 0xff
+}
+
+/**
+ * KangarooTwelve with an empty customization string.
+ * Only the single-node case (input up to 8192 bytes) is implemented, which
+ * covers every identity and digest Qubic derives from public keys.
+ */
+export function kangarooTwelve(input: Uint8Array, outputLength: number): Uint8Array {
+  if (input.length > K12_CHUNK_SIZE) {
+    throw new Error(`KangarooTwelve input too long: ${input.length} bytes (max ${K12_CHUNK_SIZE})`)
+  }
+
+  // S = M || C || length_encode(|C|); with empty C this is M || 0x00
+  const message = new Uint8Array(input.length + 1)
+  message.set(input)
+
+  const state = new Uint32Array(50)
+  let position = 0
+  for (const byte of message) {
+    xorByte(state, position++, byte)
+    if (position === K12_RATE) {
+      keccakP12(state)
+      position = 0
+    }
+  }
+
+  // Single-node domain separation suffix and final padding bit
+  xorByte(state, position, 0x07)
+  xorByte(state, K12_RATE - 1, 0x80)
+  keccakP12(state)
+
+  const output = new Uint8Array(outputLength)
+  for (let i = 0, offset = 0; i < outputLength; i++, offset++) {
+    if (offset === K12_RATE) {
+      keccakP12(state)
+      offset = 0
+    }
+    output[i] = readByte(state, offset)
+  }
+  return output
+}
+
+// =============================================================================
+// Identity Encoding
+// =============================================================================
+
+function computeChecksum(publicKey: Uint8Array): string {
+  const digest = kangarooTwelve(publicKey, 3)
+  let checksum = (digest[0] | (digest[1] << 8) | (digest[2] << 16)) & CHECKSUM_MASK
+  let result = ''
+  for (let i = 0; i < 4; i++) {
+    result += String.fromCharCode(65 + (checksum % 26))
+    checksum = Math.floor(checksum / 26)
+  }
+  return result
+}
+
+/**
+ * Encode a 32-byte public key as a 60-character uppercase Qubic identity
+ */
+export function publicKeyToIdentity(publicKey: Uint8Array): string {
+  if (publicKey.length !== PUBLIC_KEY_LENGTH) {
+    throw new Error(`Public key must be ${PUBLIC_KEY_LENGTH} bytes, got ${publicKey.length}`)
+  }
+
+  let identity = ''
+  for (let i = 0; i < 4; i++) {
+    let fragment = 0n
+    for (let j = 7; j >= 0; j--) {
+      fragment = (fragment << 8n) | BigInt(publicKey[i * 8 + j])
+    }
+    for (let j = 0; j < FRAGMENT_CHARS; j++) {
+      identity += String.fromCharCode(65 + Number(fragment % 26n))
+      fragment /= 26n
+    }
+  }
+
+  return identity + computeChecksum(publicKey)
+}
+
+/**
+ * Decode a 60-character Qubic identity back into its 32-byte public key.
+ * Returns null if the identity is malformed or its checksum does not match.
+ */
+export function identityToPublicKey(identity: string): Uint8Array | null {
+  if (identity.length !== IDENTITY_LENGTH || !/^[A-Z]+$/.test(identity)) return null
+
+  const publicKey = new Uint8Array(PUBLIC_KEY_LENGTH)
+  for (let i = 0; i < 4; i++) {
+    let fragment = 0n
+    for (let j = FRAGMENT_CHARS - 1; j >= 0; j--) {
+      fragment = fragment * 26n + BigInt(identity.charCodeAt(i * FRAGMENT_CHARS + j) - 65)
+    }
+    // Core accumulates in a uint64, so out-of-range identities wrap
+    fragment = BigInt.asUintN(64, fragment)
+    for (let j = 0; j < 8; j++) {
+      publicKey[i * 8 + j] = Number(fragment & 0xffn)
+      fragment >>= 8n
+    }
+  }
+
+  if (computeChecksum(publicKey) !== identity.slice(56)) return null
+  return publicKey
+}
+
+/**
+ * Check whether a string is a well-formed Qubic identity with a valid checksum
+ */
+export function isValidIdentity(identity: string): boolean {
+  return identityToPublicKey(identity) !== null
+}
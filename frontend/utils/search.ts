@@ -0,0 +1,106 @@
+/**
+ * Search helpers shared by the search bar, the Ctrl+K palette and the
+ * search page: result types and links, direct routes for exact input,
+ * and the recent searches kept in localStorage (`qli-recent-searches`).
+ *
+ * Kept free of Nuxt imports; useSearch adds reactive state.
+ */
+
+import type { SearchResultDto } from './api/generated'
+
+// SearchResultType enum values from API (serialized as integers)
+export const SearchResultType = {
+  Tick: 0,
+  Transaction: 1,
+  Address: 2,
+  Asset: 3,
+  Epoch: 4,
+  Procedure: 5,
+} as const
+
+const TYPE_NAMES: Record<number, string> = {
+  [SearchResultType.Tick]: 'Tick',
+  [SearchResultType.Transaction]: 'Transaction',
+  [SearchResultType.Address]: 'Address',
+  [SearchResultType.Asset]: 'Asset',
+  [SearchResultType.Epoch]: 'Epoch',
+  [SearchResultType.Procedure]: 'Procedure',
+}
+
+/** A place the user went to from search; type is unset for plain queries */
+export interface RecentSearch {
+  type?: number
+  title: string
+  to: string
+}
+
+/** A row in the type-ahead list or the palette */
+export interface SearchSuggestion extends RecentSearch {
+  key: string
+  /** Address or input type shown under the title */
+  subtitle?: string
+}
+
+export const RECENT_SEARCHES_KEY = 'qli-recent-searches'
+export const MAX_RECENT_SEARCHES = 8
+
+/** Debounce for type-ahead requests */
+export const SUGGEST_DELAY_MS = 200
+/** Suggestions requested per kind of match */
+export const SUGGEST_LIMIT = 5
+
+export function searchResultTypeName(type: number): string {
+  return TYPE_NAMES[type] ?? 'Unknown'
+}
+
+export function searchResultLink(result: SearchResultDto): string {
+  switch (result.type) {
+    case SearchResultType.Tick: return `/ticks/${result.value}`
+    case SearchResultType.Transaction: return `/tx/${result.value}`
+    case SearchResultType.Address: return `/address/${result.value}`
+    case SearchResultType.Asset:
+      return result.detail
+        ? `/assets/${encodeURIComponent(result.value)}?issuer=${result.detail}`
+        : `/assets/${encodeURIComponent(result.value)}`
+    case SearchResultType.Epoch: return `/epochs/${result.value}`
+    case SearchResultType.Procedure:
+      return `/address/${result.value}?contract=${result.value}&inputType=${result.detail}`
+    default: return `/search?q=${encodeURIComponent(result.value)}`
+  }
+}
+
+/**
+ * Route for input that needs no lookup: a transaction hash (60 lowercase
+ * characters) or an address (60 uppercase characters). Plain numbers go to
+ * the search page, as they can match both a tick and an epoch.
+ */
+export function directSearchRoute(query: string): string | null {
+  if (query.length === 60) {
+    return query === query.toLowerCase() ? `/tx/${query}` : `/address/${query}`
+  }
+  return null
+}
+
+export function loadRecentSearches(): RecentSearch[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECENT_SEARCHES_KEY) ?? '[]')
+    return Array.isArray(stored)
+      ? stored.filter((r): r is RecentSearch => typeof r?.title === 'string' && typeof r?.to === 'string')
+      : []
+  } catch {
+    return []
+  }
+}
+
+/** Put a search first, dropping an older visit to the same place */
+export function addRecentSearch(recent: RecentSearch[], entry: RecentSearch): RecentSearch[] {
+  return [entry, ...recent.filter(r => r.to !== entry.to)].slice(0, MAX_RECENT_SEARCHES)
+}
+
+export function saveRecentSearches(recent: RecentSearch[]) {
+  try {
+    localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(recent))
+  } catch {
+    // Storage full or disabled - keep the list for this session only
+  }
+}
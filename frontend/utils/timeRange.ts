@@ -0,0 +1,236 @@
+/**
+ * Analytics Time Ranges
+ *
+ * The range every analytics tab filters by, plus an optional comparison
+ * range to overlay. A range is given as a wall-clock preset, explicit dates,
+ * an epoch span or a tick span; tabs only ever read the resolved `from`/`to`.
+ * Ranges round-trip through the query string so they survive reloads and can
+ * be shared:
+ *
+ *   ?range=30d                         relative to now (7d is the default)
+ *   ?range=custom&from=…&to=…          ISO 8601 dates
+ *   ?range=epochs:150-160              inclusive epoch span
+ *   ?range=ticks:20000000-20100000     inclusive tick span
+ *   &compare=previous                  previous window of the same length
+ *   &compare=epoch:155                 any single epoch
+ *
+ * Kept free of Nuxt imports; useTimeRange resolves epochs and ticks to dates.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type RelativePreset = '24h' | '7d' | '30d' | '90d' | 'all'
+export type TimeRangePreset = RelativePreset | 'custom' | 'epochs' | 'ticks'
+
+/** Inclusive [first, last] span of epochs or ticks */
+export type Span = readonly [number, number]
+
+export interface TimeRange {
+  preset: TimeRangePreset
+  from: string | null  // ISO 8601 string
+  to: string | null    // ISO 8601 string
+  /** Set when preset is 'epochs' */
+  epochs: Span | null
+  /** Set when preset is 'ticks' */
+  ticks: Span | null
+}
+
+export type ComparisonMode = 'none' | 'previous' | 'epoch'
+
+export interface ComparisonRange {
+  mode: ComparisonMode
+  /** Set when mode is 'epoch' */
+  epoch: number | null
+  from: string | null
+  to: string | null
+}
+
+/** What the query string asks for, before epochs and ticks are resolved */
+export type RangeRequest =
+  | { preset: RelativePreset }
+  | { preset: 'custom'; from: string; to: string }
+  | { preset: 'epochs'; epochs: Span }
+  | { preset: 'ticks'; ticks: Span }
+
+export type ComparisonRequest =
+  | { mode: 'none' | 'previous' }
+  | { mode: 'epoch'; epoch: number }
+
+export const RELATIVE_PRESETS: RelativePreset[] = ['24h', '7d', '30d', '90d', 'all']
+
+/** Used when nothing else is chosen; left out of the query string */
+export const DEFAULT_PRESET: RelativePreset = '7d'
+
+/** Query keys owned by the time range; everything else is left alone */
+export const TIME_RANGE_QUERY_KEYS = ['range', 'from', 'to', 'compare'] as const
+
+export type TimeRangeQuery = Partial<Record<(typeof TIME_RANGE_QUERY_KEYS)[number], string>>
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+const PRESET_DURATIONS: Record<Exclude<RelativePreset, 'all'>, number> = {
+  '24h': DAY_MS,
+  '7d': 7 * DAY_MS,
+  '30d': 30 * DAY_MS,
+  '90d': 90 * DAY_MS,
+}
+
+// =============================================================================
+// Epoch calendar
+// =============================================================================
+
+// Mirrors EpochCalendar on the server: every epoch starts on Wednesday
+// 12:00 UTC and lasts exactly 7 days. Only a fallback for when epoch
+// metadata or tick timestamps are unavailable.
+const REFERENCE_EPOCH = 202
+const REFERENCE_START_MS = Date.UTC(2026, 1, 25, 12)
+const EPOCH_MS = 7 * DAY_MS
+
+export function epochStartDate(epoch: number): Date {
+  return new Date(REFERENCE_START_MS + (epoch - REFERENCE_EPOCH) * EPOCH_MS)
+}
+
+/** Epoch containing the given instant */
+export function epochAtDate(date: Date): number {
+  return Math.max(1, Math.floor((date.getTime() - REFERENCE_START_MS) / EPOCH_MS) + REFERENCE_EPOCH)
+}
+
+/** Calendar dates of an epoch span; the end is capped at now for the running epoch */
+export function calendarEpochRange([first, last]: Span, now = new Date()): { from: string; to: string } {
+  const end = Math.min(epochStartDate(last + 1).getTime(), now.getTime())
+  return { from: epochStartDate(first).toISOString(), to: new Date(end).toISOString() }
+}
+
+// =============================================================================
+// Ranges
+// =============================================================================
+
+export function relativeRange(preset: RelativePreset, now = new Date()): TimeRange {
+  if (preset === 'all') return { preset, from: null, to: null, epochs: null, ticks: null }
+  return {
+    preset,
+    from: new Date(now.getTime() - PRESET_DURATIONS[preset]).toISOString(),
+    to: now.toISOString(),
+    epochs: null,
+    ticks: null,
+  }
+}
+
+/** The window of the same length that ends where the given one starts */
+export function previousWindow(from: string | null, to: string | null): { from: string; to: string } | null {
+  if (!from || !to) return null
+  const start = new Date(from).getTime()
+  const length = new Date(to).getTime() - start
+  if (!(length > 0)) return null
+  return { from: new Date(start - length).toISOString(), to: new Date(start).toISOString() }
+}
+
+/** The epoch span of the same length right before the given one */
+export function previousEpochSpan([first, last]: Span): Span | null {
+  const length = last - first + 1
+  return first - length >= 1 ? [first - length, first - 1] : null
+}
+
+/**
+ * Parse "150-160", "150–160" or "150" into an inclusive span. Bounds are
+ * swapped when given in reverse.
+ */
+export function parseSpan(text: string): Span | null {
+  const match = text.trim().match(/^(\d+)\s*(?:[-–]\s*(\d+))?$/)
+  if (!match) return null
+  const a = Number(match[1])
+  const b = match[2] !== undefined ? Number(match[2]) : a
+  if (!Number.isSafeInteger(a) || !Number.isSafeInteger(b)) return null
+  return a <= b ? [a, b] : [b, a]
+}
+
+export function formatSpan([first, last]: Span): string {
+  return first === last ? `${first}` : `${first}-${last}`
+}
+
+// =============================================================================
+// Query string
+// =============================================================================
+
+const isoDate = (value: string | undefined): string | null => {
+  if (!value) return null
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+/** Read the range from query values; null when malformed */
+export function parseRangeQuery(query: TimeRangeQuery): RangeRequest | null {
+  const range = query.range
+  if (!range) return { preset: DEFAULT_PRESET }
+
+  if ((RELATIVE_PRESETS as string[]).includes(range)) return { preset: range as RelativePreset }
+
+  if (range === 'custom') {
+    const from = isoDate(query.from)
+    const to = isoDate(query.to)
+    return from && to && from < to ? { preset: 'custom', from, to } : null
+  }
+
+  const [unit, spanText] = range.split(':', 2)
+  const span = spanText ? parseSpan(spanText) : null
+  if (!span) return null
+  if (unit === 'epochs' && span[0] >= 1) return { preset: 'epochs', epochs: span }
+  if (unit === 'ticks') return { preset: 'ticks', ticks: span }
+  return null
+}
+
+export function parseComparisonQuery(query: TimeRangeQuery): ComparisonRequest {
+  const compare = query.compare
+  if (compare === 'previous') return { mode: 'previous' }
+  const epoch = compare?.startsWith('epoch:') ? Number(compare.slice(6)) : NaN
+  return Number.isSafeInteger(epoch) && epoch >= 1 ? { mode: 'epoch', epoch } : { mode: 'none' }
+}
+
+/** Query values describing the range and comparison; absent keys are undefined */
+export function timeRangeToQuery(range: TimeRange, comparison: ComparisonRange): TimeRangeQuery {
+  const query: TimeRangeQuery = {}
+
+  if (range.preset === 'epochs' && range.epochs) query.range = `epochs:${formatSpan(range.epochs)}`
+  else if (range.preset === 'ticks' && range.ticks) query.range = `ticks:${formatSpan(range.ticks)}`
+  else if (range.preset === 'custom' && range.from && range.to) {
+    query.range = 'custom'
+    query.from = range.from
+    query.to = range.to
+  } else if (range.preset !== DEFAULT_PRESET) query.range = range.preset
+
+  if (comparison.mode === 'previous') query.compare = 'previous'
+  else if (comparison.mode === 'epoch' && comparison.epoch) query.compare = `epoch:${comparison.epoch}`
+
+  return query
+}
+
+/** Pick the time range keys out of a route query, ignoring repeated values */
+export function pickTimeRangeQuery(query: Record<string, unknown>): TimeRangeQuery {
+  const picked: TimeRangeQuery = {}
+  for (const key of TIME_RANGE_QUERY_KEYS) {
+    const value = query[key]
+    if (typeof value === 'string' && value) picked[key] = value
+  }
+  return picked
+}
+
+export function sameTimeRangeQuery(a: TimeRangeQuery, b: TimeRangeQuery): boolean {
+  return TIME_RANGE_QUERY_KEYS.every(key => (a[key] ?? '') === (b[key] ?? ''))
+}
+
+// =============================================================================
+// Labels
+// =============================================================================
+
+/** Name of the comparison for legends, e.g. "Previous period" or "Epoch 155" */
+export function comparisonName(range: TimeRange, comparison: ComparisonRange): string {
+  if (comparison.mode === 'epoch' && comparison.epoch) return `Epoch ${comparison.epoch}`
+  if (range.preset === 'epochs' && range.epochs) {
+    const previous = previousEpochSpan(range.epochs)
+    if (previous) return previous[0] === previous[1] ? `Epoch ${previous[0]}` : `Epochs ${previous[0]}-${previous[1]}`
+  }
+  return 'Previous period'
+}
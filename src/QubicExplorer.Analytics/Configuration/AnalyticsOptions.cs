@@ -24,7 +24,14 @@ public class AnalyticsOptions
     public bool EnableOracleEvents { get; set; } = true;
     public bool EnableCustomFlowJobs { get; set; } = true;
     public bool EnableContractReserveSnapshots { get; set; } = true;
+    public bool EnableEntityClustering { get; set; } = true;
 
     /// <summary>Interval (minutes) between contract reserve snapshots.</summary>
     public int ContractReserveSnapshotIntervalMinutes { get; set; } = 10;
+
+    /// <summary>Interval (hours) between entity clustering runs.</summary>
+    public int EntityClusteringIntervalHours { get; set; } = 6;
+
+    /// <summary>Number of most recent epochs whose transfers feed entity clustering.</summary>
+    public int EntityClusteringEpochs { get; set; } = 4;
 }
@@ -84,6 +84,13 @@ builder.Services.AddSingleton<OracleEventService>();
 // OracleAggregateService - builds long-term oracle aggregates for completed epochs
 builder.Services.AddSingleton<OracleAggregateService>();
 
+// EntityClusteringService - groups addresses into entities (deposits, payout wallets, co-spending)
+builder.Services.AddSingleton<EntityClusteringService>();
+
+// CommunityLabelRefreshService - approved community labels, loaded at startup and reloaded periodically
+builder.Services.AddSingleton<CommunityLabelRefreshService>();
+builder.Services.AddHostedService(sp => sp.GetRequiredService<CommunityLabelRefreshService>());
+
 // Analytics feature toggles
 builder.Services.Configure<QubicExplorer.Analytics.Configuration.AnalyticsOptions>(
     builder.Configuration.GetSection(QubicExplorer.Analytics.Configuration.AnalyticsOptions.SectionName));
@@ -136,8 +143,17 @@ catch (Exception ex)
     startupLogger.LogWarning(ex, "Bob WebSocket connect failed at startup; continuing — will retry on demand");
 }
 
-// Initialize AddressLabelService at startup
+// Initialize AddressLabelService at startup, with the approved community labels layered over the bundle
 var addressLabelService = app.Services.GetRequiredService<AddressLabelService>();
+try
+{
+    await app.Services.GetRequiredService<CommunityLabelRefreshService>().LoadAsync();
+}
+catch (Exception ex)
+{
+    var startupLogger = app.Services.GetRequiredService<ILogger<Program>>();
+    startupLogger.LogWarning(ex, "Failed to load community labels; continuing with the label bundle only");
+}
 await addressLabelService.InitializeAsync();
 
 // Map admin endpoints
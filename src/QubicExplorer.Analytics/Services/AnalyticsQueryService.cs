@@ -1051,17 +1051,17 @@ public class AnalyticsQueryService : IDisposable
         if (!exchangeAddresses.Any())
             return (0, 0, 0, 0);
 
-        var addressList = string.Join("','", exchangeAddresses.Select(e => e.Address));
-
         await using var cmd = _connection.CreateCommand();
         cmd.CommandText = $@"
             SELECT
-                sumIf(amount, dest_address IN ('{addressList}')) as inflow_volume,
-                countIf(dest_address IN ('{addressList}')) as inflow_count,
-                sumIf(amount, source_address IN ('{addressList}')) as outflow_volume,
-                countIf(source_address IN ('{addressList}')) as outflow_count
+                sumIf(amount, {ExchangeFlowSql.IsExchange("dest_address")}) as inflow_volume,
+                countIf({ExchangeFlowSql.IsExchange("dest_address")}) as inflow_count,
+                sumIf(amount, {ExchangeFlowSql.IsExchange("source_address")}) as outflow_volume,
+                countIf({ExchangeFlowSql.IsExchange("source_address")}) as outflow_count
             FROM logs
-            WHERE log_type = 0 AND amount > 0 AND epoch = {epoch}";
+            WHERE log_type = 0 AND amount > 0 AND {ExchangeFlowSql.NotInternalSweep}
+              AND epoch = {epoch}";
+        AddParam(cmd, ExchangeFlowSql.ExchangesParam, exchangeAddresses.Select(e => e.Address).ToArray());
 
         await using var reader = await cmd.ExecuteReaderAsync(ct);
         if (await reader.ReadAsync(ct))
@@ -1089,17 +1089,17 @@ public class AnalyticsQueryService : IDisposable
         if (!exchangeAddresses.Any())
             return (0, 0, 0, 0);
 
-        var addressList = string.Join("','", exchangeAddresses.Select(e => e.Address));
-
         await using var cmd = _connection.CreateCommand();
         cmd.CommandText = $@"
             SELECT
-                sumIf(amount, dest_address IN ('{addressList}')) as inflow_volume,
-                countIf(dest_address IN ('{addressList}')) as inflow_count,
-                sumIf(amount, source_address IN ('{addressList}')) as outflow_volume,
-                countIf(source_address IN ('{addressList}')) as outflow_count
+                sumIf(amount, {ExchangeFlowSql.IsExchange("dest_address")}) as inflow_volume,
+                countIf({ExchangeFlowSql.IsExchange("dest_address")}) as inflow_count,
+                sumIf(amount, {ExchangeFlowSql.IsExchange("source_address")}) as outflow_volume,
+                countIf({ExchangeFlowSql.IsExchange("source_address")}) as outflow_count
             FROM logs
-            WHERE log_type = 0 AND amount > 0 AND tick_number >= {tickStart} AND tick_number <= {tickEnd}";
+            WHERE log_type = 0 AND amount > 0 AND {ExchangeFlowSql.NotInternalSweep}
+              AND tick_number >= {tickStart} AND tick_number <= {tickEnd}";
+        AddParam(cmd, ExchangeFlowSql.ExchangesParam, exchangeAddresses.Select(e => e.Address).ToArray());
 
         await using var reader = await cmd.ExecuteReaderAsync(ct);
         if (await reader.ReadAsync(ct))
@@ -2565,6 +2565,12 @@ public class AnalyticsQueryService : IDisposable
         return value.Replace("'", "\\'").Replace("\\", "\\\\");
     }
 
+    private static void AddParam(System.Data.Common.DbCommand cmd, string name, object value)
+    {
+        cmd.Parameters.Add(new ClickHouse.Client.ADO.Parameters.ClickHouseDbParameter
+            { ParameterName = name, Value = value });
+    }
+
     // =====================================================
     // FLOW DATA DELETION
     // =====================================================
@@ -10,6 +10,7 @@ namespace QubicExplorer.Analytics.Services;
 /// - Network stats (transactions, active addresses, exchange flows, SC usage)
 /// - Burn stats (QU burned via BurnQubic SC, dust burns, direct transfers)
 /// - Miner flow (computor emission tracking through multiple hops)
+/// - Entity clustering (deposit, payout and co-spending groups; every few hours)
 ///
 /// On startup, catches up on any missed snapshots by creating all windows
 /// from the last snapshot until the current time.
@@ -68,6 +69,13 @@ public class AnalyticsSnapshotService : BackgroundService
                             await Task.Delay(100, stoppingToken);
                     });
 
+                    // Before network stats, so their exchange flows include clustered deposit addresses
+                    await RunStepAsync("Entity clustering", _options.EnableEntityClustering, () =>
+                    {
+                        var clusteringService = scope.ServiceProvider.GetRequiredService<EntityClusteringService>();
+                        return clusteringService.RunIfDueAsync(currentEpoch.Value, stoppingToken);
+                    });
+
                     await RunStepAsync("Network stats", _options.EnableNetworkStats, async () =>
                     {
                         while (!stoppingToken.IsCancellationRequested &&
@@ -0,0 +1,62 @@
+using ClickHouse.Client.ADO;
+using Microsoft.Extensions.Options;
+using QubicExplorer.Shared.Configuration;
+using QubicExplorer.Shared.Services;
+
+namespace QubicExplorer.Analytics.Services;
+
+/// <summary>
+/// Loads the community labels approved through the API into
+/// <see cref="AddressLabelService"/>, so exchange flows and entity clustering
+/// see the same labels as the explorer. Loaded at startup, then reloaded
+/// periodically.
+/// </summary>
+public class CommunityLabelRefreshService : BackgroundService
+{
+    private readonly ClickHouseConnection _connection;
+    private readonly AddressLabelService _labelService;
+    private readonly ILogger<CommunityLabelRefreshService> _logger;
+
+    public CommunityLabelRefreshService(
+        IOptions<ClickHouseOptions> chOptions,
+        AddressLabelService labelService,
+        ILogger<CommunityLabelRefreshService> logger)
+    {
+        _logger = logger;
+        _labelService = labelService;
+        _connection = new ClickHouseConnection(chOptions.Value.ConnectionString);
+    }
+
+    public async Task LoadAsync(CancellationToken ct = default)
+    {
+        if (_connection.State != System.Data.ConnectionState.Open)
+            await _connection.OpenAsync(ct);
+
+        var labels = await CommunityLabelLoader.LoadAsync(_connection, ct);
+        _labelService.SetCommunityLabels(labels);
+        _logger.LogDebug("Loaded {Count} community labels", labels.Count);
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        while (!stoppingToken.IsCancellationRequested)
+        {
+            await Task.Delay(CommunityLabelLoader.RefreshInterval, stoppingToken);
+
+            try
+            {
+                await LoadAsync(stoppingToken);
+            }
+            catch (Exception ex) when (ex is not OperationCanceledException)
+            {
+                _logger.LogError(ex, "Error reloading community labels");
+            }
+        }
+    }
+
+    public override void Dispose()
+    {
+        _connection.Dispose();
+        base.Dispose();
+    }
+}
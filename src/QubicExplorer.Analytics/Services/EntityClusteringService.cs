@@ -0,0 +1,224 @@
+using ClickHouse.Client.ADO;
+using ClickHouse.Client.Copy;
+using Microsoft.Extensions.Options;
+using QubicExplorer.Analytics.Configuration;
+using QubicExplorer.Shared.Configuration;
+using QubicExplorer.Shared.DTOs;
+using QubicExplorer.Shared.Services;
+
+namespace QubicExplorer.Analytics.Services;
+
+/// <summary>
+/// Groups addresses into entities from the transfers of the last few epochs
+/// (see <see cref="EntityClustering"/> for the heuristics) and writes each run
+/// as a snapshot into entity_members, recording it in entity_runs once it is
+/// complete. The API reloads the latest complete snapshot and
+/// attaches entities to label lookups; exchange flows read the deposit
+/// addresses from the table (see <see cref="ExchangeFlowSql"/>).
+/// </summary>
+public class EntityClusteringService : IDisposable
+{
+    private readonly ClickHouseConnection _connection;
+    private readonly AddressLabelService _labelService;
+    private readonly AnalyticsOptions _options;
+    private readonly ILogger<EntityClusteringService> _logger;
+    private bool _disposed;
+
+    // Qutil contract index and its SendToManyV1 procedure
+    private const int QutilContractIndex = 4;
+    private const int QutilSendToManyInputType = 1;
+
+    public EntityClusteringService(
+        IOptions<ClickHouseOptions> chOptions,
+        IOptions<AnalyticsOptions> options,
+        AddressLabelService labelService,
+        ILogger<EntityClusteringService> logger)
+    {
+        _logger = logger;
+        _labelService = labelService;
+        _options = options.Value;
+        _connection = new ClickHouseConnection(chOptions.Value.ConnectionString);
+        _connection.Open();
+    }
+
+    /// <summary>
+    /// Recompute the entities when the last run is older than the configured
+    /// interval. Returns whether a run happened.
+    /// </summary>
+    public async Task<bool> RunIfDueAsync(uint currentEpoch, CancellationToken ct)
+    {
+        var last = _labelService.EntitiesComputedAt ?? await LoadLatestAsync(ct);
+        if (last != null && DateTime.UtcNow - last.Value < TimeSpan.FromHours(_options.EntityClusteringIntervalHours))
+            return false;
+
+        await _labelService.EnsureFreshDataAsync();
+        var fromEpoch = currentEpoch >= (uint)_options.EntityClusteringEpochs
+            ? currentEpoch - (uint)_options.EntityClusteringEpochs + 1
+            : 0;
+
+        var sweeps = await GetSweepStatsAsync(fromEpoch, ct);
+        var payouts = await GetPayoutBatchesAsync(fromEpoch, ct);
+        var coSpends = await GetCoSpendsAsync(fromEpoch, ct);
+
+        var entities = EntityClustering.Cluster(_labelService.GetAddressInfo, sweeps, payouts, coSpends);
+        var computedAt = DateTime.UtcNow;
+        await SaveAsync(entities, computedAt, ct);
+        _labelService.SetEntities(entities, computedAt);
+
+        _logger.LogInformation(
+            "Entity clustering: {Entities} entities with {Members} addresses from epochs {From}-{To} " +
+            "({Sweeps} sweep candidates, {Payouts} payouts, {CoSpends} co-spends)",
+            entities.Count, entities.Sum(e => e.Members.Count), fromEpoch, currentEpoch,
+            sweeps.Count, payouts.Count, coSpends.Count);
+        return true;
+    }
+
+    /// <summary>
+    /// Load the latest stored run into the label service, returning when it
+    /// was computed, or null when nothing has been stored yet.
+    /// </summary>
+    private async Task<DateTime?> LoadLatestAsync(CancellationToken ct)
+    {
+        if (await EntitySnapshotLoader.LoadLatestAsync(_connection, ct) is not { } latest)
+            return null;
+
+        _labelService.SetEntities(latest.Entities, latest.ComputedAt);
+        return latest.ComputedAt;
+    }
+
+    private async Task<List<EntityClustering.SweepStats>> GetSweepStatsAsync(uint fromEpoch, CancellationToken ct)
+    {
+        // Per source: its main destination by volume and that destination's share
+        await using var cmd = _connection.CreateCommand();
+        cmd.CommandText = @"
+            SELECT
+                source_address,
+                argMax(dest_address, volume) AS destination,
+                toUInt32(argMax(transfers, volume)) AS sweeps,
+                max(volume) / sum(volume) AS share
+            FROM (
+                SELECT source_address, dest_address, sum(amount) AS volume, count() AS transfers
+                FROM logs
+                PREWHERE log_type = 0
+                WHERE amount > 0 AND epoch >= {fromEpoch:UInt32}
+                GROUP BY source_address, dest_address
+            )
+            GROUP BY source_address
+            HAVING sweeps >= {minSweeps:UInt32} AND share >= {minShare:Float64}";
+        AddParam(cmd, "fromEpoch", fromEpoch);
+        AddParam(cmd, "minSweeps", (uint)EntityClustering.MinSweeps);
+        AddParam(cmd, "minShare", EntityClustering.MinSweepShare);
+
+        var result = new List<EntityClustering.SweepStats>();
+        await using var reader = await cmd.ExecuteReaderAsync(ct);
+        while (await reader.ReadAsync(ct))
+        {
+            result.Add(new EntityClustering.SweepStats(
+                reader.GetString(0), reader.GetString(1),
+                reader.GetFieldValue<uint>(2), reader.GetDouble(3)));
+        }
+        return result;
+    }
+
+    private async Task<List<EntityClustering.PayoutBatch>> GetPayoutBatchesAsync(uint fromEpoch, CancellationToken ct)
+    {
+        var qutilAddress = _labelService.GetAddressesByType(AddressType.SmartContract)
+            .FirstOrDefault(sc => sc.ContractIndex == QutilContractIndex)?.Address;
+        if (qutilAddress == null)
+        {
+            _logger.LogWarning("Entity clustering: Qutil address not labelled, skipping payout heuristic");
+            return [];
+        }
+
+        await using var cmd = _connection.CreateCommand();
+        cmd.CommandText = $@"
+            SELECT from_address, input_data
+            FROM transactions
+            WHERE to_address = {{qutil:String}}
+              AND input_type = {QutilSendToManyInputType}
+              AND executed = 1
+              AND epoch >= {{fromEpoch:UInt32}}";
+        AddParam(cmd, "qutil", qutilAddress);
+        AddParam(cmd, "fromEpoch", fromEpoch);
+
+        var result = new List<EntityClustering.PayoutBatch>();
+        await using var reader = await cmd.ExecuteReaderAsync(ct);
+        while (await reader.ReadAsync(ct))
+        {
+            var recipients = ComputorFlowService.ParseQutilSendToManyPayload(reader.GetString(1))
+                .Select(d => d.Address)
+                .ToList();
+            if (recipients.Count > 0)
+                result.Add(new EntityClustering.PayoutBatch(reader.GetString(0), recipients));
+        }
+        return result;
+    }
+
+    private async Task<List<EntityClustering.CoSpend>> GetCoSpendsAsync(uint fromEpoch, CancellationToken ct)
+    {
+        await using var cmd = _connection.CreateCommand();
+        cmd.CommandText = @"
+            SELECT tick_number, dest_address, groupUniqArray(source_address) AS sources
+            FROM logs
+            PREWHERE log_type = 0
+            WHERE amount > 0 AND epoch >= {fromEpoch:UInt32}
+            GROUP BY tick_number, dest_address
+            HAVING length(sources) BETWEEN 2 AND {maxSources:UInt32}";
+        AddParam(cmd, "fromEpoch", fromEpoch);
+        AddParam(cmd, "maxSources", (uint)EntityClustering.MaxCoSpendSources);
+
+        var result = new List<EntityClustering.CoSpend>();
+        await using var reader = await cmd.ExecuteReaderAsync(ct);
+        while (await reader.ReadAsync(ct))
+        {
+            result.Add(new EntityClustering.CoSpend(
+                reader.GetFieldValue<ulong>(0), reader.GetString(1), (string[])reader.GetValue(2)));
+        }
+        return result;
+    }
+
+    private async Task SaveAsync(List<EntityCluster> entities, DateTime computedAt, CancellationToken ct)
+    {
+        var rows = entities
+            .SelectMany(e => e.Members.Select(m => new object[]
+            {
+                computedAt, e.Id, e.Label ?? "", e.Type, m.Address, m.Role, m.Evidence
+            }))
+            .ToList();
+        if (rows.Count == 0) return;
+
+        using var bulk = new ClickHouseBulkCopy(_connection)
+        {
+            DestinationTableName = "entity_members",
+            ColumnNames = ["computed_at", "entity_id", "entity_label", "entity_type", "address", "role", "evidence"],
+            BatchSize = 50_000
+        };
+        await bulk.InitAsync();
+        await bulk.WriteToServerAsync(rows, ct);
+
+        // Readers only see the run once it is recorded, so a partial write is never loaded
+        await using var runCmd = _connection.CreateCommand();
+        runCmd.CommandText = @"
+            INSERT INTO entity_runs (computed_at, entity_count, member_count)
+            VALUES ({computedAt:DateTime64(3)}, {entityCount:UInt32}, {memberCount:UInt32})";
+        AddParam(runCmd, "computedAt", computedAt);
+        AddParam(runCmd, "entityCount", (uint)entities.Count);
+        AddParam(runCmd, "memberCount", (uint)rows.Count);
+        await runCmd.ExecuteNonQueryAsync(ct);
+    }
+
+    private static void AddParam(System.Data.Common.DbCommand cmd, string name, object value)
+    {
+        var p = cmd.CreateParameter();
+        p.ParameterName = name;
+        p.Value = value;
+        cmd.Parameters.Add(p);
+    }
+
+    public void Dispose()
+    {
+        if (_disposed) return;
+        _disposed = true;
+        _connection.Dispose();
+    }
+}
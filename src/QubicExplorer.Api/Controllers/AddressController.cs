@@ -53,15 +53,18 @@ public class AddressController : ControllerBase
         [FromQuery] string? direction = null,
         [FromQuery] ulong? minAmount = null,
         [FromQuery] bool? executed = null,
+        [FromQuery] int? inputType = null,
+        [FromQuery] string? toAddress = null,
+        [FromQuery] bool detailed = false,
         CancellationToken ct = default)
     {
         if (page < 1) page = 1;
         if (limit < 1 || limit > 100) limit = 20;
 
         var result = await _cache.GetOrSetAsync(
-            $"address:tx:{address}:{page}:{limit}:{direction}:{minAmount}:{executed}",
+            $"address:tx:{address}:{page}:{limit}:{direction}:{minAmount}:{executed}:{inputType}:{toAddress}:{detailed}",
             AnalyticsCacheService.AddressSummaryTtl,
-            () => _queryService.GetTransactionsAsync(page, limit, address, direction, minAmount, executed, ct: ct));
+            () => _queryService.GetTransactionsAsync(page, limit, address, direction, minAmount, executed, inputType, toAddress, detailed: detailed, ct: ct));
         return Ok(result);
     }
 
@@ -352,6 +355,38 @@ public class AddressController : ControllerBase
 
         return Ok(results);
     }
+
+    /// <summary>
+    /// Per-epoch balance history for multiple addresses (for portfolio view):
+    /// opening/closing balance and QU in/out for each of the last N epochs.
+    /// </summary>
+    [HttpPost("balance-history")]
+    public async Task<IActionResult> GetBalanceHistory(
+        [FromBody] BalanceHistoryRequest request,
+        CancellationToken ct = default)
+    {
+        if (request.Addresses == null || request.Addresses.Count == 0)
+            return BadRequest("No addresses provided");
+
+        if (request.Addresses.Count > 20)
+            return BadRequest("Maximum 20 addresses per batch request");
+
+        var epochs = Math.Clamp(request.Epochs ?? 20, 1, 100);
+        var currentEpoch = await _queryService.GetCurrentEpochAsync(ct) ?? 0;
+        if (currentEpoch == 0)
+            return NotFound("No epoch data available");
+
+        var fromEpoch = (uint)Math.Max(1, (int)currentEpoch - epochs + 1);
+        var addresses = request.Addresses.Distinct().Order().ToList();
+
+        var result = await _cache.GetOrSetAsync(
+            $"address:balance-history:{currentEpoch}:{epochs}:{string.Join(",", addresses)}",
+            AnalyticsCacheService.AddressSummaryTtl,
+            () => _queryService.GetAddressBalanceHistoryAsync(addresses, fromEpoch, currentEpoch, ct));
+        return Ok(result);
+    }
 }
 
 public record BatchAddressRequest(List<string> Addresses);
+
+public record BalanceHistoryRequest(List<string> Addresses, int? Epochs = null);
@@ -0,0 +1,45 @@
+using Microsoft.AspNetCore.Mvc;
+using QubicExplorer.Shared.DTOs;
+using QubicExplorer.Shared.Services;
+
+namespace QubicExplorer.Api.Controllers;
+
+/// <summary>
+/// Address entities from the analytics clustering heuristics. Label lookups
+/// carry the entity id of an address; this returns the whole entity.
+/// </summary>
+[ApiController]
+[Route("api/[controller]")]
+public class EntitiesController : ControllerBase
+{
+    private readonly AddressLabelService _labelService;
+
+    public EntitiesController(AddressLabelService labelService)
+    {
+        _labelService = labelService;
+    }
+
+    [HttpGet("{id}")]
+    public async Task<IActionResult> GetEntity(string id)
+    {
+        await _labelService.EnsureFreshDataAsync();
+        var entity = _labelService.GetEntity(id);
+        if (entity == null)
+            return NotFound(new { error = "Entity not found" });
+
+        var labels = _labelService.GetLabelsForAddresses(entity.Members.Select(m => m.Address));
+        var members = entity.Members
+            .Select(m =>
+            {
+                var info = labels.GetValueOrDefault(m.Address);
+                return new EntityMemberDto(
+                    m.Address, m.Role, m.Evidence,
+                    info?.Label, info?.Type.ToString().ToLowerInvariant() ?? "unknown");
+            })
+            .ToList();
+
+        return Ok(new EntityDto(
+            entity.Id, entity.Label, entity.Type, members.Count,
+            _labelService.EntitiesComputedAt ?? DateTime.UtcNow, members));
+    }
+}
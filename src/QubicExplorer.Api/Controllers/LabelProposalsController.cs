@@ -0,0 +1,130 @@
+using System.Security.Cryptography;
+using System.Text;
+using Microsoft.AspNetCore.Mvc;
+using QubicExplorer.Api.Attributes;
+using QubicExplorer.Api.Services;
+using QubicExplorer.Shared.DTOs;
+using QubicExplorer.Shared.Services;
+
+namespace QubicExplorer.Api.Controllers;
+
+/// <summary>
+/// Community label proposals, their review and the public label changelog.
+/// </summary>
+[ApiController]
+[Route("api/labels")]
+public class LabelProposalsController : ControllerBase
+{
+    private readonly LabelModerationService _moderation;
+    private readonly AddressLabelService _labelService;
+
+    public LabelProposalsController(LabelModerationService moderation, AddressLabelService labelService)
+    {
+        _moderation = moderation;
+        _labelService = labelService;
+    }
+
+    /// <summary>
+    /// Propose a label for an address. It is shown once an admin approves it.
+    /// </summary>
+    [HttpPost("proposals")]
+    public async Task<IActionResult> Submit([FromBody] LabelProposalRequest request, CancellationToken ct)
+    {
+        await _labelService.EnsureFreshDataAsync();
+        var error = LabelProposalRules.Validate(request, _labelService.GetAddressInfo(request.Address));
+        if (error != null)
+            return BadRequest(new { error });
+
+        var (proposal, limitError) = await _moderation.SubmitAsync(request, SubmitterHash(), ct);
+        if (proposal == null)
+            return StatusCode(StatusCodes.Status429TooManyRequests, new { error = limitError });
+
+        return Ok(proposal);
+    }
+
+    /// <summary>
+    /// The moderation queue, oldest first for pending proposals.
+    /// </summary>
+    [HttpGet("proposals")]
+    [AdminApiKey]
+    public async Task<IActionResult> List(
+        [FromQuery] string? status = LabelProposalRules.StatusPending,
+        [FromQuery] int page = 1,
+        [FromQuery] int limit = 50,
+        CancellationToken ct = default)
+    {
+        page = Math.Max(1, page);
+        limit = Math.Clamp(limit, 1, 200);
+        return Ok(await _moderation.ListAsync(status, page, limit, ct));
+    }
+
+    [HttpPost("proposals/{id}/approve")]
+    [AdminApiKey]
+    public Task<IActionResult> Approve(string id, [FromBody] LabelReviewRequest? request, CancellationToken ct) =>
+        ReviewAsync(id, LabelProposalRules.StatusApproved, request?.Note, ct);
+
+    [HttpPost("proposals/{id}/reject")]
+    [AdminApiKey]
+    public Task<IActionResult> Reject(string id, [FromBody] LabelReviewRequest? request, CancellationToken ct) =>
+        ReviewAsync(id, LabelProposalRules.StatusRejected, request?.Note, ct);
+
+    /// <summary>
+    /// Remove the community label of an address, falling back to the bundle's label.
+    /// </summary>
+    [HttpDelete("community/{address}")]
+    [AdminApiKey]
+    public async Task<IActionResult> Revoke(string address, [FromQuery] string? note, CancellationToken ct)
+    {
+        var revoked = await _moderation.RevokeAsync(address, note, ct);
+        if (revoked == 0)
+            return NotFound(new { error = "The address has no community label" });
+
+        return Ok(new { revoked, version = _labelService.Version });
+    }
+
+    /// <summary>
+    /// Label changes, newest first, optionally for one address.
+    /// </summary>
+    [HttpGet("changes")]
+    public async Task<IActionResult> GetChanges(
+        [FromQuery] string? address = null,
+        [FromQuery] int page = 1,
+        [FromQuery] int limit = 50,
+        CancellationToken ct = default)
+    {
+        page = Math.Max(1, page);
+        limit = Math.Clamp(limit, 1, 200);
+        return Ok(await _moderation.GetChangesAsync(address, page, limit, ct));
+    }
+
+    private async Task<IActionResult> ReviewAsync(string id, string status, string? note, CancellationToken ct)
+    {
+        if (note is { Length: > LabelProposalRules.MaxNoteLength })
+            return BadRequest(new { error = $"Note exceeds {LabelProposalRules.MaxNoteLength} characters" });
+
+        var stored = await _moderation.GetAsync(id, ct);
+        if (stored == null)
+            return NotFound(new { error = "Proposal not found" });
+
+        // The address may have become a contract since the proposal was made
+        if (status == LabelProposalRules.StatusApproved &&
+            !LabelProposalRules.CanRelabel(_labelService.GetAddressInfo(stored.Value.Proposal.Address)))
+            return Conflict(new { error = "Smart contract and burn addresses cannot be relabeled" });
+
+        // Only a still pending proposal is reviewed, so concurrent reviews conflict
+        var (reviewed, error) = await _moderation.ReviewAsync(id, status, note, ct);
+        if (error != null)
+            return Conflict(new { error });
+
+        return Ok(new { proposal = reviewed, version = _labelService.Version });
+    }
+
+    private string SubmitterHash()
+    {
+        // Behind a known proxy UseForwardedHeaders has already put the client
+        // address here; headers from anyone else are ignored. Only the hash is stored
+        var ip = HttpContext.Connection.RemoteIpAddress?.ToString() ?? "";
+        var hash = SHA256.HashData(Encoding.UTF8.GetBytes(ip));
+        return Convert.ToHexString(hash)[..32].ToLowerInvariant();
+    }
+}
@@ -19,19 +19,7 @@ public class LabelsController : ControllerBase
     public async Task<IActionResult> GetLabel(string address)
     {
         await _labelService.EnsureFreshDataAsync();
-        var info = _labelService.GetAddressInfo(address);
-
-        if (info == null)
-            return Ok(new { address, label = (string?)null, type = "unknown" });
-
-        return Ok(new
-        {
-            address,
-            label = info.Label,
-            type = info.Type.ToString().ToLowerInvariant(),
-            contractIndex = info.ContractIndex,
-            website = info.Website
-        });
+        return Ok(ToLabel(address, _labelService.GetAddressInfo(address)));
     }
 
     [HttpPost("batch")]
@@ -46,18 +34,7 @@ public class LabelsController : ControllerBase
         await _labelService.EnsureFreshDataAsync();
         var labels = _labelService.GetLabelsForAddresses(addresses);
 
-        var result = addresses.Select(addr =>
-        {
-            labels.TryGetValue(addr, out var info);
-            return new
-            {
-                address = addr,
-                label = info?.Label,
-                type = info?.Type.ToString().ToLowerInvariant() ?? "unknown",
-                contractIndex = info?.ContractIndex,
-                website = info?.Website
-            };
-        });
+        var result = addresses.Select(addr => ToLabel(addr, labels.GetValueOrDefault(addr)));
 
         return Ok(result);
     }
@@ -68,7 +45,23 @@ public class LabelsController : ControllerBase
         return Ok(new
         {
             totalLabels = _labelService.LabelCount,
-            byType = _labelService.GetTypeCounts()
+            byType = _labelService.GetTypeCounts(),
+            version = _labelService.Version
+        });
+    }
+
+    /// <summary>
+    /// Version of the label set; clients drop their cached labels when it changes.
+    /// </summary>
+    [HttpGet("version")]
+    public async Task<IActionResult> GetVersion()
+    {
+        await _labelService.EnsureFreshDataAsync();
+        return Ok(new
+        {
+            version = _labelService.Version,
+            updatedAt = _labelService.LastUpdated,
+            totalLabels = _labelService.LabelCount
         });
     }
 
@@ -87,10 +80,32 @@ public class LabelsController : ControllerBase
         return Ok(new
         {
             totalLabels = _labelService.LabelCount,
+            version = _labelService.Version,
             message = "Labels refreshed successfully"
         });
     }
 
+    /// <summary>
+    /// Label of an address with the entity it was clustered into, so clients
+    /// can name unlabelled members after the entity (e.g. an exchange deposit).
+    /// </summary>
+    private object ToLabel(string address, AddressInfo? info)
+    {
+        var membership = _labelService.GetEntityMembership(address);
+        return new
+        {
+            address,
+            label = info?.Label,
+            type = info?.Type.ToString().ToLowerInvariant() ?? "unknown",
+            contractIndex = info?.ContractIndex,
+            website = info?.Website,
+            entityId = membership?.Entity.Id,
+            entityLabel = membership?.Entity.Label,
+            entityType = membership?.Entity.Type,
+            entityRole = membership?.Member.Role
+        };
+    }
+
     [HttpGet("procedure/{contractAddress}/{inputType:int}")]
     public async Task<IActionResult> GetProcedureName(string contractAddress, int inputType)
     {
@@ -1,17 +1,22 @@
+using System.Text.RegularExpressions;
 using Microsoft.AspNetCore.Mvc;
 using QubicExplorer.Api.Services;
+using QubicExplorer.Shared.DTOs;
+using QubicExplorer.Shared.Services;
 
 namespace QubicExplorer.Api.Controllers;
 
 [ApiController]
 [Route("api/notifications")]
-public class NotificationController : ControllerBase
+public partial class NotificationController : ControllerBase
 {
     private readonly WebPushService _pushService;
+    private readonly WebhookDeliveryService _webhookService;
 
-    public NotificationController(WebPushService pushService)
+    public NotificationController(WebPushService pushService, WebhookDeliveryService webhookService)
     {
         _pushService = pushService;
+        _webhookService = webhookService;
     }
 
     /// <summary>
@@ -24,72 +29,139 @@ public class NotificationController : ControllerBase
     }
 
     /// <summary>
-    /// Subscribe to push notifications for the given addresses.
+    /// Subscribe to push notifications for the given addresses. When rules are
+    /// given they decide what is sent; otherwise the fixed event types and
+    /// thresholds apply. Webhooks receive the same events; without a browser
+    /// subscription they are the only delivery target, registered under a
+    /// client-generated webhook key so the ID survives changes to the targets.
     /// </summary>
     [HttpPost("subscribe")]
     public async Task<IActionResult> Subscribe(
         [FromBody] PushSubscribeRequest request,
         CancellationToken ct)
     {
-        if (request.Subscription == null || string.IsNullOrEmpty(request.Subscription.Endpoint))
-            return BadRequest("Invalid subscription");
+        var hasEndpoint = !string.IsNullOrEmpty(request.Subscription?.Endpoint);
+        var webhooks = request.Webhooks ?? [];
+        if (!hasEndpoint && webhooks.Count == 0)
+            return BadRequest(new { error = "Invalid subscription" });
+
+        if (!hasEndpoint && (request.WebhookKey == null || !WebhookKeyPattern().IsMatch(request.WebhookKey)))
+            return BadRequest(new { error = "Webhook-only subscriptions need a webhook key of 32-128 characters [A-Za-z0-9_-]" });
 
         if (request.Addresses == null || request.Addresses.Length == 0)
-            return BadRequest("At least one address is required");
+            return BadRequest(new { error = "At least one address is required" });
 
         if (request.Addresses.Length > 20)
-            return BadRequest("Maximum 20 addresses per subscription");
+            return BadRequest(new { error = "Maximum 20 addresses per subscription" });
+
+        if (request.Rules != null && NotificationRuleEvaluator.Validate(request.Rules) is { } ruleError)
+            return BadRequest(new { error = ruleError });
+
+        if (WebhookProtocol.Validate(webhooks) is { } webhookError)
+            return BadRequest(new { error = webhookError });
 
-        // Generate a subscription ID from the endpoint hash
-        var subscriptionId = GenerateSubscriptionId(request.Subscription.Endpoint);
+        // Generate a subscription ID from the endpoint hash; webhook-only
+        // subscriptions hash the key, which only the registering client knows
+        var subscriptionId = hasEndpoint
+            ? GenerateSubscriptionId(request.Subscription!.Endpoint)
+            : GenerateSubscriptionId("webhooks:" + request.WebhookKey);
 
         await _pushService.SaveSubscriptionAsync(
             subscriptionId,
-            request.Subscription.Endpoint,
-            request.Subscription.Keys.P256dh,
-            request.Subscription.Keys.Auth,
+            hasEndpoint ? request.Subscription!.Endpoint : "",
+            request.Subscription?.Keys?.P256dh ?? "",
+            request.Subscription?.Keys?.Auth ?? "",
             request.Addresses,
             request.Events ?? ["incoming", "outgoing", "large_transfer"],
             request.LargeTransferThreshold > 0 ? request.LargeTransferThreshold : 1_000_000_000,
             request.BalanceMinThreshold,
             request.BalanceMaxThreshold,
+            request.Rules,
+            webhooks,
             ct);
 
         return Ok(new { subscriptionId });
     }
 
     /// <summary>
-    /// Unsubscribe from push notifications.
+    /// Unsubscribe by push endpoint, or by subscription ID for webhook-only subscriptions.
     /// </summary>
     [HttpPost("unsubscribe")]
     public async Task<IActionResult> Unsubscribe(
         [FromBody] PushUnsubscribeRequest request,
         CancellationToken ct)
     {
-        if (string.IsNullOrEmpty(request.Endpoint))
-            return BadRequest("Endpoint is required");
+        string subscriptionId;
+        if (!string.IsNullOrEmpty(request.Endpoint))
+            subscriptionId = GenerateSubscriptionId(request.Endpoint);
+        else if (IsSubscriptionId(request.SubscriptionId))
+            subscriptionId = request.SubscriptionId!;
+        else
+            return BadRequest(new { error = "Endpoint or subscription ID is required" });
 
-        var subscriptionId = GenerateSubscriptionId(request.Endpoint);
         await _pushService.RemoveSubscriptionAsync(subscriptionId, ct);
 
         return Ok(new { removed = true });
     }
 
+    /// <summary>
+    /// Send a test event to a webhook target right away (single attempt, not logged).
+    /// </summary>
+    [HttpPost("webhooks/test")]
+    public async Task<IActionResult> TestWebhook(
+        [FromBody] WebhookTargetDto target,
+        CancellationToken ct)
+    {
+        if (WebhookProtocol.Validate([target]) is { } error)
+            return BadRequest(new { error });
+
+        var testEvent = new WebhookEventDto(
+            Guid.NewGuid().ToString("N"), "test", "", "test", "Test", "",
+            "Test webhook", "This is a test event from QLI Analytics", DateTime.UtcNow);
+        var result = await _webhookService.SendTestAsync(target, testEvent, ct);
+        return Ok(result);
+    }
+
+    /// <summary>
+    /// Recent webhook delivery attempts of a subscription, newest first.
+    /// </summary>
+    [HttpGet("{subscriptionId}/webhook-deliveries")]
+    public async Task<IActionResult> GetWebhookDeliveries(
+        string subscriptionId,
+        [FromQuery] int limit = 50,
+        CancellationToken ct = default)
+    {
+        if (!IsSubscriptionId(subscriptionId))
+            return BadRequest(new { error = "Invalid subscription ID" });
+
+        var deliveries = await _webhookService.GetDeliveriesAsync(subscriptionId, Math.Clamp(limit, 1, 200), ct);
+        return Ok(deliveries);
+    }
+
+    private static bool IsSubscriptionId(string? value) =>
+        value is { Length: 32 } && value.All(Uri.IsHexDigit);
+
     private static string GenerateSubscriptionId(string endpoint)
     {
         var hash = System.Security.Cryptography.SHA256.HashData(
             System.Text.Encoding.UTF8.GetBytes(endpoint));
         return Convert.ToHexString(hash)[..32].ToLowerInvariant();
     }
+
+    [GeneratedRegex("^[A-Za-z0-9_-]{32,128}$")]
+    private static partial Regex WebhookKeyPattern();
 }
 
 public record PushSubscribeRequest(
-    PushSubscriptionData Subscription,
+    PushSubscriptionData? Subscription,
     string[] Addresses,
     string[]? Events = null,
     ulong LargeTransferThreshold = 1_000_000_000,
     ulong BalanceMinThreshold = 0,
-    ulong BalanceMaxThreshold = 0
+    ulong BalanceMaxThreshold = 0,
+    List<NotificationRuleDto>? Rules = null,
+    List<WebhookTargetDto>? Webhooks = null,
+    string? WebhookKey = null
 );
 
 public record PushSubscriptionData(
@@ -102,4 +174,4 @@ public record PushSubscriptionKeys(
     string Auth
 );
 
-public record PushUnsubscribeRequest(string Endpoint);
+public record PushUnsubscribeRequest(string? Endpoint = null, string? SubscriptionId = null);
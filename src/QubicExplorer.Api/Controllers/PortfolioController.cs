@@ -0,0 +1,100 @@
+using System.Text.Json;
+using System.Text.RegularExpressions;
+using Microsoft.AspNetCore.Mvc;
+using QubicExplorer.Api.Services;
+
+namespace QubicExplorer.Api.Controllers;
+
+[ApiController]
+[Route("api/portfolio")]
+public partial class PortfolioController : ControllerBase
+{
+    private const string TokenHeaderName = "X-Portfolio-Token";
+    private const int MaxDocumentLength = 256 * 1024;
+
+    private readonly PortfolioSyncService _syncService;
+
+    public PortfolioController(PortfolioSyncService syncService)
+    {
+        _syncService = syncService;
+    }
+
+    /// <summary>
+    /// Get the synced portfolio for the token in the X-Portfolio-Token header.
+    /// </summary>
+    [HttpGet("sync")]
+    public async Task<IActionResult> GetSynced(CancellationToken ct)
+    {
+        if (!TryGetTokenHash(out var tokenHash))
+            return BadRequest(new { error = $"A valid {TokenHeaderName} header is required" });
+
+        var record = await _syncService.GetAsync(tokenHash, ct);
+        if (record == null)
+            return NotFound(new { error = "Nothing synced for this token yet" });
+
+        return Ok(ToDto(record));
+    }
+
+    /// <summary>
+    /// Store the portfolio for the token. Rejected with 409 and the stored
+    /// copy when the stored copy was changed more recently.
+    /// </summary>
+    [HttpPut("sync")]
+    public async Task<IActionResult> PutSynced(
+        [FromBody] PortfolioSyncDto request,
+        CancellationToken ct)
+    {
+        if (!TryGetTokenHash(out var tokenHash))
+            return BadRequest(new { error = $"A valid {TokenHeaderName} header is required" });
+
+        if (request.Document.ValueKind != JsonValueKind.Object)
+            return BadRequest(new { error = "Document must be a JSON object" });
+
+        var document = request.Document.GetRawText();
+        if (document.Length > MaxDocumentLength)
+            return BadRequest(new { error = $"Document exceeds {MaxDocumentLength / 1024} KB" });
+
+        var stored = await _syncService.GetAsync(tokenHash, ct);
+        if (stored != null && stored.UpdatedAt > request.UpdatedAt)
+            return Conflict(ToDto(stored));
+
+        await _syncService.SaveAsync(tokenHash, document, request.UpdatedAt, ct);
+        return Ok(new { updatedAt = request.UpdatedAt });
+    }
+
+    /// <summary>
+    /// Delete the synced portfolio for the token.
+    /// </summary>
+    [HttpDelete("sync")]
+    public async Task<IActionResult> DeleteSynced(CancellationToken ct)
+    {
+        if (!TryGetTokenHash(out var tokenHash))
+            return BadRequest(new { error = $"A valid {TokenHeaderName} header is required" });
+
+        await _syncService.RemoveAsync(tokenHash, ct);
+        return NoContent();
+    }
+
+    private bool TryGetTokenHash(out string tokenHash)
+    {
+        tokenHash = "";
+        var token = Request.Headers[TokenHeaderName].ToString();
+        if (!TokenPattern().IsMatch(token)) return false;
+
+        // Only the hash is stored, so a database dump does not reveal tokens
+        var hash = System.Security.Cryptography.SHA256.HashData(System.Text.Encoding.UTF8.GetBytes(token));
+        tokenHash = Convert.ToHexString(hash).ToLowerInvariant();
+        return true;
+    }
+
+    private static PortfolioSyncDto ToDto(PortfolioSyncRecord record) =>
+        new(JsonDocument.Parse(record.Document).RootElement, DateTime.SpecifyKind(record.UpdatedAt, DateTimeKind.Utc));
+
+    [GeneratedRegex("^[A-Za-z0-9_-]{32,128}$")]
+    private static partial Regex TokenPattern();
+}
+
+public record PortfolioSyncDto(
+    JsonElement Document,
+    DateTime UpdatedAt
+);
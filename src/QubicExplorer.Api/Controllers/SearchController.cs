@@ -14,15 +14,21 @@ public class SearchController : ControllerBase
         _queryService = queryService;
     }
 
+    /// <summary>
+    /// Search by exact value or partial input; also serves the type-ahead
+    /// suggestions of the search bar with a small limit
+    /// </summary>
     [HttpGet]
     public async Task<IActionResult> Search(
         [FromQuery] string q,
+        [FromQuery] int limit = 10,
         CancellationToken ct = default)
     {
         if (string.IsNullOrWhiteSpace(q))
             return BadRequest(new { error = "Query parameter 'q' is required" });
 
-        var result = await _queryService.SearchAsync(q.Trim(), ct);
+        limit = Math.Clamp(limit, 1, 25);
+        var result = await _queryService.SearchAsync(q.Trim(), limit, ct);
         return Ok(result);
     }
 }
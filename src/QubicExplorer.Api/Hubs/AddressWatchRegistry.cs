@@ -0,0 +1,57 @@
+using System.Collections.Concurrent;
+
+namespace QubicExplorer.Api.Hubs;
+
+/// <summary>
+/// Tracks which addresses LiveUpdatesHub connections are subscribed to.
+/// SignalR groups cannot be enumerated, so LiveAddressService uses this
+/// to know which addresses to check for new activity.
+/// </summary>
+public class AddressWatchRegistry
+{
+    /// <summary>
+    /// Each watched address is queried every poll, so one connection may only
+    /// watch as many as a push subscription can cover
+    /// </summary>
+    public const int MaxAddressesPerConnection = 20;
+
+    private readonly ConcurrentDictionary<string, HashSet<string>> _addressesByConnection = new();
+
+    /// <summary>
+    /// Returns false if the connection already watches the maximum number of addresses
+    /// </summary>
+    public bool Add(string connectionId, string address)
+    {
+        var addresses = _addressesByConnection.GetOrAdd(connectionId, _ => new HashSet<string>());
+        lock (addresses)
+        {
+            if (addresses.Count >= MaxAddressesPerConnection && !addresses.Contains(address)) return false;
+            addresses.Add(address);
+            return true;
+        }
+    }
+
+    public void Remove(string connectionId, string address)
+    {
+        if (!_addressesByConnection.TryGetValue(connectionId, out var addresses)) return;
+        lock (addresses) addresses.Remove(address);
+    }
+
+    public void RemoveConnection(string connectionId)
+    {
+        _addressesByConnection.TryRemove(connectionId, out _);
+    }
+
+    /// <summary>
+    /// Addresses watched by at least one connection
+    /// </summary>
+    public HashSet<string> GetWatchedAddresses()
+    {
+        var result = new HashSet<string>();
+        foreach (var addresses in _addressesByConnection.Values)
+        {
+            lock (addresses) result.UnionWith(addresses);
+        }
+        return result;
+    }
+}
@@ -1,13 +1,21 @@
+using System.Buffers.Binary;
 using Microsoft.AspNetCore.SignalR;
+using Qubic.Crypto;
+using QubicExplorer.Shared.DTOs;
 
 namespace QubicExplorer.Api.Hubs;
 
 public class LiveUpdatesHub : Hub
 {
+    private const int AddressLength = 60;
+    private static readonly QubicCrypt Crypt = new();
+
+    private readonly AddressWatchRegistry _watchRegistry;
     private readonly ILogger<LiveUpdatesHub> _logger;
 
-    public LiveUpdatesHub(ILogger<LiveUpdatesHub> logger)
+    public LiveUpdatesHub(AddressWatchRegistry watchRegistry, ILogger<LiveUpdatesHub> logger)
     {
+        _watchRegistry = watchRegistry;
         _logger = logger;
     }
 
@@ -25,16 +33,45 @@ public class LiveUpdatesHub : Hub
 
     public async Task SubscribeToAddress(string address)
     {
+        if (!IsValidIdentity(address))
+            throw new HubException("Invalid address");
+
+        if (!_watchRegistry.Add(Context.ConnectionId, address))
+            throw new HubException($"Maximum {AddressWatchRegistry.MaxAddressesPerConnection} addresses per connection");
+
         await Groups.AddToGroupAsync(Context.ConnectionId, $"address:{address}");
         _logger.LogDebug("Client {ConnectionId} subscribed to address {Address}", Context.ConnectionId, address);
     }
 
     public async Task UnsubscribeFromAddress(string address)
     {
+        _watchRegistry.Remove(Context.ConnectionId, address);
         await Groups.RemoveFromGroupAsync(Context.ConnectionId, $"address:{address}");
         _logger.LogDebug("Client {ConnectionId} unsubscribed from address {Address}", Context.ConnectionId, address);
     }
 
+    /// <summary>
+    /// Decodes the 56-character public key part and checks that re-encoding it
+    /// gives back the same 4-character checksum, as frontend/utils/qubicIdentity.ts does
+    /// </summary>
+    private static bool IsValidIdentity(string? address)
+    {
+        if (address == null || address.Length != AddressLength || !address.All(char.IsAsciiLetterUpper))
+            return false;
+
+        var publicKey = new byte[32];
+        for (var i = 0; i < 4; i++)
+        {
+            ulong fragment = 0;
+            // Core accumulates in a uint64, so out-of-range identities wrap
+            for (var j = 13; j >= 0; j--)
+                fragment = unchecked(fragment * 26 + (ulong)(address[i * 14 + j] - 'A'));
+            BinaryPrimitives.WriteUInt64LittleEndian(publicKey.AsSpan(i * 8), fragment);
+        }
+
+        return Crypt.GetIdentityFromPublicKey(publicKey) == address;
+    }
+
     public override async Task OnConnectedAsync()
     {
         _logger.LogDebug("Client connected: {ConnectionId}", Context.ConnectionId);
@@ -44,24 +81,26 @@ public class LiveUpdatesHub : Hub
     public override async Task OnDisconnectedAsync(Exception? exception)
     {
         _logger.LogDebug("Client disconnected: {ConnectionId}", Context.ConnectionId);
+        _watchRegistry.RemoveConnection(Context.ConnectionId);
         await base.OnDisconnectedAsync(exception);
     }
 }
 
 // Extension methods for sending notifications
+// Payload shapes are mirrored by the frontend in composables/useLiveUpdates.ts
 public static class LiveUpdatesHubExtensions
 {
-    public static async Task SendNewTick(this IHubContext<LiveUpdatesHub> hubContext, object tickData)
+    public static async Task SendNewTick(this IHubContext<LiveUpdatesHub> hubContext, LiveTickDto tickData)
     {
         await hubContext.Clients.Group("ticks").SendAsync("OnNewTick", tickData);
     }
 
-    public static async Task SendNewTransaction(this IHubContext<LiveUpdatesHub> hubContext, object txData)
+    public static async Task SendNewTransaction(this IHubContext<LiveUpdatesHub> hubContext, TransactionDto txData)
     {
         await hubContext.Clients.Group("ticks").SendAsync("OnNewTransaction", txData);
     }
 
-    public static async Task SendAddressUpdate(this IHubContext<LiveUpdatesHub> hubContext, string address, object data)
+    public static async Task SendAddressUpdate(this IHubContext<LiveUpdatesHub> hubContext, string address, AddressUpdateDto data)
     {
         await hubContext.Clients.Group($"address:{address}").SendAsync("OnAddressUpdate", data);
     }
@@ -1,4 +1,7 @@
+using System.Net;
+using System.Net.Sockets;
 using ClickHouse.Client.ADO;
+using Microsoft.AspNetCore.HttpOverrides;
 using Microsoft.Extensions.Options;
 using Qubic.Bob;
 using QubicExplorer.Shared.Configuration;
@@ -28,6 +31,16 @@ builder.Services.Configure<ClickHouseOptions>(builder.Configuration.GetSection(C
 builder.Services.Configure<BobOptions>(builder.Configuration.GetSection(BobOptions.SectionName));
 builder.Services.Configure<AddressLabelOptions>(builder.Configuration.GetSection(AddressLabelOptions.SectionName));
 builder.Services.Configure<VapidOptions>(builder.Configuration.GetSection(VapidOptions.SectionName));
+builder.Services.Configure<WebhookOptions>(builder.Configuration.GetSection(WebhookOptions.SectionName));
+
+// Client addresses come from X-Forwarded-For, but only when the request
+// arrives from a listed proxy (loopback is always trusted)
+builder.Services.Configure<ForwardedHeadersOptions>(options =>
+{
+    options.ForwardedHeaders = ForwardedHeaders.XForwardedFor | ForwardedHeaders.XForwardedProto;
+    foreach (var proxy in builder.Configuration.GetSection("ForwardedHeaders:KnownProxies").Get<string[]>() ?? [])
+        options.KnownProxies.Add(IPAddress.Parse(proxy));
+});
 
 // Add memory cache for BobProxyService
 builder.Services.AddMemoryCache();
@@ -35,12 +48,53 @@ builder.Services.AddMemoryCache();
 // Add HttpClient for AddressLabelService
 builder.Services.AddHttpClient();
 
+// Webhook client: no redirects, and private networks are refused at connect
+// time (after DNS resolution) unless allowed in config
+builder.Services.AddHttpClient(WebhookDeliveryService.HttpClientName, (sp, client) =>
+    {
+        var options = sp.GetRequiredService<IOptions<WebhookOptions>>().Value;
+        client.Timeout = TimeSpan.FromSeconds(options.TimeoutSeconds);
+        client.DefaultRequestHeaders.UserAgent.ParseAdd("QLI-Webhooks/1.0");
+    })
+    .ConfigurePrimaryHttpMessageHandler(sp =>
+    {
+        var options = sp.GetRequiredService<IOptions<WebhookOptions>>().Value;
+        return new SocketsHttpHandler
+        {
+            AllowAutoRedirect = false,
+            ConnectCallback = async (context, ct) =>
+            {
+                var addresses = await Dns.GetHostAddressesAsync(context.DnsEndPoint.Host, ct);
+                var allowed = addresses.Where(a => options.AllowPrivateNetworks || !WebhookProtocol.IsPrivateAddress(a)).ToArray();
+                if (allowed.Length == 0)
+                    throw new HttpRequestException($"Webhook host {context.DnsEndPoint.Host} resolves to a private network address");
+
+                var socket = new Socket(SocketType.Stream, ProtocolType.Tcp) { NoDelay = true };
+                try
+                {
+                    await socket.ConnectAsync(allowed, context.DnsEndPoint.Port, ct);
+                    return new NetworkStream(socket, ownsSocket: true);
+                }
+                catch
+                {
+                    socket.Dispose();
+                    throw;
+                }
+            }
+        };
+    });
+
 // Register services
 builder.Services.AddSingleton<AnalyticsCacheService>();
 builder.Services.AddSingleton<ClickHouseQueryService>();
 builder.Services.AddSingleton<SpectrumImportService>();
 builder.Services.AddSingleton<UniverseImportService>();
 builder.Services.AddSingleton<WebPushService>();
+builder.Services.AddSingleton<PortfolioSyncService>();
+
+// WebhookDeliveryService - queue used by AddressMonitorService, worker for retries
+builder.Services.AddSingleton<WebhookDeliveryService>();
+builder.Services.AddHostedService(sp => sp.GetRequiredService<WebhookDeliveryService>());
 
 // AddressLabelService - fetches and caches address labels
 builder.Services.AddSingleton<AddressLabelService>(sp =>
@@ -51,6 +105,9 @@ builder.Services.AddSingleton<AddressLabelService>(sp =>
     return new AddressLabelService(httpClientFactory.CreateClient(), options.BundleUrl, logger);
 });
 
+// LabelModerationService - community label proposals and the label changelog
+builder.Services.AddSingleton<LabelModerationService>();
+
 // BobWebSocketClient - shared singleton for all Bob communication (subscriptions + RPC queries)
 builder.Services.AddSingleton<BobWebSocketClient>(sp =>
 {
@@ -68,11 +125,18 @@ builder.Services.AddSingleton<BobProxyService>();
 // ComputorFlowService - manages computor list imports
 builder.Services.AddSingleton<ComputorFlowService>();
 
+// AddressWatchRegistry - addresses watched over the live updates hub
+builder.Services.AddSingleton<AddressWatchRegistry>();
+
 builder.Services.AddHostedService<LiveTickService>();
 builder.Services.AddHostedService<EpochMetaSyncService>();
 builder.Services.AddHostedService<EpochTransitionService>();
 builder.Services.AddHostedService<AutoImportService>();
 builder.Services.AddHostedService<AddressMonitorService>();
+builder.Services.AddHostedService<LiveAddressService>();
+builder.Services.AddHostedService<LiveTransactionService>();
+builder.Services.AddHostedService<EntitySyncService>();
+builder.Services.AddHostedService<CommunityLabelRefreshService>();
 
 // Add controllers
 builder.Services.AddControllers();
@@ -146,11 +210,23 @@ catch (Exception ex)
     startupLogger.LogWarning(ex, "Bob WebSocket connect failed at startup; continuing — will retry on demand");
 }
 
-// Initialize AddressLabelService at startup
+// Initialize AddressLabelService at startup, with the approved community
+// labels in place before the bundle so startup is not logged as label changes
 var addressLabelService = app.Services.GetRequiredService<AddressLabelService>();
+try
+{
+    await app.Services.GetRequiredService<LabelModerationService>().LoadCommunityLabelsAsync();
+}
+catch (Exception ex)
+{
+    app.Services.GetRequiredService<ILogger<Program>>()
+        .LogWarning(ex, "Failed to load community labels; continuing with the label bundle only");
+}
 await addressLabelService.InitializeAsync();
 
 // Configure the HTTP request pipeline.
+app.UseForwardedHeaders();
+
 if (app.Environment.IsDevelopment())
 {
     app.UseSwagger();
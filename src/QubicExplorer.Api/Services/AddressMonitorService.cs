@@ -1,17 +1,22 @@
 using ClickHouse.Client.ADO;
 using Microsoft.Extensions.Options;
 using QubicExplorer.Shared.Configuration;
+using QubicExplorer.Shared.Constants;
+using QubicExplorer.Shared.DTOs;
 using QubicExplorer.Shared.Services;
 
 namespace QubicExplorer.Api.Services;
 
 /// <summary>
 /// Background service that monitors addresses with active push subscriptions
-/// and sends notifications when new transfers are detected.
+/// and sends notifications when new transfers or balance changes match one of
+/// the subscription's rules. Matches go to the browser push endpoint and to
+/// the subscription's webhooks.
 /// </summary>
 public class AddressMonitorService : BackgroundService
 {
     private readonly IServiceProvider _serviceProvider;
+    private readonly WebhookDeliveryService _webhookService;
     private readonly ILogger<AddressMonitorService> _logger;
 
     // Check every 30 seconds for new transfers
@@ -25,9 +30,11 @@ public class AddressMonitorService : BackgroundService
 
     public AddressMonitorService(
         IServiceProvider serviceProvider,
+        WebhookDeliveryService webhookService,
         ILogger<AddressMonitorService> logger)
     {
         _serviceProvider = serviceProvider;
+        _webhookService = webhookService;
         _logger = logger;
     }
 
@@ -115,9 +122,10 @@ public class AddressMonitorService : BackgroundService
         AddressLabelService labelService,
         CancellationToken ct)
     {
-        // Get latest transfers for this address (QU transfers only, log_type=0)
+        // Get latest QU and asset transfers for this address
         var transfers = await queryService.GetTransfersAsync(
-            page: 1, limit: 5, address: address, logType: 0, ct: ct);
+            page: 1, limit: 5, address: address,
+            logTypes: [LogTypes.QuTransfer, LogTypes.AssetOwnershipChange], ct: ct);
 
         if (transfers.Items.Count == 0) return;
 
@@ -136,6 +144,11 @@ public class AddressMonitorService : BackgroundService
         var subscriptions = await pushService.GetSubscriptionsForAddressAsync(address, ct);
         if (subscriptions.Count == 0) return;
 
+        // Only look up the originating transaction when a rule filters on a procedure
+        var needsProcedure = subscriptions.Any(s => s.Rules.Any(r =>
+            r.Trigger == NotificationRuleEvaluator.TriggerTransfer &&
+            (!string.IsNullOrEmpty(r.ContractAddress) || r.InputType.HasValue)));
+
         // Process new transfers
         if (latestTick > lastTick)
         {
@@ -147,43 +160,45 @@ public class AddressMonitorService : BackgroundService
 
             foreach (var transfer in newTransfers)
             {
-                var isIncoming = transfer.DestAddress == address;
-                var eventType = isIncoming ? "incoming" : "outgoing";
-                var amount = transfer.Amount;
+                var notificationEvent = await BuildTransferEventAsync(
+                    address, transfer, needsProcedure, queryService, labelService, ct);
                 var tickNumber = transfer.TickNumber;
 
                 foreach (var sub in subscriptions)
                 {
-                    // Check if subscription wants this event type
-                    var isLarge = amount >= sub.LargeTransferThreshold;
-                    var wantsEvent = sub.Events.Contains(eventType) ||
-                                     (isLarge && sub.Events.Contains("large_transfer"));
-
-                    if (!wantsEvent) continue;
+                    // First matching rule outside its quiet hours decides the notification
+                    var rule = sub.Rules.FirstOrDefault(r =>
+                        NotificationRuleEvaluator.MatchesTransfer(r, notificationEvent) &&
+                        !NotificationRuleEvaluator.IsQuiet(r.QuietHours, DateTime.UtcNow));
+                    if (rule == null) continue;
 
                     // Deduplication check
                     if (await pushService.WasNotificationSentAsync(sub.SubscriptionId, address, tickNumber, ct))
                         continue;
 
                     // Build notification
-                    var counterparty = isIncoming ? transfer.SourceAddress : transfer.DestAddress;
-                    var counterDisplay = labelService.GetLabel(counterparty) ?? TruncateAddress(counterparty);
+                    var isIncoming = notificationEvent.Direction == "incoming";
+                    var counterDisplay = labelService.GetLabel(notificationEvent.Counterparty) ?? TruncateAddress(notificationEvent.Counterparty);
                     var addrDisplay = labelService.GetLabel(address) ?? TruncateAddress(address);
-
-                    var title = isLarge ? "Large Transfer Detected" :
-                                isIncoming ? "Incoming Transfer" : "Outgoing Transfer";
+                    var amountDisplay = $"{FormatAmount(transfer.Amount)} {notificationEvent.AssetName}";
 
                     var body = isIncoming
-                        ? $"{FormatAmount(amount)} QU received by {addrDisplay} from {counterDisplay}"
-                        : $"{FormatAmount(amount)} QU sent from {addrDisplay} to {counterDisplay}";
-
-                    var url = $"/address/{address}";
-
-                    var sent = await pushService.SendNotificationAsync(sub, title, body, url, ct);
+                        ? $"{amountDisplay} received by {addrDisplay} from {counterDisplay}"
+                        : $"{amountDisplay} sent from {addrDisplay} to {counterDisplay}";
+
+                    var webhookEvent = new WebhookEventDto(
+                        Guid.NewGuid().ToString("N"), rule.Trigger, sub.SubscriptionId, rule.Id, rule.Name,
+                        address, rule.Name, body, DateTime.UtcNow,
+                        Transfer: new WebhookTransferDto(
+                            tickNumber, transfer.TxHash, notificationEvent.Direction, transfer.Amount,
+                            notificationEvent.AssetName, notificationEvent.Counterparty, notificationEvent.CounterpartyType,
+                            notificationEvent.ContractAddress, notificationEvent.InputType));
+
+                    var sent = await DeliverAsync(sub, webhookEvent, transfer.TxHash, pushService, ct);
                     if (sent)
                     {
                         await pushService.RecordNotificationAsync(
-                            sub.SubscriptionId, address, tickNumber, eventType, amount, ct);
+                            sub.SubscriptionId, address, tickNumber, notificationEvent.Direction, transfer.Amount, ct);
                     }
                 }
             }
@@ -193,6 +208,44 @@ public class AddressMonitorService : BackgroundService
         await CheckBalanceThresholdsAsync(address, subscriptions, pushService, queryService, labelService, ct);
     }
 
+    private static async Task<NotificationTransferEvent> BuildTransferEventAsync(
+        string address,
+        TransferDto transfer,
+        bool includeProcedure,
+        ClickHouseQueryService queryService,
+        AddressLabelService labelService,
+        CancellationToken ct)
+    {
+        var isIncoming = transfer.DestAddress == address;
+        var counterparty = isIncoming ? transfer.SourceAddress : transfer.DestAddress;
+
+        var counterpartyType = labelService.IsBurnAddress(counterparty)
+            ? "burn"
+            : labelService.GetAddressInfo(counterparty)?.Type.ToString().ToLowerInvariant() ?? "unknown";
+
+        string? contractAddress = null;
+        int? inputType = null;
+        if (includeProcedure && !string.IsNullOrEmpty(transfer.TxHash))
+        {
+            var tx = await queryService.GetTransactionByHashAsync(transfer.TxHash, ct);
+            if (tx != null && tx.InputType > 0)
+            {
+                contractAddress = tx.ToAddress;
+                inputType = tx.InputType;
+            }
+        }
+
+        return new NotificationTransferEvent(
+            address,
+            isIncoming ? "incoming" : "outgoing",
+            transfer.Amount,
+            transfer.LogType == LogTypes.QuTransfer ? "QU" : transfer.AssetName ?? "",
+            counterparty,
+            counterpartyType,
+            contractAddress,
+            inputType);
+    }
+
     private async Task InitializeBalanceBaselineAsync(
         string address, ClickHouseQueryService queryService, CancellationToken ct)
     {
@@ -215,10 +268,10 @@ public class AddressMonitorService : BackgroundService
         AddressLabelService labelService,
         CancellationToken ct)
     {
-        // Only check if any subscription cares about balance thresholds
-        var hasBalanceWatchers = subscriptions.Any(s =>
-            s.Events.Contains("balance_threshold") &&
-            (s.BalanceMinThreshold > 0 || s.BalanceMaxThreshold > 0));
+        // Only check if any subscription has a balance rule for this address
+        var hasBalanceWatchers = subscriptions.Any(s => s.Rules.Any(r =>
+            r.Trigger != NotificationRuleEvaluator.TriggerTransfer &&
+            NotificationRuleEvaluator.AppliesTo(r, address)));
         if (!hasBalanceWatchers) return;
 
         // Fetch current balance
@@ -234,34 +287,44 @@ public class AddressMonitorService : BackgroundService
 
         foreach (var sub in subscriptions)
         {
-            if (!sub.Events.Contains("balance_threshold")) continue;
-
-            // Check minimum threshold crossing (balance dropped below min)
-            if (sub.BalanceMinThreshold > 0 &&
-                currentBalance < sub.BalanceMinThreshold &&
-                previousBalance >= sub.BalanceMinThreshold)
+            foreach (var rule in sub.Rules)
             {
-                var title = "Balance Below Minimum";
-                var body = $"{addrDisplay} balance dropped to {FormatAmount(currentBalance)} QU (below {FormatAmount(sub.BalanceMinThreshold)} QU threshold)";
-                var url = $"/address/{address}";
-
-                await pushService.SendNotificationAsync(sub, title, body, url, ct);
-            }
-
-            // Check maximum threshold crossing (balance rose above max)
-            if (sub.BalanceMaxThreshold > 0 &&
-                currentBalance > sub.BalanceMaxThreshold &&
-                previousBalance <= sub.BalanceMaxThreshold)
-            {
-                var title = "Balance Above Maximum";
-                var body = $"{addrDisplay} balance reached {FormatAmount(currentBalance)} QU (above {FormatAmount(sub.BalanceMaxThreshold)} QU threshold)";
-                var url = $"/address/{address}";
-
-                await pushService.SendNotificationAsync(sub, title, body, url, ct);
+                if (!NotificationRuleEvaluator.MatchesBalance(rule, address, previousBalance, currentBalance) ||
+                    NotificationRuleEvaluator.IsQuiet(rule.QuietHours, DateTime.UtcNow))
+                    continue;
+
+                var threshold = FormatAmount(rule.BalanceThreshold!.Value);
+                var body = rule.Trigger == NotificationRuleEvaluator.TriggerBalanceBelow
+                    ? $"{addrDisplay} balance dropped to {FormatAmount(currentBalance)} QU (below {threshold} QU threshold)"
+                    : $"{addrDisplay} balance reached {FormatAmount(currentBalance)} QU (above {threshold} QU threshold)";
+                var webhookEvent = new WebhookEventDto(
+                    Guid.NewGuid().ToString("N"), rule.Trigger, sub.SubscriptionId, rule.Id, rule.Name,
+                    address, rule.Name, body, DateTime.UtcNow,
+                    Balance: currentBalance, Threshold: rule.BalanceThreshold);
+
+                await DeliverAsync(sub, webhookEvent, null, pushService, ct);
             }
         }
     }
 
+    /// <summary>
+    /// Send to the browser push endpoint (if any) and queue the webhooks.
+    /// Returns whether anything went out.
+    /// </summary>
+    private async Task<bool> DeliverAsync(
+        PushSubscriptionRecord sub,
+        WebhookEventDto webhookEvent,
+        string? txHash,
+        WebPushService pushService,
+        CancellationToken ct)
+    {
+        var pushed = sub.HasPushEndpoint && await pushService.SendNotificationAsync(
+            sub, webhookEvent.Title, webhookEvent.Body, $"/address/{webhookEvent.Address}",
+            webhookEvent.Address, txHash, ct);
+        var queued = _webhookService.Enqueue(sub.Webhooks, webhookEvent) > 0;
+        return pushed || queued;
+    }
+
     private static string FormatAmount(ulong amount)
     {
         if (amount >= 1_000_000_000_000) return (amount / 1_000_000_000_000.0).ToString("F1") + "T";
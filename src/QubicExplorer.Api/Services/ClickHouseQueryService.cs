@@ -89,6 +89,7 @@ public class ClickHouseQueryService : IDisposable
 
     /// <summary>
     /// Reads a LogDto from a reader with columns: tick_number, log_id, log_type, tx_hash, source_address, dest_address, amount, asset_name, timestamp
+    /// and an optional trailing raw_data column (used to decode contract messages)
     /// </summary>
     private static LogDto ReadLogDto(System.Data.Common.DbDataReader reader)
     {
@@ -103,7 +104,8 @@ public class ClickHouseQueryService : IDisposable
             reader.IsDBNull(5) ? null : reader.GetString(5),
             reader.GetFieldValue<ulong>(6),
             reader.IsDBNull(7) ? null : reader.GetString(7),
-            reader.GetDateTime(8)
+            reader.GetDateTime(8),
+            reader.FieldCount > 9 && !reader.IsDBNull(9) && reader.GetString(9) is { Length: > 0 } rawData ? rawData : null
         );
     }
 
@@ -652,6 +654,41 @@ public class ClickHouseQueryService : IDisposable
         }
     }
 
+    /// <summary>
+    /// Newest indexed tick that has transactions, or 0 when there are none.
+    /// </summary>
+    public async Task<ulong> GetLatestTransactionTickAsync(CancellationToken ct = default)
+    {
+        await using var cmd = _connection.CreateCommand();
+        cmd.CommandText = "SELECT max(tick_number) FROM transactions";
+        var result = await cmd.ExecuteScalarAsync(ct);
+        return result == null || result is DBNull ? 0 : ToUInt64(result);
+    }
+
+    /// <summary>
+    /// Transactions indexed in ticks after <paramref name="afterTick"/>, oldest first.
+    /// </summary>
+    public async Task<List<TransactionDto>> GetTransactionsAfterTickAsync(ulong afterTick, int limit, CancellationToken ct = default)
+    {
+        await using var cmd = _connection.CreateCommand();
+        cmd.CommandText = @"
+            SELECT hash, tick_number, epoch, from_address, to_address, amount, input_type, executed, timestamp
+            FROM transactions
+            WHERE tick_number > {afterTick:UInt64}
+            ORDER BY tick_number, hash
+            LIMIT {lim:UInt32}";
+        AddParam(cmd, "afterTick", afterTick);
+        AddParam(cmd, "lim", (uint)limit);
+
+        var items = new List<TransactionDto>();
+        await using var reader = await cmd.ExecuteReaderAsync(ct);
+        while (await reader.ReadAsync(ct))
+        {
+            items.Add(ReadTransactionDto(reader));
+        }
+        return items;
+    }
+
     public async Task<TransactionDetailDto?> GetTransactionByHashAsync(string hash, CancellationToken ct = default)
     {
         // Check if this is a special transaction (smart contract lifecycle event)
@@ -693,7 +730,7 @@ public class ClickHouseQueryService : IDisposable
             await using var logCmd = _connection.CreateCommand();
             logCmd.CommandText = $@"
                 SELECT tick_number, log_id, log_type, tx_hash, source_address,
-                       dest_address, amount, asset_name, timestamp
+                       dest_address, amount, asset_name, timestamp, raw_data
                 FROM logs
                 WHERE tick_number = {{tick:UInt64}}
                   AND log_id >= {{logIdFrom:Int32}}
@@ -732,7 +769,7 @@ public class ClickHouseQueryService : IDisposable
         await using var cmd = _connection.CreateCommand();
         cmd.CommandText = $@"
             SELECT tick_number, log_id, log_type, tx_hash, source_address,
-                   dest_address, amount, asset_name, timestamp
+                   dest_address, amount, asset_name, timestamp, raw_data
             FROM logs
             WHERE tx_hash = {{txHash:String}}
             ORDER BY log_id";
@@ -1035,7 +1072,15 @@ public class ClickHouseQueryService : IDisposable
         return items;
     }
 
-    public async Task<SearchResponse> SearchAsync(string query, CancellationToken ct = default)
+    /// <summary>Shortest partial identity matched against known addresses</summary>
+    public const int MinAddressPrefixLength = 4;
+
+    /// <summary>
+    /// Search by exact tick, epoch, transaction hash or address, or by partial
+    /// input: address prefixes, label and contract names, contract procedures
+    /// and asset names. Each kind of match is capped at <paramref name="limit"/>.
+    /// </summary>
+    public async Task<SearchResponse> SearchAsync(string query, int limit = 10, CancellationToken ct = default)
     {
         var results = new List<SearchResultDto>();
 
@@ -1057,16 +1102,32 @@ public class ClickHouseQueryService : IDisposable
         var isNumber = ulong.TryParse(query, out var tickNumber);
         var is60CharLower = query.Length == 60 && query.All(c => (c >= 'a' && c <= 'z') || (c >= '0' && c <= '9'));
         var is60CharUpper = query.Length == 60 && query.All(c => c >= 'A' && c <= 'Z');
+        var isEpochQuery = query.StartsWith("epoch", StringComparison.OrdinalIgnoreCase)
+            && uint.TryParse(query[5..].Trim(), out _);
 
-        if (isNumber)
+        if (isNumber || isEpochQuery)
         {
-            // Tick lookup
-            await using var tickCmd = _connection.CreateCommand();
-            tickCmd.CommandText = "SELECT tick_number FROM ticks WHERE tick_number = {tick:UInt64} LIMIT 1";
-            AddParam(tickCmd, "tick", tickNumber);
-            var tickResult = await tickCmd.ExecuteScalarAsync(ct);
-            if (tickResult != null)
-                results.Add(new SearchResultDto(SearchResultType.Tick, tickNumber.ToString(), $"Tick {tickNumber}"));
+            if (isNumber)
+            {
+                // Tick lookup
+                await using var tickCmd = _connection.CreateCommand();
+                tickCmd.CommandText = "SELECT tick_number FROM ticks WHERE tick_number = {tick:UInt64} LIMIT 1";
+                AddParam(tickCmd, "tick", tickNumber);
+                var tickResult = await tickCmd.ExecuteScalarAsync(ct);
+                if (tickResult != null)
+                    results.Add(new SearchResultDto(SearchResultType.Tick, tickNumber.ToString(), $"Tick {tickNumber}"));
+            }
+
+            // Epoch lookup: plain numbers can be either, "epoch 150" only an epoch
+            if (uint.TryParse(isEpochQuery ? query[5..].Trim() : query, out var epoch))
+            {
+                await using var epochCmd = _connection.CreateCommand();
+                epochCmd.CommandText = "SELECT epoch FROM epoch_meta WHERE epoch = {epoch:UInt32} LIMIT 1";
+                AddParam(epochCmd, "epoch", epoch);
+                var epochResult = await epochCmd.ExecuteScalarAsync(ct);
+                if (epochResult != null)
+                    results.Add(new SearchResultDto(SearchResultType.Epoch, epoch.ToString(), $"Epoch {epoch}"));
+            }
         }
         else if (is60CharLower)
         {
@@ -1085,11 +1146,14 @@ public class ClickHouseQueryService : IDisposable
         }
         else
         {
-            // Label/name search (in-memory, no DB query)
             await _labelService.EnsureFreshDataAsync();
-            var labelMatches = _labelService.SearchByLabel(query, 10);
 
-            foreach (var match in labelMatches)
+            // Partial identity: labelled addresses first, then any address seen on chain
+            if (query.Length >= MinAddressPrefixLength && query.All(c => c >= 'A' && c <= 'Z'))
+                results.AddRange(await SearchAddressPrefixAsync(query, limit, ct));
+
+            // Label/name search (in-memory, no DB query)
+            foreach (var match in _labelService.SearchByLabel(query, limit))
             {
                 var displayName = match.Type switch
                 {
@@ -1098,13 +1162,85 @@ public class ClickHouseQueryService : IDisposable
                     "tokenissuer" => $"${match.Label}",
                     _ => match.Label
                 };
-                results.Add(new SearchResultDto(SearchResultType.Address, match.Address, displayName));
+                if (results.All(r => r.Value != match.Address))
+                    results.Add(new SearchResultDto(SearchResultType.Address, match.Address, displayName));
+            }
+
+            foreach (var match in _labelService.SearchProcedures(query, limit))
+            {
+                results.Add(new SearchResultDto(
+                    SearchResultType.Procedure,
+                    match.ContractAddress,
+                    $"[{match.ContractName}] {match.Name}",
+                    match.InputType.ToString()));
             }
+
+            results.AddRange(await SearchAssetsAsync(query, limit, ct));
         }
 
         return new SearchResponse(query, results);
     }
 
+    private async Task<List<SearchResultDto>> SearchAddressPrefixAsync(string prefix, int limit, CancellationToken ct)
+    {
+        var results = _labelService.SearchByAddressPrefix(prefix, limit)
+            .Select(a => new SearchResultDto(SearchResultType.Address, a.Address, a.Label))
+            .ToList();
+        if (results.Count >= limit) return results;
+
+        // address_first_seen is ordered by address, so a prefix match reads a single range
+        await using var cmd = _connection.CreateCommand();
+        cmd.CommandText = @"
+            SELECT DISTINCT address
+            FROM address_first_seen
+            WHERE startsWith(address, {prefix:String})
+            ORDER BY address
+            LIMIT {limit:UInt32}";
+        AddParam(cmd, "prefix", prefix);
+        AddParam(cmd, "limit", (uint)limit);
+
+        await using var reader = await cmd.ExecuteReaderAsync(ct);
+        while (await reader.ReadAsync(ct) && results.Count < limit)
+        {
+            var address = reader.GetString(0);
+            if (results.All(r => r.Value != address))
+                results.Add(new SearchResultDto(SearchResultType.Address, address, null));
+        }
+        return results;
+    }
+
+    private async Task<List<SearchResultDto>> SearchAssetsAsync(string query, int limit, CancellationToken ct)
+    {
+        // Asset names from the latest universe snapshot; prefix matches first
+        await using var cmd = _connection.CreateCommand();
+        cmd.CommandText = @"
+            SELECT asset_name, issuer_address
+            FROM asset_snapshots
+            WHERE epoch = (SELECT max(epoch) FROM universe_imports)
+              AND record_type = 'issuance'
+              AND positionCaseInsensitive(asset_name, {q:String}) > 0
+            GROUP BY asset_name, issuer_address
+            ORDER BY (positionCaseInsensitive(asset_name, {q:String}) = 1) DESC, length(asset_name), asset_name
+            LIMIT {limit:UInt32}";
+        AddParam(cmd, "q", query);
+        AddParam(cmd, "limit", (uint)limit);
+
+        var results = new List<SearchResultDto>();
+        await using var reader = await cmd.ExecuteReaderAsync(ct);
+        while (await reader.ReadAsync(ct))
+        {
+            var issuer = reader.GetString(1);
+            var issuerLabel = _labelService.GetAddressInfo(issuer)?.Label;
+            var name = reader.GetString(0);
+            results.Add(new SearchResultDto(
+                SearchResultType.Asset,
+                name,
+                issuerLabel != null ? $"{name} ({issuerLabel})" : name,
+                issuer));
+        }
+        return results;
+    }
+
     // =====================================================
     // EPOCH STATISTICS
     // =====================================================
@@ -2647,8 +2783,6 @@ public class ClickHouseQueryService : IDisposable
             return new ExchangeFlowDto(new List<ExchangeFlowDataPointDto>(), 0, 0);
         }
 
-        var addressList = string.Join("','", exchangeAddresses.Select(e => EscapeSql(e.Address)));
-
         await using var cmd = _connection.CreateCommand();
         cmd.CommandText = $@"
             WITH inflows AS (
@@ -2658,7 +2792,7 @@ public class ClickHouseQueryService : IDisposable
                     count() as inflow_count
                 FROM logs
                 PREWHERE log_type = 0
-                WHERE amount > 0 AND dest_address IN ('{addressList}')
+                WHERE amount > 0 AND {ExchangeFlowSql.IsExchange("dest_address")} AND {ExchangeFlowSql.NotInternalSweep}
                 GROUP BY epoch
             ),
             outflows AS (
@@ -2668,7 +2802,7 @@ public class ClickHouseQueryService : IDisposable
                     count() as outflow_count
                 FROM logs
                 PREWHERE log_type = 0
-                WHERE amount > 0 AND source_address IN ('{addressList}')
+                WHERE amount > 0 AND {ExchangeFlowSql.IsExchange("source_address")} AND {ExchangeFlowSql.NotInternalSweep}
                 GROUP BY epoch
             )
             SELECT
@@ -2681,6 +2815,7 @@ public class ClickHouseQueryService : IDisposable
             FULL OUTER JOIN outflows o ON i.epoch = o.epoch
             ORDER BY epoch DESC
             LIMIT {{lim:UInt32}}";
+        AddParam(cmd, ExchangeFlowSql.ExchangesParam, exchangeAddresses.Select(e => e.Address).ToArray());
         AddParam(cmd, "lim", (uint)limit);
 
         var items = new List<ExchangeFlowDataPointDto>();
@@ -6187,6 +6322,106 @@ public class ClickHouseQueryService : IDisposable
         );
     }
 
+    /// <summary>
+    /// Per-epoch balance history for a set of addresses over [fromEpoch, toEpoch].
+    /// Uses the same model as <see cref="GetAddressLedgerAsync"/>: an epoch opens
+    /// at its spectrum snapshot when there is one, otherwise at the previous
+    /// epoch's closing balance, and QU transfers move it to the closing balance.
+    /// </summary>
+    public async Task<List<AddressBalanceHistoryDto>> GetAddressBalanceHistoryAsync(
+        List<string> addresses, uint fromEpoch, uint toEpoch, CancellationToken ct = default)
+    {
+        // 1. Snapshots: the latest one at-or-before fromEpoch anchors each address,
+        //    later ones re-anchor the epoch they belong to.
+        var anchors = new Dictionary<string, (uint Epoch, long Balance)>();
+        var snapshots = new Dictionary<(string Address, uint Epoch), long>();
+        await using (var snapCmd = _connection.CreateCommand())
+        {
+            snapCmd.CommandText = @"
+                SELECT address, epoch, balance
+                FROM balance_snapshots
+                WHERE address IN {addresses:Array(String)}
+                  AND epoch <= {toEpoch:UInt32}
+                ORDER BY address, epoch";
+            AddParam(snapCmd, "addresses", addresses.ToArray());
+            AddParam(snapCmd, "toEpoch", toEpoch);
+
+            await using var r = await snapCmd.ExecuteReaderAsync(ct);
+            while (await r.ReadAsync(ct))
+            {
+                var address = r.GetString(0);
+                var epoch = r.GetFieldValue<uint>(1);
+                var balance = Convert.ToInt64(r.GetValue(2));
+                if (epoch <= fromEpoch)
+                    anchors[address] = (epoch, balance);
+                else
+                    snapshots[(address, epoch)] = balance;
+            }
+        }
+
+        // 2. QU transfer totals per address and epoch, starting at the oldest
+        //    anchor so the gap up to fromEpoch can be replayed.
+        var scanFrom = anchors.Count > 0 ? Math.Min(anchors.Values.Min(a => a.Epoch), fromEpoch) : fromEpoch;
+        var flows = new Dictionary<(string Address, uint Epoch), (long In, long Out)>();
+        await using (var flowCmd = _connection.CreateCommand())
+        {
+            flowCmd.CommandText = @"
+                SELECT address, epoch, sum(inflow) AS inflow, sum(outflow) AS outflow
+                FROM (
+                    SELECT dest_address AS address, epoch, amount AS inflow, toUInt64(0) AS outflow
+                    FROM logs
+                    WHERE log_type = 0
+                      AND epoch >= {scanFrom:UInt32} AND epoch <= {toEpoch:UInt32}
+                      AND dest_address IN {addresses:Array(String)}
+                    UNION ALL
+                    SELECT source_address AS address, epoch, toUInt64(0) AS inflow, amount AS outflow
+                    FROM logs
+                    WHERE log_type = 0
+                      AND epoch >= {scanFrom:UInt32} AND epoch <= {toEpoch:UInt32}
+                      AND source_address IN {addresses:Array(String)}
+                )
+                GROUP BY address, epoch";
+            AddParam(flowCmd, "addresses", addresses.ToArray());
+            AddParam(flowCmd, "scanFrom", scanFrom);
+            AddParam(flowCmd, "toEpoch", toEpoch);
+
+            await using var r = await flowCmd.ExecuteReaderAsync(ct);
+            while (await r.ReadAsync(ct))
+            {
+                flows[(r.GetString(0), r.GetFieldValue<uint>(1))] =
+                    (Convert.ToInt64(r.GetValue(2)), Convert.ToInt64(r.GetValue(3)));
+            }
+        }
+
+        // 3. Replay per address
+        var result = new List<AddressBalanceHistoryDto>();
+        foreach (var address in addresses)
+        {
+            long balance = 0;
+            if (anchors.TryGetValue(address, out var anchor))
+            {
+                balance = anchor.Balance;
+                for (var e = anchor.Epoch; e < fromEpoch; e++)
+                {
+                    if (flows.TryGetValue((address, e), out var gap))
+                        balance += gap.In - gap.Out;
+                }
+            }
+
+            var epochs = new List<EpochBalanceDto>();
+            for (var e = fromEpoch; e <= toEpoch; e++)
+            {
+                var opening = snapshots.TryGetValue((address, e), out var snapshot) ? snapshot : balance;
+                flows.TryGetValue((address, e), out var flow);
+                balance = opening + flow.In - flow.Out;
+                epochs.Add(new EpochBalanceDto(e, opening, balance, flow.In, flow.Out));
+            }
+            result.Add(new AddressBalanceHistoryDto(address, epochs));
+        }
+
+        return result;
+    }
+
     /// <summary>
     /// Per-phase per-contract summary of execution fee reports.
     /// AgreedFee replicates the network's 2/3 ascending percentile aggregation.
@@ -0,0 +1,40 @@
+using QubicExplorer.Shared.Services;
+
+namespace QubicExplorer.Api.Services;
+
+/// <summary>
+/// Background service that reloads the approved community labels, so reviews
+/// made on another API instance show up here too. The instance that made a
+/// review reloads right away; see <see cref="LabelModerationService"/>.
+/// </summary>
+public class CommunityLabelRefreshService : BackgroundService
+{
+    private readonly LabelModerationService _moderation;
+    private readonly ILogger<CommunityLabelRefreshService> _logger;
+
+    public CommunityLabelRefreshService(
+        LabelModerationService moderation,
+        ILogger<CommunityLabelRefreshService> logger)
+    {
+        _moderation = moderation;
+        _logger = logger;
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        // Loaded at startup already
+        while (!stoppingToken.IsCancellationRequested)
+        {
+            await Task.Delay(CommunityLabelLoader.RefreshInterval, stoppingToken);
+
+            try
+            {
+                await _moderation.LoadCommunityLabelsAsync(reportChanges: false, stoppingToken);
+            }
+            catch (Exception ex) when (ex is not OperationCanceledException)
+            {
+                _logger.LogError(ex, "Error reloading community labels");
+            }
+        }
+    }
+}
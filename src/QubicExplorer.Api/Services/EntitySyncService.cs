@@ -0,0 +1,67 @@
+using ClickHouse.Client.ADO;
+using Microsoft.Extensions.Options;
+using QubicExplorer.Shared.Configuration;
+using QubicExplorer.Shared.Services;
+
+namespace QubicExplorer.Api.Services;
+
+/// <summary>
+/// Background service that loads the address entities computed by the
+/// analytics service into <see cref="AddressLabelService"/>. Checks for a
+/// newer clustering run every 10 minutes.
+/// </summary>
+public class EntitySyncService : BackgroundService
+{
+    private readonly ClickHouseConnection _connection;
+    private readonly AddressLabelService _labelService;
+    private readonly ILogger<EntitySyncService> _logger;
+
+    public EntitySyncService(
+        IOptions<ClickHouseOptions> chOptions,
+        AddressLabelService labelService,
+        ILogger<EntitySyncService> logger)
+    {
+        _logger = logger;
+        _labelService = labelService;
+        _connection = new ClickHouseConnection(chOptions.Value.ConnectionString);
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        _logger.LogInformation("EntitySyncService started");
+        await _connection.OpenAsync(stoppingToken);
+
+        while (!stoppingToken.IsCancellationRequested)
+        {
+            try
+            {
+                await SyncAsync(stoppingToken);
+            }
+            catch (Exception ex) when (ex is not OperationCanceledException)
+            {
+                _logger.LogError(ex, "Error loading address entities");
+            }
+
+            await Task.Delay(TimeSpan.FromMinutes(10), stoppingToken);
+        }
+    }
+
+    private async Task SyncAsync(CancellationToken ct)
+    {
+        var latest = await EntitySnapshotLoader.GetLatestComputedAtAsync(_connection, ct);
+        if (latest == null || latest == _labelService.EntitiesComputedAt)
+            return;
+
+        if (await EntitySnapshotLoader.LoadLatestAsync(_connection, ct) is not { } snapshot)
+            return;
+
+        _labelService.SetEntities(snapshot.Entities, snapshot.ComputedAt);
+        _logger.LogInformation("Loaded {Count} address entities computed at {ComputedAt:u}", snapshot.Entities.Count, snapshot.ComputedAt);
+    }
+
+    public override void Dispose()
+    {
+        _connection.Dispose();
+        base.Dispose();
+    }
+}
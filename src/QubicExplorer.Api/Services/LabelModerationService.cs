@@ -0,0 +1,353 @@
+using ClickHouse.Client.ADO;
+using ClickHouse.Client.Copy;
+using Microsoft.Extensions.Options;
+using QubicExplorer.Shared.Configuration;
+using QubicExplorer.Shared.DTOs;
+using QubicExplorer.Shared.Services;
+
+namespace QubicExplorer.Api.Services;
+
+/// <summary>
+/// Community label proposals and the public label changelog. Proposals wait
+/// in label_proposals until an admin approves or rejects them; approved ones
+/// are layered over the label bundle by <see cref="AddressLabelService"/>,
+/// and every label change it reports is written to label_changes.
+/// </summary>
+public class LabelModerationService : IDisposable
+{
+    private readonly ClickHouseConnection _connection;
+    private readonly AddressLabelService _labelService;
+    private readonly ILogger<LabelModerationService> _logger;
+    // Serializes reviews on this instance; the conditional insert covers the others
+    private readonly SemaphoreSlim _reviewLock = new(1, 1);
+    private bool _disposed;
+
+    public LabelModerationService(
+        IOptions<ClickHouseOptions> chOptions,
+        AddressLabelService labelService,
+        ILogger<LabelModerationService> logger)
+    {
+        _logger = logger;
+        _labelService = labelService;
+        _connection = new ClickHouseConnection(chOptions.Value.ConnectionString);
+        _connection.Open();
+
+        _labelService.LabelsChanged += changes => _ = LogChangesAsync(changes);
+    }
+
+    /// <summary>
+    /// Load the approved labels into the label service. Called at startup
+    /// before the bundle loads, after every review, and periodically by
+    /// <see cref="CommunityLabelRefreshService"/> for reviews made on other
+    /// instances; only a reviewing instance writes the changes to the changelog.
+    /// </summary>
+    public async Task LoadCommunityLabelsAsync(bool reportChanges = true, CancellationToken ct = default)
+    {
+        var labels = await CommunityLabelLoader.LoadAsync(_connection, ct);
+        _labelService.SetCommunityLabels(labels, reportChanges);
+        _logger.Log(reportChanges ? LogLevel.Information : LogLevel.Debug, "Loaded {Count} community labels", labels.Count);
+    }
+
+    /// <summary>
+    /// Queue a proposal; returns an error message when a limit is reached.
+    /// </summary>
+    public async Task<(LabelProposalDto? Proposal, string? Error)> SubmitAsync(
+        LabelProposalRequest request, string submitterHash, CancellationToken ct = default)
+    {
+        if (await CountAsync("address = {value:String} AND status = 'pending'", request.Address, ct) >= LabelProposalRules.MaxPendingPerAddress)
+            return (null, "This address already has several proposals waiting for review");
+
+        if (await CountAsync("submitter_hash = {value:String} AND created_at > now64(3) - INTERVAL 1 DAY", submitterHash, ct) >= LabelProposalRules.MaxPerSubmitterPerDay)
+            return (null, "Too many proposals today, please try again tomorrow");
+
+        var proposal = new LabelProposalDto(
+            Id: Guid.NewGuid().ToString("N"),
+            Address: request.Address,
+            Label: request.Label.Trim(),
+            Type: request.Type,
+            SourceUrl: request.SourceUrl.Trim(),
+            Comment: string.IsNullOrWhiteSpace(request.Comment) ? null : request.Comment.Trim(),
+            Status: LabelProposalRules.StatusPending,
+            ReviewNote: null,
+            CreatedAt: DateTime.UtcNow,
+            ReviewedAt: null);
+
+        await WriteAsync(proposal, submitterHash, ct);
+        _logger.LogInformation("Label proposal {Id} for {Address}: {Label} ({Type})",
+            proposal.Id, proposal.Address, proposal.Label, proposal.Type);
+        return (proposal, null);
+    }
+
+    public async Task<PaginatedResponse<LabelProposalDto>> ListAsync(
+        string? status, int page, int limit, CancellationToken ct = default)
+    {
+        var where = string.IsNullOrEmpty(status) ? "1" : "status = {status:String}";
+
+        await using var countCmd = _connection.CreateCommand();
+        countCmd.CommandText = $"SELECT count() FROM label_proposals FINAL WHERE {where}";
+        if (!string.IsNullOrEmpty(status)) AddParam(countCmd, "status", status);
+        var total = Convert.ToInt64(await countCmd.ExecuteScalarAsync(ct));
+
+        await using var cmd = _connection.CreateCommand();
+        cmd.CommandText = $@"
+            SELECT {ProposalColumns}
+            FROM label_proposals FINAL
+            WHERE {where}
+            ORDER BY created_at {(status == LabelProposalRules.StatusPending ? "ASC" : "DESC")}
+            LIMIT {{limit:UInt32}} OFFSET {{offset:UInt32}}";
+        if (!string.IsNullOrEmpty(status)) AddParam(cmd, "status", status);
+        AddParam(cmd, "limit", limit);
+        AddParam(cmd, "offset", (page - 1) * limit);
+
+        var items = new List<LabelProposalDto>();
+        await using (var reader = await cmd.ExecuteReaderAsync(ct))
+        {
+            while (await reader.ReadAsync(ct))
+            {
+                var proposal = ReadProposal(reader);
+                var current = _labelService.GetAddressInfo(proposal.Address);
+                items.Add(proposal with
+                {
+                    CurrentLabel = current?.Label,
+                    CurrentType = current?.Type.ToString().ToLowerInvariant() ?? "unknown"
+                });
+            }
+        }
+
+        return new PaginatedResponse<LabelProposalDto>(items, page, limit, total, (int)Math.Ceiling(total / (double)limit));
+    }
+
+    public async Task<(LabelProposalDto Proposal, string SubmitterHash)?> GetAsync(string id, CancellationToken ct = default)
+    {
+        await using var cmd = _connection.CreateCommand();
+        cmd.CommandText = $@"
+            SELECT {ProposalColumns}, submitter_hash
+            FROM label_proposals FINAL
+            WHERE id = {{id:String}}
+            LIMIT 1";
+        AddParam(cmd, "id", id);
+
+        await using var reader = await cmd.ExecuteReaderAsync(ct);
+        if (!await reader.ReadAsync(ct)) return null;
+        return (ReadProposal(reader), reader.GetString(10));
+    }
+
+    /// <summary>
+    /// Move a pending proposal to the given status and reload the community
+    /// labels, which bumps the label set version when the review changed a
+    /// label. The status only changes while the proposal is still pending, so
+    /// of two concurrent reviews one gets an error instead of a second
+    /// changelog entry.
+    /// </summary>
+    public async Task<(LabelProposalDto? Proposal, string? Error)> ReviewAsync(
+        string id, string status, string? note, CancellationToken ct = default)
+    {
+        var reviewNote = string.IsNullOrWhiteSpace(note) ? "" : note.Trim();
+        // DateTime64(3) keeps milliseconds; the read-back below compares against it
+        var now = DateTime.UtcNow;
+        var reviewedAt = now.AddTicks(-(now.Ticks % TimeSpan.TicksPerMillisecond));
+
+        await _reviewLock.WaitAsync(ct);
+        try
+        {
+            await using (var cmd = _connection.CreateCommand())
+            {
+                cmd.CommandText = $@"
+                    INSERT INTO label_proposals
+                    (id, address, label, type, source_url, comment, submitter_hash, status, review_note, created_at, reviewed_at)
+                    SELECT id, address, label, type, source_url, comment, submitter_hash,
+                           {{status:String}}, {{note:String}}, created_at, {{reviewedAt:DateTime64(3)}}
+                    FROM label_proposals FINAL
+                    WHERE id = {{id:String}} AND status = '{LabelProposalRules.StatusPending}'";
+                AddParam(cmd, "id", id);
+                AddParam(cmd, "status", status);
+                AddParam(cmd, "note", reviewNote);
+                AddParam(cmd, "reviewedAt", reviewedAt);
+                await cmd.ExecuteNonQueryAsync(ct);
+            }
+
+            // The latest row wins, so the review is ours only if it is what reads back
+            if (await GetAsync(id, ct) is not { } stored)
+                return (null, "Proposal not found");
+            var reviewed = stored.Proposal;
+            if (reviewed.Status != status || reviewed.ReviewedAt != reviewedAt || (reviewed.ReviewNote ?? "") != reviewNote)
+                return (null, $"Proposal is already {reviewed.Status}");
+
+            _logger.LogInformation("Label proposal {Id} for {Address} {Status}", id, reviewed.Address, status);
+            if (status == LabelProposalRules.StatusApproved)
+                await LoadCommunityLabelsAsync(ct: ct);
+            return (reviewed, null);
+        }
+        finally
+        {
+            _reviewLock.Release();
+        }
+    }
+
+    /// <summary>
+    /// Revoke every approved proposal for an address, returning it to the
+    /// bundle's label. Returns how many were revoked.
+    /// </summary>
+    public async Task<int> RevokeAsync(string address, string? note, CancellationToken ct = default)
+    {
+        await using var cmd = _connection.CreateCommand();
+        cmd.CommandText = $@"
+            SELECT id
+            FROM label_proposals FINAL
+            WHERE address = {{address:String}} AND status = '{LabelProposalRules.StatusApproved}'";
+        AddParam(cmd, "address", address);
+
+        var ids = new List<string>();
+        await using (var reader = await cmd.ExecuteReaderAsync(ct))
+        {
+            while (await reader.ReadAsync(ct)) ids.Add(reader.GetString(0));
+        }
+
+        foreach (var id in ids)
+        {
+            if (await GetAsync(id, ct) is not { } stored) continue;
+            await WriteAsync(stored.Proposal with
+            {
+                Status = LabelProposalRules.StatusRevoked,
+                ReviewNote = string.IsNullOrWhiteSpace(note) ? stored.Proposal.ReviewNote : note.Trim(),
+                ReviewedAt = DateTime.UtcNow
+            }, stored.SubmitterHash, ct);
+        }
+
+        if (ids.Count > 0)
+            await LoadCommunityLabelsAsync(ct: ct);
+        return ids.Count;
+    }
+
+    public async Task<PaginatedResponse<LabelChangeDto>> GetChangesAsync(
+        string? address, int page, int limit, CancellationToken ct = default)
+    {
+        var where = string.IsNullOrEmpty(address) ? "1" : "address = {address:String}";
+
+        await using var countCmd = _connection.CreateCommand();
+        countCmd.CommandText = $"SELECT count() FROM label_changes WHERE {where}";
+        if (!string.IsNullOrEmpty(address)) AddParam(countCmd, "address", address);
+        var total = Convert.ToInt64(await countCmd.ExecuteScalarAsync(ct));
+
+        await using var cmd = _connection.CreateCommand();
+        cmd.CommandText = $@"
+            SELECT address, old_label, old_type, new_label, new_type, source,
+                   proposal_id, source_url, version, changed_at
+            FROM label_changes
+            WHERE {where}
+            ORDER BY changed_at DESC, address
+            LIMIT {{limit:UInt32}} OFFSET {{offset:UInt32}}";
+        if (!string.IsNullOrEmpty(address)) AddParam(cmd, "address", address);
+        AddParam(cmd, "limit", limit);
+        AddParam(cmd, "offset", (page - 1) * limit);
+
+        var items = new List<LabelChangeDto>();
+        await using (var reader = await cmd.ExecuteReaderAsync(ct))
+        {
+            while (await reader.ReadAsync(ct))
+            {
+                items.Add(new LabelChangeDto(
+                    Address: reader.GetString(0),
+                    OldLabel: NullIfEmpty(reader.GetString(1)),
+                    OldType: reader.GetString(2),
+                    NewLabel: NullIfEmpty(reader.GetString(3)),
+                    NewType: reader.GetString(4),
+                    Source: reader.GetString(5),
+                    ProposalId: NullIfEmpty(reader.GetString(6)),
+                    SourceUrl: NullIfEmpty(reader.GetString(7)),
+                    Version: reader.GetString(8),
+                    ChangedAt: reader.GetDateTime(9)));
+            }
+        }
+
+        return new PaginatedResponse<LabelChangeDto>(items, page, limit, total, (int)Math.Ceiling(total / (double)limit));
+    }
+
+    private async Task LogChangesAsync(IReadOnlyList<LabelChangeDto> changes)
+    {
+        try
+        {
+            using var bulk = new ClickHouseBulkCopy(_connection)
+            {
+                DestinationTableName = "label_changes",
+                ColumnNames = ["address", "old_label", "old_type", "new_label", "new_type", "source",
+                               "proposal_id", "source_url", "version", "changed_at"],
+                BatchSize = 10_000
+            };
+            await bulk.InitAsync();
+            await bulk.WriteToServerAsync(changes.Select(c => new object[]
+            {
+                c.Address, c.OldLabel ?? "", c.OldType, c.NewLabel ?? "", c.NewType, c.Source,
+                c.ProposalId ?? "", c.SourceUrl ?? "", c.Version, c.ChangedAt
+            }));
+            _logger.LogInformation("Logged {Count} label changes ({Source})", changes.Count, changes[0].Source);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to log {Count} label changes", changes.Count);
+        }
+    }
+
+    private const string ProposalColumns =
+        "id, address, label, type, source_url, comment, status, review_note, created_at, reviewed_at";
+
+    private static LabelProposalDto ReadProposal(System.Data.Common.DbDataReader reader) => new(
+        Id: reader.GetString(0),
+        Address: reader.GetString(1),
+        Label: reader.GetString(2),
+        Type: reader.GetString(3),
+        SourceUrl: reader.GetString(4),
+        Comment: NullIfEmpty(reader.GetString(5)),
+        Status: reader.GetString(6),
+        ReviewNote: NullIfEmpty(reader.GetString(7)),
+        CreatedAt: reader.GetDateTime(8),
+        ReviewedAt: reader.IsDBNull(9) ? null : reader.GetDateTime(9));
+
+    private async Task WriteAsync(LabelProposalDto proposal, string submitterHash, CancellationToken ct)
+    {
+        await using var cmd = _connection.CreateCommand();
+        cmd.CommandText = @"
+            INSERT INTO label_proposals
+            (id, address, label, type, source_url, comment, submitter_hash, status, review_note, created_at, reviewed_at)
+            VALUES
+            ({id:String}, {address:String}, {label:String}, {type:String}, {sourceUrl:String}, {comment:String},
+             {submitter:String}, {status:String}, {note:String}, {createdAt:DateTime64(3)},
+             {reviewedAt:Nullable(DateTime64(3))})";
+        AddParam(cmd, "id", proposal.Id);
+        AddParam(cmd, "address", proposal.Address);
+        AddParam(cmd, "label", proposal.Label);
+        AddParam(cmd, "type", proposal.Type);
+        AddParam(cmd, "sourceUrl", proposal.SourceUrl);
+        AddParam(cmd, "comment", proposal.Comment ?? "");
+        AddParam(cmd, "submitter", submitterHash);
+        AddParam(cmd, "status", proposal.Status);
+        AddParam(cmd, "note", proposal.ReviewNote ?? "");
+        AddParam(cmd, "createdAt", proposal.CreatedAt);
+        AddParam(cmd, "reviewedAt", proposal.ReviewedAt.HasValue ? proposal.ReviewedAt.Value : DBNull.Value);
+        await cmd.ExecuteNonQueryAsync(ct);
+    }
+
+    private async Task<long> CountAsync(string where, string value, CancellationToken ct)
+    {
+        await using var cmd = _connection.CreateCommand();
+        cmd.CommandText = $"SELECT count() FROM label_proposals FINAL WHERE {where}";
+        AddParam(cmd, "value", value);
+        return Convert.ToInt64(await cmd.ExecuteScalarAsync(ct));
+    }
+
+    private static string? NullIfEmpty(string value) => string.IsNullOrEmpty(value) ? null : value;
+
+    private static void AddParam(System.Data.Common.DbCommand cmd, string name, object value)
+    {
+        cmd.Parameters.Add(new ClickHouse.Client.ADO.Parameters.ClickHouseDbParameter
+            { ParameterName = name, Value = value });
+    }
+
+    public void Dispose()
+    {
+        if (_disposed) return;
+        _disposed = true;
+        _reviewLock.Dispose();
+        _connection.Dispose();
+    }
+}
@@ -0,0 +1,122 @@
+using Microsoft.AspNetCore.SignalR;
+using QubicExplorer.Api.Hubs;
+using QubicExplorer.Shared.DTOs;
+
+namespace QubicExplorer.Api.Services;
+
+/// <summary>
+/// Background service that checks addresses watched over the live updates hub
+/// for newly indexed transactions and transfers, and sends OnAddressUpdate
+/// with the new balance and activity to the address group.
+/// </summary>
+public class LiveAddressService : BackgroundService
+{
+    private readonly IHubContext<LiveUpdatesHub> _hubContext;
+    private readonly AddressWatchRegistry _watchRegistry;
+    private readonly ClickHouseQueryService _queryService;
+    private readonly ILogger<LiveAddressService> _logger;
+
+    private static readonly TimeSpan CheckInterval = TimeSpan.FromSeconds(5);
+
+    // Newest rows per check; anything beyond is picked up by the next page load
+    private const int RecentLimit = 20;
+
+    // Last tick with activity that was already sent, per watched address
+    private readonly Dictionary<string, ulong> _lastSentTick = new();
+
+    public LiveAddressService(
+        IHubContext<LiveUpdatesHub> hubContext,
+        AddressWatchRegistry watchRegistry,
+        ClickHouseQueryService queryService,
+        ILogger<LiveAddressService> logger)
+    {
+        _hubContext = hubContext;
+        _watchRegistry = watchRegistry;
+        _queryService = queryService;
+        _logger = logger;
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        while (!stoppingToken.IsCancellationRequested)
+        {
+            try
+            {
+                await CheckWatchedAddressesAsync(stoppingToken);
+            }
+            catch (OperationCanceledException) when (stoppingToken.IsCancellationRequested)
+            {
+                break;
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error in live address check");
+            }
+
+            await Task.Delay(CheckInterval, stoppingToken);
+        }
+    }
+
+    private async Task CheckWatchedAddressesAsync(CancellationToken ct)
+    {
+        var watched = _watchRegistry.GetWatchedAddresses();
+
+        // Forget addresses nobody watches anymore
+        foreach (var address in _lastSentTick.Keys.Where(a => !watched.Contains(a)).ToList())
+        {
+            _lastSentTick.Remove(address);
+        }
+
+        foreach (var address in watched)
+        {
+            ct.ThrowIfCancellationRequested();
+
+            try
+            {
+                await CheckAddressAsync(address, ct);
+            }
+            catch (Exception ex) when (ex is not OperationCanceledException)
+            {
+                _logger.LogWarning(ex, "Error checking live updates for {Address}", address);
+            }
+        }
+    }
+
+    private async Task CheckAddressAsync(string address, CancellationToken ct)
+    {
+        var transactions = (PaginatedResponse<TransactionDto>)await _queryService.GetTransactionsAsync(
+            page: 1, limit: RecentLimit, address: address, ct: ct);
+        var transfers = await _queryService.GetTransfersAsync(
+            page: 1, limit: RecentLimit, address: address, ct: ct);
+
+        var latestTick = transactions.Items.Select(t => t.TickNumber)
+            .Concat(transfers.Items.Select(t => t.TickNumber))
+            .DefaultIfEmpty(0UL)
+            .Max();
+
+        // The first check only sets the baseline; the page already shows it
+        if (!_lastSentTick.TryGetValue(address, out var lastTick))
+        {
+            _lastSentTick[address] = latestTick;
+            return;
+        }
+
+        if (latestTick <= lastTick) return;
+        _lastSentTick[address] = latestTick;
+
+        var summary = await _queryService.GetAddressSummaryAsync(address, ct);
+        var update = new AddressUpdateDto(
+            address,
+            latestTick,
+            summary.Balance,
+            summary.IncomingAmount,
+            summary.OutgoingAmount,
+            transactions.Items.Where(t => t.TickNumber > lastTick).ToList(),
+            transfers.Items.Where(t => t.TickNumber > lastTick).ToList());
+
+        _logger.LogDebug("Sending live update for {Address}: tick {TickNumber}, {TxCount} txs, {TransferCount} transfers",
+            address, latestTick, update.Transactions.Count, update.Transfers.Count);
+
+        await _hubContext.SendAddressUpdate(address, update);
+    }
+}
@@ -1,6 +1,7 @@
 using Microsoft.AspNetCore.SignalR;
 using Qubic.Bob;
 using QubicExplorer.Api.Hubs;
+using QubicExplorer.Shared.DTOs;
 
 namespace QubicExplorer.Api.Services;
 
@@ -72,18 +73,16 @@ public class LiveTickService : BackgroundService
                 continue;
             }
 
-            var tickData = new
-            {
+            var tickData = new LiveTickDto(
                 tickNumber,
-                epoch = (uint)tick.Epoch,
-                txCount = (uint)tick.TransactionCount,
-                timestamp = DateTime.UtcNow
-            };
+                (uint)tick.Epoch,
+                (uint)tick.TransactionCount,
+                DateTime.UtcNow);
 
             _lastBroadcastTick = tickNumber;
 
             _logger.LogDebug("Broadcasting new tick: {TickNumber} (epoch {Epoch}, {TxCount} txs)",
-                tickData.tickNumber, tickData.epoch, tickData.txCount);
+                tickData.TickNumber, tickData.Epoch, tickData.TxCount);
 
             // Broadcast to all subscribed clients
             await _hubContext.SendNewTick(tickData);
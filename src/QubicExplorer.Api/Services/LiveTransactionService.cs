@@ -0,0 +1,86 @@
+using Microsoft.AspNetCore.SignalR;
+using QubicExplorer.Api.Hubs;
+
+namespace QubicExplorer.Api.Services;
+
+/// <summary>
+/// Background service that sends OnNewTransaction to the ticks group for
+/// every transaction the indexer writes. Ticks come straight from Bob, but
+/// transactions are only complete once indexed, so this follows the
+/// transactions table instead.
+/// </summary>
+public class LiveTransactionService : BackgroundService
+{
+    private readonly IHubContext<LiveUpdatesHub> _hubContext;
+    private readonly ClickHouseQueryService _queryService;
+    private readonly ILogger<LiveTransactionService> _logger;
+
+    private static readonly TimeSpan CheckInterval = TimeSpan.FromSeconds(2);
+
+    // Rows per check; a backlog beyond this (e.g. after a restart of the
+    // indexer) is skipped, clients reload the list on reconnect anyway
+    private const int BatchLimit = 500;
+
+    private ulong _lastSentTick;
+
+    public LiveTransactionService(
+        IHubContext<LiveUpdatesHub> hubContext,
+        ClickHouseQueryService queryService,
+        ILogger<LiveTransactionService> logger)
+    {
+        _hubContext = hubContext;
+        _queryService = queryService;
+        _logger = logger;
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        while (!stoppingToken.IsCancellationRequested)
+        {
+            try
+            {
+                await BroadcastNewTransactionsAsync(stoppingToken);
+            }
+            catch (OperationCanceledException) when (stoppingToken.IsCancellationRequested)
+            {
+                break;
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error broadcasting live transactions");
+            }
+
+            await Task.Delay(CheckInterval, stoppingToken);
+        }
+    }
+
+    private async Task BroadcastNewTransactionsAsync(CancellationToken ct)
+    {
+        // The first check only sets the baseline; pages load older rows themselves
+        if (_lastSentTick == 0)
+        {
+            _lastSentTick = await _queryService.GetLatestTransactionTickAsync(ct);
+            return;
+        }
+
+        var transactions = await _queryService.GetTransactionsAfterTickAsync(_lastSentTick, BatchLimit + 1, ct);
+        if (transactions.Count == 0) return;
+
+        if (transactions.Count > BatchLimit)
+        {
+            _lastSentTick = await _queryService.GetLatestTransactionTickAsync(ct);
+            _logger.LogDebug("Skipping live transaction backlog up to tick {TickNumber}", _lastSentTick);
+            return;
+        }
+
+        // Ticks are indexed whole, so later rows of the last tick cannot show up afterwards
+        _lastSentTick = transactions[^1].TickNumber;
+
+        foreach (var tx in transactions)
+        {
+            await _hubContext.SendNewTransaction(tx);
+        }
+
+        _logger.LogDebug("Broadcast {Count} live transactions up to tick {TickNumber}", transactions.Count, _lastSentTick);
+    }
+}
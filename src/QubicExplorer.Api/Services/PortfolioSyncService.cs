@@ -0,0 +1,87 @@
+using ClickHouse.Client.ADO;
+using Microsoft.Extensions.Options;
+using QubicExplorer.Shared.Configuration;
+
+namespace QubicExplorer.Api.Services;
+
+/// <summary>
+/// Stores portfolio documents (watchlists) for optional cross-browser sync.
+/// Documents are opaque JSON keyed by the SHA-256 of an anonymous token that
+/// only the client knows; the latest write wins.
+/// </summary>
+public class PortfolioSyncService : IDisposable
+{
+    private readonly ClickHouseConnection _connection;
+    private readonly ILogger<PortfolioSyncService> _logger;
+    private bool _disposed;
+
+    public PortfolioSyncService(
+        IOptions<ClickHouseOptions> chOptions,
+        ILogger<PortfolioSyncService> logger)
+    {
+        _logger = logger;
+        _connection = new ClickHouseConnection(chOptions.Value.ConnectionString);
+        _connection.Open();
+    }
+
+    /// <summary>
+    /// Get the stored document for a token, or null if nothing was synced yet.
+    /// </summary>
+    public async Task<PortfolioSyncRecord?> GetAsync(string tokenHash, CancellationToken ct = default)
+    {
+        await using var cmd = _connection.CreateCommand();
+        cmd.CommandText = @"
+            SELECT document, client_updated_at
+            FROM portfolio_sync FINAL
+            WHERE token_hash = {hash:String}
+            LIMIT 1";
+        AddParam(cmd, "hash", tokenHash);
+
+        await using var reader = await cmd.ExecuteReaderAsync(ct);
+        if (!await reader.ReadAsync(ct)) return null;
+        return new PortfolioSyncRecord(reader.GetString(0), reader.GetDateTime(1));
+    }
+
+    /// <summary>
+    /// Store the document for a token, replacing any previous version.
+    /// </summary>
+    public async Task SaveAsync(string tokenHash, string document, DateTime clientUpdatedAt, CancellationToken ct = default)
+    {
+        await using var cmd = _connection.CreateCommand();
+        cmd.CommandText = @"
+            INSERT INTO portfolio_sync (token_hash, document, client_updated_at)
+            VALUES ({hash:String}, {document:String}, {clientUpdatedAt:DateTime64(3)})";
+        AddParam(cmd, "hash", tokenHash);
+        AddParam(cmd, "document", document);
+        AddParam(cmd, "clientUpdatedAt", clientUpdatedAt);
+        await cmd.ExecuteNonQueryAsync(ct);
+
+        _logger.LogDebug("Saved synced portfolio {Hash} ({Length} bytes)", tokenHash[..8], document.Length);
+    }
+
+    /// <summary>
+    /// Remove the stored document for a token.
+    /// </summary>
+    public async Task RemoveAsync(string tokenHash, CancellationToken ct = default)
+    {
+        await using var cmd = _connection.CreateCommand();
+        cmd.CommandText = "ALTER TABLE portfolio_sync DELETE WHERE token_hash = {hash:String}";
+        AddParam(cmd, "hash", tokenHash);
+        await cmd.ExecuteNonQueryAsync(ct);
+    }
+
+    private static void AddParam(System.Data.Common.DbCommand cmd, string name, object value)
+    {
+        cmd.Parameters.Add(new ClickHouse.Client.ADO.Parameters.ClickHouseDbParameter
+            { ParameterName = name, Value = value });
+    }
+
+    public void Dispose()
+    {
+        if (_disposed) return;
+        _disposed = true;
+        _connection.Dispose();
+    }
+}
+
+public record PortfolioSyncRecord(string Document, DateTime UpdatedAt);
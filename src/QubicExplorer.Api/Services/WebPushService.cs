@@ -2,6 +2,8 @@ using System.Text.Json;
 using ClickHouse.Client.ADO;
 using Microsoft.Extensions.Options;
 using QubicExplorer.Shared.Configuration;
+using QubicExplorer.Shared.DTOs;
+using QubicExplorer.Shared.Services;
 using WebPush;
 
 namespace QubicExplorer.Api.Services;
@@ -12,6 +14,8 @@ namespace QubicExplorer.Api.Services;
 /// </summary>
 public class WebPushService : IDisposable
 {
+    private static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web);
+
     private readonly ClickHouseConnection _connection;
     private readonly VapidDetails _vapidDetails;
     private readonly WebPushClient _pushClient;
@@ -49,7 +53,9 @@ public class WebPushService : IDisposable
     }
 
     /// <summary>
-    /// Save or update a push subscription with watched addresses and event preferences.
+    /// Save or update a push subscription with watched addresses, event preferences
+    /// and notification rules (rules take over from the event preferences when set).
+    /// The endpoint is empty for subscriptions that only deliver to webhooks.
     /// </summary>
     public async Task SaveSubscriptionAsync(
         string subscriptionId,
@@ -61,15 +67,17 @@ public class WebPushService : IDisposable
         ulong largeTransferThreshold,
         ulong balanceMinThreshold = 0,
         ulong balanceMaxThreshold = 0,
+        IReadOnlyList<NotificationRuleDto>? rules = null,
+        IReadOnlyList<WebhookTargetDto>? webhooks = null,
         CancellationToken ct = default)
     {
         await using var cmd = _connection.CreateCommand();
         cmd.CommandText = @"
             INSERT INTO push_subscriptions
-            (subscription_id, endpoint, p256dh, auth, addresses, events, large_transfer_threshold, balance_min_threshold, balance_max_threshold)
+            (subscription_id, endpoint, p256dh, auth, addresses, events, large_transfer_threshold, balance_min_threshold, balance_max_threshold, rules, webhooks)
             VALUES
             ({subId:String}, {endpoint:String}, {p256dh:String},
-             {auth:String}, {addresses:Array(String)}, {events:Array(String)}, {threshold:UInt64}, {balMin:UInt64}, {balMax:UInt64})";
+             {auth:String}, {addresses:Array(String)}, {events:Array(String)}, {threshold:UInt64}, {balMin:UInt64}, {balMax:UInt64}, {rules:String}, {webhooks:String})";
         AddParam(cmd, "subId", subscriptionId);
         AddParam(cmd, "endpoint", endpoint);
         AddParam(cmd, "p256dh", p256dh);
@@ -79,6 +87,8 @@ public class WebPushService : IDisposable
         AddParam(cmd, "threshold", largeTransferThreshold);
         AddParam(cmd, "balMin", balanceMinThreshold);
         AddParam(cmd, "balMax", balanceMaxThreshold);
+        AddParam(cmd, "rules", rules is { Count: > 0 } ? JsonSerializer.Serialize(rules, JsonOptions) : "");
+        AddParam(cmd, "webhooks", webhooks is { Count: > 0 } ? JsonSerializer.Serialize(webhooks, JsonOptions) : "");
         await cmd.ExecuteNonQueryAsync(ct);
 
         _logger.LogInformation("Saved push subscription {Id} watching {Count} addresses",
@@ -105,7 +115,7 @@ public class WebPushService : IDisposable
         await using var cmd = _connection.CreateCommand();
         cmd.CommandText = @"
             SELECT subscription_id, endpoint, p256dh, auth, events, large_transfer_threshold,
-                   balance_min_threshold, balance_max_threshold
+                   balance_min_threshold, balance_max_threshold, rules, webhooks
             FROM push_subscriptions FINAL
             WHERE has(addresses, {addr:String})";
         AddParam(cmd, "addr", address);
@@ -114,28 +124,40 @@ public class WebPushService : IDisposable
         await using var reader = await cmd.ExecuteReaderAsync(ct);
         while (await reader.ReadAsync(ct))
         {
+            var events = ((string[])reader.GetValue(4)).ToList();
+            var largeTransferThreshold = Convert.ToUInt64(reader.GetValue(5));
+            var balanceMinThreshold = Convert.ToUInt64(reader.GetValue(6));
+            var balanceMaxThreshold = Convert.ToUInt64(reader.GetValue(7));
+            var rulesJson = reader.GetString(8);
+            var webhooksJson = reader.GetString(9);
+
             results.Add(new PushSubscriptionRecord(
                 SubscriptionId: reader.GetString(0),
                 Endpoint: reader.GetString(1),
                 P256dh: reader.GetString(2),
                 Auth: reader.GetString(3),
-                Events: ((string[])reader.GetValue(4)).ToList(),
-                LargeTransferThreshold: Convert.ToUInt64(reader.GetValue(5)),
-                BalanceMinThreshold: Convert.ToUInt64(reader.GetValue(6)),
-                BalanceMaxThreshold: Convert.ToUInt64(reader.GetValue(7))
+                Rules: string.IsNullOrEmpty(rulesJson)
+                    ? NotificationRuleEvaluator.FromLegacyPreferences(events, largeTransferThreshold, balanceMinThreshold, balanceMaxThreshold)
+                    : JsonSerializer.Deserialize<List<NotificationRuleDto>>(rulesJson, JsonOptions) ?? [],
+                Webhooks: string.IsNullOrEmpty(webhooksJson)
+                    ? []
+                    : JsonSerializer.Deserialize<List<WebhookTargetDto>>(webhooksJson, JsonOptions) ?? []
             ));
         }
         return results;
     }
 
     /// <summary>
-    /// Send a push notification to a subscription.
+    /// Send a push notification to a subscription. The address and transaction
+    /// hash let the in-app inbox group the notification and link to the transfer.
     /// </summary>
     public async Task<bool> SendNotificationAsync(
         PushSubscriptionRecord sub,
         string title,
         string body,
         string? url = null,
+        string? address = null,
+        string? txHash = null,
         CancellationToken ct = default)
     {
         try
@@ -146,6 +168,8 @@ public class WebPushService : IDisposable
                 title,
                 body,
                 url,
+                address,
+                txHash,
                 timestamp = DateTimeOffset.UtcNow.ToUnixTimeMilliseconds()
             });
 
@@ -223,13 +247,19 @@ public class WebPushService : IDisposable
     }
 }
 
+/// <summary>
+/// A push subscription with its rules and webhook targets. Subscriptions saved
+/// with the fixed event types only get the equivalent rules; an empty endpoint
+/// means webhooks only.
+/// </summary>
 public record PushSubscriptionRecord(
     string SubscriptionId,
     string Endpoint,
     string P256dh,
     string Auth,
-    List<string> Events,
-    ulong LargeTransferThreshold,
-    ulong BalanceMinThreshold = 0,
-    ulong BalanceMaxThreshold = 0
-);
+    List<NotificationRuleDto> Rules,
+    List<WebhookTargetDto> Webhooks
+)
+{
+    public bool HasPushEndpoint => !string.IsNullOrEmpty(Endpoint);
+}
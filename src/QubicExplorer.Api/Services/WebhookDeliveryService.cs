@@ -0,0 +1,263 @@
+using System.Diagnostics;
+using System.Text;
+using System.Text.Json;
+using System.Threading.Channels;
+using ClickHouse.Client.ADO;
+using Microsoft.Extensions.Options;
+using QubicExplorer.Shared.Configuration;
+using QubicExplorer.Shared.DTOs;
+using QubicExplorer.Shared.Services;
+
+namespace QubicExplorer.Api.Services;
+
+/// <summary>
+/// Delivers notification events to webhook targets: signed POST requests,
+/// retried with backoff on timeouts and server errors. Every attempt is
+/// written to the webhook_deliveries log. Pending retries live in memory
+/// and are lost on restart.
+/// </summary>
+public class WebhookDeliveryService : BackgroundService
+{
+    public const string HttpClientName = "webhooks";
+
+    private static readonly JsonSerializerOptions PayloadJsonOptions = new(JsonSerializerDefaults.Web);
+
+    // Deliveries in flight at once; one slow receiver must not hold up the rest
+    private const int MaxConcurrency = 4;
+
+    // Response bodies are only kept as error context
+    private const int MaxErrorLength = 300;
+
+    private readonly ClickHouseConnection _connection;
+    private readonly IHttpClientFactory _httpClientFactory;
+    private readonly ILogger<WebhookDeliveryService> _logger;
+    private readonly Channel<PendingDelivery> _queue = Channel.CreateUnbounded<PendingDelivery>();
+    private readonly SemaphoreSlim _slots = new(MaxConcurrency);
+
+    public WebhookDeliveryService(
+        IOptions<ClickHouseOptions> chOptions,
+        IHttpClientFactory httpClientFactory,
+        ILogger<WebhookDeliveryService> logger)
+    {
+        _logger = logger;
+        _httpClientFactory = httpClientFactory;
+        _connection = new ClickHouseConnection(chOptions.Value.ConnectionString);
+        _connection.Open();
+    }
+
+    /// <summary>
+    /// Queue an event for every enabled target; returns how many were queued.
+    /// </summary>
+    public int Enqueue(IEnumerable<WebhookTargetDto> targets, WebhookEventDto webhookEvent)
+    {
+        var body = JsonSerializer.Serialize(webhookEvent, PayloadJsonOptions);
+        var queued = 0;
+        foreach (var target in targets.Where(t => t.Enabled))
+        {
+            if (_queue.Writer.TryWrite(new PendingDelivery(target, webhookEvent, body, 1))) queued++;
+        }
+        return queued;
+    }
+
+    /// <summary>
+    /// Send a single attempt right away, without retries or logging. Used to
+    /// test a target before saving it.
+    /// </summary>
+    public async Task<WebhookDeliveryDto> SendTestAsync(WebhookTargetDto target, WebhookEventDto webhookEvent, CancellationToken ct)
+    {
+        var body = JsonSerializer.Serialize(webhookEvent, PayloadJsonOptions);
+        return await SendAsync(new PendingDelivery(target, webhookEvent, body, 1), ct);
+    }
+
+    /// <summary>
+    /// Recent delivery attempts of a subscription, newest first.
+    /// </summary>
+    public async Task<List<WebhookDeliveryDto>> GetDeliveriesAsync(
+        string subscriptionId, int limit, CancellationToken ct = default)
+    {
+        await using var cmd = _connection.CreateCommand();
+        cmd.CommandText = @"
+            SELECT event_id, event_type, target_id, url, attempt, success, status_code,
+                   error, duration_ms, next_retry_at, created_at
+            FROM webhook_deliveries
+            WHERE subscription_id = {subId:String}
+            ORDER BY created_at DESC
+            LIMIT {limit:UInt32}";
+        AddParam(cmd, "subId", subscriptionId);
+        AddParam(cmd, "limit", limit);
+
+        var results = new List<WebhookDeliveryDto>();
+        await using var reader = await cmd.ExecuteReaderAsync(ct);
+        while (await reader.ReadAsync(ct))
+        {
+            var error = reader.GetString(7);
+            results.Add(new WebhookDeliveryDto(
+                EventId: reader.GetString(0),
+                EventType: reader.GetString(1),
+                TargetId: reader.GetString(2),
+                Url: reader.GetString(3),
+                Attempt: Convert.ToInt32(reader.GetValue(4)),
+                Success: Convert.ToByte(reader.GetValue(5)) == 1,
+                StatusCode: Convert.ToInt32(reader.GetValue(6)),
+                Error: string.IsNullOrEmpty(error) ? null : error,
+                DurationMs: Convert.ToInt32(reader.GetValue(8)),
+                NextRetryAt: reader.IsDBNull(9) ? null : reader.GetDateTime(9),
+                CreatedAt: reader.GetDateTime(10)));
+        }
+        return results;
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        try
+        {
+            await foreach (var delivery in _queue.Reader.ReadAllAsync(stoppingToken))
+            {
+                await _slots.WaitAsync(stoppingToken);
+                _ = Task.Run(async () =>
+                {
+                    try
+                    {
+                        await DeliverAsync(delivery, stoppingToken);
+                    }
+                    catch (Exception ex) when (ex is not OperationCanceledException)
+                    {
+                        _logger.LogError(ex, "Webhook delivery {EventId} failed unexpectedly", delivery.Event.Id);
+                    }
+                    finally
+                    {
+                        _slots.Release();
+                    }
+                }, stoppingToken);
+            }
+        }
+        catch (OperationCanceledException) when (stoppingToken.IsCancellationRequested)
+        {
+        }
+    }
+
+    private async Task DeliverAsync(PendingDelivery delivery, CancellationToken ct)
+    {
+        var result = await SendAsync(delivery, ct);
+
+        var retryDelay = !result.Success && WebhookProtocol.IsRetryable(result.StatusCode)
+            ? WebhookProtocol.GetRetryDelay(delivery.Attempt)
+            : null;
+        var logged = result with { NextRetryAt = retryDelay.HasValue ? DateTime.UtcNow + retryDelay.Value : null };
+
+        try
+        {
+            await LogAttemptAsync(delivery.Event.SubscriptionId, logged, ct);
+        }
+        catch (Exception ex) when (ex is not OperationCanceledException)
+        {
+            _logger.LogWarning(ex, "Failed to log webhook delivery {EventId}", delivery.Event.Id);
+        }
+
+        if (result.Success) return;
+
+        if (retryDelay is not { } delay)
+        {
+            _logger.LogInformation("Giving up on webhook {EventId} to {Url} after attempt {Attempt}: {Error}",
+                delivery.Event.Id, delivery.Target.Url, delivery.Attempt, result.Error);
+            return;
+        }
+
+        // Requeue once the backoff has passed
+        _ = Task.Delay(delay, ct).ContinueWith(
+            _ => _queue.Writer.TryWrite(delivery with { Attempt = delivery.Attempt + 1 }),
+            ct, TaskContinuationOptions.OnlyOnRanToCompletion, TaskScheduler.Default);
+    }
+
+    private async Task<WebhookDeliveryDto> SendAsync(PendingDelivery delivery, CancellationToken ct)
+    {
+        var timestamp = DateTimeOffset.UtcNow.ToUnixTimeSeconds();
+        using var request = new HttpRequestMessage(HttpMethod.Post, delivery.Target.Url)
+        {
+            Content = new StringContent(delivery.Body, Encoding.UTF8, "application/json")
+        };
+        request.Headers.Add(WebhookProtocol.EventHeader, delivery.Event.Type);
+        request.Headers.Add(WebhookProtocol.DeliveryHeader, delivery.Event.Id);
+        request.Headers.Add(WebhookProtocol.TimestampHeader, timestamp.ToString());
+        request.Headers.Add(WebhookProtocol.SignatureHeader,
+            WebhookProtocol.Sign(delivery.Target.Secret, timestamp, delivery.Body));
+
+        var statusCode = 0;
+        string? error = null;
+        var stopwatch = Stopwatch.StartNew();
+        try
+        {
+            using var response = await _httpClientFactory.CreateClient(HttpClientName).SendAsync(request, ct);
+            statusCode = (int)response.StatusCode;
+            if (!response.IsSuccessStatusCode)
+            {
+                var text = await response.Content.ReadAsStringAsync(ct);
+                error = $"HTTP {statusCode}" + (text.Length > 0 ? $": {Truncate(text)}" : "");
+            }
+        }
+        catch (OperationCanceledException) when (!ct.IsCancellationRequested)
+        {
+            error = "Timed out";
+        }
+        catch (HttpRequestException ex)
+        {
+            error = Truncate(ex.Message);
+        }
+        stopwatch.Stop();
+
+        return new WebhookDeliveryDto(
+            delivery.Event.Id,
+            delivery.Event.Type,
+            delivery.Target.Id,
+            delivery.Target.Url,
+            delivery.Attempt,
+            error == null,
+            statusCode,
+            error,
+            (int)stopwatch.ElapsedMilliseconds,
+            NextRetryAt: null,
+            CreatedAt: DateTime.UtcNow);
+    }
+
+    private async Task LogAttemptAsync(string subscriptionId, WebhookDeliveryDto attempt, CancellationToken ct)
+    {
+        await using var cmd = _connection.CreateCommand();
+        cmd.CommandText = @"
+            INSERT INTO webhook_deliveries
+            (subscription_id, event_id, event_type, target_id, url, attempt, success, status_code, error, duration_ms, next_retry_at)
+            VALUES
+            ({subId:String}, {eventId:String}, {eventType:String}, {targetId:String}, {url:String},
+             {attempt:UInt8}, {success:UInt8}, {status:UInt16}, {error:String}, {duration:UInt32},
+             {nextRetry:Nullable(DateTime64(3))})";
+        AddParam(cmd, "subId", subscriptionId);
+        AddParam(cmd, "eventId", attempt.EventId);
+        AddParam(cmd, "eventType", attempt.EventType);
+        AddParam(cmd, "targetId", attempt.TargetId);
+        AddParam(cmd, "url", attempt.Url);
+        AddParam(cmd, "attempt", (byte)attempt.Attempt);
+        AddParam(cmd, "success", (byte)(attempt.Success ? 1 : 0));
+        AddParam(cmd, "status", (ushort)attempt.StatusCode);
+        AddParam(cmd, "error", attempt.Error ?? "");
+        AddParam(cmd, "duration", (uint)attempt.DurationMs);
+        AddParam(cmd, "nextRetry", attempt.NextRetryAt.HasValue ? attempt.NextRetryAt.Value : DBNull.Value);
+        await cmd.ExecuteNonQueryAsync(ct);
+    }
+
+    private static string Truncate(string text) =>
+        text.Length > MaxErrorLength ? text[..MaxErrorLength] + "…" : text;
+
+    private static void AddParam(System.Data.Common.DbCommand cmd, string name, object value)
+    {
+        cmd.Parameters.Add(new ClickHouse.Client.ADO.Parameters.ClickHouseDbParameter
+            { ParameterName = name, Value = value });
+    }
+
+    public override void Dispose()
+    {
+        base.Dispose();
+        _slots.Dispose();
+        _connection.Dispose();
+    }
+
+    private record PendingDelivery(WebhookTargetDto Target, WebhookEventDto Event, string Body, int Attempt);
+}
@@ -0,0 +1,85 @@
+using System.Net;
+using System.Text;
+using Microsoft.Extensions.Logging.Abstractions;
+using QubicExplorer.Shared.Services;
+
+namespace QubicExplorer.Indexer.Tests;
+
+public class AddressLabelSearchTests
+{
+    private const string Bundle = """
+        {
+          "address_labels": [{ "name": "Binance deposit", "address": "BINABBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB" }],
+          "exchanges": [{ "name": "Binance", "address": "BINAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA" }],
+          "smart_contracts": [
+            {
+              "name": "QX",
+              "address": "CCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCC",
+              "contractIndex": 1,
+              "procedures": [
+                { "id": 1, "name": "IssueAsset" },
+                { "id": 2, "name": "TransferShareOwnershipAndPossession" },
+                { "id": 5, "name": "AddToAskOrder" }
+              ]
+            },
+            {
+              "name": "Qutil",
+              "address": "DDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDD",
+              "contractIndex": 4,
+              "procedures": [{ "id": 1, "name": "SendToManyV1" }]
+            }
+          ],
+          "tokens": []
+        }
+        """;
+
+    private static async Task<AddressLabelService> LoadedService()
+    {
+        var service = new AddressLabelService(
+            new HttpClient(new BundleHandler()), "https://bundle.example/labels.json", NullLogger<AddressLabelService>.Instance);
+        await service.RefreshLabelsAsync();
+        return service;
+    }
+
+    [Fact]
+    public async Task AddressPrefix_MatchesLabelledAddressesInOrder()
+    {
+        var service = await LoadedService();
+
+        Assert.Equal(["Binance", "Binance deposit"], service.SearchByAddressPrefix("BINA").Select(a => a.Label));
+        Assert.Equal(["Binance deposit"], service.SearchByAddressPrefix("binab").Select(a => a.Label));
+        Assert.Single(service.SearchByAddressPrefix("BINA", maxResults: 1));
+        Assert.Empty(service.SearchByAddressPrefix("ZZZZ"));
+    }
+
+    [Fact]
+    public async Task Procedures_MatchContractAndProcedureTerms()
+    {
+        var service = await LoadedService();
+
+        var match = Assert.Single(service.SearchProcedures("qx transfer"));
+        Assert.Equal(("QX", 2, "TransferShareOwnershipAndPossession"), (match.ContractName, match.InputType, match.Name));
+
+        Assert.Equal(["SendToManyV1"], service.SearchProcedures("sendtomany").Select(m => m.Name));
+        Assert.Empty(service.SearchProcedures("qutil issue"));
+    }
+
+    [Fact]
+    public async Task Procedures_RankPrefixMatchesFirst()
+    {
+        var service = await LoadedService();
+
+        // Every procedure contains an "a"; only AddToAskOrder starts with one, the rest go by length
+        Assert.Equal(["AddToAskOrder", "IssueAsset", "SendToManyV1", "TransferShareOwnershipAndPossession"],
+            service.SearchProcedures("a").Select(m => m.Name));
+    }
+
+    private class BundleHandler : HttpMessageHandler
+    {
+        protected override Task<HttpResponseMessage> SendAsync(HttpRequestMessage request, CancellationToken ct) =>
+            Task.FromResult(new HttpResponseMessage(HttpStatusCode.OK)
+            {
+                Content = new StringContent(Bundle, Encoding.UTF8, "application/json")
+            });
+    }
+}
@@ -0,0 +1,31 @@
+using QubicExplorer.Shared.Services;
+
+namespace QubicExplorer.Indexer.Tests;
+
+public class AddressLabelVersionTests
+{
+    private static KeyValuePair<string, AddressInfo> Label(string address, string label, AddressType type = AddressType.Known) =>
+        new(address, new AddressInfo { Label = label, Type = type });
+
+    [Fact]
+    public void Version_IgnoresOrderAndAddressCase()
+    {
+        var a = AddressLabelService.ComputeVersion([Label("AAAA", "Alpha"), Label("BBBB", "Beta")]);
+        var b = AddressLabelService.ComputeVersion([Label("bbbb", "Beta"), Label("aaaa", "Alpha")]);
+
+        Assert.Equal(a, b);
+        Assert.Equal(16, a.Length);
+    }
+
+    [Fact]
+    public void Version_ChangesWithAnyLabelField()
+    {
+        var baseline = AddressLabelService.ComputeVersion([Label("AAAA", "Alpha")]);
+
+        Assert.NotEqual(baseline, AddressLabelService.ComputeVersion([Label("AAAA", "Alpha 2")]));
+        Assert.NotEqual(baseline, AddressLabelService.ComputeVersion([Label("AAAA", "Alpha", AddressType.Exchange)]));
+        Assert.NotEqual(baseline, AddressLabelService.ComputeVersion([Label("AAAA", "Alpha"), Label("BBBB", "Beta")]));
+        Assert.NotEqual(baseline, AddressLabelService.ComputeVersion(
+            [new("AAAA", new AddressInfo { Label = "Alpha", Type = AddressType.Known, Website = "https://a.example" })]));
+    }
+}
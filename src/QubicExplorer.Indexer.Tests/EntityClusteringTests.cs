@@ -0,0 +1,169 @@
+using Microsoft.Extensions.Logging.Abstractions;
+using QubicExplorer.Shared.DTOs;
+using QubicExplorer.Shared.Services;
+using static QubicExplorer.Shared.Services.EntityClustering;
+
+namespace QubicExplorer.Indexer.Tests;
+
+public class EntityClusteringTests
+{
+    private const string HotWallet = "HOT";
+    private const string OtherExchange = "OTHER";
+    private const string Contract = "QX";
+
+    private static readonly Dictionary<string, AddressInfo> Labels = new()
+    {
+        [HotWallet] = new() { Label = "Exchange A", Type = AddressType.Exchange },
+        [OtherExchange] = new() { Label = "Exchange B", Type = AddressType.Exchange },
+        [Contract] = new() { Label = "QX", Type = AddressType.SmartContract }
+    };
+
+    private static AddressInfo? LabelOf(string address) => Labels.GetValueOrDefault(address);
+
+    private static List<EntityCluster> Run(
+        IEnumerable<SweepStats>? sweeps = null,
+        IEnumerable<PayoutBatch>? payouts = null,
+        IEnumerable<CoSpend>? coSpends = null) =>
+        Cluster(LabelOf, sweeps ?? [], payouts ?? [], coSpends ?? []);
+
+    private static IEnumerable<CoSpend> CoSpendTicks(int ticks, string destination, params string[] sources) =>
+        Enumerable.Range(1, ticks).Select(t => new CoSpend((ulong)t, destination, sources));
+
+    // ── Deposits ────────────────────────────────────────────────────────
+
+    [Fact]
+    public void Deposits_JoinTheLabelledWalletTheySweepInto()
+    {
+        var entity = Assert.Single(Run(sweeps:
+        [
+            new SweepStats("D1", HotWallet, 4, 1.0),
+            new SweepStats("D2", HotWallet, 2, 0.97)
+        ]));
+
+        Assert.Equal(("Exchange A", "exchange"), (entity.Label, entity.Type));
+        Assert.Equal(EntityId(HotWallet), entity.Id);
+        Assert.Equal(
+            [(HotWallet, RoleAnchor, 0u), ("D1", RoleDeposit, 4u), ("D2", RoleDeposit, 2u)],
+            entity.Members.Select(m => (m.Address, m.Role, m.Evidence)));
+    }
+
+    [Fact]
+    public void Deposits_IgnoreSingleTransfersAndSplitOutflows()
+    {
+        Assert.Empty(Run(sweeps:
+        [
+            new SweepStats("D1", HotWallet, 1, 1.0),
+            new SweepStats("D2", HotWallet, 5, 0.6)
+        ]));
+    }
+
+    [Fact]
+    public void Deposits_IntoUnlabelledCollector_NeedSeveralDepositors()
+    {
+        Assert.Empty(Run(sweeps: [new SweepStats("D1", "C", 3, 1.0), new SweepStats("D2", "C", 3, 1.0)]));
+
+        var entity = Assert.Single(Run(sweeps:
+        [
+            new SweepStats("D1", "C", 3, 1.0),
+            new SweepStats("D2", "C", 3, 1.0),
+            new SweepStats("D3", "C", 3, 1.0)
+        ]));
+        Assert.Null(entity.Label);
+        Assert.Equal(("C", RoleCollector, 3u), entity.Members.Select(m => (m.Address, m.Role, m.Evidence)).First());
+    }
+
+    [Fact]
+    public void Deposits_ManyIntoOneCollector_FormOneEntity()
+    {
+        const int depositors = 5_000;
+        var entity = Assert.Single(Run(sweeps: Enumerable.Range(0, depositors)
+            .Select(i => new SweepStats($"D{i}", HotWallet, 3, 1.0))));
+
+        Assert.Equal(EntityId(HotWallet), entity.Id);
+        Assert.Equal(depositors + 1, entity.Members.Count);
+        Assert.Equal(depositors, entity.Members.Count(m => m.Role == RoleDeposit));
+    }
+
+    [Fact]
+    public void SmartContractsNeverJoin()
+    {
+        Assert.Empty(Run(
+            sweeps: [new SweepStats("D1", Contract, 5, 1.0)],
+            coSpends: CoSpendTicks(5, Contract, "A", "B")));
+    }
+
+    // ── Payouts and co-spending ─────────────────────────────────────────
+
+    [Fact]
+    public void PayoutWallets_SharingRecipients_AreGrouped()
+    {
+        var recipients = Enumerable.Range(0, 10).Select(i => $"R{i}").ToList();
+        var entity = Assert.Single(Run(payouts:
+        [
+            new PayoutBatch("P1", recipients.Take(8).ToList()),
+            new PayoutBatch("P2", recipients.Skip(2).ToList()),
+            new PayoutBatch("P3", ["X1", "X2", "R0"])
+        ]));
+
+        Assert.Equal(["P1", "P2"], entity.Members.Select(m => m.Address));
+        Assert.All(entity.Members, m => Assert.Equal((RolePayout, 6u), (m.Role, m.Evidence)));
+    }
+
+    [Fact]
+    public void CoSpending_NeedsRepeatedTicks()
+    {
+        Assert.Empty(Run(coSpends: CoSpendTicks(MinCoSpendTicks - 1, "DEST", "A", "B")));
+
+        var entity = Assert.Single(Run(coSpends: CoSpendTicks(MinCoSpendTicks, "DEST", "A", "B")));
+        Assert.Equal(["A", "B"], entity.Members.Select(m => m.Address));
+    }
+
+    [Fact]
+    public void DifferentlyLabelledEntities_AreNeverMerged()
+    {
+        var entities = Run(
+            sweeps: [new SweepStats("D1", HotWallet, 3, 1.0), new SweepStats("D2", OtherExchange, 3, 1.0)],
+            coSpends: CoSpendTicks(5, "DEST", "D1", "D2"));
+
+        Assert.Equal(2, entities.Count);
+        Assert.Equal(["Exchange A", "Exchange B"], entities.Select(e => e.Label).Order());
+    }
+
+    [Fact]
+    public void EntityIds_DoNotDependOnInputOrder()
+    {
+        var spends = CoSpendTicks(3, "DEST", "A", "B").Concat(CoSpendTicks(3, "DEST", "C", "B")).ToList();
+
+        var forward = Assert.Single(Run(coSpends: spends));
+        var reversed = Assert.Single(Run(coSpends: Enumerable.Reverse(spends)));
+
+        Assert.Equal(EntityId("A"), forward.Id);
+        Assert.Equal(forward.Id, reversed.Id);
+    }
+
+    // ── Label service ───────────────────────────────────────────────────
+
+    [Fact]
+    public void LabelService_ExposesEntityMembership()
+    {
+        var service = new AddressLabelService(new HttpClient(), "https://bundle.example/labels.json", NullLogger<AddressLabelService>.Instance);
+        var entity = new EntityCluster("e1", "Exchange A", "exchange",
+            [new EntityMember(HotWallet, RoleAnchor, 0), new EntityMember("D1", RoleDeposit, 4)]);
+
+        service.SetEntities([entity], DateTime.UtcNow);
+
+        Assert.Equal(RoleDeposit, service.GetEntityMembership("D1")?.Member.Role);
+        Assert.Same(entity, service.GetEntity("e1"));
+        Assert.Null(service.GetEntityMembership("D2"));
+    }
+
+    [Fact]
+    public void ComputeVersion_ChangesWithEntities()
+    {
+        var labels = Labels.ToList();
+        var entity = new EntityCluster("e1", "Exchange A", "exchange", [new EntityMember("D1", RoleDeposit, 4)]);
+
+        Assert.Equal(AddressLabelService.ComputeVersion(labels), AddressLabelService.ComputeVersion(labels, []));
+        Assert.NotEqual(AddressLabelService.ComputeVersion(labels), AddressLabelService.ComputeVersion(labels, [entity]));
+    }
+}
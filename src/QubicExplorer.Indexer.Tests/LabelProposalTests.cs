@@ -0,0 +1,159 @@
+using System.Net;
+using System.Text;
+using Microsoft.Extensions.Logging.Abstractions;
+using QubicExplorer.Shared.DTOs;
+using QubicExplorer.Shared.Services;
+
+namespace QubicExplorer.Indexer.Tests;
+
+public class LabelProposalTests
+{
+    private static readonly string Exchange = new('E', 60);
+    private static readonly string Contract = new('C', 60);
+    private static readonly string Plain = new('P', 60);
+
+    private const string Bundle = """
+        {
+          "address_labels": [],
+          "exchanges": [{ "name": "Exchange A", "address": "EEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEE" }],
+          "smart_contracts": [{ "name": "QX", "address": "CCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCC", "contractIndex": 1 }],
+          "tokens": []
+        }
+        """;
+
+    private static LabelProposalRequest Request(
+        string? address = null, string label = "Desk B", string type = "exchange", string url = "https://example.com/proof") =>
+        new(address ?? Plain, label, type, url);
+
+    private static AddressLabelService LoadedService()
+    {
+        var client = new HttpClient(new BundleHandler());
+        return new AddressLabelService(client, "https://bundle.example/labels.json", NullLogger<AddressLabelService>.Instance);
+    }
+
+    // ── Validation ──────────────────────────────────────────────────────
+
+    [Fact]
+    public void Validate_AcceptsWellFormedProposal()
+    {
+        Assert.Null(LabelProposalRules.Validate(Request(), null));
+    }
+
+    [Theory]
+    [InlineData("short", "Desk", "exchange", "https://example.com")]
+    [InlineData(null, "", "exchange", "https://example.com")]
+    [InlineData(null, "Desk", "smartcontract", "https://example.com")]
+    [InlineData(null, "Desk", "exchange", "ftp://example.com")]
+    [InlineData(null, "Desk", "exchange", "not a url")]
+    public void Validate_RejectsMalformedProposals(string? address, string label, string type, string url)
+    {
+        Assert.NotNull(LabelProposalRules.Validate(Request(address, label, type, url), null));
+    }
+
+    [Fact]
+    public void Validate_ProtectsContractsAndBurnAddresses()
+    {
+        Assert.NotNull(LabelProposalRules.Validate(Request(), new AddressInfo { Label = "QX", Type = AddressType.SmartContract }));
+        Assert.NotNull(LabelProposalRules.Validate(Request(), new AddressInfo { Label = "BURN", Type = AddressType.Burn }));
+        Assert.Null(LabelProposalRules.Validate(Request(), new AddressInfo { Label = "Old", Type = AddressType.Known }));
+    }
+
+    [Fact]
+    public void Validate_RejectsUnchangedLabel()
+    {
+        Assert.NotNull(LabelProposalRules.Validate(Request(label: "Desk B"), new AddressInfo { Label = "Desk B", Type = AddressType.Exchange }));
+    }
+
+    // ── Label set ───────────────────────────────────────────────────────
+
+    [Fact]
+    public void DiffLabels_ReportsAddedChangedAndRemoved()
+    {
+        var before = new Dictionary<string, AddressInfo>
+        {
+            ["A"] = new() { Label = "Same", Type = AddressType.Known },
+            ["B"] = new() { Label = "Old", Type = AddressType.Known },
+            ["C"] = new() { Label = "Gone", Type = AddressType.Known }
+        };
+        var after = new Dictionary<string, AddressInfo>
+        {
+            ["A"] = new() { Label = "Same", Type = AddressType.Known },
+            ["B"] = new() { Label = "Old", Type = AddressType.Exchange },
+            ["D"] = new() { Label = "New", Type = AddressType.Known }
+        };
+
+        var diff = AddressLabelService.DiffLabels(before, after);
+
+        Assert.Equal(["B", "C", "D"], diff.Select(d => d.Address));
+        Assert.Null(diff.Single(d => d.Address == "C").After);
+        Assert.Null(diff.Single(d => d.Address == "D").Before);
+    }
+
+    [Fact]
+    public async Task CommunityLabels_OverrideBundleAndReportChanges()
+    {
+        var service = LoadedService();
+        await service.RefreshLabelsAsync();
+        var version = service.Version;
+
+        var reported = new List<LabelChangeDto>();
+        service.LabelsChanged += changes => reported.AddRange(changes);
+
+        service.SetCommunityLabels(
+        [
+            new CommunityLabel(Exchange, "Exchange A cold wallet", "exchange", "p1", "https://example.com/a"),
+            new CommunityLabel(Contract, "Not QX", "known", "p2", "https://example.com/b"),
+            new CommunityLabel(Plain, "Desk B", "known", "p3", "https://example.com/c")
+        ]);
+
+        Assert.Equal("Exchange A cold wallet", service.GetAddressInfo(Exchange)?.Label);
+        Assert.Equal(AddressType.SmartContract, service.GetAddressInfo(Contract)?.Type);
+        Assert.NotEqual(version, service.Version);
+
+        Assert.Equal([Exchange, Plain], reported.Select(c => c.Address).Order(StringComparer.Ordinal));
+        var added = reported.Single(c => c.Address == Plain);
+        Assert.Equal(("unknown", "known", "community", "p3"), (added.OldType, added.NewType, added.Source, added.ProposalId));
+    }
+
+    [Fact]
+    public async Task CommunityLabels_LoadedBeforeBundle_AreNotReported()
+    {
+        var service = LoadedService();
+        var reported = 0;
+        service.LabelsChanged += changes => reported += changes.Count;
+
+        service.SetCommunityLabels([new CommunityLabel(Plain, "Desk B", "known", "p3", "https://example.com/c")]);
+        await service.RefreshLabelsAsync();
+
+        Assert.Equal(0, reported);
+        Assert.Equal("Desk B", service.GetAddressInfo(Plain)?.Label);
+        Assert.Equal("Exchange A", service.GetAddressInfo(Exchange)?.Label);
+    }
+
+    [Fact]
+    public async Task CommunityLabels_PeriodicReload_AppliesWithoutReporting()
+    {
+        var service = LoadedService();
+        await service.RefreshLabelsAsync();
+        var reported = 0;
+        service.LabelsChanged += changes => reported += changes.Count;
+
+        service.SetCommunityLabels([new CommunityLabel(Plain, "Desk B", "known", "p3", "https://example.com/c")], reportChanges: false);
+        var version = service.Version;
+        var changedAt = service.LastUpdated;
+        service.SetCommunityLabels([new CommunityLabel(Plain, "Desk B", "known", "p3", "https://example.com/c")]);
+
+        Assert.Equal(0, reported);
+        Assert.Equal("Desk B", service.GetAddressInfo(Plain)?.Label);
+        Assert.Equal((version, changedAt), (service.Version, service.LastUpdated));
+    }
+
+    private class BundleHandler : HttpMessageHandler
+    {
+        protected override Task<HttpResponseMessage> SendAsync(HttpRequestMessage request, CancellationToken ct) =>
+            Task.FromResult(new HttpResponseMessage(HttpStatusCode.OK)
+            {
+                Content = new StringContent(Bundle, Encoding.UTF8, "application/json")
+            });
+    }
+}
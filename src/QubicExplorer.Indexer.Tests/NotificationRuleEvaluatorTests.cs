@@ -0,0 +1,152 @@
+using QubicExplorer.Shared.DTOs;
+using QubicExplorer.Shared.Services;
+
+namespace QubicExplorer.Indexer.Tests;
+
+public class NotificationRuleEvaluatorTests
+{
+    private const string Watched = "WATCHED";
+    private const string Exchange = "EXCHANGE";
+
+    private static NotificationTransferEvent Transfer(
+        string direction = "incoming", ulong amount = 1_000, string asset = "QU", string counterpartyType = "unknown",
+        string? contract = null, int? inputType = null) =>
+        new(Watched, direction, amount, asset, Exchange, counterpartyType, contract, inputType);
+
+    private static NotificationRuleDto Rule(
+        string direction = "any", ulong? min = null, ulong? max = null, List<string>? types = null,
+        string? asset = null, List<string>? addresses = null, bool enabled = true) =>
+        new("r1", "Rule", enabled, NotificationRuleEvaluator.TriggerTransfer, addresses, direction, min, max, types, asset);
+
+    // ── Transfer matching ───────────────────────────────────────────────
+
+    [Fact]
+    public void EmptyRule_MatchesAnyTransfer()
+    {
+        Assert.True(NotificationRuleEvaluator.MatchesTransfer(Rule(), Transfer()));
+        Assert.True(NotificationRuleEvaluator.MatchesTransfer(Rule(), Transfer(direction: "outgoing", asset: "QX")));
+    }
+
+    [Fact]
+    public void DisabledRule_NeverMatches()
+    {
+        Assert.False(NotificationRuleEvaluator.MatchesTransfer(Rule(enabled: false), Transfer()));
+    }
+
+    [Fact]
+    public void Direction_MustMatch()
+    {
+        Assert.True(NotificationRuleEvaluator.MatchesTransfer(Rule(direction: "incoming"), Transfer("incoming")));
+        Assert.False(NotificationRuleEvaluator.MatchesTransfer(Rule(direction: "incoming"), Transfer("outgoing")));
+    }
+
+    [Fact]
+    public void AmountRange_IsInclusive()
+    {
+        var rule = Rule(min: 100, max: 200);
+        Assert.True(NotificationRuleEvaluator.MatchesTransfer(rule, Transfer(amount: 100)));
+        Assert.True(NotificationRuleEvaluator.MatchesTransfer(rule, Transfer(amount: 200)));
+        Assert.False(NotificationRuleEvaluator.MatchesTransfer(rule, Transfer(amount: 99)));
+        Assert.False(NotificationRuleEvaluator.MatchesTransfer(rule, Transfer(amount: 201)));
+    }
+
+    [Fact]
+    public void CounterpartyTypes_MustContainEventType()
+    {
+        var rule = Rule(types: ["exchange", "burn"]);
+        Assert.True(NotificationRuleEvaluator.MatchesTransfer(rule, Transfer(counterpartyType: "exchange")));
+        Assert.False(NotificationRuleEvaluator.MatchesTransfer(rule, Transfer(counterpartyType: "smartcontract")));
+    }
+
+    [Fact]
+    public void AssetName_IsCaseInsensitive()
+    {
+        Assert.True(NotificationRuleEvaluator.MatchesTransfer(Rule(asset: "qx"), Transfer(asset: "QX")));
+        Assert.False(NotificationRuleEvaluator.MatchesTransfer(Rule(asset: "QU"), Transfer(asset: "QX")));
+    }
+
+    [Fact]
+    public void Procedure_RequiresContractAndInputType()
+    {
+        var rule = Rule() with { ContractAddress = "QX_CONTRACT", InputType = 6 };
+        Assert.True(NotificationRuleEvaluator.MatchesTransfer(rule, Transfer(contract: "QX_CONTRACT", inputType: 6)));
+        Assert.False(NotificationRuleEvaluator.MatchesTransfer(rule, Transfer(contract: "QX_CONTRACT", inputType: 5)));
+        Assert.False(NotificationRuleEvaluator.MatchesTransfer(rule, Transfer()));
+    }
+
+    [Fact]
+    public void Addresses_LimitTheRule()
+    {
+        Assert.True(NotificationRuleEvaluator.MatchesTransfer(Rule(addresses: [Watched]), Transfer()));
+        Assert.False(NotificationRuleEvaluator.MatchesTransfer(Rule(addresses: ["OTHER"]), Transfer()));
+    }
+
+    // ── Balance thresholds ──────────────────────────────────────────────
+
+    [Fact]
+    public void BalanceBelow_FiresOnlyWhenCrossing()
+    {
+        var rule = new NotificationRuleDto("b", "Low", true, NotificationRuleEvaluator.TriggerBalanceBelow, BalanceThreshold: 1_000);
+        Assert.True(NotificationRuleEvaluator.MatchesBalance(rule, Watched, 1_000, 999));
+        Assert.False(NotificationRuleEvaluator.MatchesBalance(rule, Watched, 999, 500));
+        Assert.False(NotificationRuleEvaluator.MatchesBalance(rule, Watched, 500, 2_000));
+    }
+
+    [Fact]
+    public void BalanceAbove_FiresOnlyWhenCrossing()
+    {
+        var rule = new NotificationRuleDto("b", "High", true, NotificationRuleEvaluator.TriggerBalanceAbove, BalanceThreshold: 1_000);
+        Assert.True(NotificationRuleEvaluator.MatchesBalance(rule, Watched, 1_000, 1_001));
+        Assert.False(NotificationRuleEvaluator.MatchesBalance(rule, Watched, 1_001, 5_000));
+    }
+
+    // ── Quiet hours ─────────────────────────────────────────────────────
+
+    [Theory]
+    [InlineData("22:00", "07:00", 23, true)]
+    [InlineData("22:00", "07:00", 3, true)]
+    [InlineData("22:00", "07:00", 7, false)]
+    [InlineData("22:00", "07:00", 12, false)]
+    [InlineData("09:00", "17:00", 12, true)]
+    [InlineData("09:00", "17:00", 17, false)]
+    public void QuietHours_HandleWindowsAcrossMidnight(string start, string end, int hourUtc, bool expected)
+    {
+        var now = new DateTime(2026, 3, 4, hourUtc, 0, 0, DateTimeKind.Utc);
+        Assert.Equal(expected, NotificationRuleEvaluator.IsQuiet(new QuietHoursDto(start, end), now));
+    }
+
+    [Fact]
+    public void QuietHours_UseTheRuleTimeZone()
+    {
+        // 21:00 UTC is 22:00 in Berlin (CET) in March before the DST switch
+        var now = new DateTime(2026, 3, 4, 21, 0, 0, DateTimeKind.Utc);
+        Assert.True(NotificationRuleEvaluator.IsQuiet(new QuietHoursDto("22:00", "07:00", "Europe/Berlin"), now));
+        Assert.False(NotificationRuleEvaluator.IsQuiet(new QuietHoursDto("22:00", "07:00"), now));
+    }
+
+    // ── Validation and legacy preferences ───────────────────────────────
+
+    [Fact]
+    public void Validate_RejectsBadRules()
+    {
+        Assert.Null(NotificationRuleEvaluator.Validate([Rule()]));
+        Assert.NotNull(NotificationRuleEvaluator.Validate([Rule(direction: "sideways")]));
+        Assert.NotNull(NotificationRuleEvaluator.Validate([Rule(min: 10, max: 5)]));
+        Assert.NotNull(NotificationRuleEvaluator.Validate([Rule(types: ["whale"])]));
+        Assert.NotNull(NotificationRuleEvaluator.Validate([Rule() with { QuietHours = new QuietHoursDto("25:00", "07:00") }]));
+        Assert.NotNull(NotificationRuleEvaluator.Validate(
+            [new NotificationRuleDto("b", "Low", true, NotificationRuleEvaluator.TriggerBalanceBelow)]));
+    }
+
+    [Fact]
+    public void LegacyPreferences_BecomeEquivalentRules()
+    {
+        var rules = NotificationRuleEvaluator.FromLegacyPreferences(
+            ["incoming", "large_transfer", "balance_threshold"], 1_000_000, balanceMinThreshold: 500, balanceMaxThreshold: 0);
+
+        Assert.Equal(new[] { "large_transfer", "incoming", "balance_min" }, rules.Select(r => r.Id));
+        Assert.Equal("Large Transfer Detected",
+            rules.First(r => NotificationRuleEvaluator.MatchesTransfer(r, Transfer(amount: 2_000_000))).Name);
+        Assert.DoesNotContain(rules, r => NotificationRuleEvaluator.MatchesTransfer(r, Transfer("outgoing")));
+    }
+}
@@ -769,6 +769,8 @@ public static class ClickHouseSchema
             large_transfer_threshold UInt64 DEFAULT 1000000000,
             balance_min_threshold UInt64 DEFAULT 0,
             balance_max_threshold UInt64 DEFAULT 0,
+            rules String DEFAULT '' CODEC(ZSTD(3)),
+            webhooks String DEFAULT '' CODEC(ZSTD(3)),
             created_at DateTime64(3) DEFAULT now64(3),
             updated_at DateTime64(3) DEFAULT now64(3)
         ) ENGINE = ReplacingMergeTree(updated_at)
@@ -778,9 +780,25 @@ public static class ClickHouseSchema
 
         $"ALTER TABLE {DatabaseName}.push_subscriptions ADD COLUMN IF NOT EXISTS balance_min_threshold UInt64 DEFAULT 0",
         $"ALTER TABLE {DatabaseName}.push_subscriptions ADD COLUMN IF NOT EXISTS balance_max_threshold UInt64 DEFAULT 0",
+        // Notification rules as JSON; empty for subscriptions that only use the fixed event types
+        $"ALTER TABLE {DatabaseName}.push_subscriptions ADD COLUMN IF NOT EXISTS rules String DEFAULT '' CODEC(ZSTD(3))",
+        // Webhook targets as JSON; subscriptions without a browser endpoint only use these
+        $"ALTER TABLE {DatabaseName}.push_subscriptions ADD COLUMN IF NOT EXISTS webhooks String DEFAULT '' CODEC(ZSTD(3))",
 
         $"ALTER TABLE {DatabaseName}.push_subscriptions ADD INDEX IF NOT EXISTS idx_push_endpoint endpoint TYPE bloom_filter GRANULARITY 4",
 
+        // Synced portfolios (watchlists), keyed by a hash of the anonymous sync token
+        $"""
+        CREATE TABLE IF NOT EXISTS {DatabaseName}.portfolio_sync (
+            token_hash String CODEC(LZ4HC),
+            document String CODEC(ZSTD(3)),
+            client_updated_at DateTime64(3),
+            updated_at DateTime64(3) DEFAULT now64(3)
+        ) ENGINE = ReplacingMergeTree(updated_at)
+        ORDER BY token_hash
+        TTL toDateTime(updated_at) + INTERVAL 365 DAY
+        """,
+
         // Notification log (tracks what was sent to avoid duplicates)
         $"""
         CREATE TABLE IF NOT EXISTS {DatabaseName}.notification_log (
@@ -795,6 +813,93 @@ public static class ClickHouseSchema
         TTL toDateTime(sent_at) + INTERVAL 7 DAY
         """,
 
+        // Webhook delivery log (one row per attempt)
+        $"""
+        CREATE TABLE IF NOT EXISTS {DatabaseName}.webhook_deliveries (
+            subscription_id String CODEC(LZ4HC),
+            event_id String CODEC(LZ4HC),
+            event_type LowCardinality(String),
+            target_id String CODEC(LZ4HC),
+            url String CODEC(ZSTD(3)),
+            attempt UInt8,
+            success UInt8,
+            status_code UInt16,
+            error String DEFAULT '' CODEC(ZSTD(3)),
+            duration_ms UInt32 CODEC(T64, LZ4),
+            next_retry_at Nullable(DateTime64(3)),
+            created_at DateTime64(3) DEFAULT now64(3)
+        ) ENGINE = MergeTree
+        ORDER BY (subscription_id, created_at)
+        TTL toDateTime(created_at) + INTERVAL 30 DAY
+        """,
+
+        // Community label proposals (moderation queue); a review inserts a newer row
+        $"""
+        CREATE TABLE IF NOT EXISTS {DatabaseName}.label_proposals (
+            id String CODEC(LZ4HC),
+            address String CODEC(LZ4HC),
+            label String CODEC(ZSTD(3)),
+            type LowCardinality(String),
+            source_url String CODEC(ZSTD(3)),
+            comment String DEFAULT '' CODEC(ZSTD(3)),
+            submitter_hash String CODEC(LZ4HC),
+            status LowCardinality(String),
+            review_note String DEFAULT '' CODEC(ZSTD(3)),
+            created_at DateTime64(3),
+            reviewed_at Nullable(DateTime64(3)),
+            updated_at DateTime64(3) DEFAULT now64(3)
+        ) ENGINE = ReplacingMergeTree(updated_at)
+        ORDER BY id
+        """,
+
+        // Public label changelog: every label added, changed or removed by a
+        // bundle refresh or a community review
+        $"""
+        CREATE TABLE IF NOT EXISTS {DatabaseName}.label_changes (
+            address String CODEC(LZ4HC),
+            old_label String DEFAULT '' CODEC(ZSTD(3)),
+            old_type LowCardinality(String),
+            new_label String DEFAULT '' CODEC(ZSTD(3)),
+            new_type LowCardinality(String),
+            source LowCardinality(String),
+            proposal_id String DEFAULT '' CODEC(LZ4HC),
+            source_url String DEFAULT '' CODEC(ZSTD(3)),
+            version String CODEC(LZ4),
+            changed_at DateTime64(3) CODEC(DoubleDelta, LZ4)
+        ) ENGINE = MergeTree
+        ORDER BY (changed_at, address)
+        """,
+
+        // Address entities from the clustering heuristics. Each run writes a
+        // full snapshot under its computed_at; readers use the latest one
+        // recorded in entity_runs.
+        $"""
+        CREATE TABLE IF NOT EXISTS {DatabaseName}.entity_members (
+            computed_at DateTime64(3),
+            entity_id String CODEC(LZ4),
+            entity_label String DEFAULT '' CODEC(ZSTD(3)),
+            entity_type LowCardinality(String),
+            address String CODEC(LZ4HC),
+            role LowCardinality(String),
+            evidence UInt32
+        ) ENGINE = MergeTree
+        ORDER BY (computed_at, entity_id, address)
+        TTL toDateTime(computed_at) + INTERVAL 14 DAY
+        """,
+
+        // Clustering runs whose entity_members snapshot was written completely.
+        // A run that fails halfway leaves no row here, so readers never see it.
+        $"""
+        CREATE TABLE IF NOT EXISTS {DatabaseName}.entity_runs (
+            computed_at DateTime64(3),
+            entity_count UInt32,
+            member_count UInt32,
+            completed_at DateTime64(3) DEFAULT now64(3)
+        ) ENGINE = MergeTree
+        ORDER BY computed_at
+        TTL toDateTime(computed_at) + INTERVAL 14 DAY
+        """,
+
         // Per-epoch emission breakdown (computed once per completed epoch, immutable)
         // Stores: computor total, ARB revenue, and each donation recipient amount
         $"""
@@ -84,3 +84,17 @@ public class VapidOptions
     public string PublicKey { get; set; } = "";
     public string PrivateKey { get; set; } = "";
 }
+
+public class WebhookOptions
+{
+    public const string SectionName = "Webhooks";
+
+    /// <summary>Per-request timeout (seconds) for webhook deliveries.</summary>
+    public int TimeoutSeconds { get; set; } = 10;
+
+    /// <summary>
+    /// Allow webhooks to loopback and private networks. Off by default so
+    /// subscribers cannot reach internal services; turn on for local testing.
+    /// </summary>
+    public bool AllowPrivateNetworks { get; set; }
+}
@@ -48,3 +48,16 @@ public record LedgerEntryDto(
     long Amount,
     long RunningBalance
 );
+
+public record AddressBalanceHistoryDto(
+    string Address,
+    List<EpochBalanceDto> Epochs
+);
+
+public record EpochBalanceDto(
+    uint Epoch,
+    long OpeningBalance,
+    long ClosingBalance,
+    long Inflow,
+    long Outflow
+);
@@ -0,0 +1,39 @@
+namespace QubicExplorer.Shared.DTOs;
+
+/// <summary>
+/// An address of an entity and the heuristic that put it there. Evidence is
+/// the number of sweeps, shared payout recipients or co-spending ticks.
+/// </summary>
+public record EntityMember(
+    string Address,
+    string Role,
+    uint Evidence
+);
+
+/// <summary>
+/// A group of addresses believed to belong to the same owner. Label and type
+/// come from the labelled address the entity formed around, if any.
+/// </summary>
+public record EntityCluster(
+    string Id,
+    string? Label,
+    string Type,
+    IReadOnlyList<EntityMember> Members
+);
+
+public record EntityMemberDto(
+    string Address,
+    string Role,
+    uint Evidence,
+    string? Label,
+    string Type
+);
+
+public record EntityDto(
+    string Id,
+    string? Label,
+    string Type,
+    int MemberCount,
+    DateTime ComputedAt,
+    List<EntityMemberDto> Members
+);
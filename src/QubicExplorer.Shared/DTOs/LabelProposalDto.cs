@@ -0,0 +1,61 @@
+namespace QubicExplorer.Shared.DTOs;
+
+/// <summary>
+/// A label suggested by a user for an address, see <see cref="Services.LabelProposalRules"/>.
+/// </summary>
+public record LabelProposalRequest(
+    string Address,
+    string Label,
+    string Type, // "known", "exchange" or "tokenissuer"
+    string SourceUrl, // where the label can be verified
+    string? Comment = null
+);
+
+/// <summary>
+/// A proposal in the moderation queue, with the label the address has now.
+/// </summary>
+public record LabelProposalDto(
+    string Id,
+    string Address,
+    string Label,
+    string Type,
+    string SourceUrl,
+    string? Comment,
+    string Status, // "pending", "approved", "rejected" or "revoked"
+    string? ReviewNote,
+    DateTime CreatedAt,
+    DateTime? ReviewedAt,
+    string? CurrentLabel = null,
+    string? CurrentType = null
+);
+
+public record LabelReviewRequest(
+    string? Note = null
+);
+
+/// <summary>
+/// An approved proposal, layered over the label bundle by <see cref="Services.AddressLabelService"/>.
+/// </summary>
+public record CommunityLabel(
+    string Address,
+    string Label,
+    string Type,
+    string ProposalId,
+    string SourceUrl
+);
+
+/// <summary>
+/// One entry of the public label changelog.
+/// </summary>
+public record LabelChangeDto(
+    string Address,
+    string? OldLabel,
+    string OldType, // "unknown" when the address had no label
+    string? NewLabel,
+    string NewType, // "unknown" when the label was removed
+    string Source, // "bundle" or "community"
+    string? ProposalId,
+    string? SourceUrl,
+    string Version, // label set version after the change
+    DateTime ChangedAt
+);
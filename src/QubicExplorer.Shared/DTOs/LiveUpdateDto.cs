@@ -0,0 +1,26 @@
+namespace QubicExplorer.Shared.DTOs;
+
+/// <summary>
+/// OnNewTick payload, sent to the "ticks" group as soon as a tick is seen
+/// (before it is indexed, so log counts are not known yet).
+/// </summary>
+public record LiveTickDto(
+    ulong TickNumber,
+    uint Epoch,
+    uint TxCount,
+    DateTime Timestamp
+);
+
+/// <summary>
+/// OnAddressUpdate payload, sent to the "address:{address}" group with the
+/// new balance and the activity since the previous update.
+/// </summary>
+public record AddressUpdateDto(
+    string Address,
+    ulong TickNumber,
+    ulong Balance,
+    ulong IncomingAmount,
+    ulong OutgoingAmount,
+    List<TransactionDto> Transactions,
+    List<TransferDto> Transfers
+);
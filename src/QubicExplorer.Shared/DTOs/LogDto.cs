@@ -10,7 +10,8 @@ public record LogDto(
     string? DestAddress,
     ulong Amount,
     string? AssetName,
-    DateTime Timestamp
+    DateTime Timestamp,
+    string? RawData = null
 );
 
 public record TransferDto(
@@ -0,0 +1,46 @@
+namespace QubicExplorer.Shared.DTOs;
+
+/// <summary>
+/// A push notification rule. Every condition that is set must match; unset
+/// conditions match anything. Rules are stored as JSON on the subscription
+/// and evaluated by <see cref="Services.NotificationRuleEvaluator"/>.
+/// </summary>
+public record NotificationRuleDto(
+    string Id,
+    string Name,
+    bool Enabled,
+    string Trigger, // "transfer", "balance_below" or "balance_above"
+    List<string>? Addresses = null, // empty = every address of the subscription
+    string Direction = "any", // "any", "incoming" or "outgoing"
+    ulong? MinAmount = null,
+    ulong? MaxAmount = null,
+    List<string>? CounterpartyTypes = null, // label types: exchange, smartcontract, tokenissuer, burn, known, unknown
+    string? AssetName = null, // "QU" for QU transfers, otherwise an asset name
+    string? ContractAddress = null, // with InputType: the contract procedure the transfer came from
+    int? InputType = null,
+    ulong? BalanceThreshold = null, // balance_below / balance_above
+    QuietHoursDto? QuietHours = null
+);
+
+/// <summary>
+/// Local time window (HH:mm, may wrap past midnight) in which a rule stays silent.
+/// </summary>
+public record QuietHoursDto(
+    string Start,
+    string End,
+    string TimeZone = "UTC" // IANA time zone id
+);
+
+/// <summary>
+/// A transfer involving a watched address, as seen by the rule evaluator.
+/// </summary>
+public record NotificationTransferEvent(
+    string Address,
+    string Direction, // "incoming" or "outgoing"
+    ulong Amount,
+    string AssetName, // "QU" for QU transfers
+    string Counterparty,
+    string CounterpartyType,
+    string? ContractAddress = null,
+    int? InputType = null
+);
@@ -1,9 +1,15 @@
 namespace QubicExplorer.Shared.DTOs;
 
+/// <summary>
+/// A search hit. Detail carries what the link needs besides Value: the issuer
+/// address for assets and the input type for procedures (Value is then the
+/// contract address).
+/// </summary>
 public record SearchResultDto(
     SearchResultType Type,
     string Value,
-    string? DisplayName
+    string? DisplayName,
+    string? Detail = null
 );
 
 public enum SearchResultType
@@ -11,7 +17,9 @@ public enum SearchResultType
     Tick,
     Transaction,
     Address,
-    Asset
+    Asset,
+    Epoch,
+    Procedure
 }
 
 public record SearchResponse(
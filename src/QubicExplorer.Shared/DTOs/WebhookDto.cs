@@ -0,0 +1,60 @@
+namespace QubicExplorer.Shared.DTOs;
+
+/// <summary>
+/// An HTTP endpoint that receives the events of a notification subscription.
+/// Requests are signed with the secret, see <see cref="Services.WebhookProtocol"/>.
+/// </summary>
+public record WebhookTargetDto(
+    string Id,
+    string Url,
+    string Secret,
+    bool Enabled = true
+);
+
+/// <summary>
+/// Body of a webhook request. The id stays the same across retries, so
+/// receivers can drop duplicates.
+/// </summary>
+public record WebhookEventDto(
+    string Id,
+    string Type, // "transfer", "balance_below", "balance_above" or "test"
+    string SubscriptionId,
+    string RuleId,
+    string RuleName,
+    string Address,
+    string Title,
+    string Body,
+    DateTime Timestamp,
+    WebhookTransferDto? Transfer = null,
+    ulong? Balance = null, // balance_below / balance_above
+    ulong? Threshold = null
+);
+
+public record WebhookTransferDto(
+    ulong TickNumber,
+    string? TxHash,
+    string Direction, // "incoming" or "outgoing"
+    ulong Amount,
+    string AssetName,
+    string Counterparty,
+    string CounterpartyType,
+    string? ContractAddress,
+    int? InputType
+);
+
+/// <summary>
+/// One delivery attempt, as kept in the delivery log.
+/// </summary>
+public record WebhookDeliveryDto(
+    string EventId,
+    string EventType,
+    string TargetId,
+    string Url,
+    int Attempt,
+    bool Success,
+    int StatusCode, // 0 when no response was received
+    string? Error,
+    int DurationMs,
+    DateTime? NextRetryAt,
+    DateTime CreatedAt
+);
@@ -1,5 +1,8 @@
+using System.Security.Cryptography;
+using System.Text;
 using System.Text.Json;
 using Microsoft.Extensions.Logging;
+using QubicExplorer.Shared.DTOs;
 using QubicExplorer.Shared.Models;
 
 namespace QubicExplorer.Shared.Services;
@@ -14,6 +17,13 @@ public class AddressLabelService
     private readonly Dictionary<string, Dictionary<int, string>> _contractProcedures = new(StringComparer.OrdinalIgnoreCase);
     private readonly object _lock = new();
     private DateTime _lastUpdate = DateTime.MinValue;
+    private DateTime _changedAt = DateTime.MinValue;
+    private string? _version;
+    private BundleData? _bundle;
+    private Dictionary<string, CommunityLabel> _communityLabels = new(StringComparer.OrdinalIgnoreCase);
+    private Dictionary<string, EntityCluster> _entities = new();
+    private Dictionary<string, (EntityCluster Entity, EntityMember Member)> _entityMembers = new(StringComparer.OrdinalIgnoreCase);
+    private DateTime? _entitiesComputedAt;
     private readonly TimeSpan _cacheExpiry = TimeSpan.FromHours(1);
 
     // the burn address is also the zero address
@@ -32,6 +42,11 @@ public class AddressLabelService
         _logger = logger;
     }
 
+    /// <summary>
+    /// Raised after a bundle refresh or a community label update changed labels.
+    /// </summary>
+    public event Action<IReadOnlyList<LabelChangeDto>>? LabelsChanged;
+
     public async Task InitializeAsync() => await RefreshLabelsAsync();
 
     public async Task RefreshLabelsAsync()
@@ -48,90 +63,210 @@ public class AddressLabelService
                 return;
             }
 
-            lock (_lock)
+            Rebuild("bundle", () => _bundle = bundle);
+            _logger.LogInformation("Loaded {Count} address labels", LabelCount);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error fetching address labels from {BundleUrl}", _bundleUrl);
+        }
+    }
+
+    /// <summary>
+    /// Replace the approved community labels layered over the bundle. They
+    /// override bundle labels except on smart contract and burn addresses.
+    /// Periodic reloads pass <paramref name="reportChanges"/> false, as the
+    /// instance that made a review has already reported its changes.
+    /// </summary>
+    public void SetCommunityLabels(IReadOnlyList<CommunityLabel> labels, bool reportChanges = true)
+    {
+        lock (_lock)
+        {
+            if (labels.Count == _communityLabels.Count &&
+                labels.All(l => _communityLabels.TryGetValue(l.Address, out var current) && current == l))
+                return;
+        }
+
+        Rebuild("community", () => _communityLabels = labels.ToDictionary(l => l.Address, StringComparer.OrdinalIgnoreCase), reportChanges);
+    }
+
+    /// <summary>
+    /// Replace the address entities computed by the analytics service. They
+    /// are kept apart from labels but are part of the label set version, as
+    /// label lookups carry the entity of an address.
+    /// </summary>
+    public void SetEntities(IReadOnlyList<EntityCluster> entities, DateTime computedAt)
+    {
+        lock (_lock)
+        {
+            _entities = entities.ToDictionary(e => e.Id);
+            _entityMembers = entities
+                .SelectMany(e => e.Members.Select(m => (Entity: e, Member: m)))
+                .ToDictionary(x => x.Member.Address, StringComparer.OrdinalIgnoreCase);
+            _entitiesComputedAt = computedAt;
+            if (_bundle == null) return;
+
+            _changedAt = DateTime.UtcNow;
+            _version = ComputeVersion(_addressInfo, _entities.Values);
+        }
+    }
+
+    /// <summary>
+    /// Rebuild the label set from the bundle and community labels after
+    /// <paramref name="update"/> changed one of them, and report the
+    /// differences to <see cref="LabelsChanged"/>. Nothing is reported until
+    /// the first bundle has loaded, so startup does not log every label.
+    /// </summary>
+    private void Rebuild(string source, Action update, bool reportChanges = true)
+    {
+        List<LabelChangeDto> changes;
+
+        lock (_lock)
+        {
+            var report = reportChanges && _bundle != null;
+            var before = new Dictionary<string, AddressInfo>(_addressInfo, StringComparer.OrdinalIgnoreCase);
+            update();
+
+            _addressLabels.Clear();
+            _addressInfo.Clear();
+            _contractProcedures.Clear();
+
+            if (_bundle != null)
+                AddBundle(_bundle);
+
+            foreach (var community in _communityLabels.Values)
             {
-                _addressLabels.Clear();
-                _addressInfo.Clear();
-                _contractProcedures.Clear();
+                _addressInfo.TryGetValue(community.Address, out var current);
+                if (!LabelProposalRules.CanRelabel(current)) continue;
 
-                foreach (var label in bundle.AddressLabels)
+                var type = LabelProposalRules.ParseType(community.Type);
+                _addressLabels[community.Address] = type == AddressType.Exchange ? $"#{community.Label}" : community.Label;
+                _addressInfo[community.Address] = new AddressInfo
                 {
-                    if (!string.IsNullOrEmpty(label.Address))
+                    Label = community.Label,
+                    Type = type,
+                    Website = current?.Website
+                };
+            }
+
+            _addressLabels[BurnAddress] = "BURN";
+            _addressInfo[BurnAddress] = new AddressInfo { Label = "BURN", Type = AddressType.Burn };
+
+            // Only a bundle load counts towards the refresh interval
+            var now = DateTime.UtcNow;
+            if (source == "bundle") _lastUpdate = now;
+            _changedAt = now;
+            _version = ComputeVersion(_addressInfo, _entities.Values);
+
+            changes = report
+                ? DiffLabels(before, _addressInfo)
+                    .Select(d =>
                     {
-                        _addressLabels[label.Address] = label.Label ?? label.Name;
-                        _addressInfo[label.Address] = new AddressInfo
-                        {
-                            Label = label.Label ?? label.Name,
-                            Type = AddressType.Known
-                        };
-                    }
-                }
+                        var community = source == "community" && _communityLabels.TryGetValue(d.Address, out var c) ? c : null;
+                        return new LabelChangeDto(
+                            d.Address,
+                            d.Before?.Label, d.Before?.Type.ToString().ToLowerInvariant() ?? "unknown",
+                            d.After?.Label, d.After?.Type.ToString().ToLowerInvariant() ?? "unknown",
+                            source, community?.ProposalId, community?.SourceUrl, _version, now);
+                    })
+                    .ToList()
+                : [];
+        }
+
+        if (changes.Count > 0)
+            LabelsChanged?.Invoke(changes);
+    }
 
-                foreach (var exchange in bundle.Exchanges)
+    private void AddBundle(BundleData bundle)
+    {
+        foreach (var label in bundle.AddressLabels)
+        {
+            if (!string.IsNullOrEmpty(label.Address))
+            {
+                _addressLabels[label.Address] = label.Label ?? label.Name;
+                _addressInfo[label.Address] = new AddressInfo
                 {
-                    if (!string.IsNullOrEmpty(exchange.Address))
-                    {
-                        _addressLabels[exchange.Address] = $"#{exchange.Name}";
-                        _addressInfo[exchange.Address] = new AddressInfo
-                        {
-                            Label = exchange.Name,
-                            Type = AddressType.Exchange
-                        };
-                    }
-                }
+                    Label = label.Label ?? label.Name,
+                    Type = AddressType.Known
+                };
+            }
+        }
 
-                foreach (var contract in bundle.SmartContracts)
+        foreach (var exchange in bundle.Exchanges)
+        {
+            if (!string.IsNullOrEmpty(exchange.Address))
+            {
+                _addressLabels[exchange.Address] = $"#{exchange.Name}";
+                _addressInfo[exchange.Address] = new AddressInfo
                 {
-                    if (!string.IsNullOrEmpty(contract.Address))
-                    {
-                        _addressLabels[contract.Address] = $"[{contract.Name}]";
-                        _addressInfo[contract.Address] = new AddressInfo
-                        {
-                            Label = contract.Name,
-                            Type = AddressType.SmartContract,
-                            ContractIndex = contract.ContractIndex,
-                            Website = contract.Website
-                        };
-
-                        // Store procedures for this contract
-                        if (contract.Procedures != null && contract.Procedures.Count > 0)
-                        {
-                            var procedures = new Dictionary<int, string>();
-                            foreach (var proc in contract.Procedures)
-                            {
-                                procedures[proc.Id] = proc.Name;
-                            }
-                            _contractProcedures[contract.Address] = procedures;
-                        }
-                    }
-                }
+                    Label = exchange.Name,
+                    Type = AddressType.Exchange
+                };
+            }
+        }
 
-                foreach (var token in bundle.Tokens)
+        foreach (var contract in bundle.SmartContracts)
+        {
+            if (!string.IsNullOrEmpty(contract.Address))
+            {
+                _addressLabels[contract.Address] = $"[{contract.Name}]";
+                _addressInfo[contract.Address] = new AddressInfo
+                {
+                    Label = contract.Name,
+                    Type = AddressType.SmartContract,
+                    ContractIndex = contract.ContractIndex,
+                    Website = contract.Website
+                };
+
+                // Store procedures for this contract
+                if (contract.Procedures != null && contract.Procedures.Count > 0)
                 {
-                    if (!string.IsNullOrEmpty(token.Issuer) && !_addressLabels.ContainsKey(token.Issuer))
+                    var procedures = new Dictionary<int, string>();
+                    foreach (var proc in contract.Procedures)
                     {
-                        _addressLabels[token.Issuer] = $"${token.Name} Issuer";
-                        _addressInfo[token.Issuer] = new AddressInfo
-                        {
-                            Label = $"{token.Name} Issuer",
-                            Type = AddressType.TokenIssuer,
-                            Website = token.Website
-                        };
+                        procedures[proc.Id] = proc.Name;
                     }
+                    _contractProcedures[contract.Address] = procedures;
                 }
+            }
+        }
 
-                _addressLabels[BurnAddress] = "BURN";
-                _addressInfo[BurnAddress] = new AddressInfo { Label = "BURN", Type = AddressType.Burn };
-
-                _lastUpdate = DateTime.UtcNow;
+        foreach (var token in bundle.Tokens)
+        {
+            if (!string.IsNullOrEmpty(token.Issuer) && !_addressLabels.ContainsKey(token.Issuer))
+            {
+                _addressLabels[token.Issuer] = $"${token.Name} Issuer";
+                _addressInfo[token.Issuer] = new AddressInfo
+                {
+                    Label = $"{token.Name} Issuer",
+                    Type = AddressType.TokenIssuer,
+                    Website = token.Website
+                };
             }
+        }
+    }
 
-            _logger.LogInformation("Loaded {Count} address labels", _addressLabels.Count);
+    /// <summary>
+    /// Addresses whose label or type differs between two label sets, including
+    /// added and removed ones (null on the missing side).
+    /// </summary>
+    public static List<(string Address, AddressInfo? Before, AddressInfo? After)> DiffLabels(
+        IReadOnlyDictionary<string, AddressInfo> before,
+        IReadOnlyDictionary<string, AddressInfo> after)
+    {
+        var changes = new List<(string, AddressInfo?, AddressInfo?)>();
+        foreach (var (address, info) in after)
+        {
+            before.TryGetValue(address, out var old);
+            if (old == null || old.Label != info.Label || old.Type != info.Type)
+                changes.Add((address, old, info));
         }
-        catch (Exception ex)
+        foreach (var (address, old) in before)
         {
-            _logger.LogError(ex, "Error fetching address labels from {BundleUrl}", _bundleUrl);
+            if (!after.ContainsKey(address))
+                changes.Add((address, old, null));
         }
+        return changes.OrderBy(c => c.Item1, StringComparer.Ordinal).ToList();
     }
 
     public string? GetLabel(string address)
@@ -180,6 +315,39 @@ public class AddressLabelService
         return result;
     }
 
+    public EntityCluster? GetEntity(string id)
+    {
+        lock (_lock)
+        {
+            return _entities.GetValueOrDefault(id);
+        }
+    }
+
+    /// <summary>
+    /// The entity an address was grouped into and its role there, if any.
+    /// </summary>
+    public (EntityCluster Entity, EntityMember Member)? GetEntityMembership(string address)
+    {
+        if (string.IsNullOrEmpty(address))
+            return null;
+
+        lock (_lock)
+        {
+            return _entityMembers.TryGetValue(address, out var membership) ? membership : null;
+        }
+    }
+
+    public DateTime? EntitiesComputedAt
+    {
+        get
+        {
+            lock (_lock)
+            {
+                return _entitiesComputedAt;
+            }
+        }
+    }
+
     public bool IsBurnAddress(string address) =>
         !string.IsNullOrEmpty(address) && BurnAddresses.Contains(address);
 
@@ -236,6 +404,66 @@ public class AddressLabelService
         }
     }
 
+    /// <summary>
+    /// Content hash of the loaded label set, null until labels are loaded.
+    /// Clients compare it with the version they cached labels under; it only
+    /// changes when a refresh actually changes a label.
+    /// </summary>
+    public string? Version
+    {
+        get
+        {
+            lock (_lock)
+            {
+                return _version;
+            }
+        }
+    }
+
+    public DateTime? LastUpdated
+    {
+        get
+        {
+            lock (_lock)
+            {
+                return _changedAt == DateTime.MinValue ? null : _changedAt;
+            }
+        }
+    }
+
+    /// <summary>
+    /// Hash of every address with its label, type, contract index and website,
+    /// and of every entity member with its role, independent of insertion
+    /// order and address case.
+    /// </summary>
+    public static string ComputeVersion(
+        IEnumerable<KeyValuePair<string, AddressInfo>> labels,
+        IEnumerable<EntityCluster>? entities = null)
+    {
+        var builder = new StringBuilder();
+        foreach (var (address, info) in labels.OrderBy(kvp => kvp.Key.ToUpperInvariant(), StringComparer.Ordinal))
+        {
+            builder.Append(address.ToUpperInvariant()).Append('\t')
+                .Append(info.Label).Append('\t')
+                .Append(info.Type).Append('\t')
+                .Append(info.ContractIndex).Append('\t')
+                .Append(info.Website).Append('\n');
+        }
+
+        foreach (var (entity, member) in (entities ?? Enumerable.Empty<EntityCluster>())
+                     .SelectMany(e => e.Members.Select(m => (Entity: e, Member: m)))
+                     .OrderBy(x => x.Member.Address.ToUpperInvariant(), StringComparer.Ordinal))
+        {
+            builder.Append(member.Address.ToUpperInvariant()).Append('\t')
+                .Append(entity.Id).Append('\t')
+                .Append(entity.Label).Append('\t')
+                .Append(member.Role).Append('\n');
+        }
+
+        var hash = SHA256.HashData(Encoding.UTF8.GetBytes(builder.ToString()));
+        return Convert.ToHexString(hash)[..16].ToLowerInvariant();
+    }
+
     public List<AddressInfoDto> GetAllAddresses(string? type = null)
     {
         lock (_lock)
@@ -326,8 +554,75 @@ public class AddressLabelService
                 .ToList();
         }
     }
+
+    /// <summary>
+    /// Labelled addresses starting with the given (partial) identity.
+    /// </summary>
+    public List<AddressInfoDto> SearchByAddressPrefix(string prefix, int maxResults = 10)
+    {
+        if (string.IsNullOrWhiteSpace(prefix))
+            return new List<AddressInfoDto>();
+
+        lock (_lock)
+        {
+            return _addressInfo
+                .Where(kvp => kvp.Key.StartsWith(prefix, StringComparison.OrdinalIgnoreCase))
+                .OrderBy(kvp => kvp.Key, StringComparer.Ordinal)
+                .Take(maxResults)
+                .Select(kvp => new AddressInfoDto
+                {
+                    Address = kvp.Key,
+                    Label = kvp.Value.Label,
+                    Type = kvp.Value.Type.ToString().ToLowerInvariant(),
+                    ContractIndex = kvp.Value.ContractIndex,
+                    Website = kvp.Value.Website
+                })
+                .ToList();
+        }
+    }
+
+    /// <summary>
+    /// Contract procedures whose contract and procedure name together contain
+    /// every search term, so "qx transfer" finds QX TransferShareOwnershipAndPossession.
+    /// </summary>
+    public List<ProcedureMatch> SearchProcedures(string query, int maxResults = 10)
+    {
+        if (string.IsNullOrWhiteSpace(query))
+            return new List<ProcedureMatch>();
+
+        var queryLower = query.ToLowerInvariant();
+        var searchTerms = queryLower.Split(' ', StringSplitOptions.RemoveEmptyEntries);
+
+        lock (_lock)
+        {
+            return _contractProcedures
+                .SelectMany(contract => contract.Value.Select(proc => new ProcedureMatch(
+                    contract.Key,
+                    _addressInfo.TryGetValue(contract.Key, out var info) ? info.Label : contract.Key,
+                    proc.Key,
+                    proc.Value)))
+                .Where(match =>
+                {
+                    var text = $"{match.ContractName} {match.Name}".ToLowerInvariant();
+                    return searchTerms.All(term => text.Contains(term));
+                })
+                .OrderByDescending(match =>
+                {
+                    var name = match.Name.ToLowerInvariant();
+                    if (name == queryLower) return 100;
+                    if (name.StartsWith(queryLower)) return 50;
+                    return 0;
+                })
+                .ThenBy(match => match.Name.Length)
+                .ThenBy(match => match.ContractName)
+                .Take(maxResults)
+                .ToList();
+        }
+    }
 }
 
+public record ProcedureMatch(string ContractAddress, string ContractName, int InputType, string Name);
+
 public class AddressInfoDto
 {
     public string Address { get; set; } = "";
@@ -0,0 +1,40 @@
+using System.Data.Common;
+using QubicExplorer.Shared.DTOs;
+
+namespace QubicExplorer.Shared.Services;
+
+/// <summary>
+/// Reads the approved community labels from label_proposals. The API and the
+/// analytics service both layer them over the label bundle, so each process
+/// reloads them every <see cref="RefreshInterval"/> to pick up reviews made
+/// elsewhere.
+/// </summary>
+public static class CommunityLabelLoader
+{
+    public static readonly TimeSpan RefreshInterval = TimeSpan.FromMinutes(5);
+
+    public static async Task<List<CommunityLabel>> LoadAsync(DbConnection connection, CancellationToken ct = default)
+    {
+        // The latest approval per address wins
+        await using var cmd = connection.CreateCommand();
+        cmd.CommandText = $@"
+            SELECT address,
+                   argMax(label, reviewed_at),
+                   argMax(type, reviewed_at),
+                   argMax(id, reviewed_at),
+                   argMax(source_url, reviewed_at)
+            FROM label_proposals FINAL
+            WHERE status = '{LabelProposalRules.StatusApproved}'
+            GROUP BY address";
+
+        var labels = new List<CommunityLabel>();
+        await using var reader = await cmd.ExecuteReaderAsync(ct);
+        while (await reader.ReadAsync(ct))
+        {
+            labels.Add(new CommunityLabel(
+                reader.GetString(0), reader.GetString(1), reader.GetString(2),
+                reader.GetString(3), reader.GetString(4)));
+        }
+        return labels;
+    }
+}
@@ -0,0 +1,287 @@
+using System.Security.Cryptography;
+using System.Text;
+using QubicExplorer.Shared.DTOs;
+
+namespace QubicExplorer.Shared.Services;
+
+/// <summary>
+/// Groups addresses into entities from transfer patterns. Kept free of I/O so
+/// the analytics job and the tests share the same heuristics:
+///
+///   - Deposits: an address that sends nearly all of its outgoing volume to
+///     one destination in repeated sweeps belongs to that destination.
+///   - Payouts: addresses whose QUTIL SendToMany payouts largely go to the
+///     same recipients are payout wallets of one operator.
+///   - Co-spending: addresses that repeatedly send to the same destination
+///     in the same tick are controlled by one wallet.
+///
+/// Labelled addresses anchor entities and name them. Two entities with
+/// different labels are never merged, and smart contract and burn addresses
+/// never join an entity.
+/// </summary>
+public static class EntityClustering
+{
+    /// <summary>Labelled address the entity is named after</summary>
+    public const string RoleAnchor = "anchor";
+    /// <summary>Sweeps its balance into another member</summary>
+    public const string RoleDeposit = "deposit";
+    /// <summary>Unlabelled address that deposits are swept into</summary>
+    public const string RoleCollector = "collector";
+    /// <summary>Sends SendToMany payouts to the same recipients as another member</summary>
+    public const string RolePayout = "payout";
+    /// <summary>Sends to the same destination in the same tick as another member</summary>
+    public const string RoleCoSpend = "cospend";
+
+    public const int MinSweeps = 2;
+    /// <summary>Share of its outgoing volume a deposit address sends to one destination</summary>
+    public const double MinSweepShare = 0.95;
+    /// <summary>An unlabelled destination needs this many depositors to form an entity</summary>
+    public const int MinDepositorsPerCollector = 3;
+
+    public const int MinSharedRecipients = 5;
+    /// <summary>Shared recipients relative to the smaller of the two recipient sets</summary>
+    public const double MinRecipientOverlap = 0.5;
+    /// <summary>Recipients paid by more senders than this (exchanges, pools) say nothing about the senders</summary>
+    public const int MaxSendersPerRecipient = 50;
+
+    public const int MinCoSpendTicks = 3;
+    /// <summary>Larger same-tick groups are popular destinations rather than one wallet</summary>
+    public const int MaxCoSpendSources = 10;
+
+    /// <summary>
+    /// Outgoing transfers of an address to its main destination over the window.
+    /// </summary>
+    public record SweepStats(string Source, string Destination, uint Transfers, double Share);
+
+    /// <summary>
+    /// Recipients of one SendToMany call.
+    /// </summary>
+    public record PayoutBatch(string Sender, IReadOnlyCollection<string> Recipients);
+
+    /// <summary>
+    /// Addresses that sent to the same destination in one tick.
+    /// </summary>
+    public record CoSpend(ulong Tick, string Destination, IReadOnlyList<string> Sources);
+
+    public static List<EntityCluster> Cluster(
+        Func<string, AddressInfo?> labelOf,
+        IEnumerable<SweepStats> sweeps,
+        IEnumerable<PayoutBatch> payouts,
+        IEnumerable<CoSpend> coSpends)
+    {
+        var sets = new DisjointSets(labelOf);
+
+        // Deposits, grouped by the destination they sweep into
+        foreach (var group in sweeps
+                     .Where(s => s.Transfers >= MinSweeps && s.Share >= MinSweepShare &&
+                                 labelOf(s.Source) == null && sets.CanJoin(s.Destination))
+                     .GroupBy(s => s.Destination))
+        {
+            var depositors = group.ToList();
+            var collectorLabelled = labelOf(group.Key) != null;
+            if (!collectorLabelled && depositors.Count < MinDepositorsPerCollector) continue;
+
+            foreach (var sweep in depositors)
+            {
+                if (!sets.Union(sweep.Source, group.Key)) continue;
+                sets.SetRole(sweep.Source, RoleDeposit, sweep.Transfers);
+                if (!collectorLabelled) sets.SetRole(group.Key, RoleCollector, (uint)depositors.Count);
+            }
+        }
+
+        // Payout wallets sharing recipients
+        var recipientsBySender = new Dictionary<string, HashSet<string>>();
+        foreach (var batch in payouts)
+        {
+            if (!sets.CanJoin(batch.Sender)) continue;
+            if (!recipientsBySender.TryGetValue(batch.Sender, out var recipients))
+                recipientsBySender[batch.Sender] = recipients = [];
+            recipients.UnionWith(batch.Recipients);
+        }
+
+        var sendersByRecipient = new Dictionary<string, List<string>>();
+        foreach (var (sender, recipients) in recipientsBySender)
+        {
+            foreach (var recipient in recipients)
+            {
+                if (!sendersByRecipient.TryGetValue(recipient, out var senders))
+                    sendersByRecipient[recipient] = senders = [];
+                senders.Add(sender);
+            }
+        }
+
+        var shared = new Dictionary<(string, string), uint>();
+        foreach (var senders in sendersByRecipient.Values)
+        {
+            if (senders.Count < 2 || senders.Count > MaxSendersPerRecipient) continue;
+            foreach (var pair in Pairs(senders))
+                shared[pair] = shared.GetValueOrDefault(pair) + 1;
+        }
+
+        foreach (var ((a, b), count) in shared.OrderBy(kvp => kvp.Key))
+        {
+            var smaller = Math.Min(recipientsBySender[a].Count, recipientsBySender[b].Count);
+            if (count < MinSharedRecipients || count < smaller * MinRecipientOverlap) continue;
+            if (!sets.Union(a, b)) continue;
+            sets.SetRole(a, RolePayout, count);
+            sets.SetRole(b, RolePayout, count);
+        }
+
+        // Co-spending, counted once per tick
+        var ticksByPair = new Dictionary<(string, string), HashSet<ulong>>();
+        foreach (var spend in coSpends)
+        {
+            if (!sets.CanJoin(spend.Destination)) continue;
+            var sources = spend.Sources.Where(sets.CanJoin).Distinct().ToList();
+            if (sources.Count < 2 || sources.Count > MaxCoSpendSources) continue;
+
+            foreach (var pair in Pairs(sources))
+            {
+                if (!ticksByPair.TryGetValue(pair, out var ticks))
+                    ticksByPair[pair] = ticks = [];
+                ticks.Add(spend.Tick);
+            }
+        }
+
+        foreach (var ((a, b), ticks) in ticksByPair.OrderBy(kvp => kvp.Key))
+        {
+            if (ticks.Count < MinCoSpendTicks || !sets.Union(a, b)) continue;
+            sets.SetRole(a, RoleCoSpend, (uint)ticks.Count);
+            sets.SetRole(b, RoleCoSpend, (uint)ticks.Count);
+        }
+
+        return sets.ToClusters();
+    }
+
+    /// <summary>
+    /// Stable id of an entity, derived from its anchor or, without one, its
+    /// lowest address so recomputing keeps the id while that address stays in.
+    /// </summary>
+    public static string EntityId(string seedAddress)
+    {
+        var hash = SHA256.HashData(Encoding.UTF8.GetBytes(seedAddress.ToUpperInvariant()));
+        return Convert.ToHexString(hash)[..16].ToLowerInvariant();
+    }
+
+    private static IEnumerable<(string, string)> Pairs(List<string> addresses)
+    {
+        var sorted = addresses.Distinct().Order(StringComparer.Ordinal).ToList();
+        for (var i = 0; i < sorted.Count; i++)
+            for (var j = i + 1; j < sorted.Count; j++)
+                yield return (sorted[i], sorted[j]);
+    }
+
+    /// <summary>
+    /// Union-find over addresses that refuses to merge two sets anchored by
+    /// different labels. Unions by size and finds iteratively, as one exchange
+    /// can have tens of thousands of deposit addresses.
+    /// </summary>
+    private class DisjointSets
+    {
+        private readonly Func<string, AddressInfo?> _labelOf;
+        private readonly Dictionary<string, string> _parent = new();
+        // Root -> number of addresses in its set
+        private readonly Dictionary<string, int> _sizes = new();
+        // Root -> lowest labelled address in its set
+        private readonly Dictionary<string, string> _anchors = new();
+        private readonly Dictionary<string, (string Role, uint Evidence)> _roles = new();
+
+        public DisjointSets(Func<string, AddressInfo?> labelOf) => _labelOf = labelOf;
+
+        public bool CanJoin(string address)
+        {
+            var info = _labelOf(address);
+            return info == null || (info.Type != AddressType.SmartContract && info.Type != AddressType.Burn);
+        }
+
+        public bool Union(string a, string b)
+        {
+            if (!CanJoin(a) || !CanJoin(b)) return false;
+
+            var rootA = Find(a);
+            var rootB = Find(b);
+            if (rootA == rootB) return true;
+
+            _anchors.TryGetValue(rootA, out var anchorA);
+            _anchors.TryGetValue(rootB, out var anchorB);
+            if (anchorA != null && anchorB != null)
+            {
+                var infoA = _labelOf(anchorA)!;
+                var infoB = _labelOf(anchorB)!;
+                if (infoA.Label != infoB.Label || infoA.Type != infoB.Type) return false;
+            }
+
+            // Attach the smaller set so trees stay shallow
+            if (_sizes[rootA] < _sizes[rootB]) (rootA, rootB) = (rootB, rootA);
+            _parent[rootB] = rootA;
+            _sizes[rootA] += _sizes[rootB];
+            _sizes.Remove(rootB);
+            _anchors.Remove(rootB);
+
+            // Keep the lowest anchor so the entity id does not depend on merge order
+            var anchor = anchorA == null ? anchorB
+                : anchorB == null ? anchorA
+                : string.CompareOrdinal(anchorA, anchorB) <= 0 ? anchorA : anchorB;
+            if (anchor != null) _anchors[rootA] = anchor;
+            return true;
+        }
+
+        public void SetRole(string address, string role, uint evidence) => _roles.TryAdd(address, (role, evidence));
+
+        public List<EntityCluster> ToClusters()
+        {
+            return _parent.Keys.ToList()
+                .GroupBy(Find)
+                .Where(g => g.Count() >= 2)
+                .Select(g =>
+                {
+                    var anchor = _anchors.GetValueOrDefault(g.Key);
+                    var anchorInfo = anchor != null ? _labelOf(anchor) : null;
+
+                    var members = g
+                        .Select(address =>
+                        {
+                            if (_labelOf(address) != null) return new EntityMember(address, RoleAnchor, 0);
+                            var (role, evidence) = _roles.TryGetValue(address, out var r) ? r : (RoleCoSpend, 0u);
+                            return new EntityMember(address, role, evidence);
+                        })
+                        .OrderBy(m => m.Role != RoleAnchor)
+                        .ThenBy(m => m.Role, StringComparer.Ordinal)
+                        .ThenBy(m => m.Address, StringComparer.Ordinal)
+                        .ToList();
+
+                    return new EntityCluster(
+                        EntityId(anchor ?? g.Min(StringComparer.Ordinal)!),
+                        anchorInfo?.Label,
+                        anchorInfo?.Type.ToString().ToLowerInvariant() ?? "unknown",
+                        members);
+                })
+                .OrderByDescending(c => c.Members.Count)
+                .ThenBy(c => c.Id, StringComparer.Ordinal)
+                .ToList();
+        }
+
+        private string Find(string address)
+        {
+            if (!_parent.ContainsKey(address))
+            {
+                _parent[address] = address;
+                _sizes[address] = 1;
+                if (_labelOf(address) != null) _anchors[address] = address;
+                return address;
+            }
+
+            var root = address;
+            while (_parent[root] != root) root = _parent[root];
+
+            // Path compression
+            while (address != root)
+            {
+                var next = _parent[address];
+                _parent[address] = root;
+                address = next;
+            }
+            return root;
+        }
+    }
+}
@@ -0,0 +1,66 @@
+using System.Data.Common;
+using QubicExplorer.Shared.DTOs;
+
+namespace QubicExplorer.Shared.Services;
+
+/// <summary>
+/// Reads the latest clustering run from entity_members, where the analytics
+/// service writes each run as a snapshot under its computed_at and then
+/// records it in entity_runs once every row is written.
+/// </summary>
+public static class EntitySnapshotLoader
+{
+    /// <summary>
+    /// Subquery for the computed_at of the latest completely written run
+    /// </summary>
+    public const string LatestRunComputedAt = "(SELECT max(computed_at) FROM entity_runs)";
+
+    /// <summary>
+    /// When the latest complete run was computed, or null when nothing has been stored yet.
+    /// </summary>
+    public static async Task<DateTime?> GetLatestComputedAtAsync(DbConnection connection, CancellationToken ct = default)
+    {
+        await using var cmd = connection.CreateCommand();
+        cmd.CommandText = "SELECT computed_at FROM entity_runs ORDER BY computed_at DESC LIMIT 1";
+        return await cmd.ExecuteScalarAsync(ct) is DateTime computedAt ? computedAt : null;
+    }
+
+    /// <summary>
+    /// The entities of the latest complete run and when it was computed, or
+    /// null when nothing has been stored yet.
+    /// </summary>
+    public static async Task<(List<EntityCluster> Entities, DateTime ComputedAt)?> LoadLatestAsync(
+        DbConnection connection, CancellationToken ct = default)
+    {
+        await using var cmd = connection.CreateCommand();
+        cmd.CommandText = $@"
+            SELECT computed_at, entity_id, entity_label, entity_type, address, role, evidence
+            FROM entity_members
+            WHERE computed_at = {LatestRunComputedAt}
+            ORDER BY entity_id, address";
+
+        DateTime? computedAt = null;
+        var rows = new List<(string Id, string Label, string Type, EntityMember Member)>();
+        await using (var reader = await cmd.ExecuteReaderAsync(ct))
+        {
+            while (await reader.ReadAsync(ct))
+            {
+                computedAt = reader.GetDateTime(0);
+                rows.Add((reader.GetString(1), reader.GetString(2), reader.GetString(3),
+                    new EntityMember(reader.GetString(4), reader.GetString(5), reader.GetFieldValue<uint>(6))));
+            }
+        }
+
+        if (computedAt == null) return null;
+
+        var entities = rows
+            .GroupBy(r => r.Id)
+            .Select(g => new EntityCluster(
+                g.Key,
+                string.IsNullOrEmpty(g.First().Label) ? null : g.First().Label,
+                g.First().Type,
+                g.Select(r => r.Member).ToList()))
+            .ToList();
+        return (entities, computedAt.Value);
+    }
+}
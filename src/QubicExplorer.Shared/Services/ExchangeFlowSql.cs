@@ -0,0 +1,32 @@
+namespace QubicExplorer.Shared.Services;
+
+/// <summary>
+/// Filters for the exchange flow queries of the API and the analytics
+/// service. Deposit addresses clustered into exchange entities count as the
+/// exchange and their sweeps into it are internal. They are read from the
+/// latest complete entity_members run inside the query, as there can be too many to
+/// inline; the labelled exchange addresses are bound to
+/// <c>{exchanges:Array(String)}</c>.
+/// </summary>
+public static class ExchangeFlowSql
+{
+    public const string ExchangesParam = "exchanges";
+
+    /// <summary>
+    /// Members of exchange entities that were not labelled when clustered
+    /// (labelled members are the anchors).
+    /// </summary>
+    public const string DepositAddresses = $"""
+        SELECT address FROM entity_members
+        WHERE computed_at = {EntitySnapshotLoader.LatestRunComputedAt}
+          AND entity_type = 'exchange' AND role != '{EntityClustering.RoleAnchor}'
+        """;
+
+    /// <summary>Whether an address column is a labelled exchange address or one of its deposit addresses</summary>
+    public static string IsExchange(string column) =>
+        $"({column} IN {{{ExchangesParam}:Array(String)}} OR {column} IN ({DepositAddresses}))";
+
+    /// <summary>Excludes sweeps from deposit addresses into the exchange</summary>
+    public static readonly string NotInternalSweep =
+        $"NOT (source_address IN ({DepositAddresses}) AND {IsExchange("dest_address")})";
+}
@@ -0,0 +1,70 @@
+using System.Text.RegularExpressions;
+using QubicExplorer.Shared.DTOs;
+
+namespace QubicExplorer.Shared.Services;
+
+/// <summary>
+/// Validation and limits for community label proposals. Kept free of I/O so
+/// the submit endpoint and the review endpoints share the same checks.
+/// </summary>
+public static partial class LabelProposalRules
+{
+    public const string StatusPending = "pending";
+    public const string StatusApproved = "approved";
+    public const string StatusRejected = "rejected";
+    public const string StatusRevoked = "revoked";
+
+    public const int MaxLabelLength = 64;
+    public const int MaxUrlLength = 512;
+    public const int MaxCommentLength = 500;
+    public const int MaxNoteLength = 500;
+
+    /// <summary>Open proposals allowed per address before new ones are refused</summary>
+    public const int MaxPendingPerAddress = 5;
+
+    /// <summary>Proposals one submitter may send per day</summary>
+    public const int MaxPerSubmitterPerDay = 20;
+
+    /// <summary>Types users may propose; contracts and burn addresses come from the protocol</summary>
+    public static readonly string[] Types = ["known", "exchange", "tokenissuer"];
+
+    private static readonly AddressType[] ProtectedTypes = [AddressType.SmartContract, AddressType.Burn];
+
+    public static bool IsValidAddress(string? address) =>
+        !string.IsNullOrEmpty(address) && AddressPattern().IsMatch(address);
+
+    /// <summary>
+    /// Whether a label of this type may replace the address's current label.
+    /// </summary>
+    public static bool CanRelabel(AddressInfo? current) =>
+        current == null || !ProtectedTypes.Contains(current.Type);
+
+    /// <summary>
+    /// Validate a proposal; returns the first problem found, or null.
+    /// </summary>
+    public static string? Validate(LabelProposalRequest request, AddressInfo? current)
+    {
+        if (!IsValidAddress(request.Address)) return "Address must be 60 uppercase letters";
+        if (string.IsNullOrWhiteSpace(request.Label)) return "A label is required";
+        if (request.Label.Trim().Length > MaxLabelLength) return $"Label exceeds {MaxLabelLength} characters";
+        if (!Types.Contains(request.Type)) return $"Unknown type '{request.Type}'";
+        if (string.IsNullOrWhiteSpace(request.SourceUrl)) return "A source URL is required";
+        if (request.SourceUrl.Length > MaxUrlLength) return $"Source URL exceeds {MaxUrlLength} characters";
+        if (!Uri.TryCreate(request.SourceUrl.Trim(), UriKind.Absolute, out var uri) ||
+            (uri.Scheme != Uri.UriSchemeHttps && uri.Scheme != Uri.UriSchemeHttp))
+            return "Source URL must be an http(s) URL";
+        if (request.Comment is { Length: > MaxCommentLength }) return $"Comment exceeds {MaxCommentLength} characters";
+        if (!CanRelabel(current)) return "Smart contract and burn addresses cannot be relabeled";
+        if (current != null &&
+            string.Equals(current.Label, request.Label.Trim(), StringComparison.Ordinal) &&
+            string.Equals(current.Type.ToString(), request.Type, StringComparison.OrdinalIgnoreCase))
+            return "The address already has this label";
+        return null;
+    }
+
+    public static AddressType ParseType(string type) =>
+        Enum.TryParse<AddressType>(type, true, out var parsed) ? parsed : AddressType.Known;
+
+    [GeneratedRegex("^[A-Z]{60}$")]
+    private static partial Regex AddressPattern();
+}
@@ -0,0 +1,134 @@
+using System.Globalization;
+using QubicExplorer.Shared.DTOs;
+
+namespace QubicExplorer.Shared.Services;
+
+/// <summary>
+/// Evaluates push notification rules against transfers and balance changes.
+/// Kept free of I/O so the address monitor and the subscribe endpoint share
+/// the same matching and validation.
+/// </summary>
+public static class NotificationRuleEvaluator
+{
+    public const string TriggerTransfer = "transfer";
+    public const string TriggerBalanceBelow = "balance_below";
+    public const string TriggerBalanceAbove = "balance_above";
+
+    public const int MaxRules = 50;
+
+    private static readonly string[] Triggers = [TriggerTransfer, TriggerBalanceBelow, TriggerBalanceAbove];
+    private static readonly string[] Directions = ["any", "incoming", "outgoing"];
+    private static readonly string[] CounterpartyTypes = ["exchange", "smartcontract", "tokenissuer", "burn", "known", "unknown"];
+
+    /// <summary>
+    /// Whether the rule applies to the address at all (enabled and in scope).
+    /// </summary>
+    public static bool AppliesTo(NotificationRuleDto rule, string address) =>
+        rule.Enabled && (rule.Addresses == null || rule.Addresses.Count == 0 || rule.Addresses.Contains(address));
+
+    /// <summary>
+    /// Whether a transfer rule matches the event. Quiet hours are not checked here.
+    /// </summary>
+    public static bool MatchesTransfer(NotificationRuleDto rule, NotificationTransferEvent e)
+    {
+        if (rule.Trigger != TriggerTransfer || !AppliesTo(rule, e.Address)) return false;
+        if (rule.Direction != "any" && rule.Direction != e.Direction) return false;
+        if (rule.MinAmount.HasValue && e.Amount < rule.MinAmount.Value) return false;
+        if (rule.MaxAmount.HasValue && e.Amount > rule.MaxAmount.Value) return false;
+        if (rule.CounterpartyTypes is { Count: > 0 } && !rule.CounterpartyTypes.Contains(e.CounterpartyType)) return false;
+        if (!string.IsNullOrEmpty(rule.AssetName) &&
+            !string.Equals(rule.AssetName, e.AssetName, StringComparison.OrdinalIgnoreCase)) return false;
+        if (!string.IsNullOrEmpty(rule.ContractAddress) && rule.ContractAddress != e.ContractAddress) return false;
+        if (rule.InputType.HasValue && rule.InputType != e.InputType) return false;
+        return true;
+    }
+
+    /// <summary>
+    /// Whether a balance rule's threshold was crossed between two balances.
+    /// </summary>
+    public static bool MatchesBalance(NotificationRuleDto rule, string address, ulong previous, ulong current)
+    {
+        if (!AppliesTo(rule, address) || rule.BalanceThreshold is not { } threshold) return false;
+        return rule.Trigger switch
+        {
+            TriggerBalanceBelow => current < threshold && previous >= threshold,
+            TriggerBalanceAbove => current > threshold && previous <= threshold,
+            _ => false
+        };
+    }
+
+    /// <summary>
+    /// Whether the given instant falls in the rule's quiet hours.
+    /// </summary>
+    public static bool IsQuiet(QuietHoursDto? quietHours, DateTime utcNow)
+    {
+        if (quietHours == null ||
+            !TryParseTime(quietHours.Start, out var start) ||
+            !TryParseTime(quietHours.End, out var end) ||
+            !TimeZoneInfo.TryFindSystemTimeZoneById(quietHours.TimeZone, out var zone))
+            return false;
+
+        var local = TimeOnly.FromDateTime(TimeZoneInfo.ConvertTimeFromUtc(utcNow, zone));
+        return start <= end
+            ? local >= start && local < end
+            : local >= start || local < end; // wraps past midnight
+    }
+
+    /// <summary>
+    /// Validate a rule set; returns the first problem found, or null.
+    /// </summary>
+    public static string? Validate(IReadOnlyList<NotificationRuleDto> rules)
+    {
+        if (rules.Count > MaxRules) return $"Maximum {MaxRules} rules per subscription";
+
+        foreach (var rule in rules)
+        {
+            var name = string.IsNullOrWhiteSpace(rule.Name) ? rule.Id : rule.Name;
+            if (string.IsNullOrWhiteSpace(rule.Id)) return "Every rule needs an id";
+            if (!Triggers.Contains(rule.Trigger)) return $"Rule '{name}': unknown trigger '{rule.Trigger}'";
+            if (!Directions.Contains(rule.Direction)) return $"Rule '{name}': unknown direction '{rule.Direction}'";
+            if (rule.MinAmount > rule.MaxAmount) return $"Rule '{name}': minimum amount is above the maximum";
+            if (rule.Trigger != TriggerTransfer && rule.BalanceThreshold is null or 0)
+                return $"Rule '{name}': a balance threshold is required";
+            if (rule.CounterpartyTypes?.FirstOrDefault(t => !CounterpartyTypes.Contains(t)) is { } type)
+                return $"Rule '{name}': unknown counterparty type '{type}'";
+            if (rule.QuietHours is { } quiet)
+            {
+                if (!TryParseTime(quiet.Start, out _) || !TryParseTime(quiet.End, out _))
+                    return $"Rule '{name}': quiet hours must be HH:mm";
+                if (!TimeZoneInfo.TryFindSystemTimeZoneById(quiet.TimeZone, out _))
+                    return $"Rule '{name}': unknown time zone '{quiet.TimeZone}'";
+            }
+        }
+        return null;
+    }
+
+    /// <summary>
+    /// Rules equivalent to the fixed event types and thresholds that
+    /// subscriptions used before rules existed.
+    /// </summary>
+    public static List<NotificationRuleDto> FromLegacyPreferences(
+        IEnumerable<string> events, ulong largeTransferThreshold, ulong balanceMinThreshold, ulong balanceMaxThreshold)
+    {
+        var set = events.ToHashSet();
+        var rules = new List<NotificationRuleDto>();
+
+        // Large transfers first so they get the more specific title
+        if (set.Contains("large_transfer"))
+            rules.Add(new("large_transfer", "Large Transfer Detected", true, TriggerTransfer,
+                MinAmount: largeTransferThreshold, AssetName: "QU"));
+        if (set.Contains("incoming"))
+            rules.Add(new("incoming", "Incoming Transfer", true, TriggerTransfer, Direction: "incoming", AssetName: "QU"));
+        if (set.Contains("outgoing"))
+            rules.Add(new("outgoing", "Outgoing Transfer", true, TriggerTransfer, Direction: "outgoing", AssetName: "QU"));
+        if (set.Contains("balance_threshold") && balanceMinThreshold > 0)
+            rules.Add(new("balance_min", "Balance Below Minimum", true, TriggerBalanceBelow, BalanceThreshold: balanceMinThreshold));
+        if (set.Contains("balance_threshold") && balanceMaxThreshold > 0)
+            rules.Add(new("balance_max", "Balance Above Maximum", true, TriggerBalanceAbove, BalanceThreshold: balanceMaxThreshold));
+
+        return rules;
+    }
+
+    private static bool TryParseTime(string value, out TimeOnly time) =>
+        TimeOnly.TryParseExact(value, "HH:mm", CultureInfo.InvariantCulture, DateTimeStyles.None, out time);
+}
@@ -0,0 +1,107 @@
+using System.Net;
+using System.Net.Sockets;
+using System.Security.Cryptography;
+using System.Text;
+using QubicExplorer.Shared.DTOs;
+
+namespace QubicExplorer.Shared.Services;
+
+/// <summary>
+/// How webhook requests are signed, retried and validated. Receivers verify
+/// <c>X-QLI-Signature</c>, which is <c>sha256=</c> followed by the hex
+/// HMAC-SHA256 of <c>"{X-QLI-Timestamp}.{body}"</c> keyed with the target's secret.
+/// </summary>
+public static class WebhookProtocol
+{
+    public const string SignatureHeader = "X-QLI-Signature";
+    public const string TimestampHeader = "X-QLI-Timestamp";
+    public const string EventHeader = "X-QLI-Event";
+    public const string DeliveryHeader = "X-QLI-Delivery";
+
+    public const int MaxTargets = 5;
+    public const int MinSecretLength = 16;
+    public const int MaxSecretLength = 128;
+
+    /// <summary>
+    /// Wait before each retry; the first attempt is immediate.
+    /// </summary>
+    private static readonly TimeSpan[] RetryDelays =
+    [
+        TimeSpan.FromSeconds(10),
+        TimeSpan.FromSeconds(30),
+        TimeSpan.FromMinutes(2),
+        TimeSpan.FromMinutes(10)
+    ];
+
+    public static int MaxAttempts => RetryDelays.Length + 1;
+
+    public static string Sign(string secret, long timestamp, string body)
+    {
+        var hash = HMACSHA256.HashData(Encoding.UTF8.GetBytes(secret), Encoding.UTF8.GetBytes($"{timestamp}.{body}"));
+        return "sha256=" + Convert.ToHexString(hash).ToLowerInvariant();
+    }
+
+    public static bool Verify(string secret, long timestamp, string body, string signature) =>
+        CryptographicOperations.FixedTimeEquals(
+            Encoding.ASCII.GetBytes(Sign(secret, timestamp, body)),
+            Encoding.ASCII.GetBytes(signature));
+
+    /// <summary>
+    /// Delay before the attempt after <paramref name="attempt"/> (1-based), or
+    /// null when no attempts are left.
+    /// </summary>
+    public static TimeSpan? GetRetryDelay(int attempt) =>
+        attempt >= 1 && attempt <= RetryDelays.Length ? RetryDelays[attempt - 1] : null;
+
+    /// <summary>
+    /// Whether a failed response is worth retrying: timeouts, rate limits and
+    /// server errors are, other client errors are not.
+    /// </summary>
+    public static bool IsRetryable(int statusCode) =>
+        statusCode == 0 || statusCode == 408 || statusCode == 429 || statusCode >= 500;
+
+    /// <summary>
+    /// Loopback, private, link-local and similar addresses that webhooks may
+    /// not reach unless explicitly allowed.
+    /// </summary>
+    public static bool IsPrivateAddress(IPAddress address)
+    {
+        if (address.IsIPv4MappedToIPv6) address = address.MapToIPv4();
+        if (IPAddress.IsLoopback(address)) return true;
+
+        if (address.AddressFamily == AddressFamily.InterNetwork)
+        {
+            var b = address.GetAddressBytes();
+            return b[0] == 0 || b[0] == 10 ||
+                   (b[0] == 100 && b[1] >= 64 && b[1] < 128) || // carrier-grade NAT
+                   (b[0] == 169 && b[1] == 254) ||
+                   (b[0] == 172 && b[1] >= 16 && b[1] < 32) ||
+                   (b[0] == 192 && b[1] == 168);
+        }
+
+        return address.IsIPv6LinkLocal || address.IsIPv6SiteLocal || address.IsIPv6UniqueLocal ||
+               address.Equals(IPAddress.IPv6None);
+    }
+
+    /// <summary>
+    /// Validate webhook targets; returns the first problem found, or null.
+    /// </summary>
+    public static string? Validate(IReadOnlyList<WebhookTargetDto> targets)
+    {
+        if (targets.Count > MaxTargets) return $"Maximum {MaxTargets} webhooks per subscription";
+        if (targets.Select(t => t.Id).Distinct().Count() != targets.Count) return "Webhook ids must be unique";
+
+        foreach (var target in targets)
+        {
+            if (string.IsNullOrWhiteSpace(target.Id)) return "Every webhook needs an id";
+            if (!Uri.TryCreate(target.Url, UriKind.Absolute, out var uri) ||
+                (uri.Scheme != Uri.UriSchemeHttps && uri.Scheme != Uri.UriSchemeHttp))
+                return $"Webhook '{target.Url}': URL must be absolute http or https";
+            if (!string.IsNullOrEmpty(uri.UserInfo))
+                return $"Webhook '{target.Url}': credentials in the URL are not allowed";
+            if (target.Secret.Length is < MinSecretLength or > MaxSecretLength)
+                return $"Webhook '{target.Url}': secret must be {MinSecretLength}-{MaxSecretLength} characters";
+        }
+        return null;
+    }
+}
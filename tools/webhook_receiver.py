@@ -0,0 +1,88 @@
+#!/usr/bin/env python3
+"""
+Local webhook receiver for testing notification webhooks offline.
+
+Listens for POST requests, verifies the X-QLI-Signature header against the
+shared secret and prints every event. With --fail-rate a share of requests is
+answered with 503 to exercise the API's retries.
+
+Usage:
+    python3 webhook_receiver.py --secret <secret> [--port 8787] [--fail-rate 0.5]
+
+Example:
+    python3 webhook_receiver.py --secret 0123456789abcdef
+    # then add http://localhost:8787/hook as a webhook; the API needs
+    # Webhooks__AllowPrivateNetworks=true to reach it
+"""
+import argparse
+import hashlib
+import hmac
+import json
+import random
+import time
+from http.server import BaseHTTPRequestHandler, ThreadingHTTPServer
+
+# Requests older than this are rejected as possible replays
+MAX_AGE_SECONDS = 300
+
+
+def verify(secret: str, timestamp: str, body: bytes, signature: str) -> bool:
+    expected = "sha256=" + hmac.new(
+        secret.encode(), timestamp.encode() + b"." + body, hashlib.sha256
+    ).hexdigest()
+    return hmac.compare_digest(expected, signature)
+
+
+def make_handler(secret: str, fail_rate: float):
+    class Handler(BaseHTTPRequestHandler):
+        def do_POST(self):
+            body = self.rfile.read(int(self.headers.get("Content-Length", 0)))
+            timestamp = self.headers.get("X-QLI-Timestamp", "")
+            signature = self.headers.get("X-QLI-Signature", "")
+            event_type = self.headers.get("X-QLI-Event", "?")
+            delivery = self.headers.get("X-QLI-Delivery", "?")
+
+            if not timestamp.isdigit() or abs(time.time() - int(timestamp)) > MAX_AGE_SECONDS:
+                return self.reply(400, "stale or missing timestamp")
+            if not verify(secret, timestamp, body, signature):
+                return self.reply(401, "bad signature")
+            if random.random() < fail_rate:
+                print(f"[{delivery}] {event_type}: answering 503 (simulated failure)")
+                return self.reply(503, "simulated failure")
+
+            event = json.loads(body)
+            print(f"[{delivery}] {event_type}: {event.get('title')} - {event.get('body')}")
+            print(json.dumps(event, indent=2))
+            self.reply(200, "ok")
+
+        def reply(self, status: int, message: str):
+            data = message.encode()
+            self.send_response(status)
+            self.send_header("Content-Type", "text/plain")
+            self.send_header("Content-Length", str(len(data)))
+            self.end_headers()
+            self.wfile.write(data)
+
+        def log_message(self, fmt, *args):
+            pass  # events are printed above
+
+    return Handler
+
+
+def main():
+    parser = argparse.ArgumentParser(description="Local receiver for QLI notification webhooks")
+    parser.add_argument("--secret", required=True, help="Webhook secret (as configured on the target)")
+    parser.add_argument("--port", type=int, default=8787, help="Port to listen on (default 8787)")
+    parser.add_argument("--fail-rate", type=float, default=0.0, help="Share of requests answered with 503")
+    args = parser.parse_args()
+
+    server = ThreadingHTTPServer(("0.0.0.0", args.port), make_handler(args.secret, args.fail_rate))
+    print(f"Listening on http://localhost:{args.port}/ (Ctrl+C to stop)")
+    try:
+        server.serve_forever()
+    except KeyboardInterrupt:
+        pass
+
+
+if __name__ == "__main__":
+    main()